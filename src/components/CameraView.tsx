@@ -1,64 +1,271 @@
-import { useRef, useEffect, useState, useCallback } from 'react';
+import { useRef, useEffect, useState, useCallback, useMemo, forwardRef, useImperativeHandle } from 'react';
 import { Camera, Eye, AlertTriangle, Users, Car, TreePine, Volume2, Loader } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Card } from '@/components/ui/card';
 import { toast } from 'sonner';
 import { useYOLODetection } from '@/hooks/useYOLODetection';
+import { TrackEventType } from '@/utils/objectTracker';
+import { useEarcons } from '@/hooks/useEarcons';
 import { DetectionCanvas } from './DetectionCanvas';
+import { Translate, MessageKey, countObjects, joinList, translateObjectLabel } from '@/utils/i18n';
+import { Speak, SpeakOptions } from '@/utils/speechQueue';
+import { Haptic } from '@/utils/haptics';
+import { placeDetection } from '@/utils/earcons';
+import { SpeechFormatter } from '@/utils/speechFormat';
+import { DistanceEstimate, estimateDistance, roundDistance } from '@/utils/distanceEstimation';
+import { DistanceCalibration } from './DistanceCalibration';
+import { useCompassHeading } from '@/hooks/useCompassHeading';
+import { requestCompassPermission } from '@/utils/compass';
+import { DirectionStyle, describeDirection, frameOffsetDeg, relativeOffsetDeg } from '@/utils/directions';
+import { TrackedObject } from '@/utils/objectTracker';
+import { HazardLevel, assessHazards, createHazardMonitor, highestHazardLevel } from '@/utils/hazards';
+import { playHazardImminentCue, playHazardWarningCue } from '@/utils/audioCues';
+import { useObjectSearch } from '@/hooks/useObjectSearch';
 
 interface CameraViewProps {
-  speak: (text: string) => void;
+  speak: Speak;
+  haptic: Haptic;
+  t: Translate;
+  lang: string;
   detectedObjects: string[];
   onDetectedObjects: (objects: string[]) => void;
   isActive: boolean;
   onActiveChange: (active: boolean) => void;
+  earconsEnabled: boolean;
+  earconVolume: number;
+  format: SpeechFormatter;
+  cameraFovDeg: number | null; // calibrated field of view; null uses a typical phone's
+  onCameraFovChange: (fovDeg: number | null) => void;
+  directionStyle: DirectionStyle;
+  onHazardChange: (level: HazardLevel) => void; // highest hazard in view; "none" while the camera is off
+  searchTarget: string | null; // detection class being searched for
+  onSearchTargetChange: (target: string | null) => void;
+  inBackground: boolean; // another mode is showing; detection and hazard warnings carry on unseen
 }
 
-export const CameraView = ({
+// Scene descriptions are background information; each one replaces the last
+const SCENE_SPEECH: SpeakOptions = { priority: 'ambient', key: 'camera.scene' };
+
+// Something getting closer matters more than the scene; repeated warnings replace each other
+const APPROACH_SPEECH: SpeakOptions = { priority: 'info', key: 'camera.approaching' };
+
+// About to walk into something: said at once, over anything else
+const IMMINENT_SPEECH: SpeakOptions = { priority: 'critical', key: 'camera.hazard' };
+
+// Worth slowing down for, but not worth cutting off directions
+const WARNING_SPEECH: SpeakOptions = { priority: 'info', key: 'camera.hazard' };
+
+// Ending a search replaces any hint still waiting to be said
+const SEARCH_END_SPEECH: SpeakOptions = { key: 'camera.search' };
+
+// Download progress replaces itself rather than queueing a string of percentages
+const LOADING_SPEECH: SpeakOptions = { key: 'camera.loading' };
+
+// Spoken download progress steps, in percent
+const PROGRESS_STEP = 25;
+
+export type CameraCommand = 'analyze' | 'describe' | 'repeat-description' | 'distance' | 'stop-search' | 'stop';
+
+// Distances are given for this many objects, nearest first
+const MAX_SPOKEN_DISTANCES = 3;
+
+// A scene description names where each of this many objects is
+const MAX_DESCRIBED_OBJECTS = 5;
+
+// Objects in one sentence are separated more strongly than the direction and distance within each
+const OBJECT_SEPARATOR = '; ';
+
+// Lets voice commands reach the camera view while it is mounted
+export interface CameraViewHandle {
+  handleCommand: (command: CameraCommand) => void;
+}
+
+export const CameraView = forwardRef<CameraViewHandle, CameraViewProps>(({
   speak,
+  haptic,
+  t,
+  lang,
   detectedObjects,
   onDetectedObjects,
   isActive,
   onActiveChange,
-}: CameraViewProps) => {
+  earconsEnabled,
+  earconVolume,
+  format,
+  cameraFovDeg,
+  onCameraFovChange,
+  directionStyle,
+  onHazardChange,
+  searchTarget,
+  onSearchTargetChange,
+  inBackground,
+}, ref) => {
   const [lastDescription, setLastDescription] = useState('');
   const [stream, setStream] = useState<MediaStream | null>(null);
   const videoRef = useRef<HTMLVideoElement>(null);
 
   // Use YOLO object detection
-  const { detections, isLoading } = useYOLODetection(videoRef, isActive);
+  const { tracks, trackEvents, frameSize, isLoading, loadProgress, loadError, stats } = useYOLODetection(videoRef, isActive);
+
+  const distances = useMemo(() => {
+    const estimates = new Map<number, DistanceEstimate>();
+    if (!frameSize) return estimates;
+    for (const track of tracks) {
+      const estimate = estimateDistance(track, frameSize, cameraFovDeg ?? undefined);
+      if (estimate) estimates.set(track.id, estimate);
+    }
+    return estimates;
+  }, [tracks, frameSize, cameraFovDeg]);
 
-  // Memoize the speak function to prevent unnecessary re-renders
-  const speakCallback = useCallback(speak, []);
+  // "about 3 meters", or "within 2 meters" when the object runs off the frame
+  const describeDistance = useCallback((estimate: DistanceEstimate) => {
+    const distance = format.distance(roundDistance(estimate.meters));
+    return estimate.clipped ? t('camera.distanceWithin', { distance }) : t('camera.distanceAbout', { distance });
+  }, [format, t]);
 
-  // When detected objects change, show labels and give spoken description
+  const hazards = useMemo(() => (frameSize ? assessHazards(tracks, frameSize, distances) : []), [tracks, frameSize, distances]);
+  // While searching, only the kind of object being looked for is shown and described; hazards still cover everything
+  const shownTracks = useMemo(() => (searchTarget ? tracks.filter(track => track.label === searchTarget) : tracks), [tracks, searchTarget]);
+  const hazardsById = useMemo(() => new Map(hazards.map(hazard => [hazard.track.id, hazard])), [hazards]);
+
+  // Most dangerous first; among equally harmless objects, the largest, which are usually nearest
+  const byDanger = useMemo(() => {
+    const score = (track: TrackedObject) => hazardsById.get(track.id)?.score ?? 0;
+    const area = (track: TrackedObject) => track.bbox[2] * track.bbox[3];
+    return (a: TrackedObject, b: TrackedObject) => score(b) - score(a) || area(b) - area(a);
+  }, [hazardsById]);
+  const byDangerRef = useRef(byDanger);
+  byDangerRef.current = byDanger;
+
+  // Heading when the current tracks were captured, so directions can allow for turning since
+  const { getHeading } = useCompassHeading(isActive);
+  const tracksHeadingRef = useRef<number | null>(null);
   useEffect(() => {
-    if (!isActive || detections.length === 0) {
-      if (isActive && !isLoading) {
-        onDetectedObjects([]);
-        if (lastDescription !== 'No objects detected at the moment.') {
-          setLastDescription('No objects detected at the moment.');
-        }
-      }
-      return;
-    }
+    tracksHeadingRef.current = getHeading();
+  }, [tracks, getHeading]);
+
+  // "person at 11 o'clock, about 3 meters"
+  const describeTrack = useCallback((track: TrackedObject) => {
+    if (!frameSize) return translateObjectLabel(lang, track.label);
+    const currentHeading = getHeading();
+    const offset = relativeOffsetDeg(frameOffsetDeg(track.bbox, frameSize, cameraFovDeg ?? undefined), tracksHeadingRef.current, currentHeading);
+    const direction = describeDirection(offset, directionStyle, t, currentHeading);
+    const distance = distances.get(track.id);
+    return t('camera.objectAt', {
+      object: translateObjectLabel(lang, track.label),
+      position: distance ? `${direction}, ${describeDistance(distance)}` : direction,
+    });
+  }, [frameSize, cameraFovDeg, directionStyle, distances, describeDistance, getHeading, lang, t]);
+
+  // Events are announced once; reading describeTrack through a ref keeps frame updates from re-announcing them
+  const describeTrackRef = useRef(describeTrack);
+  describeTrackRef.current = describeTrack;
+
+  // Where each object is, heard alongside the spoken description of what it is
+  // Search beeps replace them while searching; two sets of sounds at once would be hard to follow
+  useEarcons(tracks, { enabled: isActive && earconsEnabled && !searchTarget && !inBackground, volume: earconVolume, frameSize });
 
-    const labels = detections.map(d => d.label).slice(0, 5); // Top 5 detections
-    onDetectedObjects(labels);
+  // Stable speak function that still uses the current language and voice settings
+  const speakRef = useRef(speak);
+  speakRef.current = speak;
+  const speakCallback = useCallback((text: string, options?: SpeakOptions) => speakRef.current(text, options), []);
+  const hapticRef = useRef(haptic);
+  hapticRef.current = haptic;
+
+  const searchGuidance = useObjectSearch(searchTarget, tracks, { enabled: isActive && !inBackground, volume: earconVolume, frameSize, speak: speakCallback, t, lang });
+
+  // Downloads are announced in steps; loading from the device's cache is quick and stays quiet
+  const spokenProgressRef = useRef<string | null>(null);
+  const downloadedRef = useRef(false);
+  useEffect(() => {
+    if (!loadProgress || loadProgress.fromCache) return;
+    downloadedRef.current = true;
+    const step = loadProgress.percent === undefined ? 0 : Math.floor(loadProgress.percent / PROGRESS_STEP) * PROGRESS_STEP;
+    const spokenKey = `${loadProgress.asset}:${step}`;
+    if (spokenProgressRef.current === spokenKey || step >= 100) return;
+    spokenProgressRef.current = spokenKey;
+    const name = loadProgress.asset === 'model' ? t('camera.assetModel') : t('camera.assetRuntime');
+    speakCallback(step === 0 ? t('camera.downloadStarted', { name }) : t('camera.downloadProgress', { name, percent: step }), LOADING_SPEECH);
+  }, [loadProgress, speakCallback, t]);
+
+  useEffect(() => {
+    if (isLoading || !downloadedRef.current) return;
+    downloadedRef.current = false;
+    spokenProgressRef.current = null;
+    if (!loadError) speakCallback(t('camera.downloadDone'), LOADING_SPEECH);
+  }, [isLoading, loadError, speakCallback, t]);
 
-    let description = '';
-    if (labels.length > 0) {
-      const uniqueLabels = [...new Set(labels)];
-      description = "I can see " + uniqueLabels.slice(0, 3).join(", ") + ".";
+  useEffect(() => {
+    if (loadError) speakCallback(t(`camera.loadError.${loadError}` as MessageKey), LOADING_SPEECH);
+  }, [loadError, speakCallback, t]);
+
+  // Each hazard is announced once as it becomes a warning and again if it becomes imminent, not on every frame
+  const hazardMonitorRef = useRef(createHazardMonitor());
+  useEffect(() => {
+    if (!isActive) {
+      hazardMonitorRef.current.reset();
+      return;
     }
-    
-    if (description !== lastDescription) {
-      setLastDescription(description);
-      speakCallback(description);
+    const alerts = hazardMonitorRef.current.update(hazards, Date.now());
+    if (alerts.length === 0) return;
+
+    // The cue comes from where the worst one is
+    const pan = frameSize ? placeDetection(alerts[0].hazard.track.bbox, frameSize.width, frameSize.height).pan : 0;
+    const describeTrack = describeTrackRef.current;
+    const imminent = alerts.filter(alert => alert.level === 'imminent');
+    if (imminent.length > 0) {
+      // Warnings in the same frame would only delay the user reacting to this
+      playHazardImminentCue(pan);
+      hapticRef.current('hazardAhead');
+      speakCallback(t('camera.hazardImminent', { objects: imminent.map(alert => describeTrack(alert.hazard.track)).join(OBJECT_SEPARATOR) }), IMMINENT_SPEECH);
+      return;
     }
-  }, [detections, isActive, isLoading, onDetectedObjects, lastDescription, speakCallback]);
+    playHazardWarningCue(pan);
+    speakCallback(t('camera.hazardWarning', { objects: alerts.map(alert => describeTrack(alert.hazard.track)).join(OBJECT_SEPARATOR) }), WARNING_SPEECH);
+  }, [hazards, isActive, frameSize, speakCallback, t]);
+
+  // Lets navigation hold back its instructions while something is in the way
+  const hazardLevel = isActive ? highestHazardLevel(hazards) : 'none';
+  useEffect(() => {
+    onHazardChange(hazardLevel);
+  }, [hazardLevel, onHazardChange]);
+  useEffect(() => () => onHazardChange('none'), [onHazardChange]);
+
+  // Keep the parent's object list in step with what is being tracked
+  useEffect(() => {
+    if (!isActive || isLoading) return;
+    onDetectedObjects(tracks.map(track => track.label).slice(0, 5)); // Top 5 detections
+  }, [tracks, isActive, isLoading, onDetectedObjects]);
+
+  // Speak when objects come into or leave view, and when one is getting closer
+  // Search hints take their place while searching; in other modes only hazards are spoken
+  useEffect(() => {
+    if (!isActive || searchTarget || inBackground || trackEvents.length === 0) return;
+
+    const tracksOf = (type: TrackEventType) => trackEvents.filter(event => event.type === type).map(event => event.track).sort(byDangerRef.current);
+    const describeTrack = describeTrackRef.current;
+
+    const approaching = tracksOf('approaching').map(describeTrack).join(OBJECT_SEPARATOR);
+    if (approaching) speakCallback(t('camera.approaching', { objects: approaching }), APPROACH_SPEECH);
+
+    const entered = tracksOf('enter').map(describeTrack).join(OBJECT_SEPARATOR);
+    // Gone objects have no position worth giving; they are counted by kind
+    const counts = new Map<string, number>();
+    tracksOf('exit').forEach(track => counts.set(track.label, (counts.get(track.label) ?? 0) + 1));
+    const exited = joinList([...counts.entries()].map(([label, count]) => countObjects(lang, label, count)), t);
+    const parts = [
+      entered && t('camera.appeared', { objects: entered }),
+      exited && t('camera.disappeared', { objects: exited }),
+    ].filter(Boolean);
+    if (parts.length === 0) return;
+    const description = parts.join(' ');
+    setLastDescription(description);
+    speakCallback(description, SCENE_SPEECH);
+  }, [trackEvents, isActive, searchTarget, inBackground, speakCallback, t, lang]);
 
   const startCamera = useCallback(async () => {
+    // Asked here because iOS only allows it from the tap that starts the camera
+    requestCompassPermission();
     try {
       const mediaStream = await navigator.mediaDevices.getUserMedia({ 
         video: { 
@@ -72,12 +279,12 @@ export const CameraView = ({
         videoRef.current.srcObject = mediaStream;
       }
       onActiveChange(true);
-      speakCallback('Camera activated. Loading YOLO object detection model...');
+      speakCallback(t('camera.activatedLoading'));
     } catch (error) {
-      speakCallback('Unable to access camera. Please check permissions.');
+      speakCallback(t('camera.accessDenied'));
       toast.error('Camera access denied');
     }
-  }, [onActiveChange, speakCallback]);
+  }, [onActiveChange, speakCallback, t]);
 
   const stopCamera = useCallback(() => {
     if (stream) {
@@ -85,8 +292,64 @@ export const CameraView = ({
       setStream(null);
     }
     onActiveChange(false);
-    speakCallback('Camera stopped.');
-  }, [stream, onActiveChange, speakCallback]);
+    onSearchTargetChange(null);
+    speakCallback(t('camera.stopped'));
+  }, [stream, onActiveChange, onSearchTargetChange, speakCallback, t]);
+
+  const stopSearch = () => {
+    if (!searchTarget) {
+      speakCallback(t('camera.notSearching'));
+      return;
+    }
+    onSearchTargetChange(null);
+    speakCallback(t('camera.searchStopped', { object: translateObjectLabel(lang, searchTarget) }), SEARCH_END_SPEECH);
+  };
+
+  useImperativeHandle(ref, () => ({
+    handleCommand: (command: CameraCommand) => {
+      if (command === 'stop-search') {
+        stopSearch();
+        return;
+      }
+      if (!isActive) {
+        speakCallback(command === 'stop' ? t('camera.alreadyOff') : t('camera.isOff'));
+        return;
+      }
+      if (command === 'stop') {
+        stopCamera();
+        return;
+      }
+      if (isLoading) {
+        speakCallback(t('camera.modelLoading'));
+        return;
+      }
+
+      const scene = [...shownTracks]
+        .sort(byDanger)
+        .slice(0, MAX_DESCRIBED_OBJECTS)
+        .map(describeTrack)
+        .join(OBJECT_SEPARATOR);
+
+      if (command === 'repeat-description') {
+        speakCallback(lastDescription || t('camera.noDescription'));
+      } else if (command === 'analyze') {
+        speakCallback(t('camera.analyzing', { description: scene ? t('camera.seeing', { objects: scene }) : t('camera.nothingDetected') }));
+      } else if (command === 'describe') {
+        speakCallback(scene ? t('camera.seeing', { objects: scene }) : t('camera.noObjects'));
+      } else if (command === 'distance') {
+        if (shownTracks.length === 0) {
+          speakCallback(t('camera.noObjects'));
+          return;
+        }
+        const measured = shownTracks
+          .filter(track => distances.has(track.id))
+          .sort((a, b) => distances.get(a.id)!.meters - distances.get(b.id)!.meters)
+          .slice(0, MAX_SPOKEN_DISTANCES)
+          .map(describeTrack);
+        speakCallback(measured.length > 0 ? measured.join(OBJECT_SEPARATOR) : t('camera.distanceUnknown'));
+      }
+    },
+  }));
 
   // Handle camera activation/deactivation - Fixed to prevent infinite loop
   useEffect(() => {
@@ -97,6 +360,17 @@ export const CameraView = ({
     // This should be handled by the parent component calling stopCamera explicitly
   }, [isActive, stream, startCamera]);
 
+  // The video element is a different one in the background, so the stream is attached again whenever it changes
+  useEffect(() => {
+    const video = videoRef.current;
+    if (!video || !stream || video.srcObject === stream) return;
+    video.srcObject = stream;
+    // Started explicitly: browsers pause autoplaying muted video that is not on screen
+    video.play().catch(() => {
+      // Playback resumes on the next user gesture
+    });
+  }, [stream, isActive, inBackground]);
+
   // Cleanup on unmount
   useEffect(() => {
     return () => {
@@ -106,6 +380,11 @@ export const CameraView = ({
     };
   }, [stream]);
 
+  // Only the video is kept while another mode is showing, hidden from sight and from screen readers
+  if (inBackground) {
+    return isActive ? <video ref={videoRef} autoPlay playsInline muted className="sr-only" aria-hidden="true" /> : null;
+  }
+
   return (
     <div className="space-y-6">
       <div className="text-center">
@@ -123,7 +402,7 @@ export const CameraView = ({
               : 'bg-green-500 hover:bg-green-600'
           } text-white px-8 py-4 text-lg`}
           disabled={isLoading}
-          onFocus={() => speakCallback(isActive ? 'Stop camera' : 'Start camera')}
+          onFocus={() => speakCallback(isActive ? t('camera.focusStop') : t('camera.focusStart'), { key: 'focus' })}
         >
           {isLoading ? (
             <Loader className="w-6 h-6 mr-2 animate-spin" />
@@ -141,8 +420,43 @@ export const CameraView = ({
             <Loader className="w-5 h-5 animate-spin text-yellow-400" />
             <div>
               <h3 className="text-lg font-semibold text-yellow-200">Loading YOLO Model</h3>
-              <p className="text-yellow-100 text-sm">This may take a moment on first load...</p>
+              <p className="text-yellow-100 text-sm">
+                {loadProgress && !loadProgress.fromCache
+                  ? `Downloading the ${loadProgress.asset === 'model' ? 'detection model' : 'detection runtime'}${loadProgress.percent !== undefined ? ` (${loadProgress.percent}%)` : ''}. It is kept on this device for offline use.`
+                  : 'This may take a moment on first load...'}
+              </p>
+            </div>
+          </div>
+        </Card>
+      )}
+
+      {loadError && !isLoading && (
+        <Card className="bg-red-500/20 border-red-400/30 p-4" role="alert">
+          <div className="flex items-center gap-3">
+            <AlertTriangle className="w-5 h-5 text-red-400" />
+            <p className="text-red-100 text-sm">{t(`camera.loadError.${loadError}` as MessageKey)}</p>
+          </div>
+        </Card>
+      )}
+
+      {isActive && searchTarget && (
+        <Card className="bg-purple-500/20 border-purple-400/30 p-4">
+          <div className="flex items-center justify-between gap-3">
+            <div>
+              <h3 className="text-lg font-semibold text-purple-200">Looking for: {translateObjectLabel(lang, searchTarget)}</h3>
+              <p className="text-purple-100 text-sm">
+                {searchGuidance
+                  ? t(`camera.searchHint.${searchGuidance.hint}` as MessageKey, { object: translateObjectLabel(lang, searchTarget) })
+                  : 'Not in view yet. Turn slowly; the beeps speed up as you get closer.'}
+              </p>
             </div>
+            <Button
+              onClick={stopSearch}
+              className="bg-white/10 hover:bg-white/20 text-white"
+              onFocus={() => speakCallback(t('camera.focusStopSearch'), { key: 'focus' })}
+            >
+              Stop Searching
+            </Button>
           </div>
         </Card>
       )}
@@ -163,7 +477,8 @@ export const CameraView = ({
           {/* Detection Canvas Overlay */}
           <DetectionCanvas
             videoRef={videoRef}
-            detections={detections}
+            detections={shownTracks}
+            frameSize={frameSize}
             isActive={isActive && !isLoading}
           />
 
@@ -174,22 +489,30 @@ export const CameraView = ({
           </div>
 
           {/* Detection count */}
-          {detections.length > 0 && (
+          {shownTracks.length > 0 && (
             <div className="absolute top-4 right-4 bg-green-500 text-white px-3 py-1 rounded-full text-sm font-bold">
-              {detections.length} detected
+              {shownTracks.length} detected
             </div>
           )}
+
+          {/* Per-stage timing for the latest frame; visual only, it changes twice a second */}
+          {stats && (
+            <p className="mt-2 text-center text-xs text-gray-400" aria-hidden="true">
+              {`Frame ${stats.totalMs} ms: capture ${stats.captureMs}, prepare ${stats.preprocessMs}, detect ${stats.inferenceMs}, decode ${stats.postprocessMs}`}
+              {stats.droppedFrames > 0 && ` · ${stats.droppedFrames} skipped while busy`}
+            </p>
+          )}
         </div>
       )}
 
       {/* Detected Objects Display */}
-      {isActive && detections.length > 0 && (
+      {isActive && shownTracks.length > 0 && (
         <Card className="bg-white/10 border-white/20 p-4">
           <h3 className="text-lg font-semibold text-white mb-3">YOLO Detections:</h3>
           <div className="grid grid-cols-2 gap-2">
-            {detections.map((detection, index) => (
+            {shownTracks.map((detection) => (
               <div
-                key={index}
+                key={detection.id}
                 className="bg-white/10 rounded-lg p-3 flex items-center gap-2"
               >
                 {/* Icon for label */}
@@ -200,10 +523,19 @@ export const CameraView = ({
                   <AlertTriangle className="w-5 h-5 text-yellow-400" />
                 }
                 <span className="text-white text-sm">
-                  {detection.label}
+                  {detection.label} #{detection.id}
                   <span className="ml-2 text-xs text-green-300 font-semibold">
                     ({(detection.confidence * 100).toFixed(1)}%)
                   </span>
+                  {distances.has(detection.id) && (
+                    <span className="ml-2 text-xs text-blue-200">{describeDistance(distances.get(detection.id)!)}</span>
+                  )}
+                  {hazardsById.get(detection.id)?.level === 'imminent' && (
+                    <span className="ml-2 text-xs text-red-300 font-bold">Stop</span>
+                  )}
+                  {hazardsById.get(detection.id)?.level === 'warning' && (
+                    <span className="ml-2 text-xs text-orange-300 font-semibold">Careful</span>
+                  )}
                 </span>
               </div>
             ))}
@@ -211,6 +543,18 @@ export const CameraView = ({
         </Card>
       )}
 
+      {isActive && !isLoading && (
+        <DistanceCalibration
+          tracks={tracks}
+          frameSize={frameSize}
+          fovDeg={cameraFovDeg}
+          onCalibrate={onCameraFovChange}
+          speak={speakCallback}
+          t={t}
+          format={format}
+        />
+      )}
+
       {/* Last Description */}
       {isActive && lastDescription && (
         <Card className="bg-blue-500/20 border-blue-400/30 p-4">
@@ -234,8 +578,14 @@ export const CameraView = ({
           <div>"Hey Vision Stop Camera" - Stop detection</div>
           <div>"Hey Vision Analyze" - Get current detections</div>
           <div>"Hey Vision What Do You See" - Describe scene</div>
+          <div>"Hey Vision Repeat Description" - Hear the last description again</div>
+          <div>"Hey Vision How Far" - Hear how far away the nearest objects are</div>
+          <div>"Hey Vision Find My Cup" - Get guided to an object</div>
+          <div>"Hey Vision Stop Searching" - End the search</div>
         </div>
       </Card>
     </div>
   );
-};
+});
+
+CameraView.displayName = 'CameraView';
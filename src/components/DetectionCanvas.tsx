@@ -1,21 +1,18 @@
 
 import React, { useRef, useEffect } from 'react';
-
-type Detection = {
-  label: string;
-  confidence: number;
-  bbox: [number, number, number, number];
-};
+import { FrameSize, YOLODetection } from '@/hooks/useYOLODetection';
 
 interface DetectionCanvasProps {
   videoRef: React.RefObject<HTMLVideoElement>;
-  detections: Detection[];
+  detections: YOLODetection[];
+  frameSize: FrameSize | null; // the camera frame the boxes are in
   isActive: boolean;
 }
 
 export const DetectionCanvas: React.FC<DetectionCanvasProps> = ({
   videoRef,
   detections,
+  frameSize,
   isActive
 }) => {
   const canvasRef = useRef<HTMLCanvasElement>(null);
@@ -35,14 +32,16 @@ export const DetectionCanvas: React.FC<DetectionCanvasProps> = ({
     // Clear canvas
     ctx.clearRect(0, 0, canvas.width, canvas.height);
 
+    if (!frameSize) return;
+
+    // Boxes are in the frame's pixels; the canvas matches the video unless it has not loaded yet
+    const scaleX = canvas.width / frameSize.width;
+    const scaleY = canvas.height / frameSize.height;
+
     // Draw detection boxes
     detections.forEach((detection) => {
       const [x, y, width, height] = detection.bbox;
-      
-      // Scale coordinates from YOLO input size (640x640) to video size
-      const scaleX = canvas.width / 640;
-      const scaleY = canvas.height / 640;
-      
+
       const scaledX = x * scaleX;
       const scaledY = y * scaleY;
       const scaledWidth = width * scaleX;
@@ -64,7 +63,7 @@ export const DetectionCanvas: React.FC<DetectionCanvasProps> = ({
       ctx.font = '14px Arial';
       ctx.fillText(labelText, scaledX + 5, scaledY - 8);
     });
-  }, [detections, isActive, videoRef]);
+  }, [detections, frameSize, isActive, videoRef]);
 
   if (!isActive) return null;
 
@@ -0,0 +1,140 @@
+import { useState } from 'react';
+import { Ruler } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card } from '@/components/ui/card';
+import { Translate } from '@/utils/i18n';
+import { Speak, SpeakOptions } from '@/utils/speechQueue';
+import { SpeechFormatter } from '@/utils/speechFormat';
+import { FrameSize, TrackedObject } from '@/hooks/useYOLODetection';
+import { DEFAULT_CAMERA_FOV_DEG, OBJECT_HEIGHTS_M, calibrateFov } from '@/utils/distanceEstimation';
+
+interface DistanceCalibrationProps {
+  tracks: TrackedObject[];
+  frameSize: FrameSize | null;
+  fovDeg: number | null; // null while uncalibrated
+  onCalibrate: (fovDeg: number | null) => void;
+  speak: Speak;
+  t: Translate;
+  format: SpeechFormatter;
+}
+
+// Each result replaces the last; the user is holding the phone still and waiting for it
+const CALIBRATION_SPEECH: SpeakOptions = { key: 'camera.calibration' };
+
+// Arm's length plus a step is easy to measure and keeps a person fully in frame
+const DEFAULT_REFERENCE_DISTANCE_M = 2;
+
+// Measures this device's field of view from an object of known height at a known distance
+export const DistanceCalibration = ({ tracks, frameSize, fovDeg, onCalibrate, speak, t, format }: DistanceCalibrationProps) => {
+  const [referenceId, setReferenceId] = useState<number | null>(null);
+  const [heightCm, setHeightCm] = useState('');
+  const [distanceM, setDistanceM] = useState(String(DEFAULT_REFERENCE_DISTANCE_M));
+
+  const reference = tracks.find(track => track.id === referenceId) ?? null;
+
+  const chooseReference = (id: number) => {
+    setReferenceId(id);
+    const track = tracks.find(candidate => candidate.id === id);
+    const typical = track && OBJECT_HEIGHTS_M[track.label];
+    if (typical) setHeightCm(String(Math.round(typical * 100)));
+  };
+
+  const calibrate = () => {
+    if (!reference || !frameSize) {
+      speak(t('camera.calibrationNoReference'), CALIBRATION_SPEECH);
+      return;
+    }
+    const measured = calibrateFov(reference.bbox[3], frameSize, Number(heightCm) / 100, Number(distanceM));
+    if (measured === null) {
+      speak(t('camera.calibrationFailed'), CALIBRATION_SPEECH);
+      return;
+    }
+    onCalibrate(measured);
+    speak(t('camera.calibrated', { degrees: format.number(measured) }), CALIBRATION_SPEECH);
+  };
+
+  const resetCalibration = () => {
+    onCalibrate(null);
+    speak(t('camera.calibrationReset'), CALIBRATION_SPEECH);
+  };
+
+  return (
+    <Card className="bg-white/10 border-white/20 p-4">
+      <h3 className="text-lg font-semibold text-white mb-2 flex items-center gap-2">
+        <Ruler className="w-5 h-5" />
+        Distance Calibration
+      </h3>
+      <p className="text-gray-300 text-sm mb-3">
+        Field of view: {Math.round(fovDeg ?? DEFAULT_CAMERA_FOV_DEG)}° {fovDeg === null ? '(typical phone, not calibrated)' : '(calibrated)'}.
+        Stand a measured distance from an object whose height you know, such as a person, with all of it in view.
+      </p>
+
+      <div className="space-y-3">
+        <div>
+          <label htmlFor="calibration-reference" className="text-white font-medium block mb-1">Reference object</label>
+          <select
+            id="calibration-reference"
+            value={referenceId ?? ''}
+            onChange={e => chooseReference(Number(e.target.value))}
+            onFocus={() => speak(t('camera.focusCalibrationReference'), { key: 'focus' })}
+            className="w-full bg-black text-white border p-2 rounded"
+          >
+            <option value="" disabled>{tracks.length > 0 ? 'Choose an object in view' : 'No objects in view yet'}</option>
+            {tracks.map(track => (
+              <option value={track.id} key={track.id}>{track.label} #{track.id}</option>
+            ))}
+          </select>
+        </div>
+
+        <div className="flex gap-2">
+          <div className="flex-1 min-w-0">
+            <label htmlFor="calibration-height" className="text-white font-medium block mb-1">Its height (cm)</label>
+            <input
+              id="calibration-height"
+              type="number"
+              min={1}
+              inputMode="decimal"
+              value={heightCm}
+              onChange={e => setHeightCm(e.target.value)}
+              onFocus={() => speak(t('camera.focusCalibrationHeight'), { key: 'focus' })}
+              className="w-full bg-black text-white border p-2 rounded"
+            />
+          </div>
+          <div className="flex-1 min-w-0">
+            <label htmlFor="calibration-distance" className="text-white font-medium block mb-1">Distance (m)</label>
+            <input
+              id="calibration-distance"
+              type="number"
+              min={0.1}
+              step={0.1}
+              inputMode="decimal"
+              value={distanceM}
+              onChange={e => setDistanceM(e.target.value)}
+              onFocus={() => speak(t('camera.focusCalibrationDistance'), { key: 'focus' })}
+              className="w-full bg-black text-white border p-2 rounded"
+            />
+          </div>
+        </div>
+
+        <div className="flex gap-2">
+          <Button
+            onClick={calibrate}
+            className="bg-green-600 hover:bg-green-700 text-white"
+            onFocus={() => speak(t('camera.focusCalibrate'), { key: 'focus' })}
+          >
+            Calibrate
+          </Button>
+          {fovDeg !== null && (
+            <Button
+              onClick={resetCalibration}
+              className="bg-white/10 hover:bg-white/20 text-white"
+              onFocus={() => speak(t('camera.focusCalibrationReset'), { key: 'focus' })}
+            >
+              Use typical value
+            </Button>
+          )}
+        </div>
+      </div>
+    </Card>
+  );
+};
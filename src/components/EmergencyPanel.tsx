@@ -1,65 +1,86 @@
 
-import { useState } from 'react';
+import { useState, forwardRef, useImperativeHandle } from 'react';
 import { Phone, MessageSquare, MapPin, AlertTriangle, Heart, Shield, Volume2 } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Card } from '@/components/ui/card';
 import { toast } from 'sonner';
+import { ConfirmationRequest } from '@/hooks/useVoiceConfirmation';
+import { Translate } from '@/utils/i18n';
+import { Speak, SpeakOptions } from '@/utils/speechQueue';
+import { Haptic } from '@/utils/haptics';
+import { SpeechFormatter } from '@/utils/speechFormat';
 
 interface EmergencyPanelProps {
-  speak: (text: string) => void;
+  speak: Speak;
+  haptic: Haptic;
+  t: Translate;
+  format: SpeechFormatter;
+  confirm: (request: ConfirmationRequest) => Promise<boolean>;
+  emergencyCountdownSeconds: number; // 0 unless the user has opted in to calls that dial by themselves
 }
 
-export const EmergencyPanel = ({ speak }: EmergencyPanelProps) => {
+// Emergency messages are never cut off by routine announcements
+const EMERGENCY_SPEECH: SpeakOptions = { priority: 'emergency' };
+
+export type EmergencyCommand = 'share-location' | 'send-help' | 'repeat-location';
+
+// Lets voice commands reach the panel while it is mounted
+export interface EmergencyPanelHandle {
+  handleCommand: (command: EmergencyCommand) => void;
+}
+
+export const EmergencyPanel = forwardRef<EmergencyPanelHandle, EmergencyPanelProps>(({ speak, haptic, t, format, confirm, emergencyCountdownSeconds }, ref) => {
   const [emergencyActive, setEmergencyActive] = useState(false);
   const [selectedContact, setSelectedContact] = useState<string | null>(null);
   const [lastLocationUpdate, setLastLocationUpdate] = useState<string>('');
+  const [lastLocationTime, setLastLocationTime] = useState<Date | null>(null);
 
   const emergencyContacts = [
     {
       id: '911',
-      name: 'Emergency Services',
+      name: t('emergency.contact.911.name'),
       number: '911',
       icon: AlertTriangle,
       color: 'bg-red-500 hover:bg-red-600 focus:bg-red-700',
-      description: 'Police, Fire, Medical Emergency - Call immediately for life-threatening situations',
-      audioDescription: 'Emergency Services - 9-1-1. Press Enter to call immediately for police, fire, or medical emergencies.'
+      description: t('emergency.contact.911.description'),
+      audioDescription: t('emergency.contact.911.focus', { number: format.phoneNumber('911') })
     },
     {
       id: 'family',
-      name: 'Family Contact',
+      name: t('emergency.contact.family.name'),
       number: '+1-555-0123',
       icon: Heart,
       color: 'bg-purple-500 hover:bg-purple-600 focus:bg-purple-700',
-      description: 'Primary family emergency contact - Your trusted family member',
-      audioDescription: 'Family Contact. Press Enter to call your primary family emergency contact at 5-5-5, 0-1-2-3.'
+      description: t('emergency.contact.family.description'),
+      audioDescription: t('emergency.contact.family.focus', { number: format.phoneNumber('+1-555-0123') })
     },
     {
       id: 'friend',
-      name: 'Trusted Friend',
+      name: t('emergency.contact.friend.name'),
       number: '+1-555-0456',
       icon: Shield,
       color: 'bg-blue-500 hover:bg-blue-600 focus:bg-blue-700',
-      description: 'Friend who can provide assistance - Your emergency support person',
-      audioDescription: 'Trusted Friend. Press Enter to call your emergency support friend at 5-5-5, 0-4-5-6.'
+      description: t('emergency.contact.friend.description'),
+      audioDescription: t('emergency.contact.friend.focus', { number: format.phoneNumber('+1-555-0456') })
     }
   ];
 
   const quickActions = [
     {
       id: 'location',
-      name: 'Share My Location',
+      name: t('emergency.action.location.name'),
       icon: MapPin,
       action: () => shareLocation(),
       color: 'bg-orange-500 hover:bg-orange-600 focus:bg-orange-700',
-      audioDescription: 'Share Location. Press Enter to send your current GPS coordinates to emergency contacts via text message.'
+      audioDescription: t('emergency.action.location.focus')
     },
     {
       id: 'text',
-      name: 'Send Help Message',
+      name: t('emergency.action.text.name'),
       icon: MessageSquare,
       action: () => sendHelpText(),
       color: 'bg-green-500 hover:bg-green-600 focus:bg-green-700',
-      audioDescription: 'Send Help Message. Press Enter to send an automated distress message to your emergency contacts.'
+      audioDescription: t('emergency.action.text.focus')
     }
   ];
 
@@ -71,13 +92,13 @@ export const EmergencyPanel = ({ speak }: EmergencyPanelProps) => {
       .join(",");
 
   const announceAction = (actionName: string, details: string) => {
-    speak(`${actionName}. ${details}. This action will help emergency responders or your contacts locate and assist you.`);
+    speak(t('emergency.announce', { action: actionName, details }), EMERGENCY_SPEECH);
   };
 
   const shareLocation = async () => {
     if (!navigator.geolocation) {
-      const errorMsg = "Location sharing is not supported on this device. Please try using a different device or browser that supports GPS location services.";
-      speak(errorMsg);
+      const errorMsg = t('emergency.locationNotSupported');
+      speak(errorMsg, EMERGENCY_SPEECH);
       toast.error("Location services not supported", { 
         description: "GPS not available on this device" 
       });
@@ -85,10 +106,10 @@ export const EmergencyPanel = ({ speak }: EmergencyPanelProps) => {
     }
 
     try {
-      announceAction("Sharing Location", "Getting your current GPS position");
+      announceAction(t('emergency.sharingLocation'), t('emergency.gettingPosition'));
       
       navigator.geolocation.getCurrentPosition(
-        (position) => {
+        async (position) => {
           const { latitude, longitude } = position.coords;
           const locationUrl = `https://maps.google.com/?q=${latitude},${longitude}`;
           const timestamp = new Date().toLocaleString();
@@ -98,10 +119,17 @@ export const EmergencyPanel = ({ speak }: EmergencyPanelProps) => {
           const smsRecipients = getSmsContacts();
           const smsLink = `sms:${smsRecipients}?&body=${smsBody}`;
 
-          const locationInfo = `Location acquired successfully. Latitude: ${latitude.toFixed(4)}, Longitude: ${longitude.toFixed(4)}`;
+          const locationInfo = t('emergency.locationAcquired', { position: format.coordinates(latitude, longitude) });
           setLastLocationUpdate(locationInfo);
+          setLastLocationTime(new Date());
+
+          const confirmed = await confirm({
+            message: t('emergency.shareLocationConfirm'),
+            detail: locationInfo,
+          });
+          if (!confirmed) return;
           
-          speak(`${locationInfo}. Opening your text messaging app now. Your location with emergency message is ready to send to your contacts. Please review and press send.`);
+          speak(t('emergency.openingSmsWithLocation', { location: locationInfo }), EMERGENCY_SPEECH);
           
           toast.success("Location Ready to Share", { 
             description: "SMS app opening with location and emergency message",
@@ -113,29 +141,23 @@ export const EmergencyPanel = ({ speak }: EmergencyPanelProps) => {
           }
         },
         (error) => {
-          let errorMsg = "";
-          let actionAdvice = "";
+          let fullMessage = "";
           
           switch (error.code) {
             case error.PERMISSION_DENIED:
-              errorMsg = "Location permission was denied.";
-              actionAdvice = "Please go to your browser settings, allow location access for this website, then refresh and try again.";
+              fullMessage = t('emergency.permissionDenied');
               break;
             case error.POSITION_UNAVAILABLE:
-              errorMsg = "Your location could not be determined.";
-              actionAdvice = "Please move to an area with better GPS signal, such as near a window or outdoors, then try again.";
+              fullMessage = t('emergency.positionUnavailable');
               break;
             case error.TIMEOUT:
-              errorMsg = "Location request timed out after 10 seconds.";
-              actionAdvice = "Please ensure you have a stable internet connection and try again.";
+              fullMessage = t('emergency.locationTimeout');
               break;
             default:
-              errorMsg = "An unexpected error occurred while getting your location.";
-              actionAdvice = "Please try again in a moment, or contact emergency services directly if this is urgent.";
+              fullMessage = t('emergency.locationUnknownError');
           }
           
-          const fullMessage = `${errorMsg} ${actionAdvice}`;
-          speak(fullMessage);
+          speak(fullMessage, EMERGENCY_SPEECH);
           toast.error("Location Error", { 
             description: fullMessage,
             duration: 8000
@@ -148,15 +170,15 @@ export const EmergencyPanel = ({ speak }: EmergencyPanelProps) => {
         }
       );
     } catch (e) {
-      const errorMsg = "An unexpected error occurred during location sharing. Please try contacting emergency services directly if this is urgent.";
-      speak(errorMsg);
+      const errorMsg = t('emergency.locationSharingFailed');
+      speak(errorMsg, EMERGENCY_SPEECH);
       toast.error("Location Sharing Failed", { 
         description: errorMsg 
       });
     }
   };
 
-  const sendHelpText = () => {
+  const sendHelpText = async () => {
     const timestamp = new Date().toLocaleString();
     const helpMessage = `EMERGENCY: I need assistance. This is an automated distress message from my Vision Guide app sent at ${timestamp}. Please contact me immediately or come to my location if possible. This message was sent because I may be in a situation where I need help.`;
     const smsBody = encodeURIComponent(helpMessage);
@@ -164,18 +186,24 @@ export const EmergencyPanel = ({ speak }: EmergencyPanelProps) => {
     const smsLink = `sms:${smsRecipients}?&body=${smsBody}`;
 
     if (!smsRecipients) {
-      const noContactsMsg = "No emergency contacts are set up in your system. Please add emergency contact numbers to use this feature, or call emergency services directly.";
-      speak(noContactsMsg);
+      const noContactsMsg = t('emergency.noContacts');
+      speak(noContactsMsg, EMERGENCY_SPEECH);
       toast.error("No Emergency Contacts", { 
         description: noContactsMsg 
       });
       return;
     }
 
+    const confirmed = await confirm({
+      message: t('emergency.sendHelpConfirm'),
+      detail: t('emergency.sendHelpDetail'),
+    });
+    if (!confirmed) return;
+
     try {
-      announceAction("Sending Help Message", "Preparing emergency text message for your contacts");
+      announceAction(t('emergency.sendingHelp'), t('emergency.preparingMessage'));
       
-      speak("Opening your text messaging app with a pre-written emergency message. The message explains you need assistance and asks contacts to reach out immediately. Please review the message and press send.");
+      speak(t('emergency.openingSmsWithHelp'), EMERGENCY_SPEECH);
       
       toast.success("Emergency Message Ready", { 
         description: "SMS app opening with distress message for emergency contacts",
@@ -186,23 +214,38 @@ export const EmergencyPanel = ({ speak }: EmergencyPanelProps) => {
         window.location.href = smsLink;
       }
     } catch (e) {
-      const errorMsg = "Could not open your text messaging app. Please manually send a message to your emergency contacts, or call them directly if this is urgent.";
-      speak(errorMsg);
+      const errorMsg = t('emergency.smsError');
+      speak(errorMsg, EMERGENCY_SPEECH);
       toast.error("SMS App Error", { 
         description: errorMsg 
       });
     }
   };
 
-  const makeCall = (contact: typeof emergencyContacts[0]) => {
+  const makeCall = async (contact: typeof emergencyContacts[0]) => {
+    // Emergency services may proceed on a countdown; other contacts always need a "yes"
+    const countdownSeconds = contact.number === '911' ? emergencyCountdownSeconds : 0;
+    // A call that will dial by itself is felt, in case the question is not heard
+    if (countdownSeconds) haptic('emergencyArmed');
+    const confirmed = await confirm({
+      message: t('emergency.callConfirm', { name: contact.name }),
+      detail: contact.number,
+      countdownSeconds,
+    });
+    if (!confirmed) return;
+
     setSelectedContact(contact.id);
     
-    const callAnnouncement = `Initiating call to ${contact.name} at ${contact.number.replace(/(\d{3})(\d{3})(\d{4})/, '$1-$2-$3')}. ${contact.description}`;
-    speak(callAnnouncement);
+    const callAnnouncement = t('emergency.callAnnouncement', {
+      name: contact.name,
+      number: format.phoneNumber(contact.number),
+      description: contact.description,
+    });
+    speak(callAnnouncement, EMERGENCY_SPEECH);
     
     if (contact.number === '911') {
       setEmergencyActive(true);
-      speak('Emergency services call initiated. When connected, stay calm, speak clearly, and provide your location and the nature of your emergency. Do not hang up unless instructed.');
+      speak(t('emergency.911Instructions'), EMERGENCY_SPEECH);
       toast.error("EMERGENCY CALL ACTIVE", { 
         description: "Calling 911 - Stay on the line",
         duration: 10000
@@ -222,7 +265,7 @@ export const EmergencyPanel = ({ speak }: EmergencyPanelProps) => {
   const cancelEmergency = () => {
     setEmergencyActive(false);
     setSelectedContact(null);
-    speak('Emergency mode has been cancelled. You are now in normal mode. All emergency features remain available if needed.');
+    speak(t('emergency.cancelled'), EMERGENCY_SPEECH);
     toast.info('Emergency Mode Cancelled', { 
       description: 'Returned to normal operation' 
     });
@@ -230,12 +273,24 @@ export const EmergencyPanel = ({ speak }: EmergencyPanelProps) => {
 
   const repeatLastLocation = () => {
     if (lastLocationUpdate) {
-      speak(`Last location update: ${lastLocationUpdate}. This was your most recently acquired GPS position.`);
+      speak(t('emergency.lastLocation', { location: lastLocationUpdate, time: format.time(lastLocationTime ?? new Date()) }), EMERGENCY_SPEECH);
     } else {
-      speak("No location has been acquired yet. Use the Share Location button to get your current GPS coordinates.");
+      speak(t('emergency.noLocation'), EMERGENCY_SPEECH);
     }
   };
 
+  useImperativeHandle(ref, () => ({
+    handleCommand: (command: EmergencyCommand) => {
+      if (command === 'share-location') {
+        shareLocation();
+      } else if (command === 'send-help') {
+        sendHelpText();
+      } else if (command === 'repeat-location') {
+        repeatLastLocation();
+      }
+    },
+  }));
+
   return (
     <div className="space-y-6">
       <div className="text-center">
@@ -256,7 +311,7 @@ export const EmergencyPanel = ({ speak }: EmergencyPanelProps) => {
           <Button
             onClick={cancelEmergency}
             className="mt-3 bg-red-600 hover:bg-red-700 focus:bg-red-800 text-white"
-            onFocus={() => speak('Cancel Emergency Mode. Press Enter to return to normal operation.')}
+            onFocus={() => speak(t('emergency.focusCancel'), { key: 'focus' })}
           >
             Cancel Emergency
           </Button>
@@ -274,7 +329,7 @@ export const EmergencyPanel = ({ speak }: EmergencyPanelProps) => {
             <Button
               onClick={repeatLastLocation}
               className="bg-blue-500 hover:bg-blue-600 focus:bg-blue-700 text-white"
-              onFocus={() => speak('Repeat Last Location. Press Enter to hear your most recent GPS coordinates.')}
+              onFocus={() => speak(t('emergency.focusRepeat'), { key: 'focus' })}
             >
               <Volume2 className="w-4 h-4 mr-2" />
               Repeat
@@ -294,8 +349,8 @@ export const EmergencyPanel = ({ speak }: EmergencyPanelProps) => {
                 key={contact.id}
                 onClick={() => makeCall(contact)}
                 className={`${contact.color} text-white h-24 text-left p-4 transition-all duration-300 focus:ring-4 focus:ring-white/50`}
-                onFocus={() => speak(contact.audioDescription)}
-                onMouseEnter={() => speak(contact.name)}
+                onFocus={() => speak(contact.audioDescription, { key: 'focus' })}
+                onMouseEnter={() => speak(contact.name, { key: 'focus' })}
               >
                 <div className="flex items-center gap-4 w-full">
                   <IconComponent className="w-8 h-8" />
@@ -323,8 +378,8 @@ export const EmergencyPanel = ({ speak }: EmergencyPanelProps) => {
                 key={action.id}
                 onClick={action.action}
                 className={`${action.color} text-white h-20 transition-all duration-300 focus:ring-4 focus:ring-white/50`}
-                onFocus={() => speak(action.audioDescription)}
-                onMouseEnter={() => speak(action.name)}
+                onFocus={() => speak(action.audioDescription, { key: 'focus' })}
+                onMouseEnter={() => speak(action.name, { key: 'focus' })}
               >
                 <IconComponent className="w-6 h-6 mr-3" />
                 <span className="text-lg">{action.name}</span>
@@ -352,7 +407,11 @@ export const EmergencyPanel = ({ speak }: EmergencyPanelProps) => {
       <Card className="bg-yellow-500/20 border-yellow-400/30 p-4">
         <h3 className="text-lg font-semibold text-yellow-200 mb-3">Voice Commands for Emergency Panel:</h3>
         <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
-          <div className="text-yellow-100 text-sm">"Hey Vision Call Emergency" - Dial 911 immediately</div>
+          <div className="text-yellow-100 text-sm">
+            {emergencyCountdownSeconds
+              ? `"Hey Vision Call Emergency" - Dial 911 after a ${emergencyCountdownSeconds}-second countdown unless you say "no"`
+              : '"Hey Vision Call Emergency" - Dial 911 once you answer "yes"'}
+          </div>
           <div className="text-yellow-100 text-sm">"Hey Vision Call Family" - Contact family member</div>
           <div className="text-yellow-100 text-sm">"Hey Vision Share Location" - Send GPS coordinates</div>
           <div className="text-yellow-100 text-sm">"Hey Vision Send Help" - Send distress message</div>
@@ -370,9 +429,12 @@ export const EmergencyPanel = ({ speak }: EmergencyPanelProps) => {
           <li>• Each button announces its function when focused</li>
           <li>• Voice commands work from anywhere in the app</li>
           <li>• All actions provide clear audio feedback</li>
+          <li>• Calls and messages ask for confirmation - say "yes" or "no"</li>
           <li>• Emergency mode stays active until manually cancelled</li>
         </ul>
       </Card>
     </div>
   );
-};
+});
+
+EmergencyPanel.displayName = 'EmergencyPanel';
@@ -1,75 +1,158 @@
 
-import { useState, useEffect } from 'react';
-import { Navigation, Play, Pause, RotateCcw, MapPin } from 'lucide-react';
+import { useState, useEffect, useRef, forwardRef, useImperativeHandle } from 'react';
+import { Navigation, Play, Pause, RotateCcw, MapPin, SkipBack } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Card } from '@/components/ui/card';
+import { Translate } from '@/utils/i18n';
+import { Speak, SpeakOptions } from '@/utils/speechQueue';
+import { Haptic, HapticCue } from '@/utils/haptics';
+import { SpeechFormatter } from '@/utils/speechFormat';
+import { HazardLevel, PAUSING_HAZARDS, createInstructionGate } from '@/utils/hazards';
 
 interface NavigationGuideProps {
-  speak: (text: string) => void;
+  speak: Speak;
+  haptic: Haptic;
+  t: Translate;
+  format: SpeechFormatter;
   isActive: boolean;
   onActiveChange: (active: boolean) => void;
+  destination?: string | null;
+  hazardLevel?: HazardLevel; // from the camera, while it is running
 }
 
-export const NavigationGuide = ({ speak, isActive, onActiveChange }: NavigationGuideProps) => {
+// Each instruction supersedes the previous one, and routine chatter never talks over it
+const STEP_SPEECH: SpeakOptions = { priority: 'navigation', key: 'navigation.step' };
+
+// Turns and arrival along the route are felt as well as heard
+const STEP_HAPTICS: (HapticCue | undefined)[] = [undefined, undefined, 'turnRight', undefined, 'turnLeft', undefined, 'turnRight', 'arrived'];
+
+export type NavigationCommand = 'next' | 'previous' | 'repeat' | 'location';
+
+// Lets voice commands reach the guide while it is mounted
+export interface NavigationGuideHandle {
+  handleCommand: (command: NavigationCommand) => void;
+}
+
+export const NavigationGuide = forwardRef<NavigationGuideHandle, NavigationGuideProps>(({ speak, haptic, t, format, isActive, onActiveChange, destination, hazardLevel = 'none' }, ref) => {
   const [currentStep, setCurrentStep] = useState(0);
   const [isNavigating, setIsNavigating] = useState(false);
+  const pausedForHazard = PAUSING_HAZARDS.includes(hazardLevel);
+  // Instructions wait while the camera sees something in the way
+  const stepGateRef = useRef(createInstructionGate());
 
   const navigationSteps = [
-    "Welcome to navigation mode. I will guide you step by step.",
-    "Face forward and take 5 steps straight ahead.",
-    "Good! Now turn slightly right and continue for 10 steps.",
-    "Excellent progress. Walk straight for 8 more steps.",
-    "Turn left at the intersection and walk 12 steps forward.",
-    "You're doing great! Continue straight for 6 steps.",
-    "Turn right and walk 4 steps to reach your destination.",
-    "Congratulations! You have reached your destination safely."
+    t('navigation.step1'),
+    t('navigation.step2'),
+    t('navigation.step3'),
+    t('navigation.step4'),
+    t('navigation.step5'),
+    t('navigation.step6'),
+    t('navigation.step7'),
+    t('navigation.step8'),
   ];
 
+  const feelStep = (step: number) => {
+    const cue = STEP_HAPTICS[step];
+    if (cue) haptic(cue);
+  };
+
+  const giveStep = (deliver: () => void) => stepGateRef.current.give(deliver);
+
+  useEffect(() => {
+    stepGateRef.current.setHazardLevel(hazardLevel);
+  }, [hazardLevel]);
+
   const startNavigation = () => {
     setIsNavigating(true);
     setCurrentStep(0);
     onActiveChange(true);
-    speak(navigationSteps[0]);
+    giveStep(() => speak(destination ? `${navigationSteps[0]} ${t('navigation.destination', { destination })}` : navigationSteps[0], STEP_SPEECH));
   };
 
   const stopNavigation = () => {
     setIsNavigating(false);
     onActiveChange(false);
-    speak("Navigation stopped. You can restart anytime by saying Hey Vision Start Navigation.");
+    stepGateRef.current.clear();
+    speak(t('navigation.stopped'), STEP_SPEECH);
   };
 
   const nextStep = () => {
     if (currentStep < navigationSteps.length - 1) {
       const newStep = currentStep + 1;
       setCurrentStep(newStep);
-      speak(navigationSteps[newStep]);
+      giveStep(() => {
+        speak(navigationSteps[newStep], STEP_SPEECH);
+        feelStep(newStep);
+      });
     } else {
-      speak("Navigation complete! You have reached your destination.");
+      speak(t('navigation.complete'), STEP_SPEECH);
+      haptic('arrived');
       setIsNavigating(false);
       onActiveChange(false);
     }
   };
 
+  const previousStep = () => {
+    if (currentStep > 0) {
+      const newStep = currentStep - 1;
+      setCurrentStep(newStep);
+      giveStep(() => {
+        speak(t('navigation.goingBack', { step: navigationSteps[newStep] }), STEP_SPEECH);
+        feelStep(newStep);
+      });
+    } else {
+      giveStep(() => speak(t('navigation.firstStep', { step: navigationSteps[0] }), STEP_SPEECH));
+    }
+  };
+
   const repeatStep = () => {
-    speak(navigationSteps[currentStep]);
+    giveStep(() => {
+      speak(navigationSteps[currentStep], STEP_SPEECH);
+      feelStep(currentStep);
+    });
   };
 
   const getCurrentLocation = () => {
     if (navigator.geolocation) {
-      speak("Getting your current location...");
+      speak(t('navigation.gettingLocation'));
       navigator.geolocation.getCurrentPosition(
         (position) => {
-          speak(`Your current coordinates are latitude ${position.coords.latitude.toFixed(4)}, longitude ${position.coords.longitude.toFixed(4)}`);
+          speak(t('navigation.coordinates', {
+            position: format.coordinates(position.coords.latitude, position.coords.longitude),
+          }));
         },
         () => {
-          speak("Unable to get your location. Please check location permissions.");
+          speak(t('navigation.locationError'));
         }
       );
     } else {
-      speak("Location services are not available on this device.");
+      speak(t('navigation.locationUnavailable'));
     }
   };
 
+  useImperativeHandle(ref, () => ({
+    handleCommand: (command: NavigationCommand) => {
+      if (command === 'location') {
+        getCurrentLocation();
+        return;
+      }
+      if (!isNavigating) {
+        speak(t('navigation.notStarted'));
+        return;
+      }
+      if (command === 'next') {
+        nextStep();
+      } else if (command === 'previous') {
+        previousStep();
+      } else if (command === 'repeat') {
+        giveStep(() => {
+          speak(t('navigation.repeating', { number: currentStep + 1, step: navigationSteps[currentStep] }), STEP_SPEECH);
+          feelStep(currentStep);
+        });
+      }
+    },
+  }));
+
   useEffect(() => {
     if (isActive && !isNavigating) {
       startNavigation();
@@ -97,6 +180,9 @@ export const NavigationGuide = ({ speak, isActive, onActiveChange }: NavigationG
               <p className="text-gray-300 text-sm">
                 {isNavigating ? `Step ${currentStep + 1} of ${navigationSteps.length}` : 'Say "Hey Vision Start Navigation" to begin'}
               </p>
+              {destination && (
+                <p className="text-gray-300 text-sm">Destination: {destination}</p>
+              )}
             </div>
           </div>
         </div>
@@ -107,7 +193,18 @@ export const NavigationGuide = ({ speak, isActive, onActiveChange }: NavigationG
         <Card className="bg-blue-500/20 border-blue-400/30 p-6">
           <h3 className="text-xl font-semibold text-blue-200 mb-3">Current Instruction:</h3>
           <p className="text-white text-lg mb-4">{navigationSteps[currentStep]}</p>
+          {pausedForHazard && (
+            <p className="text-orange-200 text-sm mb-4">Instructions paused until the way ahead is clear.</p>
+          )}
           <div className="flex gap-3 justify-center">
+            <Button
+              onClick={previousStep}
+              className="bg-gray-500 hover:bg-gray-600 text-white"
+              disabled={currentStep === 0}
+            >
+              <SkipBack className="w-4 h-4 mr-2" />
+              Previous
+            </Button>
             <Button
               onClick={nextStep}
               className="bg-green-500 hover:bg-green-600 text-white"
@@ -136,7 +233,7 @@ export const NavigationGuide = ({ speak, isActive, onActiveChange }: NavigationG
               ? 'bg-red-500 hover:bg-red-600' 
               : 'bg-green-500 hover:bg-green-600'
           } text-white h-16 text-lg`}
-          onFocus={() => speak(isNavigating ? 'Stop navigation' : 'Start navigation')}
+          onFocus={() => speak(isNavigating ? t('navigation.focusStop') : t('navigation.focusStart'), { key: 'focus' })}
         >
           {isNavigating ? (
             <>
@@ -154,7 +251,7 @@ export const NavigationGuide = ({ speak, isActive, onActiveChange }: NavigationG
         <Button
           onClick={getCurrentLocation}
           className="bg-purple-500 hover:bg-purple-600 text-white h-16 text-lg"
-          onFocus={() => speak('Get current location')}
+          onFocus={() => speak(t('navigation.focusLocation'), { key: 'focus' })}
         >
           <MapPin className="w-6 h-6 mr-2" />
           Current Location
@@ -183,7 +280,9 @@ export const NavigationGuide = ({ speak, isActive, onActiveChange }: NavigationG
         <div className="grid grid-cols-1 md:grid-cols-2 gap-2 text-sm text-green-100">
           <div>"Hey Vision Start Navigation" - Begin guidance</div>
           <div>"Hey Vision Next Step" - Continue to next instruction</div>
+          <div>"Hey Vision Previous Step" - Go back one instruction</div>
           <div>"Hey Vision Repeat" - Repeat current instruction</div>
+          <div>"Hey Vision Where Am I" - Hear your current location</div>
           <div>"Hey Vision Stop Navigation" - End guidance</div>
         </div>
       </Card>
@@ -201,4 +300,6 @@ export const NavigationGuide = ({ speak, isActive, onActiveChange }: NavigationG
       </Card>
     </div>
   );
-};
+});
+
+NavigationGuide.displayName = 'NavigationGuide';
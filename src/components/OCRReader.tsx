@@ -3,13 +3,15 @@ import { useRef, useState } from "react";
 import { Button } from "@/components/ui/button";
 import { toast } from "sonner";
 import Tesseract from "tesseract.js";
+import { Translate } from "@/utils/i18n";
 
 interface OCRReaderProps {
   speak: (text: string) => void;
+  t: Translate;
   lang?: string; // ISO lang
 }
 
-export const OCRReader = ({ speak, lang = "eng" }: OCRReaderProps) => {
+export const OCRReader = ({ speak, t, lang = "eng" }: OCRReaderProps) => {
   const fileRef = useRef<HTMLInputElement>(null);
   const [ocrText, setOcrText] = useState("");
   const [isLoading, setIsLoading] = useState(false);
@@ -20,11 +22,11 @@ export const OCRReader = ({ speak, lang = "eng" }: OCRReaderProps) => {
     try {
       const { data } = await Tesseract.recognize(file, lang);
       setOcrText(data.text);
-      speak(`Text found: ${data.text}`);
+      speak(t("ocr.textFound", { text: data.text }));
       toast.success("OCR success", { description: data.text });
     } catch (e) {
       toast.error("OCR failed", { description: "Could not read text" });
-      speak("Sorry, I could not read the text. Please try again.");
+      speak(t("ocr.failed"));
     }
     setIsLoading(false);
   };
@@ -2,19 +2,23 @@
 import { useState } from "react";
 import { Button } from "@/components/ui/button";
 import { Card } from "@/components/ui/card";
+import { Translate } from "@/utils/i18n";
+import { Speak } from "@/utils/speechQueue";
 
 export const PathDemo = ({
   speak,
+  t,
   onSimulateObstacle,
 }: {
-  speak: (t: string) => void;
+  speak: Speak;
+  t: Translate;
   onSimulateObstacle: (type: string) => void;
 }) => {
   const scenarios = [
-    { name: "Stairs Ahead", desc: "Simulates stairs detected", type: "stairs" },
-    { name: "Doorway", desc: "Simulates a doorway", type: "door" },
-    { name: "Pole Ahead", desc: "Simulates obstacle pole", type: "pole" },
-    { name: "Clear Path", desc: "Simulates walkable path", type: "path" },
+    { name: t("demo.stairs.name"), desc: t("demo.stairs.description"), type: "stairs" },
+    { name: t("demo.door.name"), desc: t("demo.door.description"), type: "door" },
+    { name: t("demo.pole.name"), desc: t("demo.pole.description"), type: "pole" },
+    { name: t("demo.path.name"), desc: t("demo.path.description"), type: "path" },
   ];
   return (
     <Card className="p-4 bg-gray-800 border-gray-600 mt-2 text-white">
@@ -25,7 +29,7 @@ export const PathDemo = ({
             key={s.type}
             className="bg-blue-900 text-white"
             onClick={() => {
-              speak(`${s.name} detected. ${s.desc}`);
+              speak(t("demo.detected", { name: s.name, description: s.desc }), { priority: "critical", key: "hazard" });
               onSimulateObstacle(s.type);
             }}
           >
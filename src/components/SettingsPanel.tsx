@@ -1,48 +1,278 @@
-
-import { useState } from 'react';
-import { Settings, Volume2, Gauge, TestTube, RotateCcw, Check } from 'lucide-react';
+import { useState, useEffect, useRef } from 'react';
+import { Settings, Volume2, Gauge, TestTube, RotateCcw, Check, Ear, ShieldAlert, Trash2, Mic, Headphones, Vibrate, BookA, Plus, X, Download } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Card } from '@/components/ui/card';
 import { Slider } from '@/components/ui/slider';
-
-interface VoiceSettings {
-  rate: number;
-  pitch: number;
-  volume: number;
-  enabled: boolean;
-}
+import { Switch } from '@/components/ui/switch';
+import { VoiceSettings, DEFAULT_VOICE_SETTINGS } from '@/utils/voiceSettings';
+import { Translate, MessageKey, Verbosity } from '@/utils/i18n';
+import { Speak, SpeakOptions } from '@/utils/speechQueue';
+import { RECOGNIZER_BACKENDS, isRecognizerSupported } from '@/utils/speechRecognizer';
+import { WHISPER_MODELS } from '@/utils/whisperModels';
+import { EarconCategory, getEarconDurationMs, playCategoryEarcon } from '@/utils/earcons';
+import {
+  HAPTIC_CUES,
+  DEFAULT_HAPTIC_PATTERNS,
+  HapticCue,
+  formatHapticPattern,
+  getHapticPattern,
+  isHapticsSupported,
+  parseHapticPattern,
+  vibrate,
+} from '@/utils/haptics';
+import { useSystemVoices } from '@/hooks/useSystemVoices';
+import { describeVoice, findVoice, getVoicesForLanguage } from '@/utils/voices';
+import { LexiconEntry, UnitSystem } from '@/utils/speechFormat';
+import { DirectionStyle } from '@/utils/directions';
+import { OfflineVoiceMode, deleteNeuralTtsModel, getNeuralTtsModel, isNeuralTtsModelCached } from '@/utils/neuralTtsModels';
+import { isNeuralSpeechSupported, loadNeuralTtsModel } from '@/utils/neuralSpeechEngine';
 
 interface SettingsPanelProps {
-  speak: (text: string) => void;
+  speak: Speak;
+  t: Translate;
+  lang: string; // speech language whose voice is being chosen
   voiceSettings: VoiceSettings;
   onVoiceSettingsChange: (settings: VoiceSettings) => void;
+  onEraseData: () => void;
 }
 
-export const SettingsPanel = ({ speak, voiceSettings, onVoiceSettingsChange }: SettingsPanelProps) => {
-  const [testMessage] = useState("This is a test of your voice settings. You can adjust the speech rate, pitch, and volume to your preference.");
+// Dragging a slider produces a burst of changes; only the latest value is worth saying
+const SETTING_SPEECH: SpeakOptions = { key: 'settings.change' };
+
+const VERBOSITY_OPTIONS: { id: Verbosity; label: string; description: string }[] = [
+  { id: 'terse', label: 'Brief', description: 'Only the essentials, for when you know the app well.' },
+  { id: 'normal', label: 'Normal', description: 'Complete sentences with the key details.' },
+  { id: 'detailed', label: 'Detailed', description: 'Explains what is happening and what you can say next.' },
+];
+
+const OFFLINE_VOICE_OPTIONS: { id: OfflineVoiceMode; label: string; description: string }[] = [
+  { id: 'fallback', label: 'When no system voice', description: 'Languages the browser cannot speak use the offline voice.' },
+  { id: 'always', label: 'Always', description: 'Every message uses the offline voice, even where a system voice exists.' },
+  { id: 'off', label: 'Never', description: 'Only system voices are used; languages without one stay silent.' },
+];
+
+const UNIT_OPTIONS: { id: UnitSystem; label: string }[] = [
+  { id: 'auto', label: 'Match my language' },
+  { id: 'metric', label: 'Meters and kilometers' },
+  { id: 'imperial', label: 'Feet and miles' },
+];
 
-  const updateSetting = (setting: keyof VoiceSettings, value: number | boolean) => {
+const DIRECTION_STYLE_OPTIONS: { id: DirectionStyle; label: string }[] = [
+  { id: 'clock', label: "Clock face (person at 2 o'clock)" },
+  { id: 'degrees', label: 'Degrees (person 30 degrees right)' },
+  { id: 'sides', label: 'Left, center or right' },
+];
+
+// A person on the left, a vehicle ahead and a chair on the right
+const EARCON_PREVIEW: { category: EarconCategory; pan: number }[] = [
+  { category: 'person', pan: -0.9 },
+  { category: 'vehicle', pan: 0 },
+  { category: 'furniture', pan: 0.9 },
+];
+
+export const SettingsPanel = ({ speak, t, lang, voiceSettings, onVoiceSettingsChange, onEraseData }: SettingsPanelProps) => {
+  const voices = useSystemVoices();
+  const languageVoices = getVoicesForLanguage(voices, lang);
+  const otherVoices = voices.filter(voice => !languageVoices.includes(voice));
+  const selectedVoiceURI = voiceSettings.preferredVoices[lang] ?? '';
+  const selectedVoice = findVoice(voices, selectedVoiceURI);
+  const announceVoiceRef = useRef(false);
+  const announceLexiconRef = useRef<string | null>(null);
+
+  // Pattern text being edited, kept apart from the saved pattern until it parses
+  const [patternDrafts, setPatternDrafts] = useState<Partial<Record<HapticCue, string>>>({});
+  const offlineModel = getNeuralTtsModel(lang);
+  const [offlineModelCached, setOfflineModelCached] = useState<boolean | null>(null);
+  const [offlineDownloadProgress, setOfflineDownloadProgress] = useState<number | null>(null);
+  const [lexiconDraft, setLexiconDraft] = useState<LexiconEntry>({ written: '', spoken: '' });
+
+  const updateSetting = (setting: keyof VoiceSettings, value: number | boolean | string) => {
     const newSettings = { ...voiceSettings, [setting]: value };
     onVoiceSettingsChange(newSettings);
     
     // Provide immediate feedback
     if (setting === 'rate') {
-      speak(`Speech rate set to ${Math.round(value as number * 100)} percent`);
+      speak(t('settings.rateSet', { percent: Math.round(value as number * 100) }), SETTING_SPEECH);
     } else if (setting === 'volume') {
-      speak(`Volume set to ${Math.round(value as number * 100)} percent`);
+      speak(t('settings.volumeSet', { percent: Math.round(value as number * 100) }), SETTING_SPEECH);
     } else if (setting === 'pitch') {
-      speak(`Speech pitch adjusted`);
+      speak(t('settings.pitchAdjusted'), SETTING_SPEECH);
+    } else if (setting === 'wakeWordEnabled') {
+      speak(value ? t('settings.wakeWordOn') : t('settings.wakeWordOff'), SETTING_SPEECH);
+    } else if (setting === 'wakeWordWindowMs') {
+      speak(t('settings.commandWindow', { seconds: Math.round(value as number / 1000) }), SETTING_SPEECH);
+    } else if (setting === 'emergencyAutoCall') {
+      speak(value ? t('settings.countdownOn', { seconds: voiceSettings.emergencyCountdownSeconds }) : t('settings.countdownOff'), SETTING_SPEECH);
+    } else if (setting === 'emergencyCountdownSeconds') {
+      speak(t('settings.countdownOn', { seconds: value as number }), SETTING_SPEECH);
+    } else if (setting === 'recognizerBackend') {
+      speak(t('settings.recognizerSet', { name: t(`recognizer.${value}` as MessageKey) }), SETTING_SPEECH);
+    } else if (setting === 'whisperModel') {
+      const model = WHISPER_MODELS.find(option => option.id === value);
+      speak(model ? t('settings.whisperModelSet', { name: model.label }) : t('settings.whisperModelAuto'), SETTING_SPEECH);
+    } else if (setting === 'verbosity') {
+      speak(t(`settings.verbosity.${value}` as MessageKey), SETTING_SPEECH);
+    } else if (setting === 'offlineVoice') {
+      speak(t(`settings.offlineVoice.${value}` as MessageKey), SETTING_SPEECH);
+    } else if (setting === 'units') {
+      speak(t(`settings.units.${value}` as MessageKey), SETTING_SPEECH);
+    } else if (setting === 'directionStyle') {
+      speak(t(`settings.directionStyle.${value}` as MessageKey), SETTING_SPEECH);
+    } else if (setting === 'earconsEnabled') {
+      speak(value ? t('settings.earconsOn') : t('settings.earconsOff'), SETTING_SPEECH);
+    } else if (setting === 'hapticsEnabled') {
+      speak(value ? t('settings.hapticsOn') : t('settings.hapticsOff'), SETTING_SPEECH);
+      if (value) vibrate(DEFAULT_HAPTIC_PATTERNS.commandRecognized);
+    } else if (setting === 'earconVolume') {
+      // Hearing the level is more useful than being told it
+      playCategoryEarcon('object', { pan: 0, proximity: 0.5, volume: value as number });
+    }
+  };
+
+  const hapticName = (cue: HapticCue) => t(`haptic.${cue}` as MessageKey);
+
+  const previewHaptic = (cue: HapticCue) => {
+    if (!isHapticsSupported()) {
+      speak(t('settings.hapticsUnsupported'), SETTING_SPEECH);
+      return;
+    }
+    const draft = patternDrafts[cue];
+    vibrate((draft !== undefined && parseHapticPattern(draft)) || getHapticPattern(cue, voiceSettings.hapticPatterns));
+  };
+
+  // Saving the default pattern drops the override, so future default changes still apply
+  const saveHapticPattern = (cue: HapticCue, pattern: number[] | null) => {
+    const hapticPatterns = { ...voiceSettings.hapticPatterns };
+    if (!pattern || formatHapticPattern(pattern) === formatHapticPattern(DEFAULT_HAPTIC_PATTERNS[cue])) {
+      delete hapticPatterns[cue];
+    } else {
+      hapticPatterns[cue] = pattern;
+    }
+    onVoiceSettingsChange({ ...voiceSettings, hapticPatterns });
+    setPatternDrafts(prev => ({ ...prev, [cue]: undefined }));
+  };
+
+  const commitPatternDraft = (cue: HapticCue) => {
+    const draft = patternDrafts[cue];
+    if (draft === undefined) return;
+    const pattern = parseHapticPattern(draft);
+    if (!pattern) {
+      speak(t('settings.hapticPatternInvalid'), SETTING_SPEECH);
+      return;
+    }
+    saveHapticPattern(cue, pattern);
+    vibrate(pattern);
+    speak(t('settings.hapticPatternSaved', { name: hapticName(cue) }), SETTING_SPEECH);
+  };
+
+  const resetHapticPattern = (cue: HapticCue) => {
+    saveHapticPattern(cue, null);
+    vibrate(DEFAULT_HAPTIC_PATTERNS[cue]);
+    speak(t('settings.hapticPatternReset', { name: hapticName(cue) }), SETTING_SPEECH);
+  };
+
+  const previewEarcons = () => {
+    let delayMs = 0;
+    EARCON_PREVIEW.forEach(({ category, pan }) => {
+      playCategoryEarcon(category, { pan, proximity: 0.6, volume: voiceSettings.earconVolume, delayMs });
+      delayMs += getEarconDurationMs(category) + 400;
+    });
+  };
+
+  // Cache Storage is the only record of which voices were downloaded
+  useEffect(() => {
+    let cancelled = false;
+    setOfflineModelCached(null);
+    if (offlineModel) {
+      isNeuralTtsModelCached(offlineModel).then(cached => {
+        if (!cancelled) setOfflineModelCached(cached);
+      });
+    }
+    return () => {
+      cancelled = true;
+    };
+  }, [offlineModel?.id]);
+
+  const downloadOfflineVoice = async () => {
+    if (!offlineModel || offlineDownloadProgress !== null) return;
+    speak(t('settings.offlineVoiceDownloading', { name: offlineModel.label, size: offlineModel.sizeMb }), SETTING_SPEECH);
+    setOfflineDownloadProgress(0);
+    try {
+      await loadNeuralTtsModel(offlineModel.id, setOfflineDownloadProgress);
+      setOfflineModelCached(true);
+      speak(t('settings.offlineVoiceReady', { name: offlineModel.label }), SETTING_SPEECH);
+    } catch {
+      speak(t('settings.offlineVoiceFailed', { name: offlineModel.label }), SETTING_SPEECH);
+    } finally {
+      setOfflineDownloadProgress(null);
+    }
+  };
+
+  const removeOfflineVoice = async () => {
+    if (!offlineModel) return;
+    await deleteNeuralTtsModel(offlineModel);
+    setOfflineModelCached(false);
+    speak(t('settings.offlineVoiceRemoved', { name: offlineModel.label }), SETTING_SPEECH);
+  };
+
+  // A word already in the list is replaced rather than added twice
+  const addLexiconEntry = () => {
+    const entry = { written: lexiconDraft.written.trim(), spoken: lexiconDraft.spoken.trim() };
+    if (!entry.written || !entry.spoken) {
+      speak(t('settings.lexiconIncomplete'), SETTING_SPEECH);
+      return;
     }
+    const lexicon = [
+      ...voiceSettings.lexicon.filter(existing => existing.written.toLowerCase() !== entry.written.toLowerCase()),
+      entry,
+    ];
+    onVoiceSettingsChange({ ...voiceSettings, lexicon });
+    setLexiconDraft({ written: '', spoken: '' });
+    announceLexiconRef.current = entry.written;
+  };
+
+  // Spoken after the new lexicon is in use, so {written} is heard with its new pronunciation
+  useEffect(() => {
+    const written = announceLexiconRef.current;
+    if (!written) return;
+    announceLexiconRef.current = null;
+    speak(t('settings.lexiconAdded', { written }), SETTING_SPEECH);
+  }, [voiceSettings.lexicon]);
+
+  const removeLexiconEntry = (written: string) => {
+    onVoiceSettingsChange({ ...voiceSettings, lexicon: voiceSettings.lexicon.filter(entry => entry.written !== written) });
+    speak(t('settings.lexiconRemoved'), SETTING_SPEECH);
+  };
+
+  const selectVoice = (voiceURI: string) => {
+    const preferredVoices = { ...voiceSettings.preferredVoices };
+    if (voiceURI) {
+      preferredVoices[lang] = voiceURI;
+    } else {
+      delete preferredVoices[lang];
+    }
+    onVoiceSettingsChange({ ...voiceSettings, preferredVoices });
+    announceVoiceRef.current = true;
+  };
+
+  // Confirmed once the new voice is in use, so the confirmation is also a preview
+  useEffect(() => {
+    if (!announceVoiceRef.current) return;
+    announceVoiceRef.current = false;
+    speak(selectedVoice ? t('settings.voiceSet', { name: selectedVoice.name }) : t('settings.voiceDefault'), SETTING_SPEECH);
+  }, [selectedVoiceURI]);
+
+  const previewVoice = () => {
+    speak(t('settings.voicePreview'), SETTING_SPEECH);
   };
 
   const testVoiceSettings = () => {
-    speak(testMessage);
+    speak(t('settings.testMessage'));
   };
 
   const resetToDefaults = () => {
-    const defaultSettings = { rate: 0.8, pitch: 1, volume: 1, enabled: true };
-    onVoiceSettingsChange(defaultSettings);
-    speak("Voice settings reset to default values");
+    onVoiceSettingsChange(DEFAULT_VOICE_SETTINGS);
+    speak(t('settings.resetDone'));
   };
 
   const increaseSpeechRate = () => {
@@ -81,6 +311,55 @@ export const SettingsPanel = ({ speak, voiceSettings, onVoiceSettingsChange }: S
 
         {/* Speech Rate */}
         <div className="space-y-4 mb-6">
+          {/* Voice */}
+          <div>
+            <label htmlFor="voice" className="text-white font-medium block mb-2">
+              Voice for {lang}
+            </label>
+            <div className="flex gap-2">
+              <select
+                id="voice"
+                value={selectedVoiceURI}
+                onChange={e => selectVoice(e.target.value)}
+                onFocus={() => speak(t('settings.focusVoice'), { key: 'focus' })}
+                className="flex-1 min-w-0 bg-black text-white border p-2 rounded"
+              >
+                <option value="">Browser default</option>
+                {selectedVoiceURI && !selectedVoice && (
+                  <option value={selectedVoiceURI}>Saved voice (not available on this device)</option>
+                )}
+                {languageVoices.length > 0 && (
+                  <optgroup label="This language">
+                    {languageVoices.map(voice => (
+                      <option value={voice.voiceURI} key={voice.voiceURI}>{describeVoice(voice)}</option>
+                    ))}
+                  </optgroup>
+                )}
+                {otherVoices.length > 0 && (
+                  <optgroup label="Other languages">
+                    {otherVoices.map(voice => (
+                      <option value={voice.voiceURI} key={voice.voiceURI}>{describeVoice(voice)}</option>
+                    ))}
+                  </optgroup>
+                )}
+              </select>
+              <Button
+                onClick={previewVoice}
+                className="bg-purple-500 hover:bg-purple-600 text-white text-sm"
+                onFocus={() => speak(t('settings.focusVoicePreview'), { key: 'focus' })}
+              >
+                Preview
+              </Button>
+            </div>
+            <p className="text-gray-300 text-sm mt-2">
+              {selectedVoice
+                ? selectedVoice.localService
+                  ? 'On-device voice: works offline and keeps what is spoken on this device.'
+                  : 'Network voice: needs a connection, and spoken text is sent to the voice provider.'
+                : `${voices.length} voices available. Each speech language remembers its own choice.`}
+            </p>
+          </div>
+
           <div>
             <label className="text-white font-medium block mb-2">
               Speech Rate: {Math.round(voiceSettings.rate * 100)}%
@@ -97,14 +376,14 @@ export const SettingsPanel = ({ speak, voiceSettings, onVoiceSettingsChange }: S
               <Button
                 onClick={decreaseSpeechRate}
                 className="bg-blue-500 hover:bg-blue-600 text-white text-sm"
-                onFocus={() => speak('Decrease speech rate')}
+                onFocus={() => speak(t('settings.focusSlower'), { key: 'focus' })}
               >
                 Slower
               </Button>
               <Button
                 onClick={increaseSpeechRate}
                 className="bg-blue-500 hover:bg-blue-600 text-white text-sm"
-                onFocus={() => speak('Increase speech rate')}
+                onFocus={() => speak(t('settings.focusFaster'), { key: 'focus' })}
               >
                 Faster
               </Button>
@@ -128,14 +407,14 @@ export const SettingsPanel = ({ speak, voiceSettings, onVoiceSettingsChange }: S
               <Button
                 onClick={decreaseVolume}
                 className="bg-green-500 hover:bg-green-600 text-white text-sm"
-                onFocus={() => speak('Decrease volume')}
+                onFocus={() => speak(t('settings.focusQuieter'), { key: 'focus' })}
               >
                 Quieter
               </Button>
               <Button
                 onClick={increaseVolume}
                 className="bg-green-500 hover:bg-green-600 text-white text-sm"
-                onFocus={() => speak('Increase volume')}
+                onFocus={() => speak(t('settings.focusLouder'), { key: 'focus' })}
               >
                 Louder
               </Button>
@@ -156,6 +435,27 @@ export const SettingsPanel = ({ speak, voiceSettings, onVoiceSettingsChange }: S
               className="w-full"
             />
           </div>
+
+          {/* Verbosity */}
+          <div>
+            <label htmlFor="verbosity" className="text-white font-medium block mb-2">
+              Message Detail
+            </label>
+            <select
+              id="verbosity"
+              value={voiceSettings.verbosity}
+              onChange={e => updateSetting('verbosity', e.target.value)}
+              onFocus={() => speak(t('settings.focusVerbosity'), { key: 'focus' })}
+              className="w-full bg-black text-white border p-2 rounded"
+            >
+              {VERBOSITY_OPTIONS.map(option => (
+                <option value={option.id} key={option.id}>{option.label}</option>
+              ))}
+            </select>
+            <p className="text-gray-300 text-sm mt-2">
+              {VERBOSITY_OPTIONS.find(option => option.id === voiceSettings.verbosity)?.description} Say "be brief" or "more detail" to switch.
+            </p>
+          </div>
         </div>
 
         {/* Action Buttons */}
@@ -163,7 +463,7 @@ export const SettingsPanel = ({ speak, voiceSettings, onVoiceSettingsChange }: S
           <Button
             onClick={testVoiceSettings}
             className="bg-purple-500 hover:bg-purple-600 text-white flex-1"
-            onFocus={() => speak('Test voice settings')}
+            onFocus={() => speak(t('settings.focusTest'), { key: 'focus' })}
           >
             <TestTube className="w-4 h-4 mr-2" />
             Test Voice
@@ -171,7 +471,7 @@ export const SettingsPanel = ({ speak, voiceSettings, onVoiceSettingsChange }: S
           <Button
             onClick={resetToDefaults}
             className="bg-orange-500 hover:bg-orange-600 text-white flex-1"
-            onFocus={() => speak('Reset to default settings')}
+            onFocus={() => speak(t('settings.focusReset'), { key: 'focus' })}
           >
             <RotateCcw className="w-4 h-4 mr-2" />
             Reset Defaults
@@ -179,6 +479,445 @@ export const SettingsPanel = ({ speak, voiceSettings, onVoiceSettingsChange }: S
         </div>
       </Card>
 
+      {/* Offline Voice */}
+      <Card className="bg-white/10 border-white/20 p-6">
+        <h3 className="text-xl font-semibold text-white mb-4 flex items-center gap-2">
+          <Download className="w-6 h-6" />
+          Offline Voice
+        </h3>
+
+        <div className="space-y-4">
+          <div>
+            <label htmlFor="offline-voice" className="text-white font-medium block mb-2">
+              Use the offline voice
+            </label>
+            <select
+              id="offline-voice"
+              value={voiceSettings.offlineVoice}
+              onChange={e => updateSetting('offlineVoice', e.target.value)}
+              onFocus={() => speak(t('settings.focusOfflineVoice'), { key: 'focus' })}
+              disabled={!isNeuralSpeechSupported()}
+              className="w-full bg-black text-white border p-2 rounded"
+            >
+              {OFFLINE_VOICE_OPTIONS.map(option => (
+                <option value={option.id} key={option.id}>{option.label}</option>
+              ))}
+            </select>
+            <p className="text-gray-300 text-sm mt-2">
+              {isNeuralSpeechSupported()
+                ? OFFLINE_VOICE_OPTIONS.find(option => option.id === voiceSettings.offlineVoice)?.description
+                : 'This browser cannot run offline voices.'}
+            </p>
+          </div>
+
+          {offlineModel ? (
+            <div>
+              <p className="text-white">
+                {offlineModel.label} voice (about {offlineModel.sizeMb} MB):{' '}
+                {offlineDownloadProgress !== null
+                  ? `downloading ${offlineDownloadProgress}%`
+                  : offlineModelCached === null ? 'checking…' : offlineModelCached ? 'downloaded' : 'not downloaded'}
+              </p>
+              <div className="flex gap-2 mt-2">
+                <Button
+                  onClick={downloadOfflineVoice}
+                  disabled={offlineDownloadProgress !== null || offlineModelCached === true || !isNeuralSpeechSupported()}
+                  className="bg-blue-500 hover:bg-blue-600 text-white text-sm"
+                  onFocus={() => speak(t('settings.focusOfflineVoiceDownload', { name: offlineModel.label }), { key: 'focus' })}
+                >
+                  <Download className="w-4 h-4 mr-2" />
+                  Download
+                </Button>
+                {offlineModelCached && (
+                  <Button
+                    onClick={removeOfflineVoice}
+                    className="bg-orange-500 hover:bg-orange-600 text-white text-sm"
+                  >
+                    <Trash2 className="w-4 h-4 mr-2" />
+                    Remove
+                  </Button>
+                )}
+              </div>
+              <p className="text-gray-300 text-sm mt-2">
+                Downloaded voices stay on this device and speak without a connection. Speech rate and pitch do not apply to them.
+              </p>
+            </div>
+          ) : (
+            <p className="text-gray-300 text-sm">No offline voice is available for {lang} yet.</p>
+          )}
+        </div>
+      </Card>
+
+      {/* Speech Recognition Settings */}
+      <Card className="bg-white/10 border-white/20 p-6">
+        <h3 className="text-xl font-semibold text-white mb-4 flex items-center gap-2">
+          <Mic className="w-6 h-6" />
+          Speech Recognition
+        </h3>
+
+        <div className="space-y-4">
+          <div>
+            <label htmlFor="recognizer-backend" className="text-white font-medium block mb-2">
+              Recognizer
+            </label>
+            <select
+              id="recognizer-backend"
+              value={voiceSettings.recognizerBackend}
+              onChange={e => updateSetting('recognizerBackend', e.target.value)}
+              onFocus={() => speak(t('settings.focusRecognizer'), { key: 'focus' })}
+              className="w-full bg-black text-white border p-2 rounded"
+            >
+              {RECOGNIZER_BACKENDS.map(option => (
+                <option value={option.id} key={option.id} disabled={!isRecognizerSupported(option.id)}>
+                  {option.label}{isRecognizerSupported(option.id) ? '' : ' (not supported here)'}
+                </option>
+              ))}
+            </select>
+            <p className="text-gray-300 text-sm mt-2">
+              {RECOGNIZER_BACKENDS.find(option => option.id === voiceSettings.recognizerBackend)?.description}
+            </p>
+          </div>
+
+          {voiceSettings.recognizerBackend === 'whisper' && (
+            <div>
+              <label htmlFor="whisper-model" className="text-white font-medium block mb-2">
+                Offline Model
+              </label>
+              <select
+                id="whisper-model"
+                value={voiceSettings.whisperModel}
+                onChange={e => updateSetting('whisperModel', e.target.value)}
+                className="w-full bg-black text-white border p-2 rounded"
+              >
+                <option value="">Automatic (smallest for the speech language)</option>
+                {WHISPER_MODELS.map(model => (
+                  <option value={model.id} key={model.id}>
+                    {model.label} ~{model.sizeMb} MB
+                  </option>
+                ))}
+              </select>
+              <p className="text-gray-300 text-sm mt-2">
+                Larger models are more accurate but slower. English-only models are replaced by a multilingual one for other languages.
+              </p>
+            </div>
+          )}
+        </div>
+      </Card>
+
+      {/* Object Sounds */}
+      <Card className="bg-white/10 border-white/20 p-6">
+        <h3 className="text-xl font-semibold text-white mb-4 flex items-center gap-2">
+          <Headphones className="w-6 h-6" />
+          Object Sounds
+        </h3>
+
+        <div className="space-y-4">
+          <div>
+            <label htmlFor="direction-style" className="text-white font-medium block mb-2">
+              Spoken Directions
+            </label>
+            <select
+              id="direction-style"
+              value={voiceSettings.directionStyle}
+              onChange={e => updateSetting('directionStyle', e.target.value)}
+              onFocus={() => speak(t('settings.focusDirectionStyle'), { key: 'focus' })}
+              className="w-full bg-black text-white border p-2 rounded"
+            >
+              {DIRECTION_STYLE_OPTIONS.map(option => (
+                <option value={option.id} key={option.id}>{option.label}</option>
+              ))}
+            </select>
+            <p className="text-gray-300 text-sm mt-2">
+              How the camera says where each object is. With a compass, directions allow for turning and degrees also name the compass direction.
+            </p>
+          </div>
+
+          <div className="flex items-center justify-between gap-4">
+            <label htmlFor="earcons-enabled" className="text-white font-medium">
+              Play a sound where each object is
+            </label>
+            <Switch
+              id="earcons-enabled"
+              checked={voiceSettings.earconsEnabled}
+              onCheckedChange={(checked) => updateSetting('earconsEnabled', checked)}
+              onFocus={() => speak(t('settings.focusEarcons'), { key: 'focus' })}
+            />
+          </div>
+
+          <div>
+            <label className="text-white font-medium block mb-2">
+              Sound Volume: {Math.round(voiceSettings.earconVolume * 100)}%
+            </label>
+            <Slider
+              value={[voiceSettings.earconVolume]}
+              onValueChange={(value) => updateSetting('earconVolume', value[0])}
+              min={0.1}
+              max={1}
+              step={0.1}
+              disabled={!voiceSettings.earconsEnabled}
+              className="w-full"
+            />
+            <p className="text-gray-300 text-sm mt-2">
+              Objects on the left of the camera are heard in the left ear, and closer objects are louder. Use headphones for the clearest direction. Muting sounds does not affect speech.
+            </p>
+          </div>
+
+          <Button
+            onClick={previewEarcons}
+            disabled={!voiceSettings.earconsEnabled}
+            className="bg-purple-500 hover:bg-purple-600 text-white w-full"
+            onFocus={() => speak(t('settings.focusEarconPreview'), { key: 'focus' })}
+          >
+            <Headphones className="w-4 h-4 mr-2" />
+            Preview Sounds
+          </Button>
+        </div>
+      </Card>
+
+      {/* Vibration */}
+      <Card className="bg-white/10 border-white/20 p-6">
+        <h3 className="text-xl font-semibold text-white mb-4 flex items-center gap-2">
+          <Vibrate className="w-6 h-6" />
+          Vibration
+        </h3>
+
+        <div className="space-y-4">
+          <div className="flex items-center justify-between gap-4">
+            <label htmlFor="haptics-enabled" className="text-white font-medium">
+              Vibrate for alerts, turns and commands
+            </label>
+            <Switch
+              id="haptics-enabled"
+              checked={voiceSettings.hapticsEnabled}
+              onCheckedChange={(checked) => updateSetting('hapticsEnabled', checked)}
+              onFocus={() => speak(t('settings.focusHaptics'), { key: 'focus' })}
+            />
+          </div>
+          {!isHapticsSupported() && (
+            <p className="text-yellow-300 text-sm">This device or browser cannot vibrate. Patterns are saved for when you use one that can.</p>
+          )}
+
+          {HAPTIC_CUES.map(cue => {
+            const saved = formatHapticPattern(getHapticPattern(cue.id, voiceSettings.hapticPatterns));
+            const draft = patternDrafts[cue.id];
+            const invalid = draft !== undefined && !parseHapticPattern(draft);
+            return (
+              <div key={cue.id}>
+                <label htmlFor={`haptic-${cue.id}`} className="text-white font-medium block">
+                  {cue.label}
+                </label>
+                <p className="text-gray-300 text-sm mb-1">{cue.description}</p>
+                <div className="flex gap-2">
+                  <input
+                    id={`haptic-${cue.id}`}
+                    value={draft ?? saved}
+                    onChange={e => setPatternDrafts(prev => ({ ...prev, [cue.id]: e.target.value }))}
+                    onBlur={() => commitPatternDraft(cue.id)}
+                    onKeyDown={e => e.key === 'Enter' && commitPatternDraft(cue.id)}
+                    disabled={!voiceSettings.hapticsEnabled}
+                    aria-invalid={invalid}
+                    aria-describedby="haptic-pattern-help"
+                    className={`flex-1 bg-black text-white border p-2 rounded ${invalid ? 'border-red-500' : ''}`}
+                  />
+                  <Button
+                    onClick={() => previewHaptic(cue.id)}
+                    disabled={!voiceSettings.hapticsEnabled}
+                    className="bg-purple-500 hover:bg-purple-600 text-white text-sm"
+                    onFocus={() => speak(t('settings.focusHapticPreview', { name: hapticName(cue.id) }), { key: 'focus' })}
+                  >
+                    Preview
+                  </Button>
+                  {voiceSettings.hapticPatterns[cue.id] && (
+                    <Button
+                      onClick={() => resetHapticPattern(cue.id)}
+                      className="bg-orange-500 hover:bg-orange-600 text-white text-sm"
+                    >
+                      <RotateCcw className="w-4 h-4" />
+                      <span className="sr-only">Reset {cue.label} pattern</span>
+                    </Button>
+                  )}
+                </div>
+              </div>
+            );
+          })}
+          <p id="haptic-pattern-help" className="text-gray-300 text-sm">
+            Patterns alternate vibration and pause lengths in milliseconds, for example "200, 100, 200" is two buzzes with a short gap.
+          </p>
+        </div>
+      </Card>
+
+      {/* Pronunciation */}
+      <Card className="bg-white/10 border-white/20 p-6">
+        <h3 className="text-xl font-semibold text-white mb-4 flex items-center gap-2">
+          <BookA className="w-6 h-6" />
+          Pronunciation
+        </h3>
+
+        <div className="space-y-4">
+          <div>
+            <label htmlFor="units" className="text-white font-medium block mb-2">
+              Distance Units
+            </label>
+            <select
+              id="units"
+              value={voiceSettings.units}
+              onChange={e => updateSetting('units', e.target.value)}
+              onFocus={() => speak(t('settings.focusUnits'), { key: 'focus' })}
+              className="w-full bg-black text-white border p-2 rounded"
+            >
+              {UNIT_OPTIONS.map(option => (
+                <option value={option.id} key={option.id}>{option.label}</option>
+              ))}
+            </select>
+          </div>
+
+          <div>
+            <h4 className="text-white font-medium mb-1">Custom Pronunciations</h4>
+            <p className="text-gray-300 text-sm mb-2">
+              Teach the voice how to say street names, people's names or abbreviations it gets wrong. Whole words are matched, in any case.
+            </p>
+            {voiceSettings.lexicon.length > 0 && (
+              <ul className="space-y-2 mb-3">
+                {voiceSettings.lexicon.map(entry => (
+                  <li key={entry.written} className="flex items-center gap-2 text-white">
+                    <span className="flex-1">
+                      {entry.written} <span className="text-gray-400">→</span> {entry.spoken}
+                    </span>
+                    <Button
+                      onClick={() => speak(entry.written, SETTING_SPEECH)}
+                      className="bg-purple-500 hover:bg-purple-600 text-white text-sm"
+                      onFocus={() => speak(t('settings.focusLexiconTest', { spoken: entry.spoken }), { key: 'focus' })}
+                    >
+                      <Volume2 className="w-4 h-4" />
+                      <span className="sr-only">Hear {entry.written}</span>
+                    </Button>
+                    <Button
+                      onClick={() => removeLexiconEntry(entry.written)}
+                      className="bg-orange-500 hover:bg-orange-600 text-white text-sm"
+                    >
+                      <X className="w-4 h-4" />
+                      <span className="sr-only">Remove {entry.written}</span>
+                    </Button>
+                  </li>
+                ))}
+              </ul>
+            )}
+            <div className="flex gap-2">
+              <input
+                aria-label="Written as"
+                placeholder="Written as, e.g. Ste"
+                value={lexiconDraft.written}
+                onChange={e => setLexiconDraft(prev => ({ ...prev, written: e.target.value }))}
+                onFocus={() => speak(t('settings.focusLexiconWritten'), { key: 'focus' })}
+                className="flex-1 min-w-0 bg-black text-white border p-2 rounded"
+              />
+              <input
+                aria-label="Said as"
+                placeholder="Said as, e.g. Sainte"
+                value={lexiconDraft.spoken}
+                onChange={e => setLexiconDraft(prev => ({ ...prev, spoken: e.target.value }))}
+                onKeyDown={e => e.key === 'Enter' && addLexiconEntry()}
+                onFocus={() => speak(t('settings.focusLexiconSpoken'), { key: 'focus' })}
+                className="flex-1 min-w-0 bg-black text-white border p-2 rounded"
+              />
+              <Button onClick={addLexiconEntry} className="bg-green-600 hover:bg-green-700 text-white">
+                <Plus className="w-4 h-4" />
+                <span className="sr-only">Add pronunciation</span>
+              </Button>
+            </div>
+          </div>
+        </div>
+      </Card>
+
+      {/* Wake Word Settings */}
+      <Card className="bg-white/10 border-white/20 p-6">
+        <h3 className="text-xl font-semibold text-white mb-4 flex items-center gap-2">
+          <Ear className="w-6 h-6" />
+          Wake Word
+        </h3>
+
+        <div className="space-y-4">
+          <div className="flex items-center justify-between gap-4">
+            <label htmlFor="wake-word-enabled" className="text-white font-medium">
+              Require "Hey Vision" before commands
+            </label>
+            <Switch
+              id="wake-word-enabled"
+              checked={voiceSettings.wakeWordEnabled}
+              onCheckedChange={(checked) => updateSetting('wakeWordEnabled', checked)}
+              onFocus={() => speak(t('settings.focusWakeWord'), { key: 'focus' })}
+            />
+          </div>
+
+          <div>
+            <label className="text-white font-medium block mb-2">
+              Command Window: {Math.round(voiceSettings.wakeWordWindowMs / 1000)} seconds
+            </label>
+            <Slider
+              value={[voiceSettings.wakeWordWindowMs]}
+              onValueChange={(value) => updateSetting('wakeWordWindowMs', value[0])}
+              min={3000}
+              max={15000}
+              step={1000}
+              disabled={!voiceSettings.wakeWordEnabled}
+              className="w-full"
+            />
+            <p className="text-gray-300 text-sm mt-2">
+              After saying only "Hey Vision", you have this long to speak your command.
+            </p>
+          </div>
+        </div>
+      </Card>
+
+      {/* Safety Confirmations */}
+      <Card className="bg-white/10 border-white/20 p-6">
+        <h3 className="text-xl font-semibold text-white mb-4 flex items-center gap-2">
+          <ShieldAlert className="w-6 h-6" />
+          Safety Confirmations
+        </h3>
+
+        <div className="space-y-4">
+          <div className="flex items-center justify-between gap-4">
+            <label htmlFor="emergency-auto-call" className="text-white font-medium">
+              Call emergency services automatically after a countdown
+            </label>
+            <Switch
+              id="emergency-auto-call"
+              checked={voiceSettings.emergencyAutoCall}
+              onCheckedChange={(checked) => updateSetting('emergencyAutoCall', checked)}
+              onFocus={() => speak(t('settings.focusEmergencyAutoCall'), { key: 'focus' })}
+            />
+          </div>
+
+          <div>
+            <label className="text-white font-medium block mb-2">
+              Emergency Call Countdown: {voiceSettings.emergencyCountdownSeconds} seconds
+            </label>
+            <Slider
+              value={[voiceSettings.emergencyCountdownSeconds]}
+              onValueChange={(value) => updateSetting('emergencyCountdownSeconds', value[0])}
+              min={5}
+              max={30}
+              step={1}
+              disabled={!voiceSettings.emergencyAutoCall}
+              className="w-full"
+            />
+            <p className="text-gray-300 text-sm mt-2">
+              Off by default: every call waits for you to say "yes". When turned on, calls to emergency services go ahead when the countdown ends unless you say "no". Other calls and messages always ask first.
+            </p>
+          </div>
+
+          <Button
+            onClick={onEraseData}
+            className="bg-red-600 hover:bg-red-700 text-white w-full"
+            onFocus={() => speak(t('settings.focusErase'), { key: 'focus' })}
+          >
+            <Trash2 className="w-4 h-4 mr-2" />
+            Erase All App Data
+          </Button>
+        </div>
+      </Card>
+
       {/* Voice Commands for Settings */}
       <Card className="bg-green-500/20 border-green-400/30 p-4">
         <h3 className="text-lg font-semibold text-green-200 mb-3">Settings Voice Commands:</h3>
@@ -189,6 +928,7 @@ export const SettingsPanel = ({ speak, voiceSettings, onVoiceSettingsChange }: S
           <div>"Hey Vision Volume Down" - Decrease volume</div>
           <div>"Hey Vision Test Voice" - Test current settings</div>
           <div>"Hey Vision Reset Settings" - Restore defaults</div>
+          <div>"Hey Vision Erase All Data" - Clear logs and settings</div>
         </div>
       </Card>
 
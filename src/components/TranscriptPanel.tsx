@@ -0,0 +1,145 @@
+import { useState, useEffect, useRef } from 'react';
+import { Captions, Copy } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card } from '@/components/ui/card';
+import { MessageKey, Translate } from '@/utils/i18n';
+import { Speak, SpeakOptions } from '@/utils/speechQueue';
+import {
+  HeardOutcome,
+  TRANSCRIPT_FILTERS,
+  TranscriptEntry,
+  TranscriptFilter,
+  isUrgentEntry,
+  matchesTranscriptFilter,
+} from '@/utils/transcript';
+
+interface TranscriptPanelProps {
+  entries: TranscriptEntry[];
+  speak: Speak;
+  t: Translate;
+  lang: string; // for timestamps
+}
+
+// Replaces an earlier copy confirmation instead of queueing behind it
+const TRANSCRIPT_SPEECH: SpeakOptions = { key: 'transcript.copy' };
+
+// Pixels from the bottom within which the list keeps following new lines
+const FOLLOW_THRESHOLD_PX = 40;
+
+export const TranscriptPanel = ({ entries, speak, t, lang }: TranscriptPanelProps) => {
+  const [filter, setFilter] = useState<TranscriptFilter>('all');
+  const listRef = useRef<HTMLOListElement>(null);
+  const followRef = useRef(true);
+
+  const visible = entries.filter(entry => matchesTranscriptFilter(entry, filter));
+  const lastEntry = visible[visible.length - 1];
+  // Separate regions so a hazard warning interrupts the screen reader and routine lines do not.
+  // Both follow every entry: the filter narrows the list on screen, never what is announced
+  const lastUrgent = [...entries].reverse().find(isUrgentEntry);
+  const lastRoutine = [...entries].reverse().find(entry => !isUrgentEntry(entry));
+
+  // Keep the newest line in view unless the user has scrolled back to read
+  useEffect(() => {
+    const list = listRef.current;
+    if (list && followRef.current) list.scrollTop = list.scrollHeight;
+  }, [visible.length, filter]);
+
+  const handleScroll = () => {
+    const list = listRef.current;
+    if (list) followRef.current = list.scrollHeight - list.scrollTop - list.clientHeight < FOLLOW_THRESHOLD_PX;
+  };
+
+  const formatTime = (at: number) => new Date(at).toLocaleTimeString(lang, { hour: 'numeric', minute: '2-digit', second: '2-digit' });
+
+  const outcomeLabel = (outcome: HeardOutcome) => t(`transcript.outcome.${outcome}` as MessageKey);
+  const filterLabel = (id: TranscriptFilter) => t(`transcript.filter.${id}` as MessageKey);
+
+  const describeEntry = (entry: TranscriptEntry) =>
+    entry.source === 'app'
+      ? t('transcript.fromApp', { text: entry.text })
+      : t('transcript.fromUser', { outcome: outcomeLabel(entry.outcome), text: entry.text });
+
+  const copyLastMessage = async () => {
+    if (!lastEntry) {
+      speak(t('transcript.nothingToCopy'), TRANSCRIPT_SPEECH);
+      return;
+    }
+    try {
+      await navigator.clipboard.writeText(lastEntry.text);
+      speak(t('transcript.copied'), TRANSCRIPT_SPEECH);
+    } catch {
+      // Clipboard access needs a secure context and, in some browsers, permission
+      speak(t('transcript.copyFailed'), TRANSCRIPT_SPEECH);
+    }
+  };
+
+  return (
+    <Card className="bg-white/10 border-white/20 p-4">
+      <div className="flex items-center justify-between gap-2 mb-3">
+        <h3 className="text-lg font-semibold text-white flex items-center gap-2">
+          <Captions className="w-5 h-5" />
+          Live Captions
+        </h3>
+        <Button
+          onClick={copyLastMessage}
+          className="bg-blue-500 hover:bg-blue-600 text-white text-sm"
+          onFocus={() => speak(t('transcript.focusCopy'), { key: 'focus' })}
+        >
+          <Copy className="w-4 h-4 mr-2" />
+          Copy last message
+        </Button>
+      </div>
+
+      <div className="flex flex-wrap gap-2 mb-3" role="group" aria-label="Show">
+        {TRANSCRIPT_FILTERS.map(id => (
+          <Button
+            key={id}
+            onClick={() => setFilter(id)}
+            aria-pressed={filter === id}
+            className={`text-sm ${filter === id ? 'bg-white text-black hover:bg-gray-200' : 'bg-white/10 text-white hover:bg-white/20'}`}
+            onFocus={() => speak(t('transcript.focusFilter', { name: filterLabel(id) }), { key: 'focus' })}
+          >
+            {filterLabel(id)}
+          </Button>
+        ))}
+      </div>
+
+      {/* Browsable history; new lines reach assistive technology through the regions below */}
+      <ol
+        ref={listRef}
+        onScroll={handleScroll}
+        aria-label="Caption history"
+        tabIndex={0}
+        className="max-h-64 overflow-y-auto space-y-2 pr-1"
+      >
+        {visible.length === 0 && (
+          <li className="text-gray-400 text-sm">Nothing yet. What the app says and hears will appear here.</li>
+        )}
+        {visible.map(entry => (
+          <li
+            key={entry.id}
+            className={`rounded p-2 text-sm ${
+              isUrgentEntry(entry) ? 'bg-red-500/30 text-red-50' : entry.source === 'app' ? 'bg-blue-500/20 text-blue-50' : 'bg-green-500/20 text-green-50'
+            }`}
+          >
+            <div className="flex items-center gap-2 text-xs opacity-80">
+              <time dateTime={new Date(entry.at).toISOString()}>{formatTime(entry.at)}</time>
+              <span className="uppercase tracking-wide">
+                {entry.source === 'app' ? `App · ${entry.priority}` : `You · ${outcomeLabel(entry.outcome)}`}
+              </span>
+            </div>
+            <p>{entry.text}</p>
+          </li>
+        ))}
+      </ol>
+
+      {/* Keyed by entry so a repeated message is announced again */}
+      <div className="sr-only" role="log" aria-live="polite" aria-atomic="true">
+        {lastRoutine && <p key={lastRoutine.id}>{describeEntry(lastRoutine)}</p>}
+      </div>
+      <div className="sr-only" role="alert" aria-live="assertive" aria-atomic="true">
+        {lastUrgent && <p key={lastUrgent.id}>{describeEntry(lastUrgent)}</p>}
+      </div>
+    </Card>
+  );
+};
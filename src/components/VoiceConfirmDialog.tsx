@@ -0,0 +1,44 @@
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { PendingConfirmation } from '@/hooks/useVoiceConfirmation';
+
+interface VoiceConfirmDialogProps {
+  pending: PendingConfirmation | null;
+  onRespond: (confirmed: boolean) => void;
+}
+
+export const VoiceConfirmDialog = ({ pending, onRespond }: VoiceConfirmDialogProps) => {
+  return (
+    <AlertDialog open={!!pending} onOpenChange={(open) => !open && onRespond(false)}>
+      <AlertDialogContent className="bg-slate-900 border-white/20 text-white">
+        <AlertDialogHeader>
+          <AlertDialogTitle className="text-2xl">{pending?.message}</AlertDialogTitle>
+          <AlertDialogDescription className="text-gray-300">
+            {pending?.detail && <span className="block mb-2">{pending.detail}</span>}
+            <span role="timer" aria-live="polite">
+              {pending?.autoProceed
+                ? `Proceeding automatically in ${pending.secondsLeft} seconds. Say "no" to cancel.`
+                : `Say "yes" to confirm or "no" to cancel. Cancelling in ${pending?.secondsLeft} seconds.`}
+            </span>
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+        <AlertDialogFooter>
+          <AlertDialogCancel onClick={() => onRespond(false)} className="h-14 text-lg">
+            No, Cancel
+          </AlertDialogCancel>
+          <AlertDialogAction onClick={() => onRespond(true)} className="h-14 text-lg bg-red-600 hover:bg-red-700">
+            Yes, Confirm
+          </AlertDialogAction>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+};
@@ -2,27 +2,45 @@ import { useState, useEffect, useRef } from 'react';
 import { Mic, MicOff, Volume2, Brain } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Card } from '@/components/ui/card';
-import { useWhisperTranscriber } from "@/hooks/useWhisperTranscriber";
-
-declare global {
-  interface Window {
-    webkitSpeechRecognition: any;
-    SpeechRecognition: any;
-    SpeechGrammarList: any;
-    webkitSpeechGrammarList: any;
-  }
-}
+import { useSpeechRecognizer } from "@/hooks/useSpeechRecognizer";
+import { detectWakeWord, normalizeTranscript } from '@/utils/wakeWord';
+import { playArmedCue, playDisarmedCue } from '@/utils/audioCues';
+import { AppMode, parseCommand, getCommandCards, getCommandExample } from '@/utils/commandGrammar';
+import { createCommandRegistry, getSlotVocabulary, SettingsChangeValue } from '@/utils/commandRegistry';
+import { LanguageOption } from '@/utils/languageOptions';
+import { Translate, getLocalePack, joinList } from '@/utils/i18n';
+import { SpokenMessage } from '@/utils/speechQueue';
+import { Haptic } from '@/utils/haptics';
+import { getRecentSpeech, removeSelfSpeech } from '@/utils/selfSpeech';
+import { HeardOutcome } from '@/utils/transcript';
+import { VoiceReplyResult } from '@/hooks/useVoiceConfirmation';
+import { RecognizerBackend, RecognizerError, RecognitionResult, RECOGNIZER_BACKENDS, isRecognizerSupported, needsMicrophone } from '@/utils/speechRecognizer';
 
 interface VoiceControlsProps {
   isListening: boolean;
   onListeningChange: (listening: boolean) => void;
-  onVoiceCommand: (command: string) => void;
+  onVoiceCommand: (mode: AppMode) => void;
   speak: (text: string) => void;
-  currentMode: string;
-  onSettingsChange: (setting: string, value: any) => void;
-  onCameraAction: (action: string) => void;
-  onNavigationAction: (action: string) => void;
+  haptic: Haptic;
+  t: Translate;
+  recognitionLang: string;
+  currentMode: AppMode;
+  onSettingsChange: (setting: string, value?: SettingsChangeValue) => void;
+  onCameraAction: (action: string, target?: string) => void;
+  onNavigationAction: (action: string, destination?: string) => void;
   onEmergencyAction: (action: string) => void;
+  onLanguageChange: (code: string) => void;
+  languageOptions: LanguageOption[];
+  onConfirmationReply: (transcript: string, isCommand: (text: string) => boolean) => VoiceReplyResult;
+  wakeWordEnabled: boolean;
+  wakeWordWindowMs: number;
+  recognizerBackend: RecognizerBackend;
+  whisperModel: string;
+  onRecognizerBackendChange: (backend: RecognizerBackend) => void;
+  onRepeatLastSpeech: () => boolean;
+  getSpeechHistory: () => SpokenMessage[];
+  onBargeIn: () => boolean;
+  onHeard: (text: string, outcome: HeardOutcome) => void; // final transcripts, for the captions
 }
 
 export const VoiceControls = ({
@@ -30,83 +48,66 @@ export const VoiceControls = ({
   onListeningChange, 
   onVoiceCommand, 
   speak,
+  haptic,
+  t,
+  recognitionLang,
   currentMode,
   onSettingsChange,
   onCameraAction,
   onNavigationAction,
-  onEmergencyAction
+  onEmergencyAction,
+  onLanguageChange,
+  languageOptions,
+  onConfirmationReply,
+  wakeWordEnabled,
+  wakeWordWindowMs,
+  recognizerBackend,
+  whisperModel,
+  onRecognizerBackendChange,
+  onRepeatLastSpeech,
+  getSpeechHistory,
+  onBargeIn,
+  onHeard
 }: VoiceControlsProps) => {
   const [transcript, setTranscript] = useState('');
   const [isProcessingCommand, setIsProcessingCommand] = useState(false);
   const [confidence, setConfidence] = useState(0);
-  const [recognitionState, setRecognitionState] = useState<'stopped' | 'starting' | 'running' | 'stopping'>('stopped');
   const [lastCommand, setLastCommand] = useState('');
   const [errorMessage, setErrorMessage] = useState<string | null>(null);
   const [microphonePermission, setMicrophonePermission] = useState<'granted' | 'denied' | 'prompt'>('prompt');
-  const [isSupported, setIsSupported] = useState(false);
   const [debugInfo, setDebugInfo] = useState<string[]>([]);
+  const [isArmed, setIsArmed] = useState(false);
 
-  const recognitionRef = useRef<any>(null);
-  const restartTimeoutRef = useRef<NodeJS.Timeout | null>(null);
-  const isManualStopRef = useRef(false);
   const lastProcessedRef = useRef<string>('');
-  const startingRef = useRef(false);
-  const lastStartTimeRef = useRef(0);
-
-  // Command patterns - made them stricter and mutually exclusive
-  const commandPatterns = {
-    camera: /\b(camera|see|look|vision|view|photo|picture|detect|analyze|object|what (?:do you |can you )?see)\b/i,
-    navigation: /\b(navigate|walk|direction|guide|route|move|go|travel|where|path)\b/i,
-    emergency: /\b(emergency|help|urgent|call|sos|911|danger)\b/i,
-    settings: /\b(settings|preferences|config|adjust|volume|speed|options|setup)\b/i,
-    status: /\b(status|mode|current|state|info|how .*(?:doing|working)|what.*mode)\b/i,
-    help: /\b(help|commands|what.*can|available|list|how.*use)\b/i,
-    stop: /\b(stop|halt|end|quit|disable|off|pause|silent)\b/i,
-  };
+  const armedUntilRef = useRef(0);
+  const armTimeoutRef = useRef<NodeJS.Timeout | null>(null);
+
+  // Declarative command grammar - rebuilt each render so handlers see current props
+  const commands = createCommandRegistry({
+    speak,
+    t,
+    lang: recognitionLang,
+    currentMode,
+    onVoiceCommand,
+    onSettingsChange,
+    onCameraAction,
+    onNavigationAction,
+    onEmergencyAction,
+    onLanguageChange,
+    stopListening: () => recognizer.stop(),
+    repeatLastSpeech: onRepeatLastSpeech,
+    getSpeechHistory,
+  });
+  const slotVocabulary = getSlotVocabulary(languageOptions, recognitionLang);
+  const wakeVariants = getLocalePack(recognitionLang).wakeVariants;
 
   const addDebugInfo = (info: string) => {
-    console.log(`${new Date().toLocaleTimeString()}: ${info}`);
     setDebugInfo(prev => {
       const newInfo = [...prev, `${new Date().toLocaleTimeString()}: ${info}`];
       return newInfo.slice(-3);
     });
   };
 
-  // Initialize voice recognition
-  useEffect(() => {
-    const initializeVoiceRecognition = async () => {
-      addDebugInfo('Initializing voice recognition...');
-      
-      const supported = 'webkitSpeechRecognition' in window || 'SpeechRecognition' in window;
-      setIsSupported(supported);
-      
-      if (!supported) {
-        setErrorMessage('Speech recognition not supported. Please use Chrome, Edge, or Safari.');
-        return;
-      }
-
-      try {
-        const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
-        stream.getTracks().forEach(track => track.stop());
-        setMicrophonePermission('granted');
-        setErrorMessage(null);
-        
-        // Auto-start after permission granted
-        setTimeout(() => {
-          if (!isManualStopRef.current) {
-            startRecognition();
-          }
-        }, 1000);
-      } catch (error) {
-        setMicrophonePermission('denied');
-        setErrorMessage('Microphone access required. Please allow and refresh the page.');
-        addDebugInfo(`Microphone permission denied: ${error}`);
-      }
-    };
-
-    initializeVoiceRecognition();
-  }, []);
-
   const processVoiceCommand = (command: string, confidence: number) => {
     const cleanCommand = command.toLowerCase().trim();
 
@@ -120,50 +121,25 @@ export const VoiceControls = ({
     setIsProcessingCommand(true);
     setLastCommand(cleanCommand);
 
-    let matchType: string | null = null;
-
-    // Mutually exclusive matching for commands, ordered so more restrictive/rare are higher
-    if (commandPatterns.stop.test(cleanCommand)) {
-      matchType = "stop";
-      addDebugInfo("Matched: stop");
-      stopRecognition();
-      speak("Voice recognition stopped");
-    } else if (commandPatterns.emergency.test(cleanCommand)) {
-      matchType = "emergency";
-      addDebugInfo("Matched: emergency");
-      onVoiceCommand("emergency");
-      onEmergencyAction("open");
-      speak("Emergency panel opened");
-    } else if (commandPatterns.navigation.test(cleanCommand)) {
-      matchType = "navigation";
-      addDebugInfo("Matched: navigation");
-      onVoiceCommand("navigation");
-      onNavigationAction("start");
-      speak("Navigation mode activated");
-    } else if (commandPatterns.settings.test(cleanCommand)) {
-      matchType = "settings";
-      addDebugInfo("Matched: settings");
-      onVoiceCommand("settings");
-      speak("Settings panel opened");
-    } else if (commandPatterns.status.test(cleanCommand)) {
-      matchType = "status";
-      addDebugInfo("Matched: status");
-      speak(`Current mode is ${currentMode}. Voice recognition is active.`);
-    } else if (commandPatterns.help.test(cleanCommand)) {
-      matchType = "help";
-      addDebugInfo("Matched: help");
-      speak("Say camera for object detection, navigate for directions, emergency for help, or settings for preferences");
-    } else if (commandPatterns.camera.test(cleanCommand)) {
-      matchType = "camera";
-      addDebugInfo("Matched: camera");
-      onVoiceCommand("camera");
-      onCameraAction("start");
-      speak("Camera activated for object detection");
-    }
-
-    if (!matchType) {
+    const result = parseCommand(cleanCommand, commands, currentMode, slotVocabulary);
+
+    if (result.status === 'matched') {
+      const { command, args } = result.match;
+      addDebugInfo(`Matched: ${command.id}${Object.keys(args).length ? ` ${JSON.stringify(args)}` : ''}`);
+      haptic('commandRecognized');
+      onHeard(cleanCommand, 'command');
+      command.handler(args);
+    } else if (result.status === 'ambiguous') {
+      const options = result.candidates.slice(0, 2).map(candidate => getCommandExample(candidate.command));
+      addDebugInfo(`[processVoiceCommand] Ambiguous: ${result.candidates.map(c => c.command.id).join(', ')}`);
+      haptic('commandNotUnderstood');
+      onHeard(cleanCommand, 'not-understood');
+      speak(t('voice.didYouMean', { options: joinList(options, t, 'common.or') }));
+    } else {
       addDebugInfo(`[processVoiceCommand] No command matched (input: "${cleanCommand}")`);
-      speak("Command not recognized. Try saying camera, navigate, emergency, settings, or help");
+      haptic('commandNotUnderstood');
+      onHeard(cleanCommand, 'not-understood');
+      speak(t('voice.notRecognized'));
     }
 
     setTimeout(() => {
@@ -172,236 +148,234 @@ export const VoiceControls = ({
     }, 2000);
   };
 
-  const handleRecognitionError = (error: any) => {
-    addDebugInfo(`Recognition error: ${error.error}`);
-    
-    // Clear any pending restarts
-    if (restartTimeoutRef.current) {
-      clearTimeout(restartTimeoutRef.current);
-      restartTimeoutRef.current = null;
+  const disarm = () => {
+    armedUntilRef.current = 0;
+    setIsArmed(false);
+    if (armTimeoutRef.current) {
+      clearTimeout(armTimeoutRef.current);
+      armTimeoutRef.current = null;
+    }
+  };
+
+  const arm = () => {
+    disarm();
+    armedUntilRef.current = Date.now() + wakeWordWindowMs;
+    setIsArmed(true);
+    playArmedCue();
+    armTimeoutRef.current = setTimeout(() => {
+      armTimeoutRef.current = null;
+      armedUntilRef.current = 0;
+      setIsArmed(false);
+      playDisarmedCue();
+      addDebugInfo('Wake word window expired');
+    }, wakeWordWindowMs);
+  };
+
+  // Wake word stage: only pass transcripts on to command parsing after "Hey Vision"
+  const handleFinalTranscript = (transcript: string, confidence: number) => {
+    // A pending yes/no question takes the answer directly, with or without the wake word;
+    // a command said instead goes ahead, anything else hears the question again
+    const reply = detectWakeWord(transcript, wakeVariants)?.remainder || transcript;
+    const isCommand = (text: string) => parseCommand(text, commands, currentMode, slotVocabulary).status !== 'none';
+    const replyResult = onConfirmationReply(reply, isCommand);
+    if (replyResult === 'answer') {
+      addDebugInfo(`Confirmation reply: "${reply}"`);
+      onHeard(reply, 'reply');
+      return;
+    }
+    if (replyResult === 'command') {
+      disarm();
+      processVoiceCommand(reply, confidence);
+      return;
+    }
+
+    if (!wakeWordEnabled) {
+      processVoiceCommand(transcript, confidence);
+      return;
+    }
+
+    const wakeMatch = detectWakeWord(transcript, wakeVariants);
+    if (wakeMatch) {
+      addDebugInfo(`Wake word "${wakeMatch.heard}" (${Math.round(wakeMatch.score * 100)}%)`);
+      if (wakeMatch.remainder) {
+        disarm();
+        processVoiceCommand(wakeMatch.remainder, confidence);
+      } else {
+        onHeard(transcript, 'command');
+        arm();
+      }
+      return;
+    }
+
+    if (Date.now() < armedUntilRef.current) {
+      disarm();
+      processVoiceCommand(transcript, confidence);
+      return;
+    }
+
+    addDebugInfo(`Ignored without wake word: "${transcript}"`);
+    onHeard(transcript, 'ignored');
+  };
+
+  // Recognition callbacks are bound once per session, so they go through a ref to see current props
+  const handleFinalTranscriptRef = useRef(handleFinalTranscript);
+  handleFinalTranscriptRef.current = handleFinalTranscript;
+
+  // Talking over the app stops it, but only speech that could be a command counts
+  const isBargeIn = (heard: string, isFinal: boolean) => {
+    if (wakeWordEnabled) {
+      return !!detectWakeWord(heard, wakeVariants) || Date.now() < armedUntilRef.current;
+    }
+    return isFinal || normalizeTranscript(heard).length >= 2;
+  };
+
+  const handleRecognitionResult = (result: RecognitionResult) => {
+    // The microphone hears the app's own voice; keep only what the user said after it
+    const recentSpeech = getRecentSpeech(getSpeechHistory());
+    const { remainder, echoed } = removeSelfSpeech(result.transcript, recentSpeech);
+    if (echoed && !remainder) {
+      if (result.isFinal) addDebugInfo(`Ignored own speech: "${result.transcript}"`);
+      return;
+    }
+    const heard = echoed ? remainder : result.transcript;
+
+    setTranscript(heard);
+    setConfidence(result.confidence);
+
+    const appIsSpeaking = recentSpeech.some(message => message.endedAt === undefined);
+    if (appIsSpeaking && isBargeIn(heard, result.isFinal) && onBargeIn()) {
+      addDebugInfo('Barge-in: stopped speaking');
+    }
+
+    // Process final results
+    if (result.isFinal && heard.length > 1) {
+      addDebugInfo(`Final transcript: "${heard}" (confidence: ${result.confidence})`);
+      handleFinalTranscriptRef.current(heard, result.confidence);
+
+      setTimeout(() => setTranscript(''), 3000);
     }
+  };
 
-    switch (error.error) {
+  const handleRecognitionError = (error: RecognizerError) => {
+    switch (error.code) {
       case 'not-allowed':
-        setRecognitionState('stopped');
-        onListeningChange(false);
         setMicrophonePermission('denied');
         setErrorMessage("Microphone access denied. Please allow microphone access and refresh.");
-        isManualStopRef.current = true;
         break;
       case 'network':
+        if (!navigator.onLine && recognizerBackend === 'webspeech' && isRecognizerSupported('whisper')) {
+          // Web Speech needs the network; keep listening hands-free with Whisper instead
+          addDebugInfo('Offline, switching to Whisper');
+          setErrorMessage(null);
+          onRecognizerBackendChange('whisper');
+          speak(t('voice.offlineFallback'));
+          break;
+        }
         setErrorMessage("Network error. Retrying...");
-        scheduleRestart(3000);
         break;
       case 'audio-capture':
         setErrorMessage("Audio capture error. Check microphone.");
-        scheduleRestart(2000);
+        break;
+      case 'model-load':
+        setErrorMessage("Could not load the offline speech model. Check your connection and try again.");
+        break;
+      case 'unsupported':
+        setErrorMessage("This speech recognizer is not supported in this browser. Choose another in Settings.");
         break;
       case 'no-speech':
         // Don't restart on no-speech, just continue
         addDebugInfo('No speech detected, continuing...');
         break;
-      default:
-        addDebugInfo('Unknown error, restarting...');
-        scheduleRestart(2000);
-    }
-    
-    // Reset starting flag
-    startingRef.current = false;
-  };
-
-  const scheduleRestart = (delay: number) => {
-    if (!isManualStopRef.current && recognitionState !== 'running' && !startingRef.current) {
-      restartTimeoutRef.current = setTimeout(() => {
-        startRecognition();
-      }, delay);
     }
   };
 
-  const startRecognition = () => {
-    const now = Date.now();
-    
-    // Prevent rapid restarts (debounce)
-    if (now - lastStartTimeRef.current < 1000) {
-      addDebugInfo('Preventing rapid restart');
-      return;
-    }
-    
-    // Check if already starting or running
-    if (startingRef.current || recognitionState === 'running' || recognitionState === 'starting') {
-      addDebugInfo(`Cannot start - current state: ${recognitionState}, starting: ${startingRef.current}`);
-      return;
-    }
+  const recognizer = useSpeechRecognizer({
+    backend: recognizerBackend,
+    lang: recognitionLang,
+    whisperModel,
+    onResult: handleRecognitionResult,
+    onError: handleRecognitionError,
+    onListeningChange: (listening) => {
+      if (listening) setErrorMessage(null);
+      onListeningChange(listening);
+    },
+    log: addDebugInfo,
+  });
+  const recognitionState = recognizer.state;
 
-    if (!isSupported || isManualStopRef.current || microphonePermission !== 'granted') {
-      addDebugInfo('Cannot start - not supported, manual stop, or permission denied');
-      return;
-    }
+  // Initialize voice recognition
+  useEffect(() => {
+    const initializeVoiceRecognition = async () => {
+      addDebugInfo('Initializing voice recognition...');
 
-    lastStartTimeRef.current = now;
-    startingRef.current = true;
-    setRecognitionState('starting');
-    setErrorMessage(null);
-    
-    addDebugInfo('Starting speech recognition...');
-    
-    try {
-      // Clean up any existing recognition
-      if (recognitionRef.current) {
-        try {
-          recognitionRef.current.abort();
-        } catch (e) {
-          // Ignore cleanup errors
+      if (!recognizer.isSupported) {
+        if (recognizerBackend === 'webspeech' && isRecognizerSupported('whisper')) {
+          // No Web Speech in this browser; offline Whisper keeps the app hands-free
+          addDebugInfo('Web Speech not supported, switching to Whisper');
+          onRecognizerBackendChange('whisper');
+        } else {
+          setErrorMessage('Speech recognition not supported. Please use Chrome, Edge, or Safari.');
+          return;
         }
-        recognitionRef.current = null;
       }
-      
-      const SpeechRecognition = window.webkitSpeechRecognition || window.SpeechRecognition;
-      const recognition = new SpeechRecognition();
-
-      // Configure recognition
-      recognition.continuous = true;
-      recognition.interimResults = true;
-      recognition.lang = 'en-US';
-      recognition.maxAlternatives = 1;
-
-      recognition.onstart = () => {
-        addDebugInfo('Speech recognition started successfully');
-        setRecognitionState('running');
-        onListeningChange(true);
-        setTranscript('');
-        startingRef.current = false;
-        isManualStopRef.current = false;
-      };
-
-      recognition.onend = () => {
-        addDebugInfo('Speech recognition ended');
-        setRecognitionState('stopped');
-        onListeningChange(false);
-        startingRef.current = false;
-        
-        // Only restart if not manually stopped and no pending restart
-        if (!isManualStopRef.current && !restartTimeoutRef.current) {
-          scheduleRestart(1500);
-        }
-      };
-
-      recognition.onresult = (event: any) => {
-        let finalTranscript = '';
-        let interimTranscript = '';
-        let maxConfidence = 0;
-
-        for (let i = event.resultIndex; i < event.results.length; i++) {
-          const result = event.results[i];
-          const transcript = result[0].transcript.trim();
-          const confidence = result[0].confidence || 0.8;
-          
-          if (result.isFinal) {
-            finalTranscript += transcript;
-            maxConfidence = Math.max(maxConfidence, confidence);
-          } else {
-            interimTranscript += transcript;
-          }
-        }
-
-        const displayTranscript = finalTranscript || interimTranscript;
-        setTranscript(displayTranscript);
-        setConfidence(maxConfidence);
-
-        // Process final results
-        if (finalTranscript && finalTranscript.length > 1) {
-          addDebugInfo(`Final transcript: "${finalTranscript}" (confidence: ${maxConfidence})`);
-          processVoiceCommand(finalTranscript, maxConfidence);
-          
-          setTimeout(() => setTranscript(''), 3000);
-        }
-      };
 
-      recognition.onerror = handleRecognitionError;
-      
-      recognitionRef.current = recognition;
-      recognition.start();
-      
-    } catch (error) {
-      addDebugInfo(`Failed to start recognition: ${error}`);
-      setErrorMessage("Failed to start voice recognition. Please try again.");
-      setRecognitionState('stopped');
-      startingRef.current = false;
-    }
-  };
+      if (!needsMicrophone(recognizerBackend)) {
+        setMicrophonePermission('granted');
+        setTimeout(() => recognizer.start(), 1000);
+        return;
+      }
 
-  const stopRecognition = () => {
-    isManualStopRef.current = true;
-    startingRef.current = false;
-    addDebugInfo('Stopping recognition manually');
-    
-    // Clear any pending restarts
-    if (restartTimeoutRef.current) {
-      clearTimeout(restartTimeoutRef.current);
-      restartTimeoutRef.current = null;
-    }
-    
-    if (recognitionRef.current && recognitionState !== 'stopped') {
-      setRecognitionState('stopping');
       try {
-        recognitionRef.current.stop();
+        const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+        stream.getTracks().forEach(track => track.stop());
+        setMicrophonePermission('granted');
+        setErrorMessage(null);
+        
+        // Auto-start after permission granted
+        setTimeout(() => recognizer.start(), 1000);
       } catch (error) {
-        addDebugInfo(`Error stopping recognition: ${error}`);
+        setMicrophonePermission('denied');
+        setErrorMessage('Microphone access required. Please allow and refresh the page.');
+        addDebugInfo(`Microphone permission denied: ${error}`);
       }
-    }
-    
-    // Force state update
-    setTimeout(() => {
-      setRecognitionState('stopped');
-      onListeningChange(false);
-      setErrorMessage(null);
-    }, 500);
-  };
+    };
+
+    initializeVoiceRecognition();
+  }, []);
 
   const toggleListening = () => {
     if (recognitionState === 'running' || recognitionState === 'starting') {
-      stopRecognition();
-      speak('Voice recognition stopped');
+      recognizer.stop();
+      speak(t('voice.stopped'));
     } else {
-      if (microphonePermission !== 'granted') {
+      if (needsMicrophone(recognizerBackend) && microphonePermission !== 'granted') {
         setErrorMessage('Please allow microphone access and refresh the page.');
         return;
       }
       
-      isManualStopRef.current = false;
-      startRecognition();
-      speak('Voice recognition started. Speak clearly.');
+      setErrorMessage(null);
+      recognizer.start();
+      speak(t('voice.started'));
     }
   };
 
-  const { isLoading: whisperLoading, transcript: whisperTranscript, error: whisperError, recordAndTranscribe } = useWhisperTranscriber();
-
   // Cleanup on unmount
   useEffect(() => {
     return () => {
-      isManualStopRef.current = true;
-      startingRef.current = false;
-      
-      if (restartTimeoutRef.current) {
-        clearTimeout(restartTimeoutRef.current);
-      }
-      
-      if (recognitionRef.current) {
-        try {
-          recognitionRef.current.abort();
-        } catch (e) {
-          // Ignore cleanup errors
-        }
+      if (armTimeoutRef.current) {
+        clearTimeout(armTimeoutRef.current);
       }
     };
   }, []);
 
-  if (!isSupported) {
+  const backendOption = RECOGNIZER_BACKENDS.find(option => option.id === recognizerBackend);
+
+  if (!recognizer.isSupported) {
     return (
       <Card className="bg-red-500/20 border-red-400/30 p-6">
         <div className="text-center">
           <h3 className="text-xl font-semibold text-red-200 mb-2">Speech Recognition Not Supported</h3>
-          <p className="text-red-300">Please use Chrome, Edge, or Safari for voice commands.</p>
+          <p className="text-red-300">{backendOption?.label} is not available in this browser. Choose another recognizer in Settings, or use Chrome, Edge, or Safari.</p>
         </div>
       </Card>
     );
@@ -414,7 +388,9 @@ export const VoiceControls = ({
           <Brain className="w-6 h-6 text-blue-400" />
           <h3 className="text-xl font-semibold text-white">Voice Control</h3>
         </div>
-        <p className="text-gray-300 text-sm">Speak clearly for voice commands</p>
+        <p className="text-gray-300 text-sm">
+          {wakeWordEnabled ? 'Start each command with "Hey Vision"' : 'Speak clearly for voice commands'}
+        </p>
         {confidence > 0 && (
           <div className="text-green-400 text-xs mt-1">
             Confidence: {Math.round(confidence * 100)}%
@@ -459,6 +435,13 @@ export const VoiceControls = ({
         </div>
       )}
 
+      {/* Wake Word Armed Indicator */}
+      {isArmed && (
+        <div className="bg-purple-500/20 border-purple-400/30 rounded-lg p-3 mb-4" role="status">
+          <p className="text-purple-200 text-center text-sm">Wake word heard - say your command</p>
+        </div>
+      )}
+
       {/* Live Transcript */}
       {transcript && (
         <div className="bg-blue-500/20 border-blue-400/30 rounded-lg p-3 mb-4">
@@ -506,15 +489,8 @@ export const VoiceControls = ({
 
       {/* Voice Commands */}
       <div className="grid grid-cols-1 md:grid-cols-2 gap-3 mb-4">
-        {[
-          { command: 'Camera', description: 'Activate object detection' },
-          { command: 'Navigate', description: 'Start navigation mode' },
-          { command: 'Emergency', description: 'Open emergency panel' },
-          { command: 'Settings', description: 'Open settings panel' },
-          { command: 'Help', description: 'List available commands' },
-          { command: 'Status', description: 'Check current mode' },
-        ].map((cmd, index) => (
-          <div key={index} className="bg-white/5 rounded-lg p-3 border border-white/10">
+        {getCommandCards(commands, currentMode).map((cmd) => (
+          <div key={cmd.id} className="bg-white/5 rounded-lg p-3 border border-white/10">
             <div className="text-white font-medium">"{cmd.command}"</div>
             <div className="text-gray-300 text-sm">{cmd.description}</div>
           </div>
@@ -529,37 +505,17 @@ export const VoiceControls = ({
           'bg-red-500'
         }`}></div>
         <span className="text-white text-sm">
-          {recognitionState === 'running' ? 'Listening for commands...' : 
+          {recognitionState === 'running' ? (wakeWordEnabled && !isArmed ? 'Listening for "Hey Vision"...' : 'Listening for commands...') : 
            recognitionState === 'starting' ? 'Starting recognition...' :
            'Voice recognition stopped'}
         </span>
       </div>
 
-      {/* Whisper Alternative */}
-      <div className="mt-6 pt-4 border-t border-white/10">
-        <div className="text-center mb-2">
-          <h4 className="text-white text-sm font-medium">Backup: Whisper AI</h4>
-          <p className="text-gray-400 text-xs">Alternative transcription method</p>
-        </div>
-        <div className="flex flex-col items-center gap-2">
-          <Button 
-            onClick={recordAndTranscribe}
-            className="bg-orange-500 hover:bg-orange-600 text-white rounded-lg px-4 py-2"
-            disabled={whisperLoading}
-          >
-            {whisperLoading ? "Processing..." : "Record with Whisper"}
-          </Button>
-          {whisperTranscript && (
-            <div className="px-3 py-2 rounded bg-orange-700/30 border border-orange-500 text-white text-center text-sm">
-              <strong>Whisper:</strong> "{whisperTranscript}"
-            </div>
-          )}
-          {whisperError && (
-            <div className="px-2 py-1 rounded bg-red-500/30 border border-red-500 text-red-200 text-center text-sm">
-              {whisperError}
-            </div>
-          )}
-        </div>
+      {/* Active Recognizer */}
+      <div className="text-center text-gray-400 text-xs mt-2" role="status">
+        Recognizer: {backendOption?.label}
+        {recognizer.status.loadProgress !== undefined && recognizer.status.loadProgress < 100 && ` - loading model ${recognizer.status.loadProgress}%`}
+        {recognizer.status.isSpeaking && ' - hearing speech'}
       </div>
     </Card>
   );
@@ -0,0 +1,38 @@
+import { useEffect, useRef, useState, useCallback } from "react";
+import { readCompassHeading } from "@/utils/compass";
+
+type UseCompassHeadingReturn = {
+  available: boolean;               // an absolute heading has been received
+  getHeading: () => number | null;  // latest heading; read on demand so it does not re-render on every event
+};
+
+// Follows the device's compass heading while enabled
+export function useCompassHeading(enabled: boolean): UseCompassHeadingReturn {
+  const headingRef = useRef<number | null>(null);
+  const [available, setAvailable] = useState(false);
+
+  useEffect(() => {
+    if (!enabled || typeof window === "undefined") return;
+
+    const handleOrientation = (event: DeviceOrientationEvent) => {
+      const heading = readCompassHeading(event);
+      if (heading === null) return;
+      headingRef.current = heading;
+      setAvailable(true);
+    };
+
+    // Chrome sends north-referenced readings only on the absolute event; Safari on the plain one
+    window.addEventListener("deviceorientationabsolute", handleOrientation as EventListener);
+    window.addEventListener("deviceorientation", handleOrientation);
+    return () => {
+      window.removeEventListener("deviceorientationabsolute", handleOrientation as EventListener);
+      window.removeEventListener("deviceorientation", handleOrientation);
+      headingRef.current = null;
+      setAvailable(false);
+    };
+  }, [enabled]);
+
+  const getHeading = useCallback(() => headingRef.current, []);
+
+  return { available, getHeading };
+}
@@ -0,0 +1,56 @@
+import { useEffect, useRef } from "react";
+import { FrameSize, YOLODetection } from "@/hooks/useYOLODetection";
+import { getEarconCategory, getEarconDurationMs, placeDetection, playCategoryEarcon } from "@/utils/earcons";
+
+// Detections refresh twice a second; replaying every object each time would be a constant drone
+const REPEAT_INTERVAL_MS = 2000;
+
+// An object that moved this far across the stereo field is announced again straight away
+const MOVED_PAN = 0.4;
+
+const MAX_EARCONS_PER_UPDATE = 3;
+const EARCON_GAP_MS = 60;
+
+type UseEarconsOptions = {
+  enabled: boolean;
+  volume: number;
+  frameSize: FrameSize | null; // the camera frame the detection boxes are in
+};
+
+// Plays a stereo-placed earcon for the most prominent detections whenever they change
+export function useEarcons(detections: YOLODetection[], { enabled, volume, frameSize }: UseEarconsOptions) {
+  const lastPlayedRef = useRef(new Map<string, { at: number; pan: number }>());
+
+  useEffect(() => {
+    if (!enabled || volume <= 0 || detections.length === 0 || !frameSize) return;
+
+    const now = Date.now();
+    const placed = detections
+      .map(detection => ({ label: detection.label, ...placeDetection(detection.bbox, frameSize.width, frameSize.height) }))
+      .sort((a, b) => b.proximity - a.proximity);
+
+    let delayMs = 0;
+    let played = 0;
+    const seen = new Set<string>();
+    for (const object of placed) {
+      if (played >= MAX_EARCONS_PER_UPDATE) break;
+      // Only the nearest object of each class; several chairs make one sound
+      if (seen.has(object.label)) continue;
+      seen.add(object.label);
+
+      const last = lastPlayedRef.current.get(object.label);
+      if (last && now - last.at < REPEAT_INTERVAL_MS && Math.abs(last.pan - object.pan) < MOVED_PAN) continue;
+
+      const category = getEarconCategory(object.label);
+      playCategoryEarcon(category, { pan: object.pan, proximity: object.proximity, volume, delayMs });
+      lastPlayedRef.current.set(object.label, { at: now, pan: object.pan });
+      delayMs += getEarconDurationMs(category) + EARCON_GAP_MS;
+      played++;
+    }
+  }, [detections, enabled, volume, frameSize]);
+
+  // A muted or restarted session starts fresh, so the first objects are heard again
+  useEffect(() => {
+    if (!enabled) lastPlayedRef.current.clear();
+  }, [enabled]);
+}
@@ -0,0 +1,95 @@
+import { useEffect, useRef, useState } from "react";
+import { FrameSize, TrackedObject } from "@/hooks/useYOLODetection";
+import { MessageKey, Translate, translateObjectLabel } from "@/utils/i18n";
+import { Speak, SpeakOptions } from "@/utils/speechQueue";
+import { SearchGuidance, SearchHint, guideToObject, pickSearchTarget, playSearchBeep, searchBeepIntervalMs } from "@/utils/objectSearch";
+
+// Each hint replaces the last; only the latest direction is worth hearing
+const SEARCH_SPEECH: SpeakOptions = { priority: "info", key: "camera.search" };
+
+// A new hint waits this long after the last, so a box wobbling near the middle does not cause a stream of words
+const HINT_MIN_GAP_MS = 1500;
+// An unchanged hint is said again this often, in case the user has not acted on it
+const HINT_REPEAT_MS = 4000;
+
+type UseObjectSearchOptions = {
+  enabled: boolean;
+  volume: number;               // search beep volume, 0 to 1
+  frameSize: FrameSize | null;  // the camera frame the track boxes are in
+  speak: Speak;
+  t: Translate;
+  lang: string;
+};
+
+// Guides the camera towards an object of class `target` with beeps and spoken hints; null target means no search
+export function useObjectSearch(target: string | null, tracks: TrackedObject[], { enabled, volume, frameSize, speak, t, lang }: UseObjectSearchOptions): SearchGuidance | null {
+  const [guidance, setGuidance] = useState<SearchGuidance | null>(null);
+  const guidanceRef = useRef<SearchGuidance | null>(null);
+  const followedIdRef = useRef<number | null>(null);
+  const lastHintRef = useRef<{ hint: SearchHint | null; at: number }>({ hint: null, at: 0 });
+  // Speech settings are read when needed, so changing them mid-search does not restart it
+  const speechRef = useRef({ speak, t, lang });
+  speechRef.current = { speak, t, lang };
+
+  const searching = enabled && !!target;
+
+  useEffect(() => {
+    if (!searching) return;
+    const { speak, t, lang } = speechRef.current;
+    speak(t("camera.searchStarted", { object: translateObjectLabel(lang, target) }), SEARCH_SPEECH);
+    return () => {
+      followedIdRef.current = null;
+      guidanceRef.current = null;
+      lastHintRef.current = { hint: null, at: 0 };
+      setGuidance(null);
+    };
+  }, [searching, target]);
+
+  useEffect(() => {
+    if (!searching || !frameSize) return;
+    const { speak, t, lang } = speechRef.current;
+    const object = translateObjectLabel(lang, target);
+    const now = Date.now();
+
+    const track = pickSearchTarget(tracks, target, followedIdRef.current);
+    if (!track) {
+      if (followedIdRef.current !== null) speak(t("camera.searchLost", { object }), SEARCH_SPEECH);
+      followedIdRef.current = null;
+      guidanceRef.current = null;
+      setGuidance(null);
+      return;
+    }
+
+    const spotted = followedIdRef.current === null;
+    const next = guideToObject(track.bbox, frameSize);
+    followedIdRef.current = track.id;
+    guidanceRef.current = next;
+    setGuidance(next);
+
+    const hint = t(`camera.searchHint.${next.hint}` as MessageKey, { object });
+    const last = lastHintRef.current;
+    const changed = next.hint !== last.hint;
+    if (spotted) {
+      speak(t("camera.searchSpotted", { object, hint }), SEARCH_SPEECH);
+    } else if (changed ? now - last.at >= HINT_MIN_GAP_MS : next.hint !== "inFront" && now - last.at >= HINT_REPEAT_MS) {
+      speak(hint, SEARCH_SPEECH);
+    } else {
+      return;
+    }
+    lastHintRef.current = { hint: next.hint, at: now };
+  }, [tracks, searching, target, frameSize]);
+
+  // Beeps faster and higher as the object nears the middle of the frame and grows
+  useEffect(() => {
+    if (!searching) return;
+    let timer: ReturnType<typeof setTimeout>;
+    const beep = () => {
+      playSearchBeep(guidanceRef.current, volume);
+      timer = setTimeout(beep, searchBeepIntervalMs(guidanceRef.current));
+    };
+    beep();
+    return () => clearTimeout(timer);
+  }, [searching, volume]);
+
+  return guidance;
+}
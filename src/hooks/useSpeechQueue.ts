@@ -0,0 +1,51 @@
+import { useState, useRef, useEffect } from "react";
+import { createSpeechManager, SpeechManager, Speak, SpokenMessage } from "@/utils/speechQueue";
+import { createSpeechEngine, UtteranceSettings } from "@/utils/speechEngine";
+
+type UseSpeechQueueReturn = {
+  speak: Speak;
+  repeatLast: () => boolean;
+  history: SpokenMessage[];
+  getHistory: () => SpokenMessage[];
+  interrupt: () => boolean;
+  isSpeaking: boolean;
+  cancelAll: () => void;
+};
+
+// One speech manager for the whole app, speaking with the current language and voice settings
+export function useSpeechQueue(settings: UtteranceSettings, onSpoken?: (message: SpokenMessage) => void): UseSpeechQueueReturn {
+  const [isSpeaking, setIsSpeaking] = useState(false);
+  const [history, setHistory] = useState<SpokenMessage[]>([]);
+
+  const settingsRef = useRef(settings);
+  settingsRef.current = settings;
+  const onSpokenRef = useRef(onSpoken);
+  onSpokenRef.current = onSpoken;
+
+  const managerRef = useRef<SpeechManager | null>(null);
+  if (!managerRef.current) {
+    const manager = createSpeechManager(createSpeechEngine(() => settingsRef.current), {
+      onSpeakingChange: setIsSpeaking,
+      onSpoken: (message) => {
+        setHistory(manager.getHistory());
+        onSpokenRef.current?.(message);
+      },
+    });
+    managerRef.current = manager;
+  }
+  const manager = managerRef.current;
+
+  useEffect(() => {
+    return () => manager.cancelAll();
+  }, [manager]);
+
+  return {
+    speak: manager.speak,
+    repeatLast: manager.repeatLast,
+    history,
+    getHistory: manager.getHistory,
+    interrupt: manager.interrupt,
+    isSpeaking,
+    cancelAll: manager.cancelAll,
+  };
+}
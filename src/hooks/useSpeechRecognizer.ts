@@ -0,0 +1,238 @@
+import { useState, useRef, useEffect } from "react";
+import {
+  createSpeechRecognizer,
+  isRecognizerSupported,
+  RecognitionResult,
+  RecognitionState,
+  RecognizerBackend,
+  RecognizerError,
+  RecognizerErrorCode,
+  RecognizerStatus,
+  ScriptedUtterance,
+  SpeechRecognizer,
+} from "@/utils/speechRecognizer";
+
+// How long to wait before reopening a session that ended after each kind of error
+const RESTART_DELAY_MS: Partial<Record<RecognizerErrorCode, number>> = {
+  network: 3000,
+  "audio-capture": 2000,
+  unknown: 2000,
+};
+const DEFAULT_RESTART_DELAY_MS = 1500;
+
+// Errors the user has to fix; restarting would only fail again
+const FATAL_ERRORS: RecognizerErrorCode[] = ["not-allowed", "unsupported", "model-load"];
+
+type UseSpeechRecognizerOptions = {
+  backend: RecognizerBackend;
+  lang: string;
+  whisperModel?: string;
+  script?: ScriptedUtterance[];
+  onResult: (result: RecognitionResult) => void;
+  onError?: (error: RecognizerError) => void;
+  onListeningChange?: (listening: boolean) => void;
+  log?: (message: string) => void;
+};
+
+type UseSpeechRecognizerReturn = {
+  state: RecognitionState;
+  status: RecognizerStatus;
+  isSupported: boolean;
+  start: () => void;
+  stop: () => void;
+};
+
+// Keeps one recognizer listening continuously: restarts sessions the browser ends,
+// backs off after errors, and swaps backends or languages without a page reload
+export function useSpeechRecognizer({
+  backend,
+  lang,
+  whisperModel,
+  script,
+  onResult,
+  onError,
+  onListeningChange,
+  log = () => {},
+}: UseSpeechRecognizerOptions): UseSpeechRecognizerReturn {
+  const [state, setState] = useState<RecognitionState>("stopped");
+  const [status, setStatus] = useState<RecognizerStatus>({});
+
+  const recognizerRef = useRef<SpeechRecognizer | null>(null);
+  const stateRef = useRef<RecognitionState>("stopped");
+  const isManualStopRef = useRef(true);
+  const restartTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const lastStartTimeRef = useRef(0);
+  const lastErrorRef = useRef<RecognizerErrorCode | null>(null);
+
+  // Recognizer callbacks are bound once per instance, so they go through refs to see current props
+  const handlersRef = useRef({ onResult, onError, onListeningChange, log });
+  handlersRef.current = { onResult, onError, onListeningChange, log };
+  const optionsRef = useRef({ backend, lang, whisperModel, script });
+  optionsRef.current = { backend, lang, whisperModel, script };
+
+  const updateState = (next: RecognitionState) => {
+    stateRef.current = next;
+    setState(next);
+  };
+
+  const clearRestart = () => {
+    if (restartTimeoutRef.current) {
+      clearTimeout(restartTimeoutRef.current);
+      restartTimeoutRef.current = null;
+    }
+  };
+
+  const scheduleRestart = (delay: number) => {
+    clearRestart();
+    restartTimeoutRef.current = setTimeout(() => {
+      restartTimeoutRef.current = null;
+      start();
+    }, delay);
+  };
+
+  const createRecognizer = (): SpeechRecognizer => {
+    const { backend, lang, whisperModel, script } = optionsRef.current;
+    const recognizer = createSpeechRecognizer(backend, { lang, whisperModel, script }, {
+      onStart: () => {
+        if (recognizerRef.current !== recognizer) return;
+        handlersRef.current.log(`Speech recognition started (${backend})`);
+        lastErrorRef.current = null;
+        updateState("running");
+        handlersRef.current.onListeningChange?.(true);
+      },
+      onEnd: () => {
+        if (recognizerRef.current !== recognizer) return;
+        handlersRef.current.log("Speech recognition ended");
+        updateState("stopped");
+        handlersRef.current.onListeningChange?.(false);
+        setStatus({});
+
+        const lastError = lastErrorRef.current;
+        if (isManualStopRef.current || restartTimeoutRef.current) return;
+        if (lastError && FATAL_ERRORS.includes(lastError)) {
+          isManualStopRef.current = true;
+          return;
+        }
+        scheduleRestart((lastError && RESTART_DELAY_MS[lastError]) || DEFAULT_RESTART_DELAY_MS);
+      },
+      onResult: (result) => {
+        if (recognizerRef.current !== recognizer) return;
+        handlersRef.current.onResult(result);
+      },
+      onError: (error) => {
+        if (recognizerRef.current !== recognizer) return;
+        handlersRef.current.log(`Recognition error: ${error.code}${error.message ? ` (${error.message})` : ""}`);
+        lastErrorRef.current = error.code;
+        handlersRef.current.onError?.(error);
+      },
+      onStatus: (update) => {
+        if (recognizerRef.current !== recognizer) return;
+        setStatus(prev => ({ ...prev, ...update }));
+      },
+    });
+    return recognizer;
+  };
+
+  const start = () => {
+    const now = Date.now();
+
+    // Prevent rapid restarts (debounce)
+    if (now - lastStartTimeRef.current < 1000) {
+      handlersRef.current.log("Preventing rapid restart");
+      return;
+    }
+    if (stateRef.current === "running" || stateRef.current === "starting") {
+      handlersRef.current.log(`Cannot start - current state: ${stateRef.current}`);
+      return;
+    }
+    if (!isRecognizerSupported(optionsRef.current.backend)) {
+      handlersRef.current.log(`Cannot start - ${optionsRef.current.backend} not supported`);
+      return;
+    }
+
+    clearRestart();
+    lastStartTimeRef.current = now;
+    isManualStopRef.current = false;
+    updateState("starting");
+    handlersRef.current.log("Starting speech recognition...");
+
+    try {
+      // Restarts reuse the instance so a backend keeps its place; a scripted one resumes after the entry that ended the session
+      const recognizer = recognizerRef.current ?? createRecognizer();
+      recognizerRef.current = recognizer;
+      recognizer.abort();
+      recognizer.start();
+    } catch (error) {
+      handlersRef.current.log(`Failed to start recognition: ${error}`);
+      recognizerRef.current = null;
+      updateState("stopped");
+      handlersRef.current.onError?.({ code: "unknown", message: String(error) });
+    }
+  };
+
+  const stop = () => {
+    isManualStopRef.current = true;
+    clearRestart();
+    handlersRef.current.log("Stopping recognition manually");
+
+    const recognizer = recognizerRef.current;
+    if (!recognizer || stateRef.current === "stopped") return;
+    updateState("stopping");
+    try {
+      recognizer.stop();
+    } catch (error) {
+      handlersRef.current.log(`Error stopping recognition: ${error}`);
+    }
+
+    // Some browsers never fire end after stop; don't leave the UI stuck. The instance is
+    // kept, like any other stop, so the next start resumes where it left off
+    setTimeout(() => {
+      if (recognizerRef.current !== recognizer || stateRef.current !== "stopping") return;
+      recognizer.abort();
+      updateState("stopped");
+      handlersRef.current.onListeningChange?.(false);
+    }, 1500);
+  };
+
+  // Effects below run on option changes, not on every render, so they reach start through a ref
+  const startRef = useRef(start);
+  startRef.current = start;
+
+  // Language changes apply to the live session; the backend decides whether that needs a restart
+  useEffect(() => {
+    recognizerRef.current?.setLanguage(lang);
+  }, [lang]);
+
+  // A different backend or model means a different recognizer; carry on listening if we were
+  useEffect(() => {
+    const recognizer = recognizerRef.current;
+    if (!recognizer) return;
+    const wasListening = !isManualStopRef.current;
+    recognizerRef.current = null;
+    recognizer.abort();
+    clearRestart();
+    updateState("stopped");
+    setStatus({});
+    if (wasListening) {
+      lastStartTimeRef.current = 0;
+      startRef.current();
+    }
+  }, [backend, whisperModel, script]);
+
+  // Cleanup on unmount
+  useEffect(() => {
+    return () => {
+      isManualStopRef.current = true;
+      clearRestart();
+      const recognizer = recognizerRef.current;
+      recognizerRef.current = null;
+      try {
+        recognizer?.abort();
+      } catch (e) {
+        // Ignore cleanup errors
+      }
+    };
+  }, []);
+
+  return { state, status, isSupported: isRecognizerSupported(backend), start, stop };
+}
@@ -0,0 +1,21 @@
+import { useEffect, useState } from "react";
+import { loadSystemVoices, subscribeToVoices } from "@/utils/voices";
+
+// The browser's voice list, kept current as voices load or change
+export function useSystemVoices(): SpeechSynthesisVoice[] {
+  const [voices, setVoices] = useState<SpeechSynthesisVoice[]>([]);
+
+  useEffect(() => {
+    let cancelled = false;
+    loadSystemVoices().then(loaded => {
+      if (!cancelled) setVoices(loaded);
+    });
+    const unsubscribe = subscribeToVoices(setVoices);
+    return () => {
+      cancelled = true;
+      unsubscribe();
+    };
+  }, []);
+
+  return voices;
+}
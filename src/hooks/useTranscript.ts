@@ -0,0 +1,35 @@
+import { useState, useRef, useCallback } from "react";
+import { SpokenMessage } from "@/utils/speechQueue";
+import { HeardOutcome, TranscriptEntry } from "@/utils/transcript";
+
+// Enough to scroll back through a walk; older lines are dropped
+const MAX_ENTRIES = 200;
+
+type UseTranscriptReturn = {
+  entries: TranscriptEntry[];
+  addSpoken: (message: SpokenMessage) => void;
+  addHeard: (text: string, outcome: HeardOutcome) => void;
+  clear: () => void;
+};
+
+// Captions for the session; kept in memory only, since they can include private speech
+export function useTranscript(): UseTranscriptReturn {
+  const [entries, setEntries] = useState<TranscriptEntry[]>([]);
+  const nextIdRef = useRef(0);
+
+  const append = useCallback((entry: TranscriptEntry) => {
+    setEntries(prev => [...prev, entry].slice(-MAX_ENTRIES));
+  }, []);
+
+  const addSpoken = useCallback((message: SpokenMessage) => {
+    append({ id: nextIdRef.current++, at: message.spokenAt ?? Date.now(), source: "app", text: message.text, priority: message.priority });
+  }, [append]);
+
+  const addHeard = useCallback((text: string, outcome: HeardOutcome) => {
+    append({ id: nextIdRef.current++, at: Date.now(), source: "user", text, outcome });
+  }, [append]);
+
+  const clear = useCallback(() => setEntries([]), []);
+
+  return { entries, addSpoken, addHeard, clear };
+}
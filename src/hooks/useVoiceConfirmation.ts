@@ -0,0 +1,143 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { normalizeTranscript } from "@/utils/wakeWord";
+import { playTone } from "@/utils/audioCues";
+import { createTranslator, getLocalePack } from "@/utils/i18n";
+import { Speak, SpeakOptions } from "@/utils/speechQueue";
+
+export interface ConfirmationRequest {
+  message: string;           // spoken and shown, e.g. "Call Emergency Services?"
+  detail?: string;           // extra on-screen context
+  countdownSeconds?: number; // when set, the action proceeds on its own once this runs out
+  timeoutSeconds?: number;   // without a countdown, cancel after this long with no answer
+}
+
+export interface PendingConfirmation extends ConfirmationRequest {
+  autoProceed: boolean;
+  secondsLeft: number;
+}
+
+// What a transcript heard during a question turned out to be: handled as an answer (or
+// answered with the question again), a command to carry out, or nothing is pending
+export type VoiceReplyResult = "answer" | "command" | "none";
+
+const DEFAULT_TIMEOUT_SECONDS = 10;
+
+// A "yes" in a longer sentence is not taken as consent; one that opens with "no" still cancels
+const MAX_REPLY_WORDS = 4;
+
+// The question is about a call or a data wipe, so it must not wait behind routine chatter
+const CONFIRM_SPEECH: SpeakOptions = { priority: "emergency", key: "confirm" };
+
+// English answers are always accepted, since many users mix languages.
+// With leadingOnly set, the answer has to open the reply ("no, call my family instead")
+function classifyReply(words: string[], lang: string, leadingOnly = false): "yes" | "no" | null {
+  const english = getLocalePack("en");
+  const local = getLocalePack(lang);
+  const reply = ` ${words.join(" ")} `;
+  const said = (answers: string[]) => answers.some(answer => {
+    const index = reply.indexOf(` ${normalizeTranscript(answer).join(" ")} `);
+    return leadingOnly ? index === 0 : index >= 0;
+  });
+
+  // "no" wins when both appear, e.g. "no don't call yes"
+  if (said(english.noWords) || said(local.noWords)) return "no";
+  if (said(english.yesWords) || said(local.yesWords)) return "yes";
+  return null;
+}
+
+/**
+ * Spoken yes/no confirmation for actions that are hard to undo (calls, SMS sends, data wipes).
+ *
+ * Usage:
+ *   const { pending, requestConfirmation, respond, handleVoiceReply } = useVoiceConfirmation(speak, ttsLang);
+ *   if (await requestConfirmation({ message: "Call Emergency Services?", countdownSeconds: 10 })) dial();
+ */
+export function useVoiceConfirmation(speak: Speak, lang: string) {
+  const [pending, setPending] = useState<PendingConfirmation | null>(null);
+  const resolverRef = useRef<((confirmed: boolean) => void) | null>(null);
+  const speakRef = useRef(speak);
+  speakRef.current = speak;
+  const langRef = useRef(lang);
+  langRef.current = lang;
+  const t = useMemo(() => createTranslator(lang), [lang]);
+  const tRef = useRef(t);
+  tRef.current = t;
+
+  const settle = useCallback((confirmed: boolean) => {
+    const resolve = resolverRef.current;
+    resolverRef.current = null;
+    setPending(null);
+    resolve?.(confirmed);
+  }, []);
+
+  const requestConfirmation = useCallback((request: ConfirmationRequest) => {
+    return new Promise<boolean>(resolve => {
+      // Only one question at a time; a new one cancels the old
+      resolverRef.current?.(false);
+      resolverRef.current = resolve;
+
+      const autoProceed = !!request.countdownSeconds && request.countdownSeconds > 0;
+      const seconds = autoProceed ? request.countdownSeconds : request.timeoutSeconds ?? DEFAULT_TIMEOUT_SECONDS;
+      setPending({ ...request, autoProceed, secondsLeft: seconds });
+
+      speakRef.current(
+        autoProceed
+          ? tRef.current("confirm.countdownPrompt", { message: request.message, seconds })
+          : tRef.current("confirm.prompt", { message: request.message }),
+        CONFIRM_SPEECH
+      );
+    });
+  }, []);
+
+  const respond = useCallback((confirmed: boolean) => {
+    if (!resolverRef.current) return;
+    if (!confirmed) speakRef.current(tRef.current("confirm.cancelled"), CONFIRM_SPEECH);
+    settle(confirmed);
+  }, [settle]);
+
+  // isCommand tells whether the transcript would be understood as a voice command, so
+  // "no, call my family instead" cancels the question and still places the other call
+  const handleVoiceReply = useCallback((transcript: string, isCommand: (text: string) => boolean = () => false): VoiceReplyResult => {
+    if (!resolverRef.current) return "none";
+
+    const words = normalizeTranscript(transcript);
+    if (words.length === 0) return "answer";
+
+    const short = words.length <= MAX_REPLY_WORDS;
+    const reply = classifyReply(words, langRef.current, !short);
+    if (reply === "no") {
+      respond(false);
+      return !short && isCommand(transcript) ? "command" : "answer";
+    }
+    if (reply === "yes" && short) {
+      respond(true);
+      return "answer";
+    }
+
+    if (isCommand(transcript)) return "command";
+    speakRef.current(tRef.current("confirm.sayYesOrNo"), CONFIRM_SPEECH);
+    return "answer";
+  }, [respond]);
+
+  // Countdown: tick once a second, then proceed or cancel
+  useEffect(() => {
+    if (!pending) return;
+
+    if (pending.secondsLeft <= 0) {
+      if (!pending.autoProceed) speakRef.current(tRef.current("confirm.noAnswer"), CONFIRM_SPEECH);
+      settle(pending.autoProceed);
+      return;
+    }
+
+    const timer = setTimeout(() => {
+      if (pending.autoProceed) playTone({ frequency: 1000, durationMs: 60, volume: 0.2 });
+      setPending(current => current && { ...current, secondsLeft: current.secondsLeft - 1 });
+    }, 1000);
+    return () => clearTimeout(timer);
+  }, [pending, settle]);
+
+  // Never leave a caller waiting after unmount
+  useEffect(() => () => resolverRef.current?.(false), []);
+
+  return { pending, requestConfirmation, respond, handleVoiceReply };
+}
@@ -1,281 +1,209 @@
 import { useEffect, useRef, useState } from "react";
-import * as ort from "onnxruntime-web";
+import { AssetLoadError, AssetLoadErrorCode, AssetProgress, PinnedAsset, loadPinnedAsset } from "@/utils/assetCache";
+import { ORT_WASM_ASSET, YOLO_MODEL_ASSET } from "@/utils/yoloAssets";
+import { FrameSize, YOLODetection, YOLOPreprocessOptions, computeLetterbox } from "@/utils/yoloPipeline";
+import { TrackEvent, TrackedObject, createObjectTracker } from "@/utils/objectTracker";
+import type { YOLOStageTimings, YOLOWorkerRequest, YOLOWorkerResponse } from "@/workers/yolo.worker";
+
+export type { FrameSize, TrackEvent, TrackedObject, YOLODetection };
+
+export type YOLOLoadProgress = {
+  asset: "runtime" | "model";
+  percent?: number; // unknown without a Content-Length
+  fromCache: boolean;
+};
 
-// COCO dataset classes (80 classes) - what YOLO models typically detect
-const COCO_CLASSES = [
-  "person", "bicycle", "car", "motorcycle", "airplane", "bus", "train", "truck", "boat",
-  "traffic light", "fire hydrant", "stop sign", "parking meter", "bench", "bird", "cat",
-  "dog", "horse", "sheep", "cow", "elephant", "bear", "zebra", "giraffe", "backpack",
-  "umbrella", "handbag", "tie", "suitcase", "frisbee", "skis", "snowboard", "sports ball",
-  "kite", "baseball bat", "baseball glove", "skateboard", "surfboard", "tennis racket",
-  "bottle", "wine glass", "cup", "fork", "knife", "spoon", "bowl", "banana", "apple",
-  "sandwich", "orange", "broccoli", "carrot", "hot dog", "pizza", "donut", "cake",
-  "chair", "couch", "potted plant", "bed", "dining table", "toilet", "tv", "laptop",
-  "mouse", "remote", "keyboard", "cell phone", "microwave", "oven", "toaster", "sink",
-  "refrigerator", "book", "clock", "vase", "scissors", "teddy bear", "hair drier", "toothbrush"
-];
+export type YOLOLoadError = AssetLoadErrorCode | "failed";
 
-type YOLODetection = {
-  label: string;
-  confidence: number;
-  bbox: [number, number, number, number]; // [x, y, width, height]
+// Where the time for the latest frame went, plus how many frames were skipped while the worker was busy
+export type YOLODetectionStats = YOLOStageTimings & {
+  captureMs: number;
+  totalMs: number;
+  droppedFrames: number;
 };
 
-export function useYOLODetection(videoRef: React.RefObject<HTMLVideoElement>, isActive: boolean) {
-  const [detections, setDetections] = useState<YOLODetection[]>([]);
-  const [isLoading, setIsLoading] = useState(false);
-  const sessionRef = useRef<ort.InferenceSession | null>(null);
-  const canvasRef = useRef<HTMLCanvasElement | null>(null);
-  const detectionHistoryRef = useRef<YOLODetection[][]>([]);
+// How often a frame is offered to the worker; frames arriving while it is busy are dropped
+const DETECTION_INTERVAL_MS = 500;
+
+// Fetches (or reads from cache) and verifies an asset, reporting whole-percent steps only
+async function loadWithProgress(asset: PinnedAsset, kind: YOLOLoadProgress["asset"], onProgress: (progress: YOLOLoadProgress) => void) {
+  let lastPercent: number | undefined = -1;
+  return loadPinnedAsset(asset, ({ loadedBytes, totalBytes, fromCache }: AssetProgress) => {
+    const percent = totalBytes ? Math.floor((loadedBytes / totalBytes) * 100) : undefined;
+    if (percent === lastPercent) return;
+    lastPercent = percent;
+    onProgress({ asset: kind, percent, fromCache });
+  });
+}
 
+// Standard 0–1 scaling only; see YOLOPreprocessOptions for the gamma option
+const DEFAULT_PREPROCESS: YOLOPreprocessOptions = {};
+
+// Tracked objects come back in the camera frame's pixels; frameSize is the frame they refer to.
+// trackEvents holds the enter, exit and approaching events from the latest frame that had any.
+export function useYOLODetection(
+  videoRef: React.RefObject<HTMLVideoElement>,
+  isActive: boolean,
+  preprocess: YOLOPreprocessOptions = DEFAULT_PREPROCESS,
+) {
+  const [tracks, setTracks] = useState<TrackedObject[]>([]);
+  const [trackEvents, setTrackEvents] = useState<TrackEvent[]>([]);
+  const [frameSize, setFrameSize] = useState<FrameSize | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [loadProgress, setLoadProgress] = useState<YOLOLoadProgress | null>(null);
+  const [loadError, setLoadError] = useState<YOLOLoadError | null>(null);
+  const [stats, setStats] = useState<YOLODetectionStats | null>(null);
+  const workerRef = useRef<Worker | null>(null);
+  const readyRef = useRef(false);
+  const loadingRef = useRef(false);
+  const inFlightRef = useRef<{ id: number; startedAt: number; captureMs: number; source: FrameSize } | null>(null);
+  const nextFrameIdRef = useRef(0);
+  const droppedFramesRef = useRef(0);
+  const trackerRef = useRef(createObjectTracker());
+  const activeRef = useRef(isActive);
+  activeRef.current = isActive;
+  const unmountedRef = useRef(false);
+  // Read when the model loads; changing it later takes effect on the next mount
+  const preprocessRef = useRef(preprocess);
+  preprocessRef.current = preprocess;
+
+  // The worker outlives camera pauses so the model is only loaded once per mount
   useEffect(() => {
-    let interval: any;
-
-    const loadModelAndStart = async () => {
-      if (!sessionRef.current) {
-        setIsLoading(true);
-        try {
-          // Using a public YOLOv8n ONNX model (lightweight version)
-          const modelUrl = "https://github.com/ultralytics/assets/releases/download/v0.0.0/yolov8n.onnx";
-          
-          // Enhanced ONNX Runtime configuration for better performance
-          ort.env.wasm.wasmPaths = "https://cdn.jsdelivr.net/npm/onnxruntime-web@1.16.3/dist/";
-          ort.env.wasm.numThreads = navigator.hardwareConcurrency || 4;
-          ort.env.wasm.simd = true;
-          ort.env.webgl.contextId = "webgl2";
-          
-          console.log("Loading enhanced YOLO model...");
-          sessionRef.current = await ort.InferenceSession.create(modelUrl, {
-            executionProviders: ['webgl', 'wasm'],
-            graphOptimizationLevel: 'all'
-          });
-          console.log("Enhanced YOLO model loaded successfully");
-          setIsLoading(false);
-        } catch (error) {
-          console.error("Failed to load YOLO model:", error);
-          setIsLoading(false);
-          return;
-        }
-      }
-
-      if (!canvasRef.current) {
-        canvasRef.current = document.createElement('canvas');
-      }
-
-      // Enhanced detection frequency for better accuracy
-      interval = setInterval(async () => {
-        if (
-          !isActive ||
-          !videoRef.current ||
-          videoRef.current.readyState < 2 ||
-          !sessionRef.current ||
-          isLoading
-        ) {
-          setDetections([]);
-          return;
-        }
-
-        try {
-          await runDetection();
-        } catch (error) {
-          console.error("Detection error:", error);
-        }
-      }, 500); // Increased frequency for better accuracy
+    return () => {
+      unmountedRef.current = true;
+      workerRef.current?.terminate();
+      workerRef.current = null;
+      readyRef.current = false;
+      inFlightRef.current = null;
     };
+  }, []);
 
-    const runDetection = async () => {
-      if (!videoRef.current || !sessionRef.current || !canvasRef.current) return;
-
-      const video = videoRef.current;
-      const canvas = canvasRef.current;
-      const ctx = canvas.getContext('2d')!;
-
-      // Set canvas size to match YOLO input (640x640)
-      const inputSize = 640;
-      canvas.width = inputSize;
-      canvas.height = inputSize;
-
-      // Enhanced image preprocessing
-      ctx.imageSmoothingEnabled = true;
-      ctx.imageSmoothingQuality = 'high';
-      ctx.drawImage(video, 0, 0, inputSize, inputSize);
-
-      // Get image data with enhanced processing
-      const imageData = ctx.getImageData(0, 0, inputSize, inputSize);
-      
-      // Enhanced preprocessing with normalization
-      const input = new Float32Array(3 * inputSize * inputSize);
-      for (let i = 0; i < imageData.data.length; i += 4) {
-        const pixelIndex = i / 4;
-        // Enhanced normalization with gamma correction
-        const r = Math.pow(imageData.data[i] / 255, 0.8);
-        const g = Math.pow(imageData.data[i + 1] / 255, 0.8);
-        const b = Math.pow(imageData.data[i + 2] / 255, 0.8);
-        
-        // YOLO expects CHW format (channels first)
-        input[pixelIndex] = r; // R channel
-        input[pixelIndex + inputSize * inputSize] = g; // G channel  
-        input[pixelIndex + 2 * inputSize * inputSize] = b; // B channel
-      }
+  useEffect(() => {
+    let interval: ReturnType<typeof setInterval> | undefined;
 
-      // Create tensor with enhanced configuration
-      const tensor = new ort.Tensor('float32', input, [1, 3, inputSize, inputSize]);
+    const post = (request: YOLOWorkerRequest, transfer: Transferable[] = []) => workerRef.current?.postMessage(request, transfer);
 
-      // Run inference with timeout
-      const results = await Promise.race([
-        sessionRef.current.run({ images: tensor }),
-        new Promise((_, reject) => setTimeout(() => reject(new Error('Inference timeout')), 5000))
-      ]) as any;
-      
-      // Enhanced YOLO output processing
-      const output = results.output0.data as Float32Array;
-      const detectedObjects = processYOLOOutput(output, inputSize);
-      
-      // Apply temporal smoothing for better accuracy
-      const smoothedDetections = applyTemporalSmoothing(detectedObjects);
-      setDetections(smoothedDetections);
-    };
-
-    const processYOLOOutput = (output: Float32Array, inputSize: number): YOLODetection[] => {
-      const detections: YOLODetection[] = [];
-      const numDetections = output.length / 85;
-      
-      for (let i = 0; i < numDetections; i++) {
-        const offset = i * 85;
-        const confidence = output[offset + 4];
-        
-        // Lowered confidence threshold for better detection
-        if (confidence > 0.3) {
-          const centerX = output[offset];
-          const centerY = output[offset + 1];
-          const width = output[offset + 2];
-          const height = output[offset + 3];
-          
-          const x = centerX - width / 2;
-          const y = centerY - height / 2;
-          
-          // Enhanced class probability calculation
-          let maxClassProb = 0;
-          let classIndex = 0;
-          for (let j = 0; j < 80; j++) {
-            const classProb = output[offset + 5 + j];
-            if (classProb > maxClassProb) {
-              maxClassProb = classProb;
-              classIndex = j;
-            }
-          }
-          
-          const finalConfidence = confidence * maxClassProb;
-          // Lowered final threshold for better detection
-          if (finalConfidence > 0.2) {
-            detections.push({
-              label: COCO_CLASSES[classIndex],
-              confidence: finalConfidence,
-              bbox: [x, y, width, height]
-            });
-          }
+    const handleMessage = (event: MessageEvent<YOLOWorkerResponse>) => {
+      const message = event.data;
+      switch (message.type) {
+        case "ready":
+          readyRef.current = true;
+          loadingRef.current = false;
+          setIsLoading(false);
+          console.log("YOLO model loaded in the detection worker");
+          break;
+        case "detections": {
+          const inFlight = inFlightRef.current;
+          if (inFlight?.id !== message.id) break;
+          inFlightRef.current = null;
+          if (!activeRef.current) break;
+          // Timed by capture, not arrival, so velocities are not skewed by inference time
+          const update = trackerRef.current.update(message.detections, inFlight.startedAt);
+          setTracks(update.tracks);
+          if (update.events.length > 0) setTrackEvents(update.events);
+          setFrameSize(inFlight.source);
+          setStats({
+            ...message.timings,
+            captureMs: inFlight.captureMs,
+            totalMs: Math.round(performance.now() - inFlight.startedAt),
+            droppedFrames: droppedFramesRef.current,
+          });
+          break;
         }
-      }
-      
-      // Enhanced Non-Maximum Suppression
-      return applyNMS(detections).slice(0, 15);
-    };
-
-    // Apply Non-Maximum Suppression to remove duplicate detections
-    const applyNMS = (detections: YOLODetection[], iouThreshold = 0.5): YOLODetection[] => {
-      if (detections.length === 0) return [];
-      
-      // Sort by confidence
-      detections.sort((a, b) => b.confidence - a.confidence);
-      
-      const keep: YOLODetection[] = [];
-      const suppressed = new Set<number>();
-      
-      for (let i = 0; i < detections.length; i++) {
-        if (suppressed.has(i)) continue;
-        
-        keep.push(detections[i]);
-        
-        for (let j = i + 1; j < detections.length; j++) {
-          if (suppressed.has(j)) continue;
-          
-          const iou = calculateIOU(detections[i].bbox, detections[j].bbox);
-          if (iou > iouThreshold && detections[i].label === detections[j].label) {
-            suppressed.add(j);
+        case "error":
+          if (message.id === undefined) {
+            console.error("Failed to load YOLO model:", message.message);
+            // Without a model the worker is no use; the next activation starts a fresh one
+            workerRef.current?.terminate();
+            workerRef.current = null;
+            loadingRef.current = false;
+            setLoadError("failed");
+            setIsLoading(false);
+            break;
           }
-        }
+          if (inFlightRef.current?.id === message.id) inFlightRef.current = null;
+          console.error("Detection error:", message.message);
+          break;
       }
-      
-      return keep;
     };
 
-    // Calculate Intersection over Union
-    const calculateIOU = (box1: [number, number, number, number], box2: [number, number, number, number]): number => {
-      const [x1, y1, w1, h1] = box1;
-      const [x2, y2, w2, h2] = box2;
-      
-      const xA = Math.max(x1, x2);
-      const yA = Math.max(y1, y2);
-      const xB = Math.min(x1 + w1, x2 + w2);
-      const yB = Math.min(y1 + h1, y2 + h2);
-      
-      const interArea = Math.max(0, xB - xA) * Math.max(0, yB - yA);
-      const box1Area = w1 * h1;
-      const box2Area = w2 * h2;
-      const unionArea = box1Area + box2Area - interArea;
-      
-      return unionArea === 0 ? 0 : interArea / unionArea;
+    const loadModel = async () => {
+      loadingRef.current = true;
+      setIsLoading(true);
+      setLoadError(null);
+      try {
+        // Both come from this origin and are cached, so detection works offline after the first start
+        const wasmBinary = await loadWithProgress(ORT_WASM_ASSET, "runtime", setLoadProgress);
+        const model = await loadWithProgress(YOLO_MODEL_ASSET, "model", setLoadProgress);
+        if (unmountedRef.current) return;
+
+        console.log("Loading YOLO model in the detection worker...");
+        const worker = new Worker(new URL("../workers/yolo.worker.ts", import.meta.url), { type: "module" });
+        workerRef.current = worker;
+        // Reads only refs, so one handler serves every activation of the camera
+        worker.onmessage = handleMessage;
+        post({ type: "load", wasmBinary, model, numThreads: navigator.hardwareConcurrency || 4, preprocess: preprocessRef.current }, [wasmBinary, model]);
+      } catch (error) {
+        console.error("Failed to load YOLO model:", error);
+        loadingRef.current = false;
+        setLoadError(error instanceof AssetLoadError ? error.code : "failed");
+        setIsLoading(false);
+      }
     };
 
-    // Apply temporal smoothing to reduce flickering
-    const applyTemporalSmoothing = (currentDetections: YOLODetection[]): YOLODetection[] => {
-      detectionHistoryRef.current.push(currentDetections);
-      if (detectionHistoryRef.current.length > 3) {
-        detectionHistoryRef.current.shift();
+    // Hands the current frame to the worker unless it is still busy with the previous one
+    const offerFrame = async () => {
+      const video = videoRef.current;
+      if (!video || video.readyState < 2 || !readyRef.current) {
+        setTracks([]);
+        return;
       }
-      
-      if (detectionHistoryRef.current.length < 2) {
-        return currentDetections;
+      if (inFlightRef.current) {
+        droppedFramesRef.current++;
+        return;
       }
-      
-      // Find consistent detections across frames
-      const consistentDetections: YOLODetection[] = [];
-      
-      for (const detection of currentDetections) {
-        let consistencyCount = 1;
-        
-        for (let i = 0; i < detectionHistoryRef.current.length - 1; i++) {
-          const historicalFrame = detectionHistoryRef.current[i];
-          const matchingDetection = historicalFrame.find(d => 
-            d.label === detection.label && 
-            calculateIOU(d.bbox, detection.bbox) > 0.3
-          );
-          
-          if (matchingDetection) {
-            consistencyCount++;
-          }
-        }
-        
-        // Only keep detections that appear in at least 2 of the last 3 frames
-        if (consistencyCount >= 2) {
-          consistentDetections.push(detection);
+
+      const id = nextFrameIdRef.current++;
+      const startedAt = performance.now();
+      const source = { width: video.videoWidth, height: video.videoHeight };
+      inFlightRef.current = { id, startedAt, captureMs: 0, source };
+      try {
+        // Scaled by the browser to fit the model input without distortion; the worker adds the padding
+        const { contentWidth, contentHeight } = computeLetterbox(source);
+        const frame = await createImageBitmap(video, {
+          resizeWidth: contentWidth,
+          resizeHeight: contentHeight,
+          resizeQuality: "high",
+        });
+        if (inFlightRef.current?.id !== id) {
+          frame.close();
+          return;
         }
+        inFlightRef.current.captureMs = Math.round(performance.now() - startedAt);
+        post({ type: "detect", id, frame, source }, [frame]);
+      } catch (error) {
+        inFlightRef.current = null;
+        console.error("Detection error:", error);
       }
-      
-      return consistentDetections.length > 0 ? consistentDetections : currentDetections;
     };
 
     if (isActive) {
-      loadModelAndStart();
+      if (!workerRef.current && !loadingRef.current) loadModel();
+      interval = setInterval(offerFrame, DETECTION_INTERVAL_MS);
     } else {
-      setDetections([]);
-      detectionHistoryRef.current = [];
+      setTracks([]);
+      setTrackEvents([]);
+      setFrameSize(null);
+      setStats(null);
+      droppedFramesRef.current = 0;
+      trackerRef.current.reset();
     }
 
     return () => {
       clearInterval(interval);
+      inFlightRef.current = null;
     };
   }, [isActive, videoRef]);
 
-  return { detections, isLoading };
+  return { tracks, trackEvents, frameSize, isLoading, loadProgress, loadError, stats };
 }
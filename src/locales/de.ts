@@ -0,0 +1,515 @@
+/**
+ * German language pack.
+ */
+
+import type { LocalePack } from "@/utils/i18n";
+
+const de: LocalePack = {
+  messages: {
+    "common.and": "und",
+    "common.or": "oder",
+    "format.plus": "plus",
+    "format.degrees": "{value} Grad {direction}",
+    "format.north": "Nord",
+    "format.south": "Süd",
+    "format.east": "Ost",
+    "format.west": "West",
+    "direction.clock": "auf {hour} Uhr",
+    "direction.ahead": "direkt voraus",
+    "direction.degreesLeft": "{degrees} Grad links",
+    "direction.degreesRight": "{degrees} Grad rechts",
+    "direction.left": "links",
+    "direction.center": "in der Mitte",
+    "direction.right": "rechts",
+    "direction.withCardinal": "{direction}, Richtung {cardinal}",
+    "direction.cardinal.north": "Norden",
+    "direction.cardinal.northeast": "Nordosten",
+    "direction.cardinal.east": "Osten",
+    "direction.cardinal.southeast": "Südosten",
+    "direction.cardinal.south": "Süden",
+    "direction.cardinal.southwest": "Südwesten",
+    "direction.cardinal.west": "Westen",
+    "direction.cardinal.northwest": "Nordwesten",
+    "app.welcome": "Willkommen bei Vision Guide",
+    "app.sos": "Notfallknopf gedrückt. SOS ausgelöst.",
+    "language.supportsBoth": "{language} unterstützt Sprachausgabe und Texterkennung.",
+    "language.supportsTts": "{language} unterstützt nur Sprachausgabe.",
+    "language.supportsOcr": "{language} unterstützt nur Texterkennung.",
+    "language.supportsNone": "{language} unterstützt weder Sprachausgabe noch Texterkennung.",
+    "language.offlineVoice": "Für {language} gibt es keine Systemstimme, daher spricht die Offline-Stimme. Texterkennung wird unterstützt.",
+    "language.englishCommands": "Sprachbefehle sind für diese Sprache noch nicht übersetzt. Bitte verwende die englischen Befehle.",
+
+    "mode.name.camera": "Kamera",
+    "mode.name.navigation": "Navigation",
+    "mode.name.emergency": "Notfall",
+    "mode.name.settings": "Einstellungen",
+
+    "voice.started": "Spracherkennung gestartet. Bitte deutlich sprechen.",
+    "voice.stopped": "Spracherkennung beendet",
+    "voice.didYouMean": "Meintest du {options}?",
+    "voice.notRecognized": "Befehl nicht erkannt. Sag Hilfe, um die verfügbaren Befehle zu hören.",
+    "voice.offlineStarted": "Offline-Zuhören gestartet. Sprich natürlich und mach nach jedem Befehl eine Pause.",
+    "voice.offlineStopped": "Offline-Zuhören beendet",
+    "voice.offlineFallback": "Verbindung verloren. Wechsle zum Offline-Zuhören.",
+    "speech.nothingToRepeat": "Ich habe noch nichts gesagt.",
+    "transcript.copied": "Letzte Nachricht kopiert",
+    "transcript.copyFailed": "Kopieren nicht möglich. Der Browser hat den Zugriff auf die Zwischenablage nicht erlaubt.",
+    "transcript.nothingToCopy": "Noch nichts zum Kopieren",
+    "transcript.focusCopy": "Letzte Untertitelzeile in die Zwischenablage kopieren",
+    "transcript.focusFilter": "{name} anzeigen",
+    "transcript.filter.all": "Alles",
+    "transcript.filter.app": "Von der App gesagt",
+    "transcript.filter.commands": "Meine Befehle",
+    "transcript.filter.heard": "Alles Gehörte",
+    "transcript.outcome.command": "Befehl",
+    "transcript.outcome.reply": "Antwort",
+    "transcript.outcome.not-understood": "nicht verstanden",
+    "transcript.outcome.ignored": "ignoriert",
+    "transcript.fromApp": "Vision Guide: {text}",
+    "transcript.fromUser": "Du ({outcome}): {text}",
+    "speech.history": "Zuletzt habe ich gesagt: {messages}",
+    "command.cameraActivated": "Kamera für Objekterkennung aktiviert",
+    "command.navigationActivated": "Navigationsmodus aktiviert",
+    "command.navigatingTo": "Navigation nach {place} gestartet",
+    "command.emergencyOpened": "Notfallbereich geöffnet",
+    "command.settingsOpened": "Einstellungen geöffnet",
+    "command.status": "Aktueller Modus ist {mode}. Die Spracherkennung ist aktiv.",
+    "help.modeCommands": "Im Modus {mode} kannst du sagen: {modeCommands}. Überall kannst du sagen: {globalCommands}.",
+    "help.globalCommands": "Du kannst sagen: {globalCommands}.",
+
+    "commandCard.mode.camera": "Objekterkennung aktivieren",
+    "commandCard.mode.navigation": "Navigationsmodus starten",
+    "commandCard.navigation.destination": "Führung zu einem Ort starten",
+    "commandCard.mode.emergency": "Notfallbereich öffnen",
+    "commandCard.mode.settings": "Einstellungen öffnen",
+    "commandCard.contact.call": "Einen Notfallkontakt anrufen",
+    "commandCard.language.set": "Sprache der Sprachausgabe ändern",
+    "commandCard.status": "Aktuellen Modus abfragen",
+    "commandCard.help": "Verfügbare Befehle anhören",
+    "commandCard.listening.stop": "Spracherkennung ausschalten",
+    "commandCard.speech.repeat": "Meine letzte Ansage wiederholen",
+    "commandCard.speech.history": "Meine letzten Ansagen anhören",
+    "commandCard.verbosity.terse": "Ansagen kurz halten",
+    "commandCard.verbosity.normal": "Normale Ausführlichkeit",
+    "commandCard.verbosity.detailed": "Ansagen ausführlicher erklären",
+    "commandCard.camera.start": "Objekterkennung beginnen",
+    "commandCard.camera.stop": "Kamerasitzung beenden",
+    "commandCard.camera.analyze": "Aktuelle Erkennungen anhören",
+    "commandCard.camera.describe": "Die Umgebung ausführlich beschreiben",
+    "commandCard.camera.repeat": "Die letzte Beschreibung noch einmal hören",
+    "commandCard.camera.distance": "Hören, wie weit die nächsten Objekte entfernt sind",
+    "commandCard.camera.find": "Zu einem Objekt geführt werden, etwa einer Tasse",
+    "commandCard.camera.stopSearch": "Objektsuche beenden",
+    "commandCard.navigation.start": "Gehführung beginnen",
+    "commandCard.navigation.stop": "Gehführung beenden",
+    "commandCard.navigation.next": "Zur nächsten Anweisung",
+    "commandCard.navigation.previous": "Zurück zur vorherigen Anweisung",
+    "commandCard.navigation.repeat": "Aktuelle Anweisung wiederholen",
+    "commandCard.navigation.location": "Deinen aktuellen Standort abfragen",
+    "commandCard.emergency.share-location": "GPS-Koordinaten an Kontakte senden",
+    "commandCard.emergency.send-help": "Eine Notrufnachricht senden",
+    "commandCard.emergency.repeat-location": "Die letzte GPS-Position anhören",
+    "commandCard.settings.rate.set": "Eine genaue Sprechgeschwindigkeit festlegen",
+    "commandCard.settings.rate.increase": "Sprechgeschwindigkeit erhöhen",
+    "commandCard.settings.rate.decrease": "Sprechgeschwindigkeit verringern",
+    "commandCard.settings.volume.set": "Eine genaue Lautstärke festlegen",
+    "commandCard.settings.volume.increase": "Lauter",
+    "commandCard.settings.volume.decrease": "Leiser",
+    "commandCard.settings.test": "Aktuelle Einstellungen testen",
+    "commandCard.settings.erase": "Protokolle löschen und alle Einstellungen zurücksetzen",
+    "commandCard.settings.reset": "Standardwerte wiederherstellen",
+
+    "confirm.prompt": "{message} Sag ja zum Bestätigen oder nein zum Abbrechen.",
+    "confirm.countdownPrompt": "{message} Es geht in {seconds} Sekunden automatisch weiter. Sag nein zum Abbrechen oder ja, um sofort fortzufahren.",
+    "confirm.cancelled": "Abgebrochen.",
+    "confirm.sayYesOrNo": "Bitte sag ja oder nein.",
+    "confirm.noAnswer": "Keine Antwort erhalten. Aktion abgebrochen.",
+
+    "camera.activatedLoading": "Kamera aktiviert. Das Modell zur Objekterkennung wird geladen...",
+    "camera.accessDenied": "Kein Zugriff auf die Kamera. Bitte Berechtigungen prüfen.",
+    "camera.stopped": "Kamera gestoppt.",
+    "camera.notOpen": "Der Kameramodus ist nicht geöffnet. Sag Kamera, um die Objekterkennung zu starten.",
+    "camera.alreadyOff": "Die Kamera ist bereits aus.",
+    "camera.isOff": "Die Kamera ist aus. Sag zuerst Kamera starten.",
+    "camera.modelLoading": "Das Erkennungsmodell wird noch geladen. Bitte einen Moment warten.",
+    "camera.assetModel": "Erkennungsmodell",
+    "camera.assetRuntime": "Erkennungs-Laufzeit",
+    "camera.downloadStarted": "{name} wird für die Offline-Nutzung heruntergeladen",
+    "camera.downloadProgress": "{name}: {percent} Prozent heruntergeladen",
+    "camera.downloadDone": "Die Objekterkennung ist bereit und funktioniert jetzt auch offline",
+    "camera.loadError.offline": "Die Objekterkennung ist offline noch nicht verfügbar. Verbinden Sie sich einmal mit dem Internet, um das Modell herunterzuladen.",
+    "camera.loadError.integrity": "Das Erkennungsmodell hat die Sicherheitsprüfung nicht bestanden und wurde nicht verwendet. Bitte später erneut versuchen.",
+    "camera.loadError.http": "Das Erkennungsmodell konnte nicht vom Server heruntergeladen werden.",
+    "camera.loadError.failed": "Das Erkennungsmodell konnte auf diesem Gerät nicht gestartet werden.",
+    "camera.noDescription": "Ich habe noch nichts beschrieben.",
+    "camera.analyzing": "Analysiere. {description}",
+    "camera.nothingDetected": "Im Moment werden keine Objekte erkannt.",
+    "camera.noObjects": "Ich sehe gerade keine Objekte. Richte die Kamera in eine andere Richtung.",
+    "camera.seeing": "Ich sehe {objects}.",
+    "camera.appeared": "Neu: {objects}.",
+    "camera.disappeared": "Nicht mehr im Bild: {objects}.",
+    "camera.approaching": "{objects} kommt näher.",
+    "camera.hazardImminent": "Stopp! {objects}.",
+    "camera.hazardWarning": "Vorsicht: {objects}.",
+    "camera.objectAt": "{object} {position}",
+    "camera.distanceAbout": "etwa {distance} entfernt",
+    "camera.distanceWithin": "höchstens {distance} entfernt",
+    "camera.distanceUnknown": "Die Entfernung zu diesen Objekten kann ich nicht schätzen.",
+    "camera.searchStarted": "Suche: {object}. Langsam drehen; die Pieptöne werden schneller, je näher du kommst.",
+    "camera.unknownObject": "Nach {object} kann ich nicht suchen. Ich finde Alltagsdinge wie eine Tasse, eine Flasche, einen Stuhl oder ein Handy.",
+    "camera.searchSpotted": "Gefunden: {object}. {hint}",
+    "camera.searchHint.left": "Nach links.",
+    "camera.searchHint.right": "Nach rechts.",
+    "camera.searchHint.up": "Nach oben.",
+    "camera.searchHint.down": "Nach unten.",
+    "camera.searchHint.closer": "Geradeaus. Näher heran.",
+    "camera.searchHint.inFront": "{object}: direkt vor der Kamera.",
+    "camera.searchLost": "Aus dem Blick: {object}. Langsam drehen, um es wiederzufinden.",
+    "camera.searchStopped": "Suche beendet: {object}.",
+    "camera.notSearching": "Es läuft keine Suche.",
+    "camera.focusStopSearch": "Suche beenden",
+    "camera.calibrated": "Kamera kalibriert. Bildwinkel {degrees} Grad.",
+    "camera.calibrationFailed": "Diese Messung wirkt nicht plausibel. Prüfe Höhe und Entfernung und halte das ganze Objekt im Bild.",
+    "camera.calibrationNoReference": "Wähle zuerst ein sichtbares Objekt als Referenz.",
+    "camera.calibrationReset": "Für Entfernungen wird eine typische Handykamera angenommen.",
+    "camera.focusCalibrationReference": "Referenzobjekt für die Kalibrierung",
+    "camera.focusCalibrationHeight": "Höhe des Referenzobjekts in Zentimetern",
+    "camera.focusCalibrationDistance": "Entfernung zum Referenzobjekt in Metern",
+    "camera.focusCalibrate": "Entfernungen kalibrieren",
+    "camera.focusCalibrationReset": "Typische Kamera statt Kalibrierung verwenden",
+    "camera.focusStart": "Kamera starten",
+    "camera.focusStop": "Kamera stoppen",
+
+    "navigation.step1": "Willkommen im Navigationsmodus. Ich führe dich Schritt für Schritt.",
+    "navigation.step2": "Schau nach vorne und geh 5 Schritte geradeaus.",
+    "navigation.step3": "Gut! Dreh dich jetzt leicht nach rechts und geh 10 Schritte weiter.",
+    "navigation.step4": "Sehr gut. Geh noch 8 Schritte geradeaus.",
+    "navigation.step5": "Bieg an der Kreuzung links ab und geh 12 Schritte vorwärts.",
+    "navigation.step6": "Das machst du toll! Geh 6 Schritte geradeaus weiter.",
+    "navigation.step7": "Bieg rechts ab und geh 4 Schritte bis zu deinem Ziel.",
+    "navigation.step8": "Glückwunsch! Du hast dein Ziel sicher erreicht.",
+    "navigation.destination": "Dein Ziel ist {destination}.",
+    "navigation.stopped": "Navigation beendet. Du kannst sie jederzeit mit Hey Vision Navigation starten neu beginnen.",
+    "navigation.complete": "Navigation abgeschlossen! Du hast dein Ziel erreicht.",
+    "navigation.goingBack": "Einen Schritt zurück. {step}",
+    "navigation.firstStep": "Das ist der erste Schritt. {step}",
+    "navigation.repeating": "Ich wiederhole Schritt {number}. {step}",
+    "navigation.notStarted": "Die Navigation hat noch nicht begonnen. Sag Navigation starten, um zu beginnen.",
+    "navigation.notOpen": "Der Navigationsmodus ist nicht geöffnet. Sag Navigation, um die Führung zu starten.",
+    "navigation.gettingLocation": "Ermittle deinen aktuellen Standort...",
+    "navigation.coordinates": "Deine aktuellen Koordinaten sind {position}",
+    "navigation.locationError": "Dein Standort konnte nicht ermittelt werden. Bitte Standortberechtigungen prüfen.",
+    "navigation.locationUnavailable": "Standortdienste sind auf diesem Gerät nicht verfügbar.",
+    "navigation.focusStart": "Navigation starten",
+    "navigation.focusStop": "Navigation beenden",
+    "navigation.focusLocation": "Aktuellen Standort abrufen",
+
+    "emergency.notOpen": "Der Notfallbereich ist nicht geöffnet. Sag Notfall, um ihn zu öffnen.",
+    "emergency.callConfirm": "{name} anrufen?",
+    "emergency.calling": "Rufe {name} an",
+    "emergency.announce": "{action}. {details}. Damit können Rettungskräfte oder deine Kontakte dich finden und dir helfen.",
+    "emergency.contact.911.name": "Notruf",
+    "emergency.contact.911.description": "Polizei, Feuerwehr, Rettungsdienst - Bei Lebensgefahr sofort anrufen",
+    "emergency.contact.911.focus": "Notruf - {number}. Drücke Enter, um sofort Polizei, Feuerwehr oder Rettungsdienst anzurufen.",
+    "emergency.contact.family.name": "Familie",
+    "emergency.contact.family.description": "Wichtigster Familienkontakt - Dein vertrautes Familienmitglied",
+    "emergency.contact.family.focus": "Familie. Drücke Enter, um deinen wichtigsten Familienkontakt unter {number} anzurufen.",
+    "emergency.contact.friend.name": "Vertrauter Freund",
+    "emergency.contact.friend.description": "Freund, der helfen kann - Deine Vertrauensperson im Notfall",
+    "emergency.contact.friend.focus": "Vertrauter Freund. Drücke Enter, um deinen Freund unter {number} anzurufen.",
+    "emergency.action.location.name": "Meinen Standort teilen",
+    "emergency.action.location.focus": "Standort teilen. Drücke Enter, um deine GPS-Koordinaten per SMS an deine Notfallkontakte zu senden.",
+    "emergency.action.text.name": "Hilferuf senden",
+    "emergency.action.text.focus": "Hilferuf senden. Drücke Enter, um eine Notfallnachricht an deine Kontakte zu senden.",
+    "emergency.locationNotSupported": "Standort teilen wird auf diesem Gerät nicht unterstützt. Bitte ein anderes Gerät oder einen Browser mit GPS verwenden.",
+    "emergency.sharingLocation": "Standort wird geteilt",
+    "emergency.gettingPosition": "Deine aktuelle GPS-Position wird ermittelt",
+    "emergency.locationAcquired": "Standort ermittelt. {position}",
+    "emergency.shareLocationConfirm": "Deinen Standort an deine Notfallkontakte senden?",
+    "emergency.openingSmsWithLocation": "{location}. Deine Nachrichten-App wird geöffnet. Dein Standort und die Notfallnachricht sind bereit zum Senden. Bitte prüfen und auf Senden drücken.",
+    "emergency.permissionDenied": "Die Standortberechtigung wurde verweigert. Erlaube den Standortzugriff für diese Seite in den Browsereinstellungen und versuche es erneut.",
+    "emergency.positionUnavailable": "Dein Standort konnte nicht bestimmt werden. Geh für besseren GPS-Empfang an ein Fenster oder nach draußen und versuche es erneut.",
+    "emergency.locationTimeout": "Die Standortabfrage hat nach 10 Sekunden abgebrochen. Prüfe deine Internetverbindung und versuche es erneut.",
+    "emergency.locationUnknownError": "Beim Ermitteln deines Standorts ist ein unerwarteter Fehler aufgetreten. Versuche es gleich noch einmal oder ruf im Ernstfall direkt den Notruf an.",
+    "emergency.locationSharingFailed": "Beim Teilen des Standorts ist ein unerwarteter Fehler aufgetreten. Ruf im Ernstfall direkt den Notruf an.",
+    "emergency.noContacts": "Es sind keine Notfallkontakte eingerichtet. Füge Kontaktnummern hinzu oder ruf direkt den Notruf an.",
+    "emergency.sendHelpConfirm": "Einen Hilferuf an deine Notfallkontakte senden?",
+    "emergency.sendHelpDetail": "Deine Nachrichten-App öffnet sich mit einer vorformulierten Notfallnachricht.",
+    "emergency.sendingHelp": "Hilferuf wird gesendet",
+    "emergency.preparingMessage": "Notfallnachricht für deine Kontakte wird vorbereitet",
+    "emergency.openingSmsWithHelp": "Deine Nachrichten-App wird mit einer vorformulierten Notfallnachricht geöffnet. Die Nachricht erklärt, dass du Hilfe brauchst. Bitte prüfen und auf Senden drücken.",
+    "emergency.smsError": "Die Nachrichten-App konnte nicht geöffnet werden. Schreib deinen Kontakten bitte selbst oder ruf sie im Ernstfall direkt an.",
+    "emergency.callAnnouncement": "Rufe {name} unter {number} an. {description}",
+    "emergency.911Instructions": "Notruf gestartet. Bleib ruhig, sprich deutlich und nenne deinen Standort und die Art des Notfalls. Leg nicht auf, bis man es dir sagt.",
+    "emergency.cancelled": "Notfallmodus beendet. Du bist wieder im normalen Modus. Alle Notfallfunktionen bleiben verfügbar.",
+    "emergency.lastLocation": "Letzter Standort um {time}: {location}. Das ist deine zuletzt ermittelte GPS-Position.",
+    "emergency.noLocation": "Es wurde noch kein Standort ermittelt. Nutze die Schaltfläche Standort teilen, um deine GPS-Koordinaten abzurufen.",
+    "emergency.focusCancel": "Notfallmodus beenden. Drücke Enter, um zum normalen Betrieb zurückzukehren.",
+    "emergency.focusRepeat": "Letzten Standort wiederholen. Drücke Enter, um deine letzten GPS-Koordinaten zu hören.",
+
+    "settings.rateSet": "Sprechgeschwindigkeit auf {percent} Prozent gesetzt",
+    "settings.volumeSet": "Lautstärke auf {percent} Prozent gesetzt",
+    "settings.pitchAdjusted": "Stimmhöhe angepasst",
+    "settings.wakeWordOn": "Aktivierungswort erforderlich. Beginne jeden Befehl mit Hey Vision.",
+    "settings.wakeWordOff": "Aktivierungswort ausgeschaltet. Alles Gesagte wird als Befehl behandelt.",
+    "settings.commandWindow": "Befehlsfenster auf {seconds} Sekunden gesetzt",
+    "settings.countdownOn": "Notrufe werden nach {seconds} Sekunden ausgeführt, wenn du nicht abbrichst",
+    "settings.countdownOff": "Notrufe warten, bis du ja sagst",
+    "settings.testMessage": "Dies ist ein Test deiner Spracheinstellungen. Du kannst Geschwindigkeit, Stimmhöhe und Lautstärke nach Wunsch anpassen.",
+    "settings.resetDone": "Spracheinstellungen zurückgesetzt",
+    "settings.eraseConfirm": "Alle App-Daten löschen?",
+    "settings.eraseDetail": "Dabei werden die Aktivitätsprotokolle gelöscht und alle Einstellungen zurückgesetzt.",
+    "settings.eraseDone": "Alle App-Daten gelöscht. Einstellungen zurückgesetzt.",
+    "settings.focusSlower": "Sprechgeschwindigkeit verringern",
+    "settings.focusFaster": "Sprechgeschwindigkeit erhöhen",
+    "settings.focusQuieter": "Leiser",
+    "settings.focusLouder": "Lauter",
+    "settings.focusTest": "Spracheinstellungen testen",
+    "settings.focusReset": "Einstellungen zurücksetzen",
+    "settings.focusWakeWord": "Aktivierungswort vor Befehlen verlangen",
+    "settings.focusEmergencyAutoCall": "Notruf nach einem Countdown automatisch wählen",
+    "settings.focusErase": "Alle App-Daten löschen",
+    "settings.recognizerSet": "Spracherkennung: {name}",
+    "settings.whisperModelSet": "Offline-Sprachmodell: {name}",
+    "settings.whisperModelAuto": "Das Offline-Sprachmodell wird automatisch gewählt",
+    "settings.focusRecognizer": "Spracherkennung auswählen",
+    "settings.verbosity.terse": "Kurze Meldungen.",
+    "settings.verbosity.normal": "Ab jetzt normale Meldungen.",
+    "settings.verbosity.detailed": "Ab jetzt ausführliche Meldungen. Ich erkläre mehr darüber, was passiert und was du sagen kannst.",
+    "settings.focusVerbosity": "Auswählen, wie ausführlich gesprochene Meldungen sind",
+    "settings.earconsOn": "Objekttöne an. Jedes Objekt ist aus seiner Richtung zu hören.",
+    "settings.earconsOff": "Objekttöne stumm. Die Sprachausgabe bleibt an.",
+    "settings.focusEarcons": "Töne für erkannte Objekte abspielen",
+    "settings.focusEarconPreview": "Objekttöne anhören",
+    "settings.hapticsOn": "Vibration an.",
+    "settings.hapticsOff": "Vibration aus.",
+    "settings.hapticsUnsupported": "Dieses Gerät kann nicht vibrieren.",
+    "settings.hapticPatternSaved": "Muster {name} gespeichert",
+    "settings.hapticPatternReset": "Muster {name} zurückgesetzt",
+    "settings.hapticPatternInvalid": "Dieses Muster ist ungültig. Gib Vibrations- und Pausenlängen in Millisekunden an, durch Kommas getrennt.",
+    "settings.focusHaptics": "Bei Warnungen, Abbiegungen und Befehlen vibrieren",
+    "settings.focusHapticPreview": "Vibration {name} ausprobieren",
+    "settings.voiceSet": "Stimme auf {name} gesetzt",
+    "settings.voiceDefault": "Standardstimme des Browsers wird verwendet",
+    "settings.voicePreview": "So werde ich klingen. Kamera aktiviert. An der Kreuzung links abbiegen.",
+    "settings.focusVoice": "Stimme für diese Sprache auswählen",
+    "settings.focusVoicePreview": "Stimme anhören",
+    "settings.offlineVoice.fallback": "Die Offline-Stimme spricht Sprachen ohne Systemstimme",
+    "settings.offlineVoice.always": "Die Offline-Stimme spricht jede Nachricht",
+    "settings.offlineVoice.off": "Offline-Stimme ausgeschaltet",
+    "settings.offlineVoiceDownloading": "Offline-Stimme {name} wird heruntergeladen, etwa {size} Megabyte",
+    "settings.offlineVoiceReady": "Die Offline-Stimme {name} ist bereit und funktioniert ohne Verbindung",
+    "settings.offlineVoiceFailed": "Die Offline-Stimme {name} konnte nicht heruntergeladen werden. Prüfen Sie die Verbindung und versuchen Sie es erneut.",
+    "settings.offlineVoiceRemoved": "Die Offline-Stimme {name} wurde von diesem Gerät entfernt",
+    "settings.focusOfflineVoice": "Wählen Sie, wann die Offline-Stimme verwendet wird",
+    "settings.focusOfflineVoiceDownload": "Offline-Stimme {name} herunterladen",
+    "settings.units.auto": "Entfernungen in den üblichen Einheiten Ihrer Sprache",
+    "settings.units.metric": "Entfernungen in Metern und Kilometern",
+    "settings.units.imperial": "Entfernungen in Fuß und Meilen",
+    "settings.lexiconAdded": "Aussprache gespeichert. So klingt es jetzt: {written}",
+    "settings.lexiconRemoved": "Aussprache entfernt",
+    "settings.lexiconIncomplete": "Geben Sie das Wort in Schreibweise und Aussprache ein",
+    "settings.focusUnits": "Einheiten für gesprochene Entfernungen wählen",
+    "settings.directionStyle.clock": "Richtungen als Uhrzeit-Positionen",
+    "settings.directionStyle.degrees": "Richtungen in Grad",
+    "settings.directionStyle.sides": "Richtungen als links, Mitte oder rechts",
+    "settings.focusDirectionStyle": "Wählen, wie die Kamera sagt, wo Objekte sind",
+    "settings.focusLexiconWritten": "Wort oder Name, wie geschrieben",
+    "settings.focusLexiconSpoken": "Wie es gesprochen werden soll",
+    "settings.focusLexiconTest": "Anhören, wie {spoken} klingt",
+    "haptic.hazardAhead": "Gefahr voraus",
+    "haptic.turnLeft": "links abbiegen",
+    "haptic.turnRight": "rechts abbiegen",
+    "haptic.arrived": "angekommen",
+    "haptic.commandRecognized": "Befehl erkannt",
+    "haptic.commandNotUnderstood": "Befehl nicht verstanden",
+    "haptic.emergencyArmed": "Notfall bereit",
+    "recognizer.webspeech": "Browser-Spracherkennung",
+    "recognizer.whisper": "Offline-Whisper",
+    "recognizer.scripted": "Skript-Demo",
+
+    "demo.detected": "{name} erkannt. {description}",
+    "demo.stairs.name": "Treppe voraus",
+    "demo.stairs.description": "Simuliert eine erkannte Treppe",
+    "demo.door.name": "Tür",
+    "demo.door.description": "Simuliert eine Tür",
+    "demo.pole.name": "Pfosten voraus",
+    "demo.pole.description": "Simuliert einen Pfosten als Hindernis",
+    "demo.path.name": "Freier Weg",
+    "demo.path.description": "Simuliert einen begehbaren Weg",
+    "ocr.textFound": "Gefundener Text: {text}",
+    "ocr.failed": "Leider konnte ich den Text nicht lesen. Bitte versuche es erneut.",
+  },
+
+  terse: {
+    "voice.started": "Ich höre zu.",
+    "voice.stopped": "Zuhören beendet.",
+    "voice.notRecognized": "Nicht erkannt.",
+    "camera.activatedLoading": "Kamera an. Wird geladen.",
+    "camera.stopped": "Kamera aus.",
+    "camera.nothingDetected": "Nichts erkannt.",
+    "camera.seeing": "{objects}.",
+    "navigation.stopped": "Navigation beendet.",
+    "navigation.complete": "Angekommen.",
+    "navigation.repeating": "Schritt {number}. {step}",
+    "emergency.announce": "{action}.",
+    "emergency.openingSmsWithLocation": "{location}. Nachrichten werden geöffnet. Bitte senden.",
+    "emergency.permissionDenied": "Standortberechtigung verweigert.",
+    "emergency.noContacts": "Keine Notfallkontakte.",
+    "emergency.openingSmsWithHelp": "Hilfenachricht wird geöffnet. Bitte senden.",
+    "emergency.callAnnouncement": "Rufe {name} an.",
+    "emergency.911Instructions": "Bleib ruhig. Nenne deinen Standort und den Notfall.",
+    "emergency.cancelled": "Notfallmodus aus.",
+    "emergency.noLocation": "Noch kein Standort.",
+    "settings.rateSet": "Tempo {percent}.",
+    "settings.volumeSet": "Lautstärke {percent}.",
+    "settings.resetDone": "Einstellungen zurückgesetzt.",
+  },
+
+  detailed: {
+    "voice.started": "Spracherkennung gestartet. Bitte deutlich sprechen. Sag jederzeit Hilfe, um die verfügbaren Befehle zu hören.",
+    "voice.stopped": "Spracherkennung beendet. Drück die Mikrofontaste, um wieder zuzuhören.",
+    "voice.notRecognized": "Befehl nicht erkannt. Sag Hilfe, um die verfügbaren Befehle zu hören, oder wiederhole das, um meine letzte Nachricht noch einmal zu hören.",
+    "voice.offlineStarted": "Offline-Zuhören gestartet. Sprich natürlich und mach nach jedem Befehl eine Pause. Die Erkennung läuft auf diesem Gerät und kann einen Moment dauern.",
+    "voice.offlineFallback": "Verbindung verloren. Wechsle zum Offline-Zuhören. Die Erkennung läuft jetzt auf diesem Gerät und kann etwas langsamer sein.",
+    "camera.activatedLoading": "Kamera aktiviert. Das Modell zur Objekterkennung wird geladen. Das erste Laden kann einige Sekunden dauern; sobald es bereit ist, beschreibe ich die Objekte.",
+    "camera.accessDenied": "Kein Zugriff auf die Kamera. Bitte Berechtigungen prüfen. Erlaube dieser Website in den Browsereinstellungen den Kamerazugriff und sag dann noch einmal Kamera starten.",
+    "camera.stopped": "Kamera gestoppt. Sag Kamera starten, um die Objekterkennung wieder zu beginnen.",
+    "camera.isOff": "Die Kamera ist aus. Sag zuerst Kamera starten und frag mich dann noch einmal.",
+    "camera.modelLoading": "Das Erkennungsmodell wird noch geladen. Bitte einen Moment warten; sobald es bereit ist, beschreibe ich die Objekte.",
+    "camera.noObjects": "Ich sehe gerade keine Objekte. Richte die Kamera in eine andere Richtung und dreh sie langsam von links nach rechts.",
+    "navigation.step1": "Willkommen im Navigationsmodus. Ich führe dich Schritt für Schritt. Sag weiter, wenn du eine Anweisung erledigt hast, oder wiederholen, um sie noch einmal zu hören.",
+    "navigation.step2": "Schau nach vorne und geh 5 Schritte geradeaus. Halte ein gleichmäßiges, angenehmes Tempo.",
+    "navigation.step3": "Gut! Dreh dich jetzt leicht nach rechts und geh 10 Schritte weiter. Dreh dich nur ein wenig, etwa in Richtung ein Uhr.",
+    "navigation.step4": "Sehr gut. Geh noch 8 Schritte geradeaus, in derselben Richtung.",
+    "navigation.step5": "Bieg an der Kreuzung links ab und geh 12 Schritte vorwärts. Warte, bis du sicher bist, dass der Weg frei ist, bevor du die Straße überquerst.",
+    "navigation.step6": "Das machst du toll! Geh 6 Schritte geradeaus weiter.",
+    "navigation.step7": "Bieg rechts ab und geh 4 Schritte bis zu deinem Ziel. Es ist dann direkt vor dir.",
+    "navigation.stopped": "Navigation beendet. Du kannst sie jederzeit mit Hey Vision Navigation starten neu beginnen. Dein Fortschritt wurde auf den ersten Schritt zurückgesetzt.",
+    "navigation.notStarted": "Die Navigation hat noch nicht begonnen. Sag Navigation starten, um zu beginnen, oder navigiere zu und einen Ort, um dorthin geführt zu werden.",
+    "navigation.coordinates": "Deine aktuellen Koordinaten sind {position}. Öffne den Notfallbereich und sag Standort teilen, um sie an deine Kontakte zu senden.",
+    "navigation.locationError": "Dein Standort konnte nicht ermittelt werden. Bitte Standortberechtigungen prüfen. Erlaube dieser Website in den Browsereinstellungen den Standortzugriff und versuch es dann noch einmal.",
+    "emergency.announce": "{action}. {details}. Damit können Rettungskräfte oder deine Kontakte dich finden und dir helfen. Sag jederzeit Notfall abbrechen, um in den normalen Modus zurückzukehren.",
+    "emergency.calling": "Rufe {name} an. Deine Telefon-App öffnet sich mit der Nummer.",
+    "emergency.callAnnouncement": "Rufe {name} unter {number} an. {description}. Deine Telefon-App öffnet sich; bleib in der Leitung, bis sich jemand meldet.",
+    "emergency.openingSmsWithLocation": "{location}. Deine Nachrichten-App wird geöffnet. Dein Standort und die Notfallnachricht sind bereit zum Senden an deine Kontakte. Bitte prüfen und auf Senden drücken. Sag später Standort wiederholen, um diese Koordinaten noch einmal zu hören.",
+    "emergency.noLocation": "Es wurde noch kein Standort ermittelt. Nutze die Schaltfläche Standort teilen, um deine GPS-Koordinaten abzurufen, oder sag Standort teilen.",
+    "settings.rateSet": "Sprechgeschwindigkeit auf {percent} Prozent gesetzt. Sag schneller oder langsamer, um sie weiter anzupassen.",
+    "settings.volumeSet": "Lautstärke auf {percent} Prozent gesetzt. Sag lauter oder leiser, um sie weiter anzupassen.",
+    "settings.wakeWordOn": "Aktivierungswort erforderlich. Beginne jeden Befehl mit Hey Vision. Wenn du nur Hey Vision sagst, warte ich ein paar Sekunden auf einen Befehl.",
+    "settings.wakeWordOff": "Aktivierungswort ausgeschaltet. Alles Gesagte wird als Befehl behandelt, daher können Gespräche im Hintergrund Aktionen auslösen.",
+    "settings.countdownOn": "Notrufe werden nach {seconds} Sekunden ausgeführt, wenn du nicht abbrichst. Sag während des Countdowns nein, um den Anruf abzubrechen.",
+    "settings.countdownOff": "Notrufe warten, bis du ja sagst, bevor gewählt wird.",
+    "settings.resetDone": "Spracheinstellungen zurückgesetzt. Sprechgeschwindigkeit, Lautstärke, Ausführlichkeit und Aktivierungswort sind wieder wie am Anfang.",
+    "camera.approaching": "{objects} kommt näher. Es wird im Kamerabild größer.",
+    "camera.hazardWarning": "Vorsicht: {objects}. Es könnte dir im Weg sein.",
+  },
+
+  commands: {
+    "mode.camera": ["Kamera", "Kameramodus", "Kamera öffnen"],
+    "mode.navigation": ["Navigation", "Navigationsmodus", "navigieren", "gehen"],
+    "navigation.destination": ["navigiere zu {place:place}", "bring mich zu {place:place}", "Weg zu {place:place}"],
+    "mode.emergency": ["Notfall", "Notfallmodus", "ich brauche Hilfe", "Hilfe Notfall"],
+    "mode.settings": ["Einstellungen", "Einstellungen öffnen"],
+    "contact.call": ["{contact:contact} anrufen", "ruf {contact:contact} an", "anrufen {contact:contact}"],
+    "language.set": ["Sprache auf {language:language}", "Sprache {language:language}", "sprich {language:language}"],
+    "status": ["Status", "aktueller Modus", "welcher Modus"],
+    "help": ["Hilfe", "Befehle", "was kann ich sagen"],
+    "listening.stop": ["hör auf zuzuhören", "stopp", "sei still"],
+    "speech.repeat": ["was hast du gesagt", "wiederhole das", "letzte Nachricht wiederholen", "wiederholen", "noch einmal"],
+    "speech.history": ["letzte Nachrichten", "was hast du vorher gesagt"],
+    "verbosity.terse": ["fass dich kurz", "kurze Meldungen", "weniger Details"],
+    "verbosity.normal": ["normale Details", "normale Meldungen"],
+    "verbosity.detailed": ["mehr Details", "ausführliche Meldungen"],
+    "camera.start": ["Kamera starten", "Kamera einschalten"],
+    "camera.stop": ["Kamera stoppen", "Kamera ausschalten", "Kamera schließen"],
+    "camera.analyze": ["analysieren", "Objekte erkennen", "scannen"],
+    "camera.describe": ["was siehst du", "was kannst du sehen", "beschreibe [die] Szene"],
+    "camera.repeat": ["Beschreibung wiederholen", "wiederholen", "noch einmal"],
+    "camera.distance": ["wie weit [ist] [es]", "wie weit weg", "Entfernung"],
+    "camera.find": ["finde [mein] [meine] {object:object}", "wo [ist] [mein] [meine] {object:object}", "suche [mein] [meine] {object:object}", "finde [mein] [meine] {item:text}", "wo [ist] [sind] [mein] [meine] {item:text}", "suche [mein] [meine] {item:text}"],
+    "camera.stopSearch": ["Suche beenden", "hör auf zu suchen", "gefunden"],
+    "navigation.start": ["Navigation starten", "Führung starten"],
+    "navigation.stop": ["Navigation beenden", "Navigation stoppen", "Navigation abbrechen"],
+    "navigation.next": ["nächster Schritt", "weiter", "nächster"],
+    "navigation.previous": ["vorheriger Schritt", "zurück", "vorheriger"],
+    "navigation.repeat": ["wiederholen", "Schritt wiederholen", "noch einmal"],
+    "navigation.location": ["wo bin ich", "aktueller Standort", "mein Standort"],
+    "emergency.share-location": ["[meinen] Standort teilen", "[meinen] Standort senden"],
+    "emergency.send-help": ["Hilferuf senden", "Hilfe senden", "Notruf Nachricht senden"],
+    "emergency.repeat-location": ["Standort wiederholen", "letzter Standort"],
+    "settings.rate.set": ["Geschwindigkeit auf {rate:number}", "Sprechgeschwindigkeit {rate:number}"],
+    "settings.rate.increase": ["schneller sprechen", "schneller"],
+    "settings.rate.decrease": ["langsamer sprechen", "langsamer"],
+    "settings.volume.set": ["Lautstärke auf {volume:number}", "Lautstärke {volume:number}"],
+    "settings.volume.increase": ["lauter", "Lautstärke erhöhen"],
+    "settings.volume.decrease": ["leiser", "Lautstärke verringern"],
+    "settings.test": ["Stimme testen", "Einstellungen testen"],
+    "settings.erase": ["[alle] Daten löschen"],
+    "settings.reset": ["Einstellungen zurücksetzen", "Standardwerte"],
+  },
+  commandExamples: {
+    "camera.find": "finde meine Tasse",
+    "navigation.destination": "bring mich zur Bushaltestelle",
+    "contact.call": "Familie anrufen",
+    "language.set": "Sprache auf Englisch",
+    "settings.rate.set": "Geschwindigkeit auf eins Komma zwei",
+    "settings.volume.set": "Lautstärke auf achtzig",
+    "settings.erase": "alle Daten löschen",
+  },
+  contactNames: {
+    "911": ["Notruf", "Polizei", "Krankenwagen", "Rettungsdienst", "Feuerwehr"],
+    family: ["Familie", "zu Hause"],
+    friend: ["Freund", "Freundin"],
+  },
+  languageNames: {
+    "en-US": ["Englisch"],
+    "hi-IN": ["Hindi"],
+    "es-ES": ["Spanisch"],
+    "fr-FR": ["Französisch"],
+    "de-DE": ["Deutsch"],
+  },
+  wakeVariants: {
+    "hey wischen": "hey vision",
+    "vision gaid": "vision guide",
+  },
+  yesWords: ["ja", "jawohl", "genau", "okay", "bestätigen", "bestätigt", "los", "mach"],
+  noWords: ["nein", "nee", "abbrechen", "stopp", "warte", "nicht"],
+  numbers: {
+    words: {
+      null: 0, eins: 1, ein: 1, eine: 1, zwei: 2, drei: 3, vier: 4, fünf: 5, sechs: 6, sieben: 7,
+      acht: 8, neun: 9, zehn: 10, zwanzig: 20, dreißig: 30, vierzig: 40, fünfzig: 50,
+      sechzig: 60, siebzig: 70, achtzig: 80, neunzig: 90,
+    },
+    hundred: ["hundert"],
+    point: ["komma"],
+  },
+  objectLabels: {
+    person: ["Person", "Personen"],
+    bicycle: ["Fahrrad", "Fahrräder"],
+    car: ["Auto", "Autos"],
+    motorcycle: ["Motorrad", "Motorräder"],
+    bus: ["Bus", "Busse"],
+    truck: ["Lastwagen", "Lastwagen"],
+    "traffic light": ["Ampel", "Ampeln"],
+    "stop sign": ["Stoppschild", "Stoppschilder"],
+    bench: ["Bank", "Bänke"],
+    dog: ["Hund", "Hunde"],
+    cat: ["Katze", "Katzen"],
+    backpack: ["Rucksack", "Rucksäcke"],
+    umbrella: ["Regenschirm", "Regenschirme"],
+    bottle: ["Flasche", "Flaschen"],
+    cup: ["Tasse", "Tassen"],
+    chair: ["Stuhl", "Stühle"],
+    couch: ["Sofa", "Sofas"],
+    bed: ["Bett", "Betten"],
+    "dining table": ["Tisch", "Tische"],
+    tv: ["Fernseher", "Fernseher"],
+    laptop: ["Laptop", "Laptops"],
+    "cell phone": ["Handy", "Handys"],
+    book: ["Buch", "Bücher"],
+    clock: ["Uhr", "Uhren"],
+  },
+};
+
+export default de;
@@ -0,0 +1,525 @@
+/**
+ * English language pack. Every other pack falls back to these messages and
+ * command phrases for anything it does not translate.
+ */
+
+import type { LocalePack, MessageCatalog } from "@/utils/i18n";
+
+export const messages = {
+  // App shell
+  "common.and": "and",
+  "common.or": "or",
+  "format.plus": "plus",
+  "format.degrees": "{value} degrees {direction}",
+  "format.north": "north",
+  "format.south": "south",
+  "format.east": "east",
+  "format.west": "west",
+  "direction.clock": "at {hour} o'clock",
+  "direction.ahead": "straight ahead",
+  "direction.degreesLeft": "{degrees} degrees left",
+  "direction.degreesRight": "{degrees} degrees right",
+  "direction.left": "on the left",
+  "direction.center": "in the center",
+  "direction.right": "on the right",
+  "direction.withCardinal": "{direction}, to the {cardinal}",
+  "direction.cardinal.north": "north",
+  "direction.cardinal.northeast": "northeast",
+  "direction.cardinal.east": "east",
+  "direction.cardinal.southeast": "southeast",
+  "direction.cardinal.south": "south",
+  "direction.cardinal.southwest": "southwest",
+  "direction.cardinal.west": "west",
+  "direction.cardinal.northwest": "northwest",
+  "app.welcome": "Welcome to Vision Guide",
+  "app.sos": "Emergency button pressed. SOS initiated.",
+  "language.supportsBoth": "{language} supports both voice and text recognition.",
+  "language.supportsTts": "{language} supports voice only.",
+  "language.supportsOcr": "{language} supports text recognition only.",
+  "language.supportsNone": "{language} has no speech or text support.",
+  "language.offlineVoice": "{language} has no system voice, so it is spoken with the offline voice. Text recognition is supported.",
+  "language.englishCommands": "Voice commands are not translated for this language yet. Please use English commands.",
+
+  // Modes
+  "mode.name.camera": "camera",
+  "mode.name.navigation": "navigation",
+  "mode.name.emergency": "emergency",
+  "mode.name.settings": "settings",
+
+  // Voice commands
+  "voice.started": "Voice recognition started. Speak clearly.",
+  "voice.stopped": "Voice recognition stopped",
+  "voice.didYouMean": "Did you mean {options}?",
+  "voice.notRecognized": "Command not recognized. Say help to hear the commands you can use.",
+  "voice.offlineStarted": "Offline listening started. Speak naturally and pause after each command.",
+  "voice.offlineStopped": "Offline listening stopped",
+  "voice.offlineFallback": "Connection lost. Switching to offline listening.",
+  "speech.nothingToRepeat": "I haven't said anything yet.",
+  "transcript.copied": "Last message copied",
+  "transcript.copyFailed": "Could not copy. The browser did not allow clipboard access.",
+  "transcript.nothingToCopy": "There is nothing to copy yet",
+  "transcript.focusCopy": "Copy the last caption to the clipboard",
+  "transcript.focusFilter": "Show {name}",
+  "transcript.filter.all": "Everything",
+  "transcript.filter.app": "Spoken by app",
+  "transcript.filter.commands": "My commands",
+  "transcript.filter.heard": "Everything heard",
+  "transcript.outcome.command": "command",
+  "transcript.outcome.reply": "answer",
+  "transcript.outcome.not-understood": "not understood",
+  "transcript.outcome.ignored": "ignored",
+  "transcript.fromApp": "Vision Guide: {text}",
+  "transcript.fromUser": "You ({outcome}): {text}",
+  "speech.history": "Recently I said: {messages}",
+  "command.cameraActivated": "Camera activated for object detection",
+  "command.navigationActivated": "Navigation mode activated",
+  "command.navigatingTo": "Starting navigation to {place}",
+  "command.emergencyOpened": "Emergency panel opened",
+  "command.settingsOpened": "Settings panel opened",
+  "command.status": "Current mode is {mode}. Voice recognition is active.",
+  "help.modeCommands": "In {mode} mode you can say: {modeCommands}. Anywhere you can say: {globalCommands}.",
+  "help.globalCommands": "You can say: {globalCommands}.",
+
+  // Command cards
+  "commandCard.mode.camera": "Activate object detection",
+  "commandCard.mode.navigation": "Start navigation mode",
+  "commandCard.navigation.destination": "Start guidance to a place",
+  "commandCard.mode.emergency": "Open emergency panel",
+  "commandCard.mode.settings": "Open settings panel",
+  "commandCard.contact.call": "Call an emergency contact",
+  "commandCard.language.set": "Change the speech language",
+  "commandCard.status": "Check current mode",
+  "commandCard.help": "List available commands",
+  "commandCard.listening.stop": "Turn off voice recognition",
+  "commandCard.speech.repeat": "Repeat the last thing I said",
+  "commandCard.speech.history": "Hear the last few things I said",
+  "commandCard.verbosity.terse": "Keep spoken messages short",
+  "commandCard.verbosity.normal": "Use the standard amount of detail",
+  "commandCard.verbosity.detailed": "Explain more in spoken messages",
+  "commandCard.camera.start": "Begin object detection",
+  "commandCard.camera.stop": "End camera session",
+  "commandCard.camera.analyze": "Get current detections",
+  "commandCard.camera.describe": "Describe the scene in detail",
+  "commandCard.camera.repeat": "Hear the last description again",
+  "commandCard.camera.distance": "Hear how far away the nearest objects are",
+  "commandCard.camera.find": "Get guided to an object, such as a cup",
+  "commandCard.camera.stopSearch": "End the object search",
+  "commandCard.navigation.start": "Begin walking guidance",
+  "commandCard.navigation.stop": "End walking guidance",
+  "commandCard.navigation.next": "Go to the next instruction",
+  "commandCard.navigation.previous": "Go back to the previous instruction",
+  "commandCard.navigation.repeat": "Repeat the current instruction",
+  "commandCard.navigation.location": "Get your current location",
+  "commandCard.emergency.share-location": "Send GPS coordinates to contacts",
+  "commandCard.emergency.send-help": "Send a distress message",
+  "commandCard.emergency.repeat-location": "Hear the last GPS reading",
+  "commandCard.settings.rate.set": "Set an exact speech rate",
+  "commandCard.settings.rate.increase": "Increase speech rate",
+  "commandCard.settings.rate.decrease": "Decrease speech rate",
+  "commandCard.settings.volume.set": "Set an exact volume",
+  "commandCard.settings.volume.increase": "Increase volume",
+  "commandCard.settings.volume.decrease": "Decrease volume",
+  "commandCard.settings.test": "Test current settings",
+  "commandCard.settings.erase": "Erase logs and reset all settings",
+  "commandCard.settings.reset": "Restore defaults",
+
+  // Confirmation
+  "confirm.prompt": "{message} Say yes to confirm or no to cancel.",
+  "confirm.countdownPrompt": "{message} Proceeding automatically in {seconds} seconds. Say no to cancel, or yes to proceed now.",
+  "confirm.cancelled": "Cancelled.",
+  "confirm.sayYesOrNo": "Please say yes or no.",
+  "confirm.noAnswer": "No answer received. Action cancelled.",
+
+  // Camera
+  "camera.activatedLoading": "Camera activated. Loading YOLO object detection model...",
+  "camera.accessDenied": "Unable to access camera. Please check permissions.",
+  "camera.stopped": "Camera stopped.",
+  "camera.notOpen": "Camera mode is not open. Say camera to start object detection first.",
+  "camera.alreadyOff": "The camera is already off.",
+  "camera.isOff": "The camera is off. Say start camera first.",
+  "camera.modelLoading": "The detection model is still loading. Please wait a moment.",
+  "camera.assetModel": "detection model",
+  "camera.assetRuntime": "detection runtime",
+  "camera.downloadStarted": "Downloading the {name} for offline use",
+  "camera.downloadProgress": "{name} {percent} percent downloaded",
+  "camera.downloadDone": "Object detection is ready and will now work offline",
+  "camera.loadError.offline": "Object detection is not available offline yet. Connect to the internet once so the model can be downloaded.",
+  "camera.loadError.integrity": "The detection model failed its safety check and was not used. Please try again later.",
+  "camera.loadError.http": "The detection model could not be downloaded from the server.",
+  "camera.loadError.failed": "The detection model could not be started on this device.",
+  "camera.noDescription": "I have not described anything yet.",
+  "camera.analyzing": "Analyzing. {description}",
+  "camera.nothingDetected": "No objects detected at the moment.",
+  "camera.noObjects": "I do not see any objects right now. Try pointing the camera in another direction.",
+  "camera.seeing": "I can see {objects}.",
+  "camera.appeared": "New: {objects}.",
+  "camera.disappeared": "No longer in view: {objects}.",
+  "camera.approaching": "{objects} getting closer.",
+  "camera.hazardImminent": "Stop! {objects}.",
+  "camera.hazardWarning": "Careful: {objects}.",
+  "camera.objectAt": "{object} {position}",
+  "camera.distanceAbout": "about {distance}",
+  "camera.distanceWithin": "within {distance}",
+  "camera.distanceUnknown": "I cannot judge the distance to these objects.",
+  "camera.searchStarted": "Looking for the {object}. Turn slowly; the beeps speed up as you get closer.",
+  "camera.unknownObject": "I can't look for {object}. I can find everyday things like a cup, a bottle, a chair or a phone.",
+  "camera.searchSpotted": "Found the {object}. {hint}",
+  "camera.searchHint.left": "Move left.",
+  "camera.searchHint.right": "Move right.",
+  "camera.searchHint.up": "Move up.",
+  "camera.searchHint.down": "Move down.",
+  "camera.searchHint.closer": "Straight ahead. Move closer.",
+  "camera.searchHint.inFront": "The {object} is right in front of the camera.",
+  "camera.searchLost": "Lost the {object}. Turn slowly to find it again.",
+  "camera.searchStopped": "Stopped looking for the {object}.",
+  "camera.notSearching": "Not searching for anything.",
+  "camera.focusStopSearch": "Stop searching",
+  "camera.calibrated": "Camera calibrated. Field of view {degrees} degrees.",
+  "camera.calibrationFailed": "That measurement does not look right. Check the height and distance, and make sure the whole object is in view.",
+  "camera.calibrationNoReference": "Choose an object in view to measure against first.",
+  "camera.calibrationReset": "Using a typical phone camera for distances.",
+  "camera.focusCalibrationReference": "Reference object for calibration",
+  "camera.focusCalibrationHeight": "Height of the reference object in centimeters",
+  "camera.focusCalibrationDistance": "Distance to the reference object in meters",
+  "camera.focusCalibrate": "Calibrate distances",
+  "camera.focusCalibrationReset": "Use a typical camera instead of the calibration",
+  "camera.focusStart": "Start camera",
+  "camera.focusStop": "Stop camera",
+
+  // Navigation
+  "navigation.step1": "Welcome to navigation mode. I will guide you step by step.",
+  "navigation.step2": "Face forward and take 5 steps straight ahead.",
+  "navigation.step3": "Good! Now turn slightly right and continue for 10 steps.",
+  "navigation.step4": "Excellent progress. Walk straight for 8 more steps.",
+  "navigation.step5": "Turn left at the intersection and walk 12 steps forward.",
+  "navigation.step6": "You're doing great! Continue straight for 6 steps.",
+  "navigation.step7": "Turn right and walk 4 steps to reach your destination.",
+  "navigation.step8": "Congratulations! You have reached your destination safely.",
+  "navigation.destination": "Your destination is {destination}.",
+  "navigation.stopped": "Navigation stopped. You can restart anytime by saying Hey Vision Start Navigation.",
+  "navigation.complete": "Navigation complete! You have reached your destination.",
+  "navigation.goingBack": "Going back one step. {step}",
+  "navigation.firstStep": "This is the first step. {step}",
+  "navigation.repeating": "Repeating step {number}. {step}",
+  "navigation.notStarted": "Navigation has not started yet. Say start navigation to begin.",
+  "navigation.notOpen": "Navigation mode is not open. Say navigate to start walking guidance first.",
+  "navigation.gettingLocation": "Getting your current location...",
+  "navigation.coordinates": "Your current coordinates are {position}",
+  "navigation.locationError": "Unable to get your location. Please check location permissions.",
+  "navigation.locationUnavailable": "Location services are not available on this device.",
+  "navigation.focusStart": "Start navigation",
+  "navigation.focusStop": "Stop navigation",
+  "navigation.focusLocation": "Get current location",
+
+  // Emergency
+  "emergency.notOpen": "The emergency panel is not open. Say emergency to open it first.",
+  "emergency.callConfirm": "Call {name}?",
+  "emergency.calling": "Calling {name}",
+  "emergency.announce": "{action}. {details}. This action will help emergency responders or your contacts locate and assist you.",
+  "emergency.contact.911.name": "Emergency Services",
+  "emergency.contact.911.description": "Police, Fire, Medical Emergency - Call immediately for life-threatening situations",
+  "emergency.contact.911.focus": "Emergency Services - {number}. Press Enter to call immediately for police, fire, or medical emergencies.",
+  "emergency.contact.family.name": "Family Contact",
+  "emergency.contact.family.description": "Primary family emergency contact - Your trusted family member",
+  "emergency.contact.family.focus": "Family Contact. Press Enter to call your primary family emergency contact at {number}.",
+  "emergency.contact.friend.name": "Trusted Friend",
+  "emergency.contact.friend.description": "Friend who can provide assistance - Your emergency support person",
+  "emergency.contact.friend.focus": "Trusted Friend. Press Enter to call your emergency support friend at {number}.",
+  "emergency.action.location.name": "Share My Location",
+  "emergency.action.location.focus": "Share Location. Press Enter to send your current GPS coordinates to emergency contacts via text message.",
+  "emergency.action.text.name": "Send Help Message",
+  "emergency.action.text.focus": "Send Help Message. Press Enter to send an automated distress message to your emergency contacts.",
+  "emergency.locationNotSupported": "Location sharing is not supported on this device. Please try using a different device or browser that supports GPS location services.",
+  "emergency.sharingLocation": "Sharing Location",
+  "emergency.gettingPosition": "Getting your current GPS position",
+  "emergency.locationAcquired": "Location acquired successfully. {position}",
+  "emergency.shareLocationConfirm": "Send your location to your emergency contacts?",
+  "emergency.openingSmsWithLocation": "{location}. Opening your text messaging app now. Your location with emergency message is ready to send to your contacts. Please review and press send.",
+  "emergency.permissionDenied": "Location permission was denied. Please go to your browser settings, allow location access for this website, then refresh and try again.",
+  "emergency.positionUnavailable": "Your location could not be determined. Please move to an area with better GPS signal, such as near a window or outdoors, then try again.",
+  "emergency.locationTimeout": "Location request timed out after 10 seconds. Please ensure you have a stable internet connection and try again.",
+  "emergency.locationUnknownError": "An unexpected error occurred while getting your location. Please try again in a moment, or contact emergency services directly if this is urgent.",
+  "emergency.locationSharingFailed": "An unexpected error occurred during location sharing. Please try contacting emergency services directly if this is urgent.",
+  "emergency.noContacts": "No emergency contacts are set up in your system. Please add emergency contact numbers to use this feature, or call emergency services directly.",
+  "emergency.sendHelpConfirm": "Send a help message to your emergency contacts?",
+  "emergency.sendHelpDetail": "Your text messaging app will open with a pre-written distress message.",
+  "emergency.sendingHelp": "Sending Help Message",
+  "emergency.preparingMessage": "Preparing emergency text message for your contacts",
+  "emergency.openingSmsWithHelp": "Opening your text messaging app with a pre-written emergency message. The message explains you need assistance and asks contacts to reach out immediately. Please review the message and press send.",
+  "emergency.smsError": "Could not open your text messaging app. Please manually send a message to your emergency contacts, or call them directly if this is urgent.",
+  "emergency.callAnnouncement": "Initiating call to {name} at {number}. {description}",
+  "emergency.911Instructions": "Emergency services call initiated. When connected, stay calm, speak clearly, and provide your location and the nature of your emergency. Do not hang up unless instructed.",
+  "emergency.cancelled": "Emergency mode has been cancelled. You are now in normal mode. All emergency features remain available if needed.",
+  "emergency.lastLocation": "Last location update at {time}: {location}. This was your most recently acquired GPS position.",
+  "emergency.noLocation": "No location has been acquired yet. Use the Share Location button to get your current GPS coordinates.",
+  "emergency.focusCancel": "Cancel Emergency Mode. Press Enter to return to normal operation.",
+  "emergency.focusRepeat": "Repeat Last Location. Press Enter to hear your most recent GPS coordinates.",
+
+  // Settings
+  "settings.rateSet": "Speech rate set to {percent} percent",
+  "settings.volumeSet": "Volume set to {percent} percent",
+  "settings.pitchAdjusted": "Speech pitch adjusted",
+  "settings.wakeWordOn": "Wake word required. Start each command with Hey Vision.",
+  "settings.wakeWordOff": "Wake word turned off. All speech will be treated as commands.",
+  "settings.commandWindow": "Command window set to {seconds} seconds",
+  "settings.countdownOn": "Emergency calls will proceed after {seconds} seconds unless cancelled",
+  "settings.countdownOff": "Emergency calls will wait for you to say yes",
+  "settings.testMessage": "This is a test of your voice settings. You can adjust the speech rate, pitch, and volume to your preference.",
+  "settings.resetDone": "Voice settings reset to default values",
+  "settings.eraseConfirm": "Erase all app data?",
+  "settings.eraseDetail": "This deletes activity logs and restores every setting to its default.",
+  "settings.eraseDone": "All app data erased. Settings restored to defaults.",
+  "settings.focusSlower": "Decrease speech rate",
+  "settings.focusFaster": "Increase speech rate",
+  "settings.focusQuieter": "Decrease volume",
+  "settings.focusLouder": "Increase volume",
+  "settings.focusTest": "Test voice settings",
+  "settings.focusReset": "Reset to default settings",
+  "settings.focusWakeWord": "Require wake word before commands",
+  "settings.focusEmergencyAutoCall": "Call emergency services automatically after a countdown",
+  "settings.focusErase": "Erase all app data",
+  "settings.recognizerSet": "Speech recognition set to {name}",
+  "settings.whisperModelSet": "Offline speech model set to {name}",
+  "settings.whisperModelAuto": "Offline speech model chosen automatically",
+  "settings.focusRecognizer": "Choose speech recognizer",
+  "settings.verbosity.terse": "Brief messages.",
+  "settings.verbosity.normal": "Normal messages from now on.",
+  "settings.verbosity.detailed": "Detailed messages from now on. I will explain more about what is happening and what you can say next.",
+  "settings.focusVerbosity": "Choose how much detail spoken messages have",
+  "settings.earconsOn": "Object sounds on. Each object is heard from the direction it is in.",
+  "settings.earconsOff": "Object sounds muted. Speech is not affected.",
+  "settings.focusEarcons": "Play sounds for detected objects",
+  "settings.focusEarconPreview": "Preview object sounds",
+  "settings.hapticsOn": "Vibration on.",
+  "settings.hapticsOff": "Vibration off.",
+  "settings.hapticsUnsupported": "This device cannot vibrate.",
+  "settings.hapticPatternSaved": "{name} pattern saved",
+  "settings.hapticPatternReset": "{name} pattern reset to default",
+  "settings.hapticPatternInvalid": "That pattern is not valid. Use vibration and pause lengths in milliseconds, separated by commas.",
+  "settings.focusHaptics": "Vibrate for alerts, turns and commands",
+  "settings.focusHapticPreview": "Preview the {name} vibration",
+  "settings.voiceSet": "Voice set to {name}",
+  "settings.voiceDefault": "Using the browser's default voice",
+  "settings.voicePreview": "This is how I will sound. Camera activated. Turn left at the intersection.",
+  "settings.focusVoice": "Choose the voice for this language",
+  "settings.focusVoicePreview": "Preview voice",
+  "settings.offlineVoice.fallback": "The offline voice will speak languages without a system voice",
+  "settings.offlineVoice.always": "The offline voice will speak every message",
+  "settings.offlineVoice.off": "Offline voice turned off",
+  "settings.offlineVoiceDownloading": "Downloading the {name} offline voice, about {size} megabytes",
+  "settings.offlineVoiceReady": "The {name} offline voice is ready and works without a connection",
+  "settings.offlineVoiceFailed": "The {name} offline voice could not be downloaded. Check your connection and try again.",
+  "settings.offlineVoiceRemoved": "The {name} offline voice was removed from this device",
+  "settings.focusOfflineVoice": "Choose when to use the offline voice",
+  "settings.focusOfflineVoiceDownload": "Download the {name} offline voice",
+  "settings.units.auto": "Distances in the usual units for your language",
+  "settings.units.metric": "Distances in meters and kilometers",
+  "settings.units.imperial": "Distances in feet and miles",
+  "settings.lexiconAdded": "Pronunciation saved. It now sounds like this: {written}",
+  "settings.lexiconRemoved": "Pronunciation removed",
+  "settings.lexiconIncomplete": "Enter both the word as written and how it should be said",
+  "settings.focusUnits": "Choose the units for spoken distances",
+  "settings.directionStyle.clock": "Directions as clock positions",
+  "settings.directionStyle.degrees": "Directions in degrees",
+  "settings.directionStyle.sides": "Directions as left, center or right",
+  "settings.focusDirectionStyle": "Choose how the camera says where objects are",
+  "settings.focusLexiconWritten": "Word or name as written",
+  "settings.focusLexiconSpoken": "How it should be said",
+  "settings.focusLexiconTest": "Hear how {spoken} sounds",
+  "haptic.hazardAhead": "hazard ahead",
+  "haptic.turnLeft": "turn left",
+  "haptic.turnRight": "turn right",
+  "haptic.arrived": "arrived",
+  "haptic.commandRecognized": "command recognized",
+  "haptic.commandNotUnderstood": "command not understood",
+  "haptic.emergencyArmed": "emergency armed",
+  "recognizer.webspeech": "browser speech recognition",
+  "recognizer.whisper": "offline Whisper",
+  "recognizer.scripted": "scripted demo",
+
+  // Simulation and OCR
+  "demo.detected": "{name} detected. {description}",
+  "demo.stairs.name": "Stairs Ahead",
+  "demo.stairs.description": "Simulates stairs detected",
+  "demo.door.name": "Doorway",
+  "demo.door.description": "Simulates a doorway",
+  "demo.pole.name": "Pole Ahead",
+  "demo.pole.description": "Simulates obstacle pole",
+  "demo.path.name": "Clear Path",
+  "demo.path.description": "Simulates walkable path",
+  "ocr.textFound": "Text found: {text}",
+  "ocr.failed": "Sorry, I could not read the text. Please try again.",
+};
+
+// Only what matters, for users who know the app and want it out of the way
+const terse: MessageCatalog = {
+
+  "voice.started": "Listening.",
+  "voice.stopped": "Stopped listening.",
+  "voice.didYouMean": "{options}?",
+  "voice.notRecognized": "Not recognized.",
+  "voice.offlineStarted": "Listening offline.",
+  "voice.offlineStopped": "Stopped listening.",
+  "voice.offlineFallback": "Offline. Listening offline.",
+
+  "camera.activatedLoading": "Camera on. Loading.",
+  "camera.accessDenied": "No camera access.",
+  "camera.stopped": "Camera off.",
+  "camera.notOpen": "Camera mode not open.",
+  "camera.alreadyOff": "Camera already off.",
+  "camera.isOff": "Camera off.",
+  "camera.modelLoading": "Still loading.",
+  "camera.noDescription": "Nothing yet.",
+  "camera.analyzing": "{description}",
+  "camera.nothingDetected": "Nothing detected.",
+  "camera.noObjects": "Nothing in view.",
+  "camera.seeing": "{objects}.",
+
+  "navigation.step1": "Navigation started.",
+  "navigation.step2": "Straight, 5 steps.",
+  "navigation.step3": "Slight right, 10 steps.",
+  "navigation.step4": "Straight, 8 steps.",
+  "navigation.step5": "Left at the intersection, 12 steps.",
+  "navigation.step6": "Straight, 6 steps.",
+  "navigation.step7": "Right, 4 steps.",
+  "navigation.step8": "Arrived.",
+  "navigation.destination": "To {destination}.",
+  "navigation.stopped": "Navigation stopped.",
+  "navigation.complete": "Arrived.",
+  "navigation.goingBack": "Back. {step}",
+  "navigation.firstStep": "First step. {step}",
+  "navigation.repeating": "Step {number}. {step}",
+  "navigation.notStarted": "Navigation not started.",
+  "navigation.gettingLocation": "Locating.",
+  "navigation.coordinates": "{position}",
+  "navigation.locationError": "No location. Check permissions.",
+  "navigation.locationUnavailable": "No location services.",
+
+  "emergency.announce": "{action}.",
+  "emergency.contact.911.focus": "Emergency Services, {number}.",
+  "emergency.contact.family.focus": "Family Contact.",
+  "emergency.contact.friend.focus": "Trusted Friend.",
+  "emergency.action.location.focus": "Share Location.",
+  "emergency.action.text.focus": "Send Help Message.",
+  "emergency.locationNotSupported": "No location on this device.",
+  "emergency.locationAcquired": "{position}",
+  "emergency.openingSmsWithLocation": "{location}. Opening messages. Press send.",
+  "emergency.permissionDenied": "Location permission denied.",
+  "emergency.positionUnavailable": "No GPS signal. Try near a window.",
+  "emergency.locationTimeout": "Location timed out. Try again.",
+  "emergency.locationUnknownError": "Location failed. Try again.",
+  "emergency.locationSharingFailed": "Location sharing failed.",
+  "emergency.noContacts": "No emergency contacts set up.",
+  "emergency.openingSmsWithHelp": "Opening help message. Press send.",
+  "emergency.smsError": "Could not open messages. Call your contacts.",
+  "emergency.callAnnouncement": "Calling {name}.",
+  "emergency.911Instructions": "Stay calm. Give your location and emergency.",
+  "emergency.cancelled": "Emergency mode off.",
+  "emergency.lastLocation": "{time}: {location}",
+  "emergency.noLocation": "No location yet.",
+  "emergency.focusCancel": "Cancel emergency mode.",
+  "emergency.focusRepeat": "Repeat last location.",
+
+  "settings.rateSet": "Rate {percent}.",
+  "settings.volumeSet": "Volume {percent}.",
+  "settings.pitchAdjusted": "Pitch set.",
+  "settings.wakeWordOn": "Wake word on.",
+  "settings.wakeWordOff": "Wake word off.",
+  "settings.commandWindow": "{seconds} seconds.",
+  "settings.countdownOn": "Countdown {seconds} seconds.",
+  "settings.countdownOff": "Countdown off.",
+  "settings.testMessage": "Voice test.",
+  "settings.resetDone": "Settings reset.",
+  "settings.recognizerSet": "{name}.",
+  "settings.whisperModelSet": "{name}.",
+  "settings.whisperModelAuto": "Automatic model.",
+  "settings.earconsOn": "Sounds on.",
+  "settings.earconsOff": "Sounds muted.",
+  "settings.hapticPatternSaved": "Saved.",
+  "settings.hapticPatternReset": "Reset.",
+  "settings.hapticPatternInvalid": "Invalid pattern.",
+  "settings.voiceSet": "{name}.",
+  "settings.voiceDefault": "Default voice.",
+  "settings.lexiconAdded": "Saved: {written}",
+  "settings.offlineVoiceDownloading": "Downloading {name} voice",
+  "settings.offlineVoiceReady": "{name} voice ready",
+  "transcript.copied": "Copied",
+  "camera.downloadStarted": "Downloading {name}",
+  "camera.downloadProgress": "{percent} percent",
+  "camera.downloadDone": "Detection ready offline",
+  "camera.appeared": "{objects}.",
+  "camera.disappeared": "{objects} gone.",
+  "camera.approaching": "{objects} closer.",
+};
+
+// Explains what is happening and what the user can say next
+const detailed: MessageCatalog = {
+
+  "voice.started": "Voice recognition started. Speak clearly. Say help at any time to hear the commands you can use.",
+  "voice.stopped": "Voice recognition stopped. Press the microphone button to start listening again.",
+  "voice.notRecognized": "Command not recognized. Say help to hear the commands you can use, or repeat that to hear my last message again.",
+  "voice.offlineStarted": "Offline listening started. Speak naturally and pause after each command. Recognition happens on this device, so it can take a moment.",
+  "voice.offlineFallback": "Connection lost. Switching to offline listening. Recognition now happens on this device and may be a little slower.",
+
+  "camera.activatedLoading": "Camera activated. Loading YOLO object detection model. The first load can take several seconds; I will start describing objects as soon as it is ready.",
+  "camera.accessDenied": "Unable to access camera. Please check permissions. Allow camera access for this website in your browser settings, then say start camera again.",
+  "camera.stopped": "Camera stopped. Say start camera to begin object detection again.",
+  "camera.isOff": "The camera is off. Say start camera first, then ask me again.",
+  "camera.modelLoading": "The detection model is still loading. Please wait a moment; I will start describing objects when it is ready.",
+  "camera.noObjects": "I do not see any objects right now. Try pointing the camera in another direction, slowly turning from left to right.",
+
+  "navigation.step1": "Welcome to navigation mode. I will guide you step by step. Say next when you have finished each instruction, or repeat to hear it again.",
+  "navigation.step2": "Face forward and take 5 steps straight ahead. Keep a steady, comfortable pace.",
+  "navigation.step3": "Good! Now turn slightly right and continue for 10 steps. Turn only a little, about the angle of one o'clock.",
+  "navigation.step4": "Excellent progress. Walk straight for 8 more steps, keeping the same direction.",
+  "navigation.step5": "Turn left at the intersection and walk 12 steps forward. Wait until you are sure the way is clear before crossing.",
+  "navigation.step6": "You're doing great! Continue straight for 6 steps.",
+  "navigation.step7": "Turn right and walk 4 steps to reach your destination. It will be directly in front of you.",
+  "navigation.stopped": "Navigation stopped. You can restart anytime by saying Hey Vision Start Navigation. Your progress has been reset to the first step.",
+  "navigation.notStarted": "Navigation has not started yet. Say start navigation to begin, or navigate to followed by a place to be guided there.",
+  "navigation.coordinates": "Your current coordinates are {position}. Open the emergency panel and say share location to send them to your contacts.",
+  "navigation.locationError": "Unable to get your location. Please check location permissions. Allow location access for this website in your browser settings, then try again.",
+
+  "emergency.announce": "{action}. {details}. This action will help emergency responders or your contacts locate and assist you. Say cancel emergency at any time to return to normal mode.",
+  "emergency.calling": "Calling {name}. Your phone app will open with the number ready.",
+  "emergency.callAnnouncement": "Initiating call to {name} at {number}. {description}. Your phone app will open; stay on the line until someone answers.",
+  "emergency.openingSmsWithLocation": "{location}. Opening your text messaging app now. Your location with emergency message is ready to send to your contacts. Please review and press send. Say repeat location later to hear these coordinates again.",
+  "emergency.noLocation": "No location has been acquired yet. Use the Share Location button to get your current GPS coordinates, or say share location.",
+
+  "settings.rateSet": "Speech rate set to {percent} percent. Say faster or slower to adjust it further.",
+  "settings.volumeSet": "Volume set to {percent} percent. Say louder or quieter to adjust it further.",
+  "settings.wakeWordOn": "Wake word required. Start each command with Hey Vision. Saying only Hey Vision keeps me listening for a command for a few seconds.",
+  "settings.wakeWordOff": "Wake word turned off. All speech will be treated as commands, so background conversation may trigger actions.",
+  "settings.countdownOn": "Emergency calls will proceed after {seconds} seconds unless cancelled. Say no during the countdown to cancel the call.",
+  "settings.countdownOff": "Emergency calls will wait for you to say yes before dialling.",
+  "settings.resetDone": "Voice settings reset to default values. Speech rate, volume, verbosity and wake word settings are back to how they started.",
+  "camera.approaching": "{objects} getting closer. It is growing larger in the camera view.",
+  "camera.hazardWarning": "Careful: {objects}. It may be in your way.",
+};
+
+const PLURALS: { [label: string]: string } = {
+  person: "people",
+  bus: "buses",
+  bench: "benches",
+  couch: "couches",
+  sandwich: "sandwiches",
+  "wine glass": "wine glasses",
+  knife: "knives",
+  mouse: "mice",
+  sheep: "sheep",
+  skis: "skis",
+  scissors: "scissors",
+  toothbrush: "toothbrushes",
+};
+
+const en: LocalePack = {
+  messages,
+  terse,
+  detailed,
+  commands: {},
+  yesWords: ["yes", "yeah", "yep", "yup", "confirm", "confirmed", "proceed", "sure", "okay", "ok", "affirmative", "go ahead", "do it"],
+  noWords: ["no", "nope", "cancel", "stop", "abort", "don't", "dont", "negative", "wait"],
+  countObjects: (label, count) => (count === 1 ? `a ${label}` : `${count} ${PLURALS[label] ?? `${label}s`}`),
+};
+
+export default en;
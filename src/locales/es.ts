@@ -0,0 +1,517 @@
+/**
+ * Spanish language pack.
+ */
+
+import type { LocalePack } from "@/utils/i18n";
+
+const es: LocalePack = {
+  messages: {
+    "common.and": "y",
+    "common.or": "o",
+    "format.plus": "más",
+    "format.degrees": "{value} grados {direction}",
+    "format.north": "norte",
+    "format.south": "sur",
+    "format.east": "este",
+    "format.west": "oeste",
+    "direction.clock": "a las {hour}",
+    "direction.ahead": "justo delante",
+    "direction.degreesLeft": "{degrees} grados a la izquierda",
+    "direction.degreesRight": "{degrees} grados a la derecha",
+    "direction.left": "a la izquierda",
+    "direction.center": "en el centro",
+    "direction.right": "a la derecha",
+    "direction.withCardinal": "{direction}, hacia el {cardinal}",
+    "direction.cardinal.north": "norte",
+    "direction.cardinal.northeast": "noreste",
+    "direction.cardinal.east": "este",
+    "direction.cardinal.southeast": "sureste",
+    "direction.cardinal.south": "sur",
+    "direction.cardinal.southwest": "suroeste",
+    "direction.cardinal.west": "oeste",
+    "direction.cardinal.northwest": "noroeste",
+    "app.welcome": "Bienvenido a Vision Guide",
+    "app.sos": "Botón de emergencia pulsado. SOS iniciado.",
+    "language.supportsBoth": "{language} admite voz y reconocimiento de texto.",
+    "language.supportsTts": "{language} solo admite voz.",
+    "language.supportsOcr": "{language} solo admite reconocimiento de texto.",
+    "language.supportsNone": "{language} no admite voz ni texto.",
+    "language.offlineVoice": "{language} no tiene voz del sistema, así que se usa la voz sin conexión. El reconocimiento de texto está disponible.",
+    "language.englishCommands": "Los comandos de voz aún no están traducidos a este idioma. Usa los comandos en inglés.",
+
+    "mode.name.camera": "cámara",
+    "mode.name.navigation": "navegación",
+    "mode.name.emergency": "emergencia",
+    "mode.name.settings": "ajustes",
+
+    "voice.started": "Reconocimiento de voz iniciado. Habla con claridad.",
+    "voice.stopped": "Reconocimiento de voz detenido",
+    "voice.didYouMean": "¿Quisiste decir {options}?",
+    "voice.notRecognized": "Comando no reconocido. Di ayuda para escuchar los comandos disponibles.",
+    "voice.offlineStarted": "Escucha sin conexión iniciada. Habla con naturalidad y haz una pausa después de cada comando.",
+    "voice.offlineStopped": "Escucha sin conexión detenida",
+    "voice.offlineFallback": "Se perdió la conexión. Cambiando a escucha sin conexión.",
+    "speech.nothingToRepeat": "Todavía no he dicho nada.",
+    "transcript.copied": "Último mensaje copiado",
+    "transcript.copyFailed": "No se pudo copiar. El navegador no permitió el acceso al portapapeles.",
+    "transcript.nothingToCopy": "Todavía no hay nada que copiar",
+    "transcript.focusCopy": "Copiar el último subtítulo al portapapeles",
+    "transcript.focusFilter": "Mostrar {name}",
+    "transcript.filter.all": "Todo",
+    "transcript.filter.app": "Dicho por la app",
+    "transcript.filter.commands": "Mis comandos",
+    "transcript.filter.heard": "Todo lo oído",
+    "transcript.outcome.command": "comando",
+    "transcript.outcome.reply": "respuesta",
+    "transcript.outcome.not-understood": "no entendido",
+    "transcript.outcome.ignored": "ignorado",
+    "transcript.fromApp": "Vision Guide: {text}",
+    "transcript.fromUser": "Tú ({outcome}): {text}",
+    "speech.history": "Hace poco dije: {messages}",
+    "command.cameraActivated": "Cámara activada para detectar objetos",
+    "command.navigationActivated": "Modo navegación activado",
+    "command.navigatingTo": "Iniciando navegación a {place}",
+    "command.emergencyOpened": "Panel de emergencia abierto",
+    "command.settingsOpened": "Panel de ajustes abierto",
+    "command.status": "El modo actual es {mode}. El reconocimiento de voz está activo.",
+    "help.modeCommands": "En modo {mode} puedes decir: {modeCommands}. En cualquier momento puedes decir: {globalCommands}.",
+    "help.globalCommands": "Puedes decir: {globalCommands}.",
+
+    "commandCard.mode.camera": "Activar la detección de objetos",
+    "commandCard.mode.navigation": "Iniciar el modo de navegación",
+    "commandCard.navigation.destination": "Iniciar la guía hacia un lugar",
+    "commandCard.mode.emergency": "Abrir el panel de emergencia",
+    "commandCard.mode.settings": "Abrir el panel de ajustes",
+    "commandCard.contact.call": "Llamar a un contacto de emergencia",
+    "commandCard.language.set": "Cambiar el idioma de voz",
+    "commandCard.status": "Consultar el modo actual",
+    "commandCard.help": "Escuchar los comandos disponibles",
+    "commandCard.listening.stop": "Desactivar el reconocimiento de voz",
+    "commandCard.speech.repeat": "Repetir lo último que dije",
+    "commandCard.speech.history": "Escuchar lo último que he dicho",
+    "commandCard.verbosity.terse": "Mensajes hablados breves",
+    "commandCard.verbosity.normal": "Nivel de detalle estándar",
+    "commandCard.verbosity.detailed": "Explicar más en los mensajes hablados",
+    "commandCard.camera.start": "Empezar la detección de objetos",
+    "commandCard.camera.stop": "Terminar la sesión de cámara",
+    "commandCard.camera.analyze": "Escuchar las detecciones actuales",
+    "commandCard.camera.describe": "Describir la escena en detalle",
+    "commandCard.camera.repeat": "Escuchar otra vez la última descripción",
+    "commandCard.camera.distance": "Saber a qué distancia están los objetos más cercanos",
+    "commandCard.camera.find": "Ir guiado hasta un objeto, como una taza",
+    "commandCard.camera.stopSearch": "Terminar la búsqueda del objeto",
+    "commandCard.navigation.start": "Empezar la guía a pie",
+    "commandCard.navigation.stop": "Terminar la guía a pie",
+    "commandCard.navigation.next": "Pasar a la siguiente instrucción",
+    "commandCard.navigation.previous": "Volver a la instrucción anterior",
+    "commandCard.navigation.repeat": "Repetir la instrucción actual",
+    "commandCard.navigation.location": "Conocer tu ubicación actual",
+    "commandCard.emergency.share-location": "Enviar las coordenadas GPS a los contactos",
+    "commandCard.emergency.send-help": "Enviar un mensaje de auxilio",
+    "commandCard.emergency.repeat-location": "Escuchar la última lectura GPS",
+    "commandCard.settings.rate.set": "Fijar una velocidad de voz exacta",
+    "commandCard.settings.rate.increase": "Aumentar la velocidad de voz",
+    "commandCard.settings.rate.decrease": "Reducir la velocidad de voz",
+    "commandCard.settings.volume.set": "Fijar un volumen exacto",
+    "commandCard.settings.volume.increase": "Subir el volumen",
+    "commandCard.settings.volume.decrease": "Bajar el volumen",
+    "commandCard.settings.test": "Probar los ajustes actuales",
+    "commandCard.settings.erase": "Borrar los registros y restablecer todos los ajustes",
+    "commandCard.settings.reset": "Restaurar los valores predeterminados",
+
+    "confirm.prompt": "{message} Di sí para confirmar o no para cancelar.",
+    "confirm.countdownPrompt": "{message} Continuaré automáticamente en {seconds} segundos. Di no para cancelar, o sí para continuar ahora.",
+    "confirm.cancelled": "Cancelado.",
+    "confirm.sayYesOrNo": "Por favor, di sí o no.",
+    "confirm.noAnswer": "No hubo respuesta. Acción cancelada.",
+
+    "camera.activatedLoading": "Cámara activada. Cargando el modelo de detección de objetos...",
+    "camera.accessDenied": "No se puede acceder a la cámara. Revisa los permisos.",
+    "camera.stopped": "Cámara detenida.",
+    "camera.notOpen": "El modo cámara no está abierto. Di cámara para empezar a detectar objetos.",
+    "camera.alreadyOff": "La cámara ya está apagada.",
+    "camera.isOff": "La cámara está apagada. Di iniciar cámara primero.",
+    "camera.modelLoading": "El modelo de detección aún se está cargando. Espera un momento.",
+    "camera.assetModel": "modelo de detección",
+    "camera.assetRuntime": "motor de detección",
+    "camera.downloadStarted": "Descargando el {name} para usarlo sin conexión",
+    "camera.downloadProgress": "{name}: {percent} por ciento descargado",
+    "camera.downloadDone": "La detección de objetos está lista y ahora funcionará sin conexión",
+    "camera.loadError.offline": "La detección de objetos aún no está disponible sin conexión. Conéctate a internet una vez para descargar el modelo.",
+    "camera.loadError.integrity": "El modelo de detección no superó la comprobación de seguridad y no se usó. Inténtalo más tarde.",
+    "camera.loadError.http": "No se pudo descargar el modelo de detección del servidor.",
+    "camera.loadError.failed": "No se pudo iniciar el modelo de detección en este dispositivo.",
+    "camera.noDescription": "Todavía no he descrito nada.",
+    "camera.analyzing": "Analizando. {description}",
+    "camera.nothingDetected": "No se detectan objetos en este momento.",
+    "camera.noObjects": "No veo ningún objeto ahora. Prueba a apuntar la cámara en otra dirección.",
+    "camera.seeing": "Veo {objects}.",
+    "camera.appeared": "Nuevo: {objects}.",
+    "camera.disappeared": "Ya no se ve: {objects}.",
+    "camera.approaching": "{objects} se acerca.",
+    "camera.hazardImminent": "¡Alto! {objects}.",
+    "camera.hazardWarning": "Cuidado: {objects}.",
+    "camera.objectAt": "{object} {position}",
+    "camera.distanceAbout": "a unos {distance}",
+    "camera.distanceWithin": "a menos de {distance}",
+    "camera.distanceUnknown": "No puedo calcular la distancia a estos objetos.",
+    "camera.searchStarted": "Buscando: {object}. Gira despacio; los pitidos se aceleran al acercarte.",
+    "camera.unknownObject": "No puedo buscar {object}. Puedo encontrar cosas cotidianas como una taza, una botella, una silla o un teléfono.",
+    "camera.searchSpotted": "Encontrado: {object}. {hint}",
+    "camera.searchHint.left": "Mueve a la izquierda.",
+    "camera.searchHint.right": "Mueve a la derecha.",
+    "camera.searchHint.up": "Mueve hacia arriba.",
+    "camera.searchHint.down": "Mueve hacia abajo.",
+    "camera.searchHint.closer": "Justo delante. Acércate.",
+    "camera.searchHint.inFront": "{object}: justo delante de la cámara.",
+    "camera.searchLost": "Perdido: {object}. Gira despacio para encontrarlo de nuevo.",
+    "camera.searchStopped": "Búsqueda terminada: {object}.",
+    "camera.notSearching": "No estoy buscando nada.",
+    "camera.focusStopSearch": "Dejar de buscar",
+    "camera.calibrated": "Cámara calibrada. Campo de visión de {degrees} grados.",
+    "camera.calibrationFailed": "Esa medida no parece correcta. Revisa la altura y la distancia, y asegúrate de que el objeto se vea entero.",
+    "camera.calibrationNoReference": "Primero elige un objeto a la vista para medir.",
+    "camera.calibrationReset": "Usando una cámara de teléfono típica para las distancias.",
+    "camera.focusCalibrationReference": "Objeto de referencia para la calibración",
+    "camera.focusCalibrationHeight": "Altura del objeto de referencia en centímetros",
+    "camera.focusCalibrationDistance": "Distancia al objeto de referencia en metros",
+    "camera.focusCalibrate": "Calibrar distancias",
+    "camera.focusCalibrationReset": "Usar una cámara típica en lugar de la calibración",
+    "camera.focusStart": "Iniciar cámara",
+    "camera.focusStop": "Detener cámara",
+
+    "navigation.step1": "Bienvenido al modo navegación. Te guiaré paso a paso.",
+    "navigation.step2": "Mira al frente y da 5 pasos hacia delante.",
+    "navigation.step3": "¡Bien! Ahora gira un poco a la derecha y sigue 10 pasos.",
+    "navigation.step4": "Excelente. Camina recto 8 pasos más.",
+    "navigation.step5": "Gira a la izquierda en el cruce y camina 12 pasos hacia delante.",
+    "navigation.step6": "¡Lo estás haciendo muy bien! Sigue recto 6 pasos.",
+    "navigation.step7": "Gira a la derecha y camina 4 pasos para llegar a tu destino.",
+    "navigation.step8": "¡Enhorabuena! Has llegado a tu destino de forma segura.",
+    "navigation.destination": "Tu destino es {destination}.",
+    "navigation.stopped": "Navegación detenida. Puedes reanudarla cuando quieras diciendo Hey Vision iniciar navegación.",
+    "navigation.complete": "¡Navegación completada! Has llegado a tu destino.",
+    "navigation.goingBack": "Retrocedo un paso. {step}",
+    "navigation.firstStep": "Este es el primer paso. {step}",
+    "navigation.repeating": "Repito el paso {number}. {step}",
+    "navigation.notStarted": "La navegación aún no ha empezado. Di iniciar navegación para comenzar.",
+    "navigation.notOpen": "El modo navegación no está abierto. Di navegar para empezar la guía.",
+    "navigation.gettingLocation": "Obteniendo tu ubicación actual...",
+    "navigation.coordinates": "Tus coordenadas actuales son {position}",
+    "navigation.locationError": "No se pudo obtener tu ubicación. Revisa los permisos de ubicación.",
+    "navigation.locationUnavailable": "Los servicios de ubicación no están disponibles en este dispositivo.",
+    "navigation.focusStart": "Iniciar navegación",
+    "navigation.focusStop": "Detener navegación",
+    "navigation.focusLocation": "Obtener ubicación actual",
+
+    "emergency.notOpen": "El panel de emergencia no está abierto. Di emergencia para abrirlo.",
+    "emergency.callConfirm": "¿Llamar a {name}?",
+    "emergency.calling": "Llamando a {name}",
+    "emergency.announce": "{action}. {details}. Esto ayudará a los servicios de emergencia o a tus contactos a localizarte y asistirte.",
+    "emergency.contact.911.name": "Servicios de emergencia",
+    "emergency.contact.911.description": "Policía, bomberos, emergencias médicas - Llama de inmediato si hay peligro para la vida",
+    "emergency.contact.911.focus": "Servicios de emergencia - {number}. Pulsa Intro para llamar de inmediato a policía, bomberos o emergencias médicas.",
+    "emergency.contact.family.name": "Familia",
+    "emergency.contact.family.description": "Contacto familiar principal - Tu familiar de confianza",
+    "emergency.contact.family.focus": "Familia. Pulsa Intro para llamar a tu contacto familiar principal al {number}.",
+    "emergency.contact.friend.name": "Amigo de confianza",
+    "emergency.contact.friend.description": "Amigo que puede ayudarte - Tu persona de apoyo en emergencias",
+    "emergency.contact.friend.focus": "Amigo de confianza. Pulsa Intro para llamar a tu amigo al {number}.",
+    "emergency.action.location.name": "Compartir mi ubicación",
+    "emergency.action.location.focus": "Compartir ubicación. Pulsa Intro para enviar tus coordenadas GPS a tus contactos por mensaje.",
+    "emergency.action.text.name": "Enviar mensaje de ayuda",
+    "emergency.action.text.focus": "Enviar mensaje de ayuda. Pulsa Intro para enviar un mensaje de auxilio a tus contactos.",
+    "emergency.locationNotSupported": "Este dispositivo no permite compartir la ubicación. Prueba con otro dispositivo o navegador con GPS.",
+    "emergency.sharingLocation": "Compartiendo ubicación",
+    "emergency.gettingPosition": "Obteniendo tu posición GPS actual",
+    "emergency.locationAcquired": "Ubicación obtenida. {position}",
+    "emergency.shareLocationConfirm": "¿Enviar tu ubicación a tus contactos de emergencia?",
+    "emergency.openingSmsWithLocation": "{location}. Abriendo tu aplicación de mensajes. Tu ubicación y el mensaje de emergencia están listos para enviar. Revísalo y pulsa enviar.",
+    "emergency.permissionDenied": "Se denegó el permiso de ubicación. Ve a los ajustes del navegador, permite la ubicación para este sitio y vuelve a intentarlo.",
+    "emergency.positionUnavailable": "No se pudo determinar tu ubicación. Acércate a una ventana o sal al exterior para mejorar la señal GPS e inténtalo de nuevo.",
+    "emergency.locationTimeout": "La solicitud de ubicación superó los 10 segundos. Comprueba tu conexión a internet e inténtalo de nuevo.",
+    "emergency.locationUnknownError": "Ocurrió un error inesperado al obtener tu ubicación. Inténtalo de nuevo en un momento, o llama directamente a emergencias si es urgente.",
+    "emergency.locationSharingFailed": "Ocurrió un error inesperado al compartir la ubicación. Llama directamente a emergencias si es urgente.",
+    "emergency.noContacts": "No hay contactos de emergencia configurados. Añade números de contacto para usar esta función, o llama directamente a emergencias.",
+    "emergency.sendHelpConfirm": "¿Enviar un mensaje de ayuda a tus contactos de emergencia?",
+    "emergency.sendHelpDetail": "Tu aplicación de mensajes se abrirá con un mensaje de auxilio ya escrito.",
+    "emergency.sendingHelp": "Enviando mensaje de ayuda",
+    "emergency.preparingMessage": "Preparando el mensaje de emergencia para tus contactos",
+    "emergency.openingSmsWithHelp": "Abriendo tu aplicación de mensajes con un mensaje de emergencia ya escrito. El mensaje explica que necesitas ayuda. Revísalo y pulsa enviar.",
+    "emergency.smsError": "No se pudo abrir la aplicación de mensajes. Envía un mensaje a tus contactos manualmente, o llámalos si es urgente.",
+    "emergency.callAnnouncement": "Llamando a {name} al {number}. {description}",
+    "emergency.911Instructions": "Llamada de emergencia iniciada. Cuando conecte, mantén la calma, habla con claridad e indica tu ubicación y qué ocurre. No cuelgues a menos que te lo indiquen.",
+    "emergency.cancelled": "Modo de emergencia cancelado. Vuelves al modo normal. Todas las funciones de emergencia siguen disponibles.",
+    "emergency.lastLocation": "Última ubicación, a las {time}: {location}. Es tu posición GPS más reciente.",
+    "emergency.noLocation": "Aún no se ha obtenido ninguna ubicación. Usa el botón Compartir ubicación para obtener tus coordenadas GPS.",
+    "emergency.focusCancel": "Cancelar modo de emergencia. Pulsa Intro para volver al funcionamiento normal.",
+    "emergency.focusRepeat": "Repetir última ubicación. Pulsa Intro para escuchar tus coordenadas GPS más recientes.",
+
+    "settings.rateSet": "Velocidad de voz al {percent} por ciento",
+    "settings.volumeSet": "Volumen al {percent} por ciento",
+    "settings.pitchAdjusted": "Tono de voz ajustado",
+    "settings.wakeWordOn": "Palabra de activación obligatoria. Empieza cada comando con Hey Vision.",
+    "settings.wakeWordOff": "Palabra de activación desactivada. Todo lo que digas se tratará como comando.",
+    "settings.commandWindow": "Ventana de comandos de {seconds} segundos",
+    "settings.countdownOn": "Las llamadas de emergencia se harán tras {seconds} segundos salvo que las canceles",
+    "settings.countdownOff": "Las llamadas de emergencia esperarán a que digas sí",
+    "settings.testMessage": "Esta es una prueba de tus ajustes de voz. Puedes cambiar la velocidad, el tono y el volumen a tu gusto.",
+    "settings.resetDone": "Ajustes de voz restablecidos",
+    "settings.eraseConfirm": "¿Borrar todos los datos de la aplicación?",
+    "settings.eraseDetail": "Se eliminarán los registros de actividad y todos los ajustes volverán a sus valores por defecto.",
+    "settings.eraseDone": "Todos los datos se han borrado. Ajustes restablecidos.",
+    "settings.focusSlower": "Reducir velocidad de voz",
+    "settings.focusFaster": "Aumentar velocidad de voz",
+    "settings.focusQuieter": "Bajar volumen",
+    "settings.focusLouder": "Subir volumen",
+    "settings.focusTest": "Probar ajustes de voz",
+    "settings.focusReset": "Restablecer ajustes",
+    "settings.focusWakeWord": "Exigir palabra de activación antes de los comandos",
+    "settings.focusEmergencyAutoCall": "Llamar a emergencias automáticamente tras una cuenta atrás",
+    "settings.focusErase": "Borrar todos los datos",
+    "settings.recognizerSet": "Reconocimiento de voz: {name}",
+    "settings.whisperModelSet": "Modelo de voz sin conexión: {name}",
+    "settings.whisperModelAuto": "El modelo de voz sin conexión se elegirá automáticamente",
+    "settings.focusRecognizer": "Elegir reconocimiento de voz",
+    "settings.verbosity.terse": "Mensajes breves.",
+    "settings.verbosity.normal": "Mensajes normales a partir de ahora.",
+    "settings.verbosity.detailed": "Mensajes detallados a partir de ahora. Explicaré más sobre lo que ocurre y lo que puedes decir.",
+    "settings.focusVerbosity": "Elegir cuánto detalle tienen los mensajes hablados",
+    "settings.earconsOn": "Sonidos de objetos activados. Cada objeto se oye desde su dirección.",
+    "settings.earconsOff": "Sonidos de objetos silenciados. La voz no cambia.",
+    "settings.focusEarcons": "Reproducir sonidos para los objetos detectados",
+    "settings.focusEarconPreview": "Escuchar los sonidos de objetos",
+    "settings.hapticsOn": "Vibración activada.",
+    "settings.hapticsOff": "Vibración desactivada.",
+    "settings.hapticsUnsupported": "Este dispositivo no puede vibrar.",
+    "settings.hapticPatternSaved": "Patrón de {name} guardado",
+    "settings.hapticPatternReset": "Patrón de {name} restablecido",
+    "settings.hapticPatternInvalid": "Ese patrón no es válido. Usa duraciones de vibración y pausa en milisegundos, separadas por comas.",
+    "settings.focusHaptics": "Vibrar para alertas, giros y comandos",
+    "settings.focusHapticPreview": "Probar la vibración de {name}",
+    "settings.voiceSet": "Voz cambiada a {name}",
+    "settings.voiceDefault": "Usando la voz predeterminada del navegador",
+    "settings.voicePreview": "Así sonaré. Cámara activada. Gira a la izquierda en el cruce.",
+    "settings.focusVoice": "Elegir la voz para este idioma",
+    "settings.focusVoicePreview": "Escuchar la voz",
+    "settings.offlineVoice.fallback": "La voz sin conexión hablará los idiomas que no tengan voz del sistema",
+    "settings.offlineVoice.always": "La voz sin conexión dirá todos los mensajes",
+    "settings.offlineVoice.off": "Voz sin conexión desactivada",
+    "settings.offlineVoiceDownloading": "Descargando la voz sin conexión en {name}, unos {size} megabytes",
+    "settings.offlineVoiceReady": "La voz sin conexión en {name} está lista y funciona sin conexión",
+    "settings.offlineVoiceFailed": "No se pudo descargar la voz sin conexión en {name}. Comprueba la conexión e inténtalo de nuevo.",
+    "settings.offlineVoiceRemoved": "La voz sin conexión en {name} se eliminó de este dispositivo",
+    "settings.focusOfflineVoice": "Elige cuándo usar la voz sin conexión",
+    "settings.focusOfflineVoiceDownload": "Descargar la voz sin conexión en {name}",
+    "settings.units.auto": "Distancias en las unidades habituales de tu idioma",
+    "settings.units.metric": "Distancias en metros y kilómetros",
+    "settings.units.imperial": "Distancias en pies y millas",
+    "settings.lexiconAdded": "Pronunciación guardada. Ahora suena así: {written}",
+    "settings.lexiconRemoved": "Pronunciación eliminada",
+    "settings.lexiconIncomplete": "Escribe la palabra tal como se escribe y cómo debe decirse",
+    "settings.focusUnits": "Elige las unidades de las distancias habladas",
+    "settings.directionStyle.clock": "Direcciones como posiciones del reloj",
+    "settings.directionStyle.degrees": "Direcciones en grados",
+    "settings.directionStyle.sides": "Direcciones como izquierda, centro o derecha",
+    "settings.focusDirectionStyle": "Elige cómo indica la cámara dónde están los objetos",
+    "settings.focusLexiconWritten": "Palabra o nombre tal como se escribe",
+    "settings.focusLexiconSpoken": "Cómo debe decirse",
+    "settings.focusLexiconTest": "Escuchar cómo suena {spoken}",
+    "haptic.hazardAhead": "peligro delante",
+    "haptic.turnLeft": "girar a la izquierda",
+    "haptic.turnRight": "girar a la derecha",
+    "haptic.arrived": "llegada",
+    "haptic.commandRecognized": "comando reconocido",
+    "haptic.commandNotUnderstood": "comando no entendido",
+    "haptic.emergencyArmed": "emergencia activada",
+    "recognizer.webspeech": "reconocimiento de voz del navegador",
+    "recognizer.whisper": "Whisper sin conexión",
+    "recognizer.scripted": "demostración guionizada",
+
+    "demo.detected": "{name} detectado. {description}",
+    "demo.stairs.name": "Escaleras delante",
+    "demo.stairs.description": "Simula escaleras detectadas",
+    "demo.door.name": "Puerta",
+    "demo.door.description": "Simula una puerta",
+    "demo.pole.name": "Poste delante",
+    "demo.pole.description": "Simula un poste como obstáculo",
+    "demo.path.name": "Camino despejado",
+    "demo.path.description": "Simula un camino transitable",
+    "ocr.textFound": "Texto encontrado: {text}",
+    "ocr.failed": "Lo siento, no pude leer el texto. Inténtalo de nuevo.",
+  },
+
+  terse: {
+    "voice.started": "Escuchando.",
+    "voice.stopped": "Ya no escucho.",
+    "voice.notRecognized": "No reconocido.",
+    "camera.activatedLoading": "Cámara encendida. Cargando.",
+    "camera.stopped": "Cámara apagada.",
+    "camera.nothingDetected": "Nada detectado.",
+    "camera.seeing": "{objects}.",
+    "navigation.stopped": "Navegación detenida.",
+    "navigation.complete": "Has llegado.",
+    "navigation.repeating": "Paso {number}. {step}",
+    "emergency.announce": "{action}.",
+    "emergency.openingSmsWithLocation": "{location}. Abriendo mensajes. Pulsa enviar.",
+    "emergency.permissionDenied": "Permiso de ubicación denegado.",
+    "emergency.noContacts": "No hay contactos de emergencia.",
+    "emergency.openingSmsWithHelp": "Abriendo mensaje de ayuda. Pulsa enviar.",
+    "emergency.callAnnouncement": "Llamando a {name}.",
+    "emergency.911Instructions": "Mantén la calma. Di tu ubicación y tu emergencia.",
+    "emergency.cancelled": "Modo de emergencia desactivado.",
+    "emergency.noLocation": "Aún no hay ubicación.",
+    "settings.rateSet": "Velocidad {percent}.",
+    "settings.volumeSet": "Volumen {percent}.",
+    "settings.resetDone": "Ajustes restablecidos.",
+  },
+
+  detailed: {
+    "voice.started": "Reconocimiento de voz iniciado. Habla con claridad. Di ayuda en cualquier momento para escuchar los comandos que puedes usar.",
+    "voice.stopped": "Reconocimiento de voz detenido. Pulsa el botón del micrófono para volver a escuchar.",
+    "voice.notRecognized": "Comando no reconocido. Di ayuda para escuchar los comandos disponibles, o repite eso para oír otra vez mi último mensaje.",
+    "voice.offlineStarted": "Escucha sin conexión iniciada. Habla con naturalidad y haz una pausa después de cada comando. El reconocimiento se hace en este dispositivo, así que puede tardar un momento.",
+    "voice.offlineFallback": "Se perdió la conexión. Cambiando a escucha sin conexión. Ahora el reconocimiento se hace en este dispositivo y puede ser algo más lento.",
+    "camera.activatedLoading": "Cámara activada. Cargando el modelo de detección de objetos. La primera carga puede tardar unos segundos; empezaré a describir objetos en cuanto esté listo.",
+    "camera.accessDenied": "No se puede acceder a la cámara. Revisa los permisos. Permite el acceso a la cámara para este sitio en los ajustes del navegador y vuelve a decir iniciar cámara.",
+    "camera.stopped": "Cámara detenida. Di iniciar cámara para volver a detectar objetos.",
+    "camera.isOff": "La cámara está apagada. Di iniciar cámara primero y luego vuelve a preguntarme.",
+    "camera.modelLoading": "El modelo de detección aún se está cargando. Espera un momento; empezaré a describir objetos en cuanto esté listo.",
+    "camera.noObjects": "No veo ningún objeto ahora. Prueba a apuntar la cámara en otra dirección, girando despacio de izquierda a derecha.",
+    "navigation.step1": "Bienvenido al modo navegación. Te guiaré paso a paso. Di siguiente cuando termines cada instrucción, o repite para volver a oírla.",
+    "navigation.step2": "Mira al frente y da 5 pasos hacia delante. Mantén un ritmo constante y cómodo.",
+    "navigation.step3": "¡Bien! Ahora gira un poco a la derecha y sigue 10 pasos. Gira solo un poco, más o menos hacia la una en punto.",
+    "navigation.step4": "Excelente. Camina recto 8 pasos más, en la misma dirección.",
+    "navigation.step5": "Gira a la izquierda en el cruce y camina 12 pasos hacia delante. Espera hasta estar seguro de que el paso está libre antes de cruzar.",
+    "navigation.step6": "¡Lo estás haciendo muy bien! Sigue recto 6 pasos.",
+    "navigation.step7": "Gira a la derecha y camina 4 pasos para llegar a tu destino. Estará justo delante de ti.",
+    "navigation.stopped": "Navegación detenida. Puedes reanudarla cuando quieras diciendo Hey Vision iniciar navegación. Tu progreso ha vuelto al primer paso.",
+    "navigation.notStarted": "La navegación aún no ha empezado. Di iniciar navegación para comenzar, o navegar a seguido de un lugar para que te guíe hasta allí.",
+    "navigation.coordinates": "Tus coordenadas actuales son {position}. Abre el panel de emergencia y di compartir ubicación para enviarlas a tus contactos.",
+    "navigation.locationError": "No se pudo obtener tu ubicación. Revisa los permisos de ubicación. Permite el acceso a la ubicación para este sitio en los ajustes del navegador y vuelve a intentarlo.",
+    "emergency.announce": "{action}. {details}. Esto ayudará a los servicios de emergencia o a tus contactos a localizarte y asistirte. Di cancelar emergencia en cualquier momento para volver al modo normal.",
+    "emergency.calling": "Llamando a {name}. Se abrirá tu aplicación de teléfono con el número listo.",
+    "emergency.callAnnouncement": "Llamando a {name} al {number}. {description}. Se abrirá tu aplicación de teléfono; no cuelgues hasta que alguien conteste.",
+    "emergency.openingSmsWithLocation": "{location}. Abriendo tu aplicación de mensajes. Tu ubicación y el mensaje de emergencia están listos para enviar a tus contactos. Revísalo y pulsa enviar. Di repetir ubicación más tarde para volver a oír estas coordenadas.",
+    "emergency.noLocation": "Aún no se ha obtenido ninguna ubicación. Usa el botón Compartir ubicación para obtener tus coordenadas GPS, o di compartir ubicación.",
+    "settings.rateSet": "Velocidad de voz al {percent} por ciento. Di más rápido o más despacio para ajustarla más.",
+    "settings.volumeSet": "Volumen al {percent} por ciento. Di más alto o más bajo para ajustarlo más.",
+    "settings.wakeWordOn": "Palabra de activación obligatoria. Empieza cada comando con Hey Vision. Si dices solo Hey Vision, esperaré un comando durante unos segundos.",
+    "settings.wakeWordOff": "Palabra de activación desactivada. Todo lo que digas se tratará como comando, así que una conversación de fondo podría activar acciones.",
+    "settings.countdownOn": "Las llamadas de emergencia se harán tras {seconds} segundos salvo que las canceles. Di no durante la cuenta atrás para cancelar la llamada.",
+    "settings.countdownOff": "Las llamadas de emergencia esperarán a que digas sí antes de marcar.",
+    "settings.resetDone": "Ajustes de voz restablecidos. La velocidad, el volumen, el nivel de detalle y la palabra de activación vuelven a sus valores iniciales.",
+    "camera.approaching": "{objects} se acerca. Se ve cada vez más grande en la cámara.",
+    "camera.hazardWarning": "Cuidado: {objects}. Puede estar en tu camino.",
+  },
+
+  commands: {
+    "mode.camera": ["cámara", "modo cámara", "abrir cámara"],
+    "mode.navigation": ["navegar", "navegación", "modo navegación", "caminar"],
+    "navigation.destination": ["navegar a {place:place}", "llévame a {place:place}", "cómo llego a {place:place}"],
+    "mode.emergency": ["emergencia", "modo emergencia", "necesito ayuda", "socorro"],
+    "mode.settings": ["ajustes", "abrir ajustes", "configuración"],
+    "contact.call": ["llamar a {contact:contact}", "llama a {contact:contact}", "marcar a {contact:contact}"],
+    "language.set": ["cambiar idioma a {language:language}", "idioma {language:language}", "habla {language:language}"],
+    "status": ["estado", "modo actual", "qué modo"],
+    "help": ["ayuda", "comandos", "qué puedo decir"],
+    "listening.stop": ["deja de escuchar", "para", "silencio"],
+    "speech.repeat": ["qué dijiste", "repite eso", "repite el último mensaje", "repite", "dilo otra vez"],
+    "speech.history": ["mensajes recientes", "qué dijiste antes"],
+    "verbosity.terse": ["sé breve", "mensajes cortos", "menos detalle"],
+    "verbosity.normal": ["detalle normal", "mensajes normales"],
+    "verbosity.detailed": ["más detalle", "mensajes detallados"],
+    "camera.start": ["iniciar cámara", "encender [la] cámara"],
+    "camera.stop": ["detener cámara", "apagar [la] cámara", "cerrar [la] cámara"],
+    "camera.analyze": ["analizar", "detectar objetos", "escanear"],
+    "camera.describe": ["qué ves", "qué puedes ver", "describe [la] escena"],
+    "camera.repeat": ["repetir descripción", "repite", "dilo otra vez"],
+    "camera.distance": ["a qué distancia [está]", "qué tan lejos [está]", "distancia"],
+    "camera.find": ["busca [mi] {object:object}", "dónde [está] [mi] {object:object}", "encuentra [mi] {object:object}", "busca [mi] [mis] {item:text}", "dónde [está] [están] [mi] [mis] {item:text}", "encuentra [mi] [mis] {item:text}"],
+    "camera.stopSearch": ["deja de buscar", "para la búsqueda", "ya lo encontré"],
+    "navigation.start": ["iniciar navegación", "empezar guía"],
+    "navigation.stop": ["detener navegación", "terminar navegación", "cancelar navegación"],
+    "navigation.next": ["siguiente paso", "siguiente", "continuar"],
+    "navigation.previous": ["paso anterior", "anterior", "volver"],
+    "navigation.repeat": ["repite", "repetir paso", "dilo otra vez"],
+    "navigation.location": ["dónde estoy", "ubicación actual", "mi ubicación"],
+    "emergency.share-location": ["compartir [mi] ubicación", "enviar [mi] ubicación"],
+    "emergency.send-help": ["enviar ayuda", "enviar mensaje de ayuda", "pedir auxilio"],
+    "emergency.repeat-location": ["repetir [mi] ubicación", "última ubicación"],
+    "settings.rate.set": ["velocidad a {rate:number}", "velocidad de voz a {rate:number}", "velocidad {rate:number}"],
+    "settings.rate.increase": ["habla más rápido", "más rápido"],
+    "settings.rate.decrease": ["habla más despacio", "más despacio", "más lento"],
+    "settings.volume.set": ["volumen a {volume:number}", "volumen {volume:number}"],
+    "settings.volume.increase": ["subir volumen", "más alto"],
+    "settings.volume.decrease": ["bajar volumen", "más bajo"],
+    "settings.test": ["probar voz", "probar ajustes"],
+    "settings.erase": ["borrar todos los datos", "borrar [los] datos", "eliminar [los] datos"],
+    "settings.reset": ["restablecer ajustes", "valores por defecto"],
+  },
+  commandExamples: {
+    "camera.find": "busca mi taza",
+    "navigation.destination": "llévame a la parada de autobús",
+    "contact.call": "llamar a familia",
+    "language.set": "cambiar idioma a inglés",
+    "settings.rate.set": "velocidad a uno coma dos",
+    "settings.volume.set": "volumen a ochenta",
+    "settings.erase": "borrar todos los datos",
+  },
+  contactNames: {
+    "911": ["emergencias", "servicios de emergencia", "policía", "ambulancia"],
+    family: ["familia", "casa"],
+    friend: ["amigo", "amiga"],
+  },
+  languageNames: {
+    "en-US": ["inglés"],
+    "hi-IN": ["hindi"],
+    "es-ES": ["español"],
+    "fr-FR": ["francés"],
+    "de-DE": ["alemán"],
+  },
+  wakeVariants: {
+    "ey vision": "hey vision",
+    "hey visión": "hey vision",
+    "ey visión": "hey vision",
+    "visión guide": "vision guide",
+  },
+  yesWords: ["sí", "si", "vale", "claro", "confirmo", "confirmar", "adelante", "de acuerdo"],
+  noWords: ["no", "cancela", "cancelar", "espera", "para", "alto"],
+  numbers: {
+    words: {
+      cero: 0, uno: 1, una: 1, dos: 2, tres: 3, cuatro: 4, cinco: 5, seis: 6, siete: 7, ocho: 8,
+      nueve: 9, diez: 10, veinte: 20, treinta: 30, cuarenta: 40, cincuenta: 50, sesenta: 60,
+      setenta: 70, ochenta: 80, noventa: 90,
+    },
+    hundred: ["cien", "ciento"],
+    point: ["coma", "punto"],
+  },
+  objectLabels: {
+    person: ["persona", "personas"],
+    bicycle: ["bicicleta", "bicicletas"],
+    car: ["coche", "coches"],
+    motorcycle: ["moto", "motos"],
+    bus: ["autobús", "autobuses"],
+    truck: ["camión", "camiones"],
+    "traffic light": ["semáforo", "semáforos"],
+    "stop sign": ["señal de stop", "señales de stop"],
+    bench: ["banco", "bancos"],
+    dog: ["perro", "perros"],
+    cat: ["gato", "gatos"],
+    backpack: ["mochila", "mochilas"],
+    umbrella: ["paraguas", "paraguas"],
+    bottle: ["botella", "botellas"],
+    cup: ["taza", "tazas"],
+    chair: ["silla", "sillas"],
+    couch: ["sofá", "sofás"],
+    bed: ["cama", "camas"],
+    "dining table": ["mesa", "mesas"],
+    tv: ["televisor", "televisores"],
+    laptop: ["portátil", "portátiles"],
+    "cell phone": ["teléfono", "teléfonos"],
+    book: ["libro", "libros"],
+    clock: ["reloj", "relojes"],
+  },
+};
+
+export default es;
@@ -0,0 +1,515 @@
+/**
+ * French language pack.
+ */
+
+import type { LocalePack } from "@/utils/i18n";
+
+const fr: LocalePack = {
+  messages: {
+    "common.and": "et",
+    "common.or": "ou",
+    "format.plus": "plus",
+    "format.degrees": "{value} degrés {direction}",
+    "format.north": "nord",
+    "format.south": "sud",
+    "format.east": "est",
+    "format.west": "ouest",
+    "direction.clock": "à {hour} heures",
+    "direction.ahead": "droit devant",
+    "direction.degreesLeft": "à {degrees} degrés à gauche",
+    "direction.degreesRight": "à {degrees} degrés à droite",
+    "direction.left": "à gauche",
+    "direction.center": "au centre",
+    "direction.right": "à droite",
+    "direction.withCardinal": "{direction}, vers le {cardinal}",
+    "direction.cardinal.north": "nord",
+    "direction.cardinal.northeast": "nord-est",
+    "direction.cardinal.east": "est",
+    "direction.cardinal.southeast": "sud-est",
+    "direction.cardinal.south": "sud",
+    "direction.cardinal.southwest": "sud-ouest",
+    "direction.cardinal.west": "ouest",
+    "direction.cardinal.northwest": "nord-ouest",
+    "app.welcome": "Bienvenue dans Vision Guide",
+    "app.sos": "Bouton d'urgence activé. SOS lancé.",
+    "language.supportsBoth": "{language} prend en charge la voix et la reconnaissance de texte.",
+    "language.supportsTts": "{language} prend en charge la voix uniquement.",
+    "language.supportsOcr": "{language} prend en charge la reconnaissance de texte uniquement.",
+    "language.supportsNone": "{language} ne prend en charge ni la voix ni le texte.",
+    "language.offlineVoice": "{language} n'a pas de voix système, la voix hors ligne est donc utilisée. La reconnaissance de texte est prise en charge.",
+    "language.englishCommands": "Les commandes vocales ne sont pas encore traduites dans cette langue. Utilisez les commandes en anglais.",
+
+    "mode.name.camera": "caméra",
+    "mode.name.navigation": "navigation",
+    "mode.name.emergency": "urgence",
+    "mode.name.settings": "réglages",
+
+    "voice.started": "Reconnaissance vocale démarrée. Parlez distinctement.",
+    "voice.stopped": "Reconnaissance vocale arrêtée",
+    "voice.didYouMean": "Vouliez-vous dire {options} ?",
+    "voice.notRecognized": "Commande non reconnue. Dites aide pour entendre les commandes disponibles.",
+    "voice.offlineStarted": "Écoute hors ligne démarrée. Parlez naturellement et marquez une pause après chaque commande.",
+    "voice.offlineStopped": "Écoute hors ligne arrêtée",
+    "voice.offlineFallback": "Connexion perdue. Passage à l'écoute hors ligne.",
+    "speech.nothingToRepeat": "Je n'ai encore rien dit.",
+    "transcript.copied": "Dernier message copié",
+    "transcript.copyFailed": "Copie impossible. Le navigateur n'a pas autorisé l'accès au presse-papiers.",
+    "transcript.nothingToCopy": "Rien à copier pour l'instant",
+    "transcript.focusCopy": "Copier le dernier sous-titre dans le presse-papiers",
+    "transcript.focusFilter": "Afficher {name}",
+    "transcript.filter.all": "Tout",
+    "transcript.filter.app": "Dit par l'app",
+    "transcript.filter.commands": "Mes commandes",
+    "transcript.filter.heard": "Tout ce qui a été entendu",
+    "transcript.outcome.command": "commande",
+    "transcript.outcome.reply": "réponse",
+    "transcript.outcome.not-understood": "non compris",
+    "transcript.outcome.ignored": "ignoré",
+    "transcript.fromApp": "Vision Guide : {text}",
+    "transcript.fromUser": "Vous ({outcome}) : {text}",
+    "speech.history": "Récemment, j'ai dit : {messages}",
+    "command.cameraActivated": "Caméra activée pour la détection d'objets",
+    "command.navigationActivated": "Mode navigation activé",
+    "command.navigatingTo": "Navigation vers {place}",
+    "command.emergencyOpened": "Panneau d'urgence ouvert",
+    "command.settingsOpened": "Panneau des réglages ouvert",
+    "command.status": "Le mode actuel est {mode}. La reconnaissance vocale est active.",
+    "help.modeCommands": "En mode {mode}, vous pouvez dire : {modeCommands}. Partout, vous pouvez dire : {globalCommands}.",
+    "help.globalCommands": "Vous pouvez dire : {globalCommands}.",
+
+    "commandCard.mode.camera": "Activer la détection d'objets",
+    "commandCard.mode.navigation": "Démarrer le mode navigation",
+    "commandCard.navigation.destination": "Lancer le guidage vers un lieu",
+    "commandCard.mode.emergency": "Ouvrir le panneau d'urgence",
+    "commandCard.mode.settings": "Ouvrir le panneau des paramètres",
+    "commandCard.contact.call": "Appeler un contact d'urgence",
+    "commandCard.language.set": "Changer la langue de la voix",
+    "commandCard.status": "Connaître le mode actuel",
+    "commandCard.help": "Écouter les commandes disponibles",
+    "commandCard.listening.stop": "Désactiver la reconnaissance vocale",
+    "commandCard.speech.repeat": "Répéter ma dernière phrase",
+    "commandCard.speech.history": "Réentendre mes dernières phrases",
+    "commandCard.verbosity.terse": "Messages parlés courts",
+    "commandCard.verbosity.normal": "Niveau de détail standard",
+    "commandCard.verbosity.detailed": "Plus d'explications dans les messages parlés",
+    "commandCard.camera.start": "Démarrer la détection d'objets",
+    "commandCard.camera.stop": "Terminer la session caméra",
+    "commandCard.camera.analyze": "Entendre les détections actuelles",
+    "commandCard.camera.describe": "Décrire la scène en détail",
+    "commandCard.camera.repeat": "Réentendre la dernière description",
+    "commandCard.camera.distance": "Savoir à quelle distance sont les objets les plus proches",
+    "commandCard.camera.find": "Être guidé vers un objet, comme une tasse",
+    "commandCard.camera.stopSearch": "Arrêter la recherche d'objet",
+    "commandCard.navigation.start": "Démarrer le guidage à pied",
+    "commandCard.navigation.stop": "Arrêter le guidage à pied",
+    "commandCard.navigation.next": "Passer à l'instruction suivante",
+    "commandCard.navigation.previous": "Revenir à l'instruction précédente",
+    "commandCard.navigation.repeat": "Répéter l'instruction actuelle",
+    "commandCard.navigation.location": "Connaître votre position actuelle",
+    "commandCard.emergency.share-location": "Envoyer les coordonnées GPS aux contacts",
+    "commandCard.emergency.send-help": "Envoyer un message de détresse",
+    "commandCard.emergency.repeat-location": "Réentendre la dernière position GPS",
+    "commandCard.settings.rate.set": "Régler un débit de parole précis",
+    "commandCard.settings.rate.increase": "Accélérer la parole",
+    "commandCard.settings.rate.decrease": "Ralentir la parole",
+    "commandCard.settings.volume.set": "Régler un volume précis",
+    "commandCard.settings.volume.increase": "Monter le volume",
+    "commandCard.settings.volume.decrease": "Baisser le volume",
+    "commandCard.settings.test": "Tester les paramètres actuels",
+    "commandCard.settings.erase": "Effacer les journaux et réinitialiser tous les paramètres",
+    "commandCard.settings.reset": "Rétablir les valeurs par défaut",
+
+    "confirm.prompt": "{message} Dites oui pour confirmer ou non pour annuler.",
+    "confirm.countdownPrompt": "{message} Je continue automatiquement dans {seconds} secondes. Dites non pour annuler, ou oui pour continuer maintenant.",
+    "confirm.cancelled": "Annulé.",
+    "confirm.sayYesOrNo": "Veuillez dire oui ou non.",
+    "confirm.noAnswer": "Aucune réponse. Action annulée.",
+
+    "camera.activatedLoading": "Caméra activée. Chargement du modèle de détection d'objets...",
+    "camera.accessDenied": "Impossible d'accéder à la caméra. Vérifiez les autorisations.",
+    "camera.stopped": "Caméra arrêtée.",
+    "camera.notOpen": "Le mode caméra n'est pas ouvert. Dites caméra pour lancer la détection d'objets.",
+    "camera.alreadyOff": "La caméra est déjà éteinte.",
+    "camera.isOff": "La caméra est éteinte. Dites démarrer la caméra d'abord.",
+    "camera.modelLoading": "Le modèle de détection est encore en cours de chargement. Patientez un instant.",
+    "camera.assetModel": "modèle de détection",
+    "camera.assetRuntime": "moteur de détection",
+    "camera.downloadStarted": "Téléchargement du {name} pour une utilisation hors ligne",
+    "camera.downloadProgress": "{name} : {percent} pour cent téléchargés",
+    "camera.downloadDone": "La détection d'objets est prête et fonctionnera désormais hors ligne",
+    "camera.loadError.offline": "La détection d'objets n'est pas encore disponible hors ligne. Connectez-vous une fois à internet pour télécharger le modèle.",
+    "camera.loadError.integrity": "Le modèle de détection a échoué au contrôle de sécurité et n'a pas été utilisé. Réessayez plus tard.",
+    "camera.loadError.http": "Le modèle de détection n'a pas pu être téléchargé depuis le serveur.",
+    "camera.loadError.failed": "Le modèle de détection n'a pas pu démarrer sur cet appareil.",
+    "camera.noDescription": "Je n'ai encore rien décrit.",
+    "camera.analyzing": "Analyse en cours. {description}",
+    "camera.nothingDetected": "Aucun objet détecté pour le moment.",
+    "camera.noObjects": "Je ne vois aucun objet pour l'instant. Essayez d'orienter la caméra dans une autre direction.",
+    "camera.seeing": "Je vois {objects}.",
+    "camera.appeared": "Nouveau : {objects}.",
+    "camera.disappeared": "N'est plus visible : {objects}.",
+    "camera.approaching": "{objects} se rapproche.",
+    "camera.hazardImminent": "Stop ! {objects}.",
+    "camera.hazardWarning": "Attention : {objects}.",
+    "camera.objectAt": "{object} {position}",
+    "camera.distanceAbout": "à environ {distance}",
+    "camera.distanceWithin": "à moins de {distance}",
+    "camera.distanceUnknown": "Je ne peux pas estimer la distance de ces objets.",
+    "camera.searchStarted": "Recherche : {object}. Tournez lentement ; les bips accélèrent quand vous approchez.",
+    "camera.unknownObject": "Je ne peux pas chercher {object}. Je peux trouver des objets courants comme une tasse, une bouteille, une chaise ou un téléphone.",
+    "camera.searchSpotted": "Repéré : {object}. {hint}",
+    "camera.searchHint.left": "Allez à gauche.",
+    "camera.searchHint.right": "Allez à droite.",
+    "camera.searchHint.up": "Visez plus haut.",
+    "camera.searchHint.down": "Visez plus bas.",
+    "camera.searchHint.closer": "Droit devant. Approchez-vous.",
+    "camera.searchHint.inFront": "{object} : juste devant la caméra.",
+    "camera.searchLost": "Perdu de vue : {object}. Tournez lentement pour le retrouver.",
+    "camera.searchStopped": "Recherche terminée : {object}.",
+    "camera.notSearching": "Aucune recherche en cours.",
+    "camera.focusStopSearch": "Arrêter la recherche",
+    "camera.calibrated": "Caméra étalonnée. Champ de vision de {degrees} degrés.",
+    "camera.calibrationFailed": "Cette mesure ne semble pas correcte. Vérifiez la hauteur et la distance, et gardez tout l'objet dans le champ.",
+    "camera.calibrationNoReference": "Choisissez d'abord un objet visible comme référence.",
+    "camera.calibrationReset": "Les distances utilisent une caméra de téléphone typique.",
+    "camera.focusCalibrationReference": "Objet de référence pour l'étalonnage",
+    "camera.focusCalibrationHeight": "Hauteur de l'objet de référence en centimètres",
+    "camera.focusCalibrationDistance": "Distance de l'objet de référence en mètres",
+    "camera.focusCalibrate": "Étalonner les distances",
+    "camera.focusCalibrationReset": "Utiliser une caméra typique au lieu de l'étalonnage",
+    "camera.focusStart": "Démarrer la caméra",
+    "camera.focusStop": "Arrêter la caméra",
+
+    "navigation.step1": "Bienvenue dans le mode navigation. Je vais vous guider pas à pas.",
+    "navigation.step2": "Tournez-vous vers l'avant et faites 5 pas tout droit.",
+    "navigation.step3": "Bien ! Tournez légèrement à droite et continuez sur 10 pas.",
+    "navigation.step4": "Excellent. Marchez tout droit encore 8 pas.",
+    "navigation.step5": "Tournez à gauche au croisement et avancez de 12 pas.",
+    "navigation.step6": "Très bien ! Continuez tout droit sur 6 pas.",
+    "navigation.step7": "Tournez à droite et faites 4 pas pour atteindre votre destination.",
+    "navigation.step8": "Félicitations ! Vous êtes arrivé à destination en toute sécurité.",
+    "navigation.destination": "Votre destination est {destination}.",
+    "navigation.stopped": "Navigation arrêtée. Vous pouvez la relancer à tout moment en disant Hey Vision démarrer la navigation.",
+    "navigation.complete": "Navigation terminée ! Vous êtes arrivé à destination.",
+    "navigation.goingBack": "Retour d'une étape. {step}",
+    "navigation.firstStep": "C'est la première étape. {step}",
+    "navigation.repeating": "Je répète l'étape {number}. {step}",
+    "navigation.notStarted": "La navigation n'a pas encore commencé. Dites démarrer la navigation pour commencer.",
+    "navigation.notOpen": "Le mode navigation n'est pas ouvert. Dites naviguer pour lancer le guidage.",
+    "navigation.gettingLocation": "Recherche de votre position actuelle...",
+    "navigation.coordinates": "Vos coordonnées actuelles sont {position}",
+    "navigation.locationError": "Impossible d'obtenir votre position. Vérifiez les autorisations de localisation.",
+    "navigation.locationUnavailable": "Les services de localisation ne sont pas disponibles sur cet appareil.",
+    "navigation.focusStart": "Démarrer la navigation",
+    "navigation.focusStop": "Arrêter la navigation",
+    "navigation.focusLocation": "Obtenir la position actuelle",
+
+    "emergency.notOpen": "Le panneau d'urgence n'est pas ouvert. Dites urgence pour l'ouvrir.",
+    "emergency.callConfirm": "Appeler {name} ?",
+    "emergency.calling": "Appel de {name}",
+    "emergency.announce": "{action}. {details}. Cela aidera les secours ou vos contacts à vous localiser et à vous aider.",
+    "emergency.contact.911.name": "Services d'urgence",
+    "emergency.contact.911.description": "Police, pompiers, urgences médicales - Appelez immédiatement en cas de danger vital",
+    "emergency.contact.911.focus": "Services d'urgence - {number}. Appuyez sur Entrée pour appeler immédiatement la police, les pompiers ou les urgences médicales.",
+    "emergency.contact.family.name": "Famille",
+    "emergency.contact.family.description": "Contact familial principal - Un membre de votre famille de confiance",
+    "emergency.contact.family.focus": "Famille. Appuyez sur Entrée pour appeler votre contact familial principal au {number}.",
+    "emergency.contact.friend.name": "Ami de confiance",
+    "emergency.contact.friend.description": "Ami pouvant vous aider - Votre personne de soutien en cas d'urgence",
+    "emergency.contact.friend.focus": "Ami de confiance. Appuyez sur Entrée pour appeler votre ami au {number}.",
+    "emergency.action.location.name": "Partager ma position",
+    "emergency.action.location.focus": "Partager la position. Appuyez sur Entrée pour envoyer vos coordonnées GPS à vos contacts par SMS.",
+    "emergency.action.text.name": "Envoyer un message d'aide",
+    "emergency.action.text.focus": "Envoyer un message d'aide. Appuyez sur Entrée pour envoyer un message de détresse à vos contacts.",
+    "emergency.locationNotSupported": "Le partage de position n'est pas pris en charge sur cet appareil. Essayez un autre appareil ou navigateur avec GPS.",
+    "emergency.sharingLocation": "Partage de la position",
+    "emergency.gettingPosition": "Recherche de votre position GPS",
+    "emergency.locationAcquired": "Position obtenue. {position}",
+    "emergency.shareLocationConfirm": "Envoyer votre position à vos contacts d'urgence ?",
+    "emergency.openingSmsWithLocation": "{location}. Ouverture de votre application de messages. Votre position et le message d'urgence sont prêts à être envoyés. Vérifiez puis appuyez sur envoyer.",
+    "emergency.permissionDenied": "L'autorisation de localisation a été refusée. Autorisez la localisation pour ce site dans les réglages du navigateur, puis réessayez.",
+    "emergency.positionUnavailable": "Votre position n'a pas pu être déterminée. Rapprochez-vous d'une fenêtre ou sortez pour un meilleur signal GPS, puis réessayez.",
+    "emergency.locationTimeout": "La demande de position a expiré après 10 secondes. Vérifiez votre connexion internet et réessayez.",
+    "emergency.locationUnknownError": "Une erreur inattendue s'est produite lors de la localisation. Réessayez dans un instant, ou appelez directement les secours en cas d'urgence.",
+    "emergency.locationSharingFailed": "Une erreur inattendue s'est produite lors du partage de position. Appelez directement les secours en cas d'urgence.",
+    "emergency.noContacts": "Aucun contact d'urgence n'est configuré. Ajoutez des numéros pour utiliser cette fonction, ou appelez directement les secours.",
+    "emergency.sendHelpConfirm": "Envoyer un message d'aide à vos contacts d'urgence ?",
+    "emergency.sendHelpDetail": "Votre application de messages s'ouvrira avec un message de détresse déjà rédigé.",
+    "emergency.sendingHelp": "Envoi du message d'aide",
+    "emergency.preparingMessage": "Préparation du message d'urgence pour vos contacts",
+    "emergency.openingSmsWithHelp": "Ouverture de votre application de messages avec un message d'urgence déjà rédigé. Le message explique que vous avez besoin d'aide. Vérifiez-le puis appuyez sur envoyer.",
+    "emergency.smsError": "Impossible d'ouvrir l'application de messages. Envoyez un message à vos contacts manuellement, ou appelez-les si c'est urgent.",
+    "emergency.callAnnouncement": "Appel de {name} au {number}. {description}",
+    "emergency.911Instructions": "Appel d'urgence lancé. Une fois en ligne, restez calme, parlez distinctement et indiquez votre position et la nature de l'urgence. Ne raccrochez pas sauf si on vous le demande.",
+    "emergency.cancelled": "Mode d'urgence annulé. Vous êtes revenu au mode normal. Toutes les fonctions d'urgence restent disponibles.",
+    "emergency.lastLocation": "Dernière position, à {time} : {location}. C'est votre position GPS la plus récente.",
+    "emergency.noLocation": "Aucune position n'a encore été obtenue. Utilisez le bouton Partager la position pour obtenir vos coordonnées GPS.",
+    "emergency.focusCancel": "Annuler le mode d'urgence. Appuyez sur Entrée pour revenir au fonctionnement normal.",
+    "emergency.focusRepeat": "Répéter la dernière position. Appuyez sur Entrée pour entendre vos coordonnées GPS les plus récentes.",
+
+    "settings.rateSet": "Vitesse de parole réglée à {percent} pour cent",
+    "settings.volumeSet": "Volume réglé à {percent} pour cent",
+    "settings.pitchAdjusted": "Hauteur de la voix ajustée",
+    "settings.wakeWordOn": "Mot d'activation requis. Commencez chaque commande par Hey Vision.",
+    "settings.wakeWordOff": "Mot d'activation désactivé. Tout ce que vous dites sera traité comme une commande.",
+    "settings.commandWindow": "Fenêtre de commande de {seconds} secondes",
+    "settings.countdownOn": "Les appels d'urgence partiront après {seconds} secondes sauf annulation",
+    "settings.countdownOff": "Les appels d'urgence attendront que vous disiez oui",
+    "settings.testMessage": "Ceci est un test de vos réglages vocaux. Vous pouvez ajuster la vitesse, la hauteur et le volume à votre convenance.",
+    "settings.resetDone": "Réglages vocaux réinitialisés",
+    "settings.eraseConfirm": "Effacer toutes les données de l'application ?",
+    "settings.eraseDetail": "Les journaux d'activité seront supprimés et tous les réglages reviendront à leur valeur par défaut.",
+    "settings.eraseDone": "Toutes les données ont été effacées. Réglages réinitialisés.",
+    "settings.focusSlower": "Réduire la vitesse de parole",
+    "settings.focusFaster": "Augmenter la vitesse de parole",
+    "settings.focusQuieter": "Baisser le volume",
+    "settings.focusLouder": "Monter le volume",
+    "settings.focusTest": "Tester les réglages vocaux",
+    "settings.focusReset": "Réinitialiser les réglages",
+    "settings.focusWakeWord": "Exiger le mot d'activation avant les commandes",
+    "settings.focusEmergencyAutoCall": "Appeler les secours automatiquement après un compte à rebours",
+    "settings.focusErase": "Effacer toutes les données",
+    "settings.recognizerSet": "Reconnaissance vocale : {name}",
+    "settings.whisperModelSet": "Modèle vocal hors ligne : {name}",
+    "settings.whisperModelAuto": "Le modèle vocal hors ligne sera choisi automatiquement",
+    "settings.focusRecognizer": "Choisir la reconnaissance vocale",
+    "settings.verbosity.terse": "Messages brefs.",
+    "settings.verbosity.normal": "Messages normaux à partir de maintenant.",
+    "settings.verbosity.detailed": "Messages détaillés à partir de maintenant. J'expliquerai davantage ce qui se passe et ce que vous pouvez dire.",
+    "settings.focusVerbosity": "Choisir le niveau de détail des messages parlés",
+    "settings.earconsOn": "Sons des objets activés. Chaque objet est entendu depuis sa direction.",
+    "settings.earconsOff": "Sons des objets coupés. La voix n'est pas concernée.",
+    "settings.focusEarcons": "Jouer des sons pour les objets détectés",
+    "settings.focusEarconPreview": "Écouter les sons des objets",
+    "settings.hapticsOn": "Vibration activée.",
+    "settings.hapticsOff": "Vibration désactivée.",
+    "settings.hapticsUnsupported": "Cet appareil ne peut pas vibrer.",
+    "settings.hapticPatternSaved": "Motif {name} enregistré",
+    "settings.hapticPatternReset": "Motif {name} réinitialisé",
+    "settings.hapticPatternInvalid": "Ce motif n'est pas valide. Indiquez des durées de vibration et de pause en millisecondes, séparées par des virgules.",
+    "settings.focusHaptics": "Vibrer pour les alertes, les virages et les commandes",
+    "settings.focusHapticPreview": "Essayer la vibration {name}",
+    "settings.voiceSet": "Voix réglée sur {name}",
+    "settings.voiceDefault": "Voix par défaut du navigateur",
+    "settings.voicePreview": "Voici comment je parlerai. Caméra activée. Tournez à gauche à l'intersection.",
+    "settings.focusVoice": "Choisir la voix pour cette langue",
+    "settings.focusVoicePreview": "Écouter la voix",
+    "settings.offlineVoice.fallback": "La voix hors ligne parlera les langues sans voix système",
+    "settings.offlineVoice.always": "La voix hors ligne dira tous les messages",
+    "settings.offlineVoice.off": "Voix hors ligne désactivée",
+    "settings.offlineVoiceDownloading": "Téléchargement de la voix hors ligne {name}, environ {size} mégaoctets",
+    "settings.offlineVoiceReady": "La voix hors ligne {name} est prête et fonctionne sans connexion",
+    "settings.offlineVoiceFailed": "La voix hors ligne {name} n'a pas pu être téléchargée. Vérifiez la connexion et réessayez.",
+    "settings.offlineVoiceRemoved": "La voix hors ligne {name} a été supprimée de cet appareil",
+    "settings.focusOfflineVoice": "Choisissez quand utiliser la voix hors ligne",
+    "settings.focusOfflineVoiceDownload": "Télécharger la voix hors ligne {name}",
+    "settings.units.auto": "Distances dans les unités habituelles de votre langue",
+    "settings.units.metric": "Distances en mètres et kilomètres",
+    "settings.units.imperial": "Distances en pieds et miles",
+    "settings.lexiconAdded": "Prononciation enregistrée. Voici comment cela sonne : {written}",
+    "settings.lexiconRemoved": "Prononciation supprimée",
+    "settings.lexiconIncomplete": "Saisissez le mot tel qu'il s'écrit et comment il doit être dit",
+    "settings.focusUnits": "Choisissez les unités des distances annoncées",
+    "settings.directionStyle.clock": "Directions en positions d'horloge",
+    "settings.directionStyle.degrees": "Directions en degrés",
+    "settings.directionStyle.sides": "Directions à gauche, au centre ou à droite",
+    "settings.focusDirectionStyle": "Choisissez comment la caméra indique où sont les objets",
+    "settings.focusLexiconWritten": "Mot ou nom tel qu'il s'écrit",
+    "settings.focusLexiconSpoken": "Comment il doit être dit",
+    "settings.focusLexiconTest": "Écouter comment sonne {spoken}",
+    "haptic.hazardAhead": "danger devant",
+    "haptic.turnLeft": "tourner à gauche",
+    "haptic.turnRight": "tourner à droite",
+    "haptic.arrived": "arrivée",
+    "haptic.commandRecognized": "commande reconnue",
+    "haptic.commandNotUnderstood": "commande non comprise",
+    "haptic.emergencyArmed": "urgence armée",
+    "recognizer.webspeech": "reconnaissance vocale du navigateur",
+    "recognizer.whisper": "Whisper hors ligne",
+    "recognizer.scripted": "démo scriptée",
+
+    "demo.detected": "{name} détecté. {description}",
+    "demo.stairs.name": "Escaliers devant",
+    "demo.stairs.description": "Simule des escaliers détectés",
+    "demo.door.name": "Porte",
+    "demo.door.description": "Simule une porte",
+    "demo.pole.name": "Poteau devant",
+    "demo.pole.description": "Simule un poteau",
+    "demo.path.name": "Chemin dégagé",
+    "demo.path.description": "Simule un chemin praticable",
+    "ocr.textFound": "Texte trouvé : {text}",
+    "ocr.failed": "Désolé, je n'ai pas pu lire le texte. Veuillez réessayer.",
+  },
+
+  terse: {
+    "voice.started": "J'écoute.",
+    "voice.stopped": "Écoute arrêtée.",
+    "voice.notRecognized": "Non reconnu.",
+    "camera.activatedLoading": "Caméra allumée. Chargement.",
+    "camera.stopped": "Caméra éteinte.",
+    "camera.nothingDetected": "Rien détecté.",
+    "camera.seeing": "{objects}.",
+    "navigation.stopped": "Navigation arrêtée.",
+    "navigation.complete": "Arrivé.",
+    "navigation.repeating": "Étape {number}. {step}",
+    "emergency.announce": "{action}.",
+    "emergency.openingSmsWithLocation": "{location}. Ouverture des messages. Appuyez sur envoyer.",
+    "emergency.permissionDenied": "Autorisation de localisation refusée.",
+    "emergency.noContacts": "Aucun contact d'urgence.",
+    "emergency.openingSmsWithHelp": "Ouverture du message d'aide. Appuyez sur envoyer.",
+    "emergency.callAnnouncement": "Appel de {name}.",
+    "emergency.911Instructions": "Restez calme. Donnez votre position et votre urgence.",
+    "emergency.cancelled": "Mode urgence désactivé.",
+    "emergency.noLocation": "Pas encore de position.",
+    "settings.rateSet": "Débit {percent}.",
+    "settings.volumeSet": "Volume {percent}.",
+    "settings.resetDone": "Paramètres réinitialisés.",
+  },
+
+  detailed: {
+    "voice.started": "Reconnaissance vocale démarrée. Parlez distinctement. Dites aide à tout moment pour entendre les commandes disponibles.",
+    "voice.stopped": "Reconnaissance vocale arrêtée. Appuyez sur le bouton du micro pour reprendre l'écoute.",
+    "voice.notRecognized": "Commande non reconnue. Dites aide pour entendre les commandes disponibles, ou répète ça pour réentendre mon dernier message.",
+    "voice.offlineStarted": "Écoute hors ligne démarrée. Parlez naturellement et marquez une pause après chaque commande. La reconnaissance se fait sur cet appareil, elle peut donc prendre un instant.",
+    "voice.offlineFallback": "Connexion perdue. Passage à l'écoute hors ligne. La reconnaissance se fait maintenant sur cet appareil et peut être un peu plus lente.",
+    "camera.activatedLoading": "Caméra activée. Chargement du modèle de détection d'objets. Le premier chargement peut prendre quelques secondes ; je commencerai à décrire les objets dès qu'il sera prêt.",
+    "camera.accessDenied": "Impossible d'accéder à la caméra. Vérifiez les autorisations. Autorisez la caméra pour ce site dans les paramètres du navigateur, puis dites à nouveau démarrer la caméra.",
+    "camera.stopped": "Caméra arrêtée. Dites démarrer la caméra pour relancer la détection d'objets.",
+    "camera.isOff": "La caméra est éteinte. Dites démarrer la caméra d'abord, puis reposez-moi la question.",
+    "camera.modelLoading": "Le modèle de détection est encore en cours de chargement. Patientez un instant ; je commencerai à décrire les objets dès qu'il sera prêt.",
+    "camera.noObjects": "Je ne vois aucun objet pour l'instant. Essayez d'orienter la caméra dans une autre direction, en tournant lentement de gauche à droite.",
+    "navigation.step1": "Bienvenue dans le mode navigation. Je vais vous guider pas à pas. Dites suivant quand vous avez terminé chaque instruction, ou répète pour la réentendre.",
+    "navigation.step2": "Tournez-vous vers l'avant et faites 5 pas tout droit. Gardez une allure régulière et confortable.",
+    "navigation.step3": "Bien ! Tournez légèrement à droite et continuez sur 10 pas. Tournez juste un peu, à peu près vers une heure.",
+    "navigation.step4": "Excellent. Marchez tout droit encore 8 pas, dans la même direction.",
+    "navigation.step5": "Tournez à gauche au croisement et avancez de 12 pas. Attendez d'être sûr que le passage est libre avant de traverser.",
+    "navigation.step6": "Très bien ! Continuez tout droit sur 6 pas.",
+    "navigation.step7": "Tournez à droite et faites 4 pas pour atteindre votre destination. Elle sera juste devant vous.",
+    "navigation.stopped": "Navigation arrêtée. Vous pouvez la relancer à tout moment en disant Hey Vision démarrer la navigation. Votre progression est revenue à la première étape.",
+    "navigation.notStarted": "La navigation n'a pas encore commencé. Dites démarrer la navigation pour commencer, ou naviguer vers suivi d'un lieu pour y être guidé.",
+    "navigation.coordinates": "Vos coordonnées actuelles sont {position}. Ouvrez le panneau d'urgence et dites partager ma position pour les envoyer à vos contacts.",
+    "navigation.locationError": "Impossible d'obtenir votre position. Vérifiez les autorisations de localisation. Autorisez la localisation pour ce site dans les paramètres du navigateur, puis réessayez.",
+    "emergency.announce": "{action}. {details}. Cela aidera les secours ou vos contacts à vous localiser et à vous aider. Dites annuler l'urgence à tout moment pour revenir au mode normal.",
+    "emergency.calling": "Appel de {name}. Votre application téléphone va s'ouvrir avec le numéro prêt.",
+    "emergency.callAnnouncement": "Appel de {name} au {number}. {description}. Votre application téléphone va s'ouvrir ; restez en ligne jusqu'à ce que quelqu'un réponde.",
+    "emergency.openingSmsWithLocation": "{location}. Ouverture de votre application de messages. Votre position et le message d'urgence sont prêts à être envoyés à vos contacts. Vérifiez puis appuyez sur envoyer. Dites répéter ma position plus tard pour réentendre ces coordonnées.",
+    "emergency.noLocation": "Aucune position n'a encore été obtenue. Utilisez le bouton Partager la position pour obtenir vos coordonnées GPS, ou dites partager ma position.",
+    "settings.rateSet": "Vitesse de parole réglée à {percent} pour cent. Dites plus vite ou plus lentement pour l'ajuster encore.",
+    "settings.volumeSet": "Volume réglé à {percent} pour cent. Dites plus fort ou moins fort pour l'ajuster encore.",
+    "settings.wakeWordOn": "Mot d'activation requis. Commencez chaque commande par Hey Vision. Si vous dites seulement Hey Vision, j'attends une commande pendant quelques secondes.",
+    "settings.wakeWordOff": "Mot d'activation désactivé. Tout ce que vous dites sera traité comme une commande, donc une conversation de fond peut déclencher des actions.",
+    "settings.countdownOn": "Les appels d'urgence partiront après {seconds} secondes sauf annulation. Dites non pendant le compte à rebours pour annuler l'appel.",
+    "settings.countdownOff": "Les appels d'urgence attendront que vous disiez oui avant de composer le numéro.",
+    "settings.resetDone": "Réglages vocaux réinitialisés. La vitesse, le volume, le niveau de détail et le mot d'activation sont revenus à leurs valeurs de départ.",
+    "camera.approaching": "{objects} se rapproche. Il grossit dans l'image de la caméra.",
+    "camera.hazardWarning": "Attention : {objects}. Cela peut être sur votre chemin.",
+  },
+
+  commands: {
+    "mode.camera": ["caméra", "mode caméra", "ouvrir [la] caméra"],
+    "mode.navigation": ["naviguer", "navigation", "mode navigation", "marcher"],
+    "navigation.destination": ["naviguer vers {place:place}", "emmène-moi à {place:place}", "itinéraire vers {place:place}"],
+    "mode.emergency": ["urgence", "mode urgence", "j'ai besoin d'aide", "au secours"],
+    "mode.settings": ["réglages", "paramètres", "ouvrir [les] réglages"],
+    "contact.call": ["appeler {contact:contact}", "appelle {contact:contact}", "téléphoner à {contact:contact}"],
+    "language.set": ["changer [la] langue en {language:language}", "langue {language:language}", "parle {language:language}"],
+    "status": ["état", "mode actuel", "quel mode"],
+    "help": ["aide", "commandes", "que puis-je dire"],
+    "listening.stop": ["arrête d'écouter", "arrête", "silence"],
+    "speech.repeat": ["qu'as-tu dit", "répète ça", "répète le dernier message", "répète", "redis-le"],
+    "speech.history": ["messages récents", "qu'as-tu dit avant"],
+    "verbosity.terse": ["sois bref", "messages courts", "moins de détails"],
+    "verbosity.normal": ["détail normal", "messages normaux"],
+    "verbosity.detailed": ["plus de détails", "messages détaillés"],
+    "camera.start": ["démarrer [la] caméra", "allumer [la] caméra"],
+    "camera.stop": ["arrêter [la] caméra", "éteindre [la] caméra", "fermer [la] caméra"],
+    "camera.analyze": ["analyser", "détecter [les] objets", "scanner"],
+    "camera.describe": ["que vois-tu", "qu'est-ce que tu vois", "décris [la] scène"],
+    "camera.repeat": ["répéter [la] description", "répète", "redis-le"],
+    "camera.distance": ["à quelle distance", "c'est loin", "distance"],
+    "camera.find": ["trouve [mon] [ma] {object:object}", "où [est] [mon] [ma] {object:object}", "cherche [mon] [ma] {object:object}", "trouve [mon] [ma] [mes] {item:text}", "où [est] [sont] [mon] [ma] [mes] {item:text}", "cherche [mon] [ma] [mes] {item:text}"],
+    "camera.stopSearch": ["arrête de chercher", "arrête la recherche", "trouvé"],
+    "navigation.start": ["démarrer [la] navigation", "commencer [le] guidage"],
+    "navigation.stop": ["arrêter [la] navigation", "terminer [la] navigation", "annuler [la] navigation"],
+    "navigation.next": ["étape suivante", "suivant", "continuer"],
+    "navigation.previous": ["étape précédente", "précédent", "retour"],
+    "navigation.repeat": ["répète", "répéter l'étape", "redis-le"],
+    "navigation.location": ["où suis-je", "position actuelle", "ma position"],
+    "emergency.share-location": ["partager [ma] position", "envoyer [ma] position"],
+    "emergency.send-help": ["envoyer de l'aide", "envoyer [un] message d'aide", "message de détresse"],
+    "emergency.repeat-location": ["répéter [ma] position", "dernière position"],
+    "settings.rate.set": ["vitesse à {rate:number}", "vitesse de parole à {rate:number}", "vitesse {rate:number}"],
+    "settings.rate.increase": ["parle plus vite", "plus vite"],
+    "settings.rate.decrease": ["parle plus lentement", "plus lentement", "moins vite"],
+    "settings.volume.set": ["volume à {volume:number}", "volume {volume:number}"],
+    "settings.volume.increase": ["monter [le] volume", "plus fort"],
+    "settings.volume.decrease": ["baisser [le] volume", "moins fort"],
+    "settings.test": ["tester [la] voix", "tester [les] réglages"],
+    "settings.erase": ["effacer toutes les données", "effacer [les] données", "supprimer [les] données"],
+    "settings.reset": ["réinitialiser [les] réglages", "valeurs par défaut"],
+  },
+  commandExamples: {
+    "camera.find": "trouve ma tasse",
+    "navigation.destination": "emmène-moi à l'arrêt de bus",
+    "contact.call": "appeler famille",
+    "language.set": "changer la langue en anglais",
+    "settings.rate.set": "vitesse à un virgule deux",
+    "settings.volume.set": "volume à cinquante",
+    "settings.erase": "effacer toutes les données",
+  },
+  contactNames: {
+    "911": ["urgences", "services d'urgence", "police", "ambulance", "pompiers"],
+    family: ["famille", "maison"],
+    friend: ["ami", "amie"],
+  },
+  languageNames: {
+    "en-US": ["anglais"],
+    "hi-IN": ["hindi"],
+    "es-ES": ["espagnol"],
+    "fr-FR": ["français"],
+    "de-DE": ["allemand"],
+  },
+  wakeVariants: {
+    "et vision": "hey vision",
+    "hé vision": "hey vision",
+    "vision guide": "vision guide",
+  },
+  yesWords: ["oui", "ouais", "d'accord", "confirmer", "confirme", "vas-y", "allez"],
+  noWords: ["non", "annuler", "annule", "attends", "arrête", "stop"],
+  numbers: {
+    words: {
+      zéro: 0, un: 1, une: 1, deux: 2, trois: 3, quatre: 4, cinq: 5, six: 6, sept: 7, huit: 8,
+      neuf: 9, dix: 10, vingt: 20, trente: 30, quarante: 40, cinquante: 50, soixante: 60,
+    },
+    hundred: ["cent"],
+    point: ["virgule", "point"],
+  },
+  objectLabels: {
+    person: ["personne", "personnes"],
+    bicycle: ["vélo", "vélos"],
+    car: ["voiture", "voitures"],
+    motorcycle: ["moto", "motos"],
+    bus: ["bus", "bus"],
+    truck: ["camion", "camions"],
+    "traffic light": ["feu de circulation", "feux de circulation"],
+    "stop sign": ["panneau stop", "panneaux stop"],
+    bench: ["banc", "bancs"],
+    dog: ["chien", "chiens"],
+    cat: ["chat", "chats"],
+    backpack: ["sac à dos", "sacs à dos"],
+    umbrella: ["parapluie", "parapluies"],
+    bottle: ["bouteille", "bouteilles"],
+    cup: ["tasse", "tasses"],
+    chair: ["chaise", "chaises"],
+    couch: ["canapé", "canapés"],
+    bed: ["lit", "lits"],
+    "dining table": ["table", "tables"],
+    tv: ["télévision", "télévisions"],
+    laptop: ["ordinateur portable", "ordinateurs portables"],
+    "cell phone": ["téléphone", "téléphones"],
+    book: ["livre", "livres"],
+    clock: ["horloge", "horloges"],
+  },
+};
+
+export default fr;
@@ -0,0 +1,520 @@
+/**
+ * Hindi language pack. Command phrases are written the way the hi-IN recognizer
+ * transcribes them, which mixes Devanagari with common English loan words.
+ */
+
+import type { LocalePack } from "@/utils/i18n";
+
+const hi: LocalePack = {
+  messages: {
+    "common.and": "और",
+    "common.or": "या",
+    "format.plus": "प्लस",
+    "format.degrees": "{value} डिग्री {direction}",
+    "format.north": "उत्तर",
+    "format.south": "दक्षिण",
+    "format.east": "पूर्व",
+    "format.west": "पश्चिम",
+    "direction.clock": "{hour} बजे की दिशा में",
+    "direction.ahead": "ठीक सामने",
+    "direction.degreesLeft": "{degrees} डिग्री बाएं",
+    "direction.degreesRight": "{degrees} डिग्री दाएं",
+    "direction.left": "बाईं ओर",
+    "direction.center": "बीच में",
+    "direction.right": "दाईं ओर",
+    "direction.withCardinal": "{direction}, {cardinal} की ओर",
+    "direction.cardinal.north": "उत्तर",
+    "direction.cardinal.northeast": "उत्तर-पूर्व",
+    "direction.cardinal.east": "पूर्व",
+    "direction.cardinal.southeast": "दक्षिण-पूर्व",
+    "direction.cardinal.south": "दक्षिण",
+    "direction.cardinal.southwest": "दक्षिण-पश्चिम",
+    "direction.cardinal.west": "पश्चिम",
+    "direction.cardinal.northwest": "उत्तर-पश्चिम",
+    "app.welcome": "विज़न गाइड में आपका स्वागत है",
+    "app.sos": "आपातकालीन बटन दबाया गया। एसओएस शुरू हो गया है।",
+    "language.supportsBoth": "{language} में आवाज़ और टेक्स्ट पहचान दोनों उपलब्ध हैं।",
+    "language.supportsTts": "{language} में केवल आवाज़ उपलब्ध है।",
+    "language.supportsOcr": "{language} में केवल टेक्स्ट पहचान उपलब्ध है।",
+    "language.supportsNone": "{language} में आवाज़ या टेक्स्ट की सुविधा उपलब्ध नहीं है।",
+    "language.offlineVoice": "{language} की कोई सिस्टम आवाज़ नहीं है, इसलिए यह ऑफ़लाइन आवाज़ में बोली जाएगी। टेक्स्ट पहचान उपलब्ध है।",
+    "language.englishCommands": "इस भाषा के लिए वॉइस कमांड का अनुवाद अभी नहीं हुआ है। कृपया अंग्रेज़ी कमांड का उपयोग करें।",
+
+    "mode.name.camera": "कैमरा",
+    "mode.name.navigation": "नेविगेशन",
+    "mode.name.emergency": "आपातकाल",
+    "mode.name.settings": "सेटिंग्स",
+
+    "voice.started": "आवाज़ पहचान शुरू। कृपया साफ़ बोलें।",
+    "voice.stopped": "आवाज़ पहचान बंद",
+    "voice.didYouMean": "क्या आपका मतलब {options} था?",
+    "voice.notRecognized": "आदेश समझ नहीं आया। उपलब्ध आदेश सुनने के लिए मदद कहें।",
+    "voice.offlineStarted": "ऑफ़लाइन सुनना शुरू। सहज बोलें और हर आदेश के बाद रुकें।",
+    "voice.offlineStopped": "ऑफ़लाइन सुनना बंद",
+    "voice.offlineFallback": "कनेक्शन टूट गया। ऑफ़लाइन सुनने पर जा रहे हैं।",
+    "speech.nothingToRepeat": "मैंने अभी तक कुछ नहीं कहा है।",
+    "transcript.copied": "आख़िरी संदेश कॉपी किया गया",
+    "transcript.copyFailed": "कॉपी नहीं हो सका। ब्राउज़र ने क्लिपबोर्ड की अनुमति नहीं दी।",
+    "transcript.nothingToCopy": "अभी कॉपी करने के लिए कुछ नहीं है",
+    "transcript.focusCopy": "आख़िरी कैप्शन क्लिपबोर्ड पर कॉपी करें",
+    "transcript.focusFilter": "{name} दिखाएँ",
+    "transcript.filter.all": "सब कुछ",
+    "transcript.filter.app": "ऐप ने कहा",
+    "transcript.filter.commands": "मेरे कमांड",
+    "transcript.filter.heard": "जो कुछ सुना गया",
+    "transcript.outcome.command": "कमांड",
+    "transcript.outcome.reply": "जवाब",
+    "transcript.outcome.not-understood": "समझ नहीं आया",
+    "transcript.outcome.ignored": "अनदेखा",
+    "transcript.fromApp": "विज़न गाइड: {text}",
+    "transcript.fromUser": "आप ({outcome}): {text}",
+    "speech.history": "हाल ही में मैंने कहा: {messages}",
+    "command.cameraActivated": "वस्तु पहचान के लिए कैमरा चालू",
+    "command.navigationActivated": "नेविगेशन मोड चालू",
+    "command.navigatingTo": "{place} के लिए नेविगेशन शुरू",
+    "command.emergencyOpened": "आपातकालीन पैनल खुला",
+    "command.settingsOpened": "सेटिंग्स पैनल खुला",
+    "command.status": "अभी {mode} मोड है। आवाज़ पहचान चालू है।",
+    "help.modeCommands": "{mode} मोड में आप कह सकते हैं: {modeCommands}। कहीं भी आप कह सकते हैं: {globalCommands}।",
+    "help.globalCommands": "आप कह सकते हैं: {globalCommands}।",
+
+    "commandCard.mode.camera": "वस्तु पहचान चालू करें",
+    "commandCard.mode.navigation": "नेविगेशन मोड शुरू करें",
+    "commandCard.navigation.destination": "किसी जगह तक मार्गदर्शन शुरू करें",
+    "commandCard.mode.emergency": "आपातकालीन पैनल खोलें",
+    "commandCard.mode.settings": "सेटिंग्स पैनल खोलें",
+    "commandCard.contact.call": "किसी आपातकालीन संपर्क को कॉल करें",
+    "commandCard.language.set": "बोलने की भाषा बदलें",
+    "commandCard.status": "मौजूदा मोड जानें",
+    "commandCard.help": "उपलब्ध कमांड सुनें",
+    "commandCard.listening.stop": "वॉइस पहचान बंद करें",
+    "commandCard.speech.repeat": "मेरी आख़िरी बात दोहराएँ",
+    "commandCard.speech.history": "मेरी पिछली कुछ बातें सुनें",
+    "commandCard.verbosity.terse": "बोले गए संदेश छोटे रखें",
+    "commandCard.verbosity.normal": "सामान्य विस्तार से बोलें",
+    "commandCard.verbosity.detailed": "बोले गए संदेशों में ज़्यादा समझाएँ",
+    "commandCard.camera.start": "वस्तु पहचान शुरू करें",
+    "commandCard.camera.stop": "कैमरा सत्र बंद करें",
+    "commandCard.camera.analyze": "मौजूदा पहचान सुनें",
+    "commandCard.camera.describe": "दृश्य का विस्तार से वर्णन सुनें",
+    "commandCard.camera.repeat": "आख़िरी वर्णन फिर से सुनें",
+    "commandCard.camera.distance": "सुनें कि सबसे पास की वस्तुएँ कितनी दूर हैं",
+    "commandCard.camera.find": "किसी वस्तु, जैसे कप, तक मार्गदर्शन पाएँ",
+    "commandCard.camera.stopSearch": "वस्तु की खोज बंद करें",
+    "commandCard.navigation.start": "चलने का मार्गदर्शन शुरू करें",
+    "commandCard.navigation.stop": "चलने का मार्गदर्शन बंद करें",
+    "commandCard.navigation.next": "अगले निर्देश पर जाएँ",
+    "commandCard.navigation.previous": "पिछले निर्देश पर लौटें",
+    "commandCard.navigation.repeat": "मौजूदा निर्देश दोहराएँ",
+    "commandCard.navigation.location": "अपना मौजूदा स्थान जानें",
+    "commandCard.emergency.share-location": "संपर्कों को GPS निर्देशांक भेजें",
+    "commandCard.emergency.send-help": "मदद का संदेश भेजें",
+    "commandCard.emergency.repeat-location": "आख़िरी GPS रीडिंग सुनें",
+    "commandCard.settings.rate.set": "बोलने की सटीक गति तय करें",
+    "commandCard.settings.rate.increase": "बोलने की गति बढ़ाएँ",
+    "commandCard.settings.rate.decrease": "बोलने की गति घटाएँ",
+    "commandCard.settings.volume.set": "सटीक आवाज़ तय करें",
+    "commandCard.settings.volume.increase": "आवाज़ बढ़ाएँ",
+    "commandCard.settings.volume.decrease": "आवाज़ घटाएँ",
+    "commandCard.settings.test": "मौजूदा सेटिंग्स जाँचें",
+    "commandCard.settings.erase": "लॉग मिटाएँ और सभी सेटिंग्स रीसेट करें",
+    "commandCard.settings.reset": "डिफ़ॉल्ट सेटिंग्स लौटाएँ",
+
+    "confirm.prompt": "{message} पुष्टि के लिए हाँ कहें या रद्द करने के लिए नहीं।",
+    "confirm.countdownPrompt": "{message} {seconds} सेकंड में अपने आप आगे बढ़ेंगे। रद्द करने के लिए नहीं कहें, या अभी आगे बढ़ने के लिए हाँ।",
+    "confirm.cancelled": "रद्द किया गया।",
+    "confirm.sayYesOrNo": "कृपया हाँ या नहीं कहें।",
+    "confirm.noAnswer": "कोई जवाब नहीं मिला। कार्य रद्द किया गया।",
+
+    "camera.activatedLoading": "कैमरा चालू। वस्तु पहचान मॉडल लोड हो रहा है...",
+    "camera.accessDenied": "कैमरा नहीं खुल सका। कृपया अनुमतियाँ जाँचें।",
+    "camera.stopped": "कैमरा बंद।",
+    "camera.notOpen": "कैमरा मोड खुला नहीं है। पहले कैमरा कहें।",
+    "camera.alreadyOff": "कैमरा पहले से बंद है।",
+    "camera.isOff": "कैमरा बंद है। पहले कैमरा शुरू करो कहें।",
+    "camera.modelLoading": "पहचान मॉडल अभी लोड हो रहा है। कृपया थोड़ा रुकें।",
+    "camera.assetModel": "पहचान मॉडल",
+    "camera.assetRuntime": "पहचान रनटाइम",
+    "camera.downloadStarted": "ऑफ़लाइन उपयोग के लिए {name} डाउनलोड हो रहा है",
+    "camera.downloadProgress": "{name} {percent} प्रतिशत डाउनलोड हुआ",
+    "camera.downloadDone": "वस्तु पहचान तैयार है और अब ऑफ़लाइन भी काम करेगी",
+    "camera.loadError.offline": "वस्तु पहचान अभी ऑफ़लाइन उपलब्ध नहीं है। मॉडल डाउनलोड करने के लिए एक बार इंटरनेट से जुड़ें।",
+    "camera.loadError.integrity": "पहचान मॉडल सुरक्षा जाँच में विफल रहा और इस्तेमाल नहीं किया गया। कृपया बाद में फिर कोशिश करें।",
+    "camera.loadError.http": "पहचान मॉडल सर्वर से डाउनलोड नहीं हो सका।",
+    "camera.loadError.failed": "इस डिवाइस पर पहचान मॉडल शुरू नहीं हो सका।",
+    "camera.noDescription": "मैंने अभी तक कुछ नहीं बताया है।",
+    "camera.analyzing": "जाँच रहा हूँ। {description}",
+    "camera.nothingDetected": "अभी कोई वस्तु नहीं दिख रही।",
+    "camera.noObjects": "मुझे अभी कोई वस्तु नहीं दिख रही। कैमरा किसी और दिशा में घुमाएँ।",
+    "camera.seeing": "मुझे {objects} दिख रहे हैं।",
+    "camera.appeared": "नया: {objects}।",
+    "camera.disappeared": "अब दिखाई नहीं दे रहा: {objects}।",
+    "camera.approaching": "{objects} पास आ रहा है।",
+    "camera.hazardImminent": "रुकिए! {objects}।",
+    "camera.hazardWarning": "सावधान: {objects}।",
+    "camera.objectAt": "{object} {position}",
+    "camera.distanceAbout": "लगभग {distance}",
+    "camera.distanceWithin": "{distance} के अंदर",
+    "camera.distanceUnknown": "मैं इन वस्तुओं की दूरी का अनुमान नहीं लगा सकता।",
+    "camera.searchStarted": "{object} ढूँढ रहे हैं। धीरे-धीरे घूमिए; पास आने पर बीप तेज़ होगी।",
+    "camera.unknownObject": "मैं {object} नहीं ढूँढ सकता। मैं कप, बोतल, कुर्सी या फ़ोन जैसी रोज़ की चीज़ें ढूँढ सकता हूँ।",
+    "camera.searchSpotted": "{object} दिख गया। {hint}",
+    "camera.searchHint.left": "बाएँ घुमाइए।",
+    "camera.searchHint.right": "दाएँ घुमाइए।",
+    "camera.searchHint.up": "ऊपर कीजिए।",
+    "camera.searchHint.down": "नीचे कीजिए।",
+    "camera.searchHint.closer": "सीधे आगे। पास जाइए।",
+    "camera.searchHint.inFront": "{object} ठीक कैमरे के सामने है।",
+    "camera.searchLost": "{object} नज़र से हट गया। फिर से ढूँढने के लिए धीरे-धीरे घूमिए।",
+    "camera.searchStopped": "{object} की खोज बंद।",
+    "camera.notSearching": "अभी कुछ नहीं ढूँढ रहे।",
+    "camera.focusStopSearch": "खोज बंद करें",
+    "camera.calibrated": "कैमरा कैलिब्रेट हो गया। दृश्य क्षेत्र {degrees} डिग्री।",
+    "camera.calibrationFailed": "यह माप सही नहीं लगता। ऊंचाई और दूरी जांचें, और पूरी वस्तु को दृश्य में रखें।",
+    "camera.calibrationNoReference": "पहले मापने के लिए दृश्य में कोई वस्तु चुनें।",
+    "camera.calibrationReset": "दूरी के लिए सामान्य फ़ोन कैमरा उपयोग हो रहा है।",
+    "camera.focusCalibrationReference": "कैलिब्रेशन के लिए संदर्भ वस्तु",
+    "camera.focusCalibrationHeight": "संदर्भ वस्तु की ऊंचाई सेंटीमीटर में",
+    "camera.focusCalibrationDistance": "संदर्भ वस्तु की दूरी मीटर में",
+    "camera.focusCalibrate": "दूरी कैलिब्रेट करें",
+    "camera.focusCalibrationReset": "कैलिब्रेशन की जगह सामान्य कैमरा उपयोग करें",
+    "camera.focusStart": "कैमरा शुरू करें",
+    "camera.focusStop": "कैमरा बंद करें",
+
+    "navigation.step1": "नेविगेशन मोड में आपका स्वागत है। मैं आपको कदम दर कदम रास्ता बताऊँगा।",
+    "navigation.step2": "सामने की ओर मुँह करें और 5 कदम सीधे चलें।",
+    "navigation.step3": "बढ़िया! अब थोड़ा दाएँ मुड़ें और 10 कदम चलते रहें।",
+    "navigation.step4": "बहुत अच्छे। 8 कदम और सीधे चलें।",
+    "navigation.step5": "चौराहे पर बाएँ मुड़ें और 12 कदम आगे चलें।",
+    "navigation.step6": "आप बहुत अच्छा कर रहे हैं! 6 कदम सीधे चलते रहें।",
+    "navigation.step7": "दाएँ मुड़ें और अपनी मंज़िल तक पहुँचने के लिए 4 कदम चलें।",
+    "navigation.step8": "बधाई हो! आप सुरक्षित अपनी मंज़िल पर पहुँच गए हैं।",
+    "navigation.destination": "आपकी मंज़िल {destination} है।",
+    "navigation.stopped": "नेविगेशन बंद। आप कभी भी हे विज़न नेविगेशन शुरू करो कहकर फिर से शुरू कर सकते हैं।",
+    "navigation.complete": "नेविगेशन पूरा! आप अपनी मंज़िल पर पहुँच गए हैं।",
+    "navigation.goingBack": "एक कदम पीछे। {step}",
+    "navigation.firstStep": "यह पहला कदम है। {step}",
+    "navigation.repeating": "कदम {number} दोहरा रहा हूँ। {step}",
+    "navigation.notStarted": "नेविगेशन अभी शुरू नहीं हुआ है। शुरू करने के लिए नेविगेशन शुरू करो कहें।",
+    "navigation.notOpen": "नेविगेशन मोड खुला नहीं है। पहले नेविगेशन कहें।",
+    "navigation.gettingLocation": "आपकी वर्तमान जगह पता कर रहा हूँ...",
+    "navigation.coordinates": "आपके निर्देशांक हैं {position}",
+    "navigation.locationError": "आपकी जगह पता नहीं चल सकी। कृपया लोकेशन अनुमति जाँचें।",
+    "navigation.locationUnavailable": "इस डिवाइस पर लोकेशन सेवा उपलब्ध नहीं है।",
+    "navigation.focusStart": "नेविगेशन शुरू करें",
+    "navigation.focusStop": "नेविगेशन बंद करें",
+    "navigation.focusLocation": "वर्तमान जगह जानें",
+
+    "emergency.notOpen": "आपातकालीन पैनल खुला नहीं है। पहले इमरजेंसी कहें।",
+    "emergency.callConfirm": "{name} को कॉल करें?",
+    "emergency.calling": "{name} को कॉल कर रहे हैं",
+    "emergency.announce": "{action}। {details}। इससे आपातकालीन सेवाएँ या आपके संपर्क आपको ढूँढकर मदद कर सकेंगे।",
+    "emergency.contact.911.name": "आपातकालीन सेवाएँ",
+    "emergency.contact.911.description": "पुलिस, फ़ायर, मेडिकल इमरजेंसी - जान के ख़तरे में तुरंत कॉल करें",
+    "emergency.contact.911.focus": "आपातकालीन सेवाएँ - {number}। पुलिस, फ़ायर या मेडिकल इमरजेंसी के लिए तुरंत कॉल करने हेतु एंटर दबाएँ।",
+    "emergency.contact.family.name": "परिवार",
+    "emergency.contact.family.description": "मुख्य पारिवारिक आपातकालीन संपर्क - आपका भरोसेमंद परिवार सदस्य",
+    "emergency.contact.family.focus": "परिवार। अपने मुख्य पारिवारिक संपर्क को {number} पर कॉल करने के लिए एंटर दबाएँ।",
+    "emergency.contact.friend.name": "भरोसेमंद दोस्त",
+    "emergency.contact.friend.description": "मदद कर सकने वाला दोस्त - आपका आपातकालीन सहायक",
+    "emergency.contact.friend.focus": "भरोसेमंद दोस्त। अपने दोस्त को {number} पर कॉल करने के लिए एंटर दबाएँ।",
+    "emergency.action.location.name": "मेरी जगह भेजें",
+    "emergency.action.location.focus": "जगह भेजें। अपने जीपीएस निर्देशांक संदेश द्वारा आपातकालीन संपर्कों को भेजने के लिए एंटर दबाएँ।",
+    "emergency.action.text.name": "मदद संदेश भेजें",
+    "emergency.action.text.focus": "मदद संदेश भेजें। आपातकालीन संपर्कों को मदद का संदेश भेजने के लिए एंटर दबाएँ।",
+    "emergency.locationNotSupported": "इस डिवाइस पर जगह भेजना संभव नहीं है। कृपया जीपीएस वाला कोई और डिवाइस या ब्राउज़र आज़माएँ।",
+    "emergency.sharingLocation": "जगह भेज रहे हैं",
+    "emergency.gettingPosition": "आपकी वर्तमान जीपीएस स्थिति ली जा रही है",
+    "emergency.locationAcquired": "जगह मिल गई। {position}",
+    "emergency.shareLocationConfirm": "अपनी जगह आपातकालीन संपर्कों को भेजें?",
+    "emergency.openingSmsWithLocation": "{location}। संदेश ऐप खुल रहा है। आपकी जगह के साथ आपातकालीन संदेश तैयार है। कृपया जाँचकर भेजें दबाएँ।",
+    "emergency.permissionDenied": "लोकेशन अनुमति नहीं मिली। कृपया ब्राउज़र सेटिंग्स में इस वेबसाइट के लिए लोकेशन की अनुमति दें, फिर पेज रीफ़्रेश करके दोबारा कोशिश करें।",
+    "emergency.positionUnavailable": "आपकी जगह पता नहीं चल सकी। खिड़की के पास या बाहर जाकर बेहतर जीपीएस सिग्नल में दोबारा कोशिश करें।",
+    "emergency.locationTimeout": "10 सेकंड में जगह नहीं मिली। इंटरनेट कनेक्शन जाँचकर दोबारा कोशिश करें।",
+    "emergency.locationUnknownError": "जगह लेते समय अनपेक्षित गड़बड़ी हुई। थोड़ी देर बाद कोशिश करें, या ज़रूरी हो तो सीधे आपातकालीन सेवाओं को कॉल करें।",
+    "emergency.locationSharingFailed": "जगह भेजते समय अनपेक्षित गड़बड़ी हुई। ज़रूरी हो तो सीधे आपातकालीन सेवाओं को कॉल करें।",
+    "emergency.noContacts": "कोई आपातकालीन संपर्क सेट नहीं है। इस सुविधा के लिए संपर्क नंबर जोड़ें, या सीधे आपातकालीन सेवाओं को कॉल करें।",
+    "emergency.sendHelpConfirm": "आपातकालीन संपर्कों को मदद संदेश भेजें?",
+    "emergency.sendHelpDetail": "संदेश ऐप पहले से लिखे मदद संदेश के साथ खुलेगा।",
+    "emergency.sendingHelp": "मदद संदेश भेज रहे हैं",
+    "emergency.preparingMessage": "आपके संपर्कों के लिए आपातकालीन संदेश तैयार हो रहा है",
+    "emergency.openingSmsWithHelp": "पहले से लिखे आपातकालीन संदेश के साथ संदेश ऐप खुल रहा है। संदेश बताता है कि आपको मदद चाहिए। कृपया जाँचकर भेजें दबाएँ।",
+    "emergency.smsError": "संदेश ऐप नहीं खुल सका। कृपया अपने संपर्कों को ख़ुद संदेश भेजें, या ज़रूरी हो तो सीधे कॉल करें।",
+    "emergency.callAnnouncement": "{name} को {number} पर कॉल कर रहे हैं। {description}",
+    "emergency.911Instructions": "आपातकालीन कॉल शुरू। जुड़ने पर शांत रहें, साफ़ बोलें, और अपनी जगह व समस्या बताएँ। कहे जाने तक फ़ोन न काटें।",
+    "emergency.cancelled": "आपातकालीन मोड रद्द। आप सामान्य मोड में हैं। सभी आपातकालीन सुविधाएँ उपलब्ध रहेंगी।",
+    "emergency.lastLocation": "आख़िरी जगह ({time}): {location}। यह आपकी सबसे हाल की जीपीएस स्थिति है।",
+    "emergency.noLocation": "अभी तक कोई जगह नहीं ली गई है। जीपीएस निर्देशांक लेने के लिए जगह भेजें बटन का उपयोग करें।",
+    "emergency.focusCancel": "आपातकालीन मोड रद्द करें। सामान्य मोड में लौटने के लिए एंटर दबाएँ।",
+    "emergency.focusRepeat": "आख़िरी जगह दोहराएँ। हाल के जीपीएस निर्देशांक सुनने के लिए एंटर दबाएँ।",
+
+    "settings.rateSet": "बोलने की गति {percent} प्रतिशत",
+    "settings.volumeSet": "आवाज़ {percent} प्रतिशत",
+    "settings.pitchAdjusted": "आवाज़ की पिच बदली गई",
+    "settings.wakeWordOn": "वेक वर्ड ज़रूरी। हर आदेश हे विज़न से शुरू करें।",
+    "settings.wakeWordOff": "वेक वर्ड बंद। हर बात आदेश मानी जाएगी।",
+    "settings.commandWindow": "आदेश का समय {seconds} सेकंड",
+    "settings.countdownOn": "आपातकालीन कॉल {seconds} सेकंड बाद अपने आप होगी, जब तक रद्द न करें",
+    "settings.countdownOff": "आपातकालीन कॉल आपके हाँ कहने का इंतज़ार करेगी",
+    "settings.testMessage": "यह आपकी आवाज़ सेटिंग्स की जाँच है। आप बोलने की गति, पिच और आवाज़ अपनी पसंद से बदल सकते हैं।",
+    "settings.resetDone": "आवाज़ सेटिंग्स डिफ़ॉल्ट पर लौटाई गईं",
+    "settings.eraseConfirm": "ऐप का सारा डेटा मिटाएँ?",
+    "settings.eraseDetail": "इससे गतिविधि लॉग मिट जाएँगे और सभी सेटिंग्स डिफ़ॉल्ट हो जाएँगी।",
+    "settings.eraseDone": "ऐप का सारा डेटा मिटा दिया गया। सेटिंग्स डिफ़ॉल्ट पर लौटाई गईं।",
+    "settings.focusSlower": "बोलने की गति कम करें",
+    "settings.focusFaster": "बोलने की गति बढ़ाएँ",
+    "settings.focusQuieter": "आवाज़ कम करें",
+    "settings.focusLouder": "आवाज़ बढ़ाएँ",
+    "settings.focusTest": "आवाज़ सेटिंग्स जाँचें",
+    "settings.focusReset": "डिफ़ॉल्ट सेटिंग्स पर लौटें",
+    "settings.focusWakeWord": "आदेश से पहले वेक वर्ड ज़रूरी करें",
+    "settings.focusEmergencyAutoCall": "उलटी गिनती के बाद आपातकालीन सेवा को अपने आप कॉल करें",
+    "settings.focusErase": "ऐप का सारा डेटा मिटाएँ",
+    "settings.recognizerSet": "आवाज़ पहचान {name} पर सेट",
+    "settings.whisperModelSet": "ऑफ़लाइन आवाज़ मॉडल {name} पर सेट",
+    "settings.whisperModelAuto": "ऑफ़लाइन आवाज़ मॉडल अपने आप चुना जाएगा",
+    "settings.focusRecognizer": "आवाज़ पहचान चुनें",
+    "settings.verbosity.terse": "छोटे संदेश।",
+    "settings.verbosity.normal": "अब से सामान्य संदेश।",
+    "settings.verbosity.detailed": "अब से विस्तृत संदेश। मैं बताऊँगा कि क्या हो रहा है और आप आगे क्या कह सकते हैं।",
+    "settings.focusVerbosity": "बोले गए संदेशों में कितना विवरण हो, चुनें",
+    "settings.earconsOn": "वस्तु ध्वनियाँ चालू। हर वस्तु उसी दिशा से सुनाई देगी जहाँ वह है।",
+    "settings.earconsOff": "वस्तु ध्वनियाँ बंद। बोलने पर कोई असर नहीं।",
+    "settings.focusEarcons": "पहचानी गई वस्तुओं के लिए ध्वनि चलाएँ",
+    "settings.focusEarconPreview": "वस्तु ध्वनियाँ सुनें",
+    "settings.hapticsOn": "कंपन चालू।",
+    "settings.hapticsOff": "कंपन बंद।",
+    "settings.hapticsUnsupported": "यह डिवाइस कंपन नहीं कर सकता।",
+    "settings.hapticPatternSaved": "{name} पैटर्न सहेजा गया",
+    "settings.hapticPatternReset": "{name} पैटर्न डिफ़ॉल्ट पर लौटाया गया",
+    "settings.hapticPatternInvalid": "यह पैटर्न सही नहीं है। कंपन और विराम की अवधि मिलीसेकंड में, अल्पविराम से अलग करके लिखें।",
+    "settings.focusHaptics": "चेतावनी, मोड़ और कमांड के लिए कंपन",
+    "settings.focusHapticPreview": "{name} कंपन महसूस करें",
+    "settings.voiceSet": "आवाज़ {name} चुनी गई",
+    "settings.voiceDefault": "ब्राउज़र की डिफ़ॉल्ट आवाज़ इस्तेमाल हो रही है",
+    "settings.voicePreview": "मैं ऐसे सुनाई दूँगा। कैमरा चालू। चौराहे पर बाएँ मुड़ें।",
+    "settings.focusVoice": "इस भाषा के लिए आवाज़ चुनें",
+    "settings.focusVoicePreview": "आवाज़ सुनें",
+    "settings.offlineVoice.fallback": "जिन भाषाओं की सिस्टम आवाज़ नहीं है, उन्हें ऑफ़लाइन आवाज़ बोलेगी",
+    "settings.offlineVoice.always": "हर संदेश ऑफ़लाइन आवाज़ बोलेगी",
+    "settings.offlineVoice.off": "ऑफ़लाइन आवाज़ बंद",
+    "settings.offlineVoiceDownloading": "{name} ऑफ़लाइन आवाज़ डाउनलोड हो रही है, लगभग {size} मेगाबाइट",
+    "settings.offlineVoiceReady": "{name} ऑफ़लाइन आवाज़ तैयार है और बिना इंटरनेट के काम करती है",
+    "settings.offlineVoiceFailed": "{name} ऑफ़लाइन आवाज़ डाउनलोड नहीं हो सकी। कनेक्शन जाँचकर फिर कोशिश करें।",
+    "settings.offlineVoiceRemoved": "{name} ऑफ़लाइन आवाज़ इस डिवाइस से हटा दी गई",
+    "settings.focusOfflineVoice": "चुनें कि ऑफ़लाइन आवाज़ कब इस्तेमाल हो",
+    "settings.focusOfflineVoiceDownload": "{name} ऑफ़लाइन आवाज़ डाउनलोड करें",
+    "settings.units.auto": "दूरी आपकी भाषा की सामान्य इकाइयों में",
+    "settings.units.metric": "दूरी मीटर और किलोमीटर में",
+    "settings.units.imperial": "दूरी फ़ीट और मील में",
+    "settings.lexiconAdded": "उच्चारण सहेजा गया। अब यह ऐसे सुनाई देता है: {written}",
+    "settings.lexiconRemoved": "उच्चारण हटाया गया",
+    "settings.lexiconIncomplete": "लिखा हुआ शब्द और उसे कैसे बोलना है, दोनों दर्ज करें",
+    "settings.focusUnits": "बोली जाने वाली दूरी की इकाइयाँ चुनें",
+    "settings.directionStyle.clock": "दिशाएँ घड़ी की स्थिति में",
+    "settings.directionStyle.degrees": "दिशाएँ डिग्री में",
+    "settings.directionStyle.sides": "दिशाएँ बाएं, बीच या दाएं",
+    "settings.focusDirectionStyle": "चुनें कि कैमरा वस्तुओं की जगह कैसे बताए",
+    "settings.focusLexiconWritten": "जैसा लिखा है वैसा शब्द या नाम",
+    "settings.focusLexiconSpoken": "इसे कैसे बोलना है",
+    "settings.focusLexiconTest": "सुनें कि {spoken} कैसा लगता है",
+    "haptic.hazardAhead": "आगे खतरा",
+    "haptic.turnLeft": "बाएँ मुड़ें",
+    "haptic.turnRight": "दाएँ मुड़ें",
+    "haptic.arrived": "पहुँच गए",
+    "haptic.commandRecognized": "कमांड पहचाना गया",
+    "haptic.commandNotUnderstood": "कमांड समझ नहीं आया",
+    "haptic.emergencyArmed": "आपातकाल तैयार",
+    "recognizer.webspeech": "ब्राउज़र आवाज़ पहचान",
+    "recognizer.whisper": "ऑफ़लाइन व्हिस्पर",
+    "recognizer.scripted": "स्क्रिप्टेड डेमो",
+
+    "demo.detected": "{name} मिला। {description}",
+    "demo.stairs.name": "आगे सीढ़ियाँ",
+    "demo.stairs.description": "सीढ़ियों का अनुकरण",
+    "demo.door.name": "दरवाज़ा",
+    "demo.door.description": "दरवाज़े का अनुकरण",
+    "demo.pole.name": "आगे खंभा",
+    "demo.pole.description": "खंभे जैसी रुकावट का अनुकरण",
+    "demo.path.name": "रास्ता साफ़",
+    "demo.path.description": "चलने लायक रास्ते का अनुकरण",
+    "ocr.textFound": "लिखा है: {text}",
+    "ocr.failed": "माफ़ कीजिए, मैं लिखावट नहीं पढ़ सका। कृपया दोबारा कोशिश करें।",
+  },
+
+  terse: {
+    "voice.started": "सुन रहा हूँ।",
+    "voice.stopped": "सुनना बंद।",
+    "voice.notRecognized": "पहचाना नहीं गया।",
+    "camera.activatedLoading": "कैमरा चालू। लोड हो रहा है।",
+    "camera.stopped": "कैमरा बंद।",
+    "camera.nothingDetected": "कुछ नहीं मिला।",
+    "camera.seeing": "{objects}।",
+    "navigation.stopped": "नेविगेशन बंद।",
+    "navigation.complete": "पहुँच गए।",
+    "navigation.repeating": "चरण {number}। {step}",
+    "emergency.announce": "{action}।",
+    "emergency.openingSmsWithLocation": "{location}। संदेश ऐप खुल रहा है। भेजें दबाएँ।",
+    "emergency.permissionDenied": "स्थान की अनुमति नहीं मिली।",
+    "emergency.noContacts": "कोई आपातकालीन संपर्क नहीं।",
+    "emergency.openingSmsWithHelp": "मदद संदेश खुल रहा है। भेजें दबाएँ।",
+    "emergency.callAnnouncement": "{name} को कॉल कर रहे हैं।",
+    "emergency.911Instructions": "शांत रहें। अपना स्थान और आपात स्थिति बताएँ।",
+    "emergency.cancelled": "आपातकालीन मोड बंद।",
+    "emergency.noLocation": "अभी कोई स्थान नहीं।",
+    "settings.rateSet": "गति {percent}।",
+    "settings.volumeSet": "आवाज़ {percent}।",
+    "settings.resetDone": "सेटिंग्स रीसेट।",
+  },
+
+  detailed: {
+    "voice.started": "आवाज़ पहचान शुरू। कृपया साफ़ बोलें। उपलब्ध आदेश सुनने के लिए कभी भी मदद कहें।",
+    "voice.stopped": "आवाज़ पहचान बंद। फिर से सुनना शुरू करने के लिए माइक्रोफ़ोन बटन दबाएँ।",
+    "voice.notRecognized": "आदेश समझ नहीं आया। उपलब्ध आदेश सुनने के लिए मदद कहें, या मेरा आख़िरी संदेश फिर से सुनने के लिए फिर से बोलो कहें।",
+    "voice.offlineStarted": "ऑफ़लाइन सुनना शुरू। सहज बोलें और हर आदेश के बाद रुकें। पहचान इसी डिवाइस पर होती है, इसलिए थोड़ा समय लग सकता है।",
+    "voice.offlineFallback": "कनेक्शन टूट गया। ऑफ़लाइन सुनने पर जा रहे हैं। अब पहचान इसी डिवाइस पर होगी और थोड़ी धीमी हो सकती है।",
+    "camera.activatedLoading": "कैमरा चालू। वस्तु पहचान मॉडल लोड हो रहा है। पहली बार लोड होने में कुछ सेकंड लग सकते हैं; तैयार होते ही मैं वस्तुओं के बारे में बताना शुरू करूँगा।",
+    "camera.accessDenied": "कैमरा नहीं खुल सका। कृपया अनुमतियाँ जाँचें। ब्राउज़र सेटिंग्स में इस वेबसाइट को कैमरा की अनुमति दें, फिर से कैमरा शुरू करो कहें।",
+    "camera.stopped": "कैमरा बंद। वस्तु पहचान फिर से शुरू करने के लिए कैमरा शुरू करो कहें।",
+    "camera.isOff": "कैमरा बंद है। पहले कैमरा शुरू करो कहें, फिर मुझसे दोबारा पूछें।",
+    "camera.modelLoading": "पहचान मॉडल अभी लोड हो रहा है। कृपया थोड़ा रुकें; तैयार होते ही मैं वस्तुओं के बारे में बताना शुरू करूँगा।",
+    "camera.noObjects": "मुझे अभी कोई वस्तु नहीं दिख रही। कैमरा धीरे-धीरे बाएँ से दाएँ घुमाकर किसी और दिशा में करें।",
+    "navigation.step1": "नेविगेशन मोड में आपका स्वागत है। मैं आपको कदम दर कदम रास्ता बताऊँगा। हर निर्देश पूरा होने पर अगला कहें, या उसे फिर से सुनने के लिए दोहराओ कहें।",
+    "navigation.step2": "सामने की ओर मुँह करें और 5 कदम सीधे चलें। एक जैसी, आरामदायक रफ़्तार रखें।",
+    "navigation.step3": "बढ़िया! अब थोड़ा दाएँ मुड़ें और 10 कदम चलते रहें। बस थोड़ा सा मुड़ें, लगभग एक बजे की दिशा तक।",
+    "navigation.step4": "बहुत अच्छे। उसी दिशा में 8 कदम और सीधे चलें।",
+    "navigation.step5": "चौराहे पर बाएँ मुड़ें और 12 कदम आगे चलें। पार करने से पहले पक्का कर लें कि रास्ता साफ़ है।",
+    "navigation.step6": "आप बहुत अच्छा कर रहे हैं! 6 कदम सीधे चलते रहें।",
+    "navigation.step7": "दाएँ मुड़ें और अपनी मंज़िल तक पहुँचने के लिए 4 कदम चलें। वह ठीक आपके सामने होगी।",
+    "navigation.stopped": "नेविगेशन बंद। आप कभी भी हे विज़न नेविगेशन शुरू करो कहकर फिर से शुरू कर सकते हैं। आपकी प्रगति पहले कदम पर लौटा दी गई है।",
+    "navigation.notStarted": "नेविगेशन अभी शुरू नहीं हुआ है। शुरू करने के लिए नेविगेशन शुरू करो कहें, या किसी जगह का नाम लेकर ले चलो कहें।",
+    "navigation.coordinates": "आपके निर्देशांक हैं {position}। इन्हें अपने संपर्कों को भेजने के लिए आपातकालीन पैनल खोलें और लोकेशन भेजो कहें।",
+    "navigation.locationError": "आपकी जगह पता नहीं चल सकी। कृपया लोकेशन अनुमति जाँचें। ब्राउज़र सेटिंग्स में इस वेबसाइट को लोकेशन की अनुमति दें, फिर दोबारा कोशिश करें।",
+    "emergency.announce": "{action}। {details}। इससे आपातकालीन सेवाएँ या आपके संपर्क आपको ढूँढकर मदद कर सकेंगे। सामान्य मोड पर लौटने के लिए कभी भी आपातकाल रद्द करो कहें।",
+    "emergency.calling": "{name} को कॉल कर रहे हैं। आपका फ़ोन ऐप नंबर के साथ खुलेगा।",
+    "emergency.callAnnouncement": "{name} को {number} पर कॉल कर रहे हैं। {description}। आपका फ़ोन ऐप खुलेगा; कोई जवाब दे तब तक लाइन पर बने रहें।",
+    "emergency.openingSmsWithLocation": "{location}। संदेश ऐप खुल रहा है। आपकी जगह के साथ आपातकालीन संदेश आपके संपर्कों को भेजने के लिए तैयार है। कृपया जाँचकर भेजें दबाएँ। ये निर्देशांक बाद में फिर सुनने के लिए जगह दोहराओ कहें।",
+    "emergency.noLocation": "अभी तक कोई जगह नहीं ली गई है। जीपीएस निर्देशांक लेने के लिए जगह भेजें बटन का उपयोग करें, या लोकेशन भेजो कहें।",
+    "settings.rateSet": "बोलने की गति {percent} प्रतिशत। इसे और बदलने के लिए तेज़ बोलो या धीरे बोलो कहें।",
+    "settings.volumeSet": "आवाज़ {percent} प्रतिशत। इसे और बदलने के लिए आवाज़ बढ़ाओ या आवाज़ कम करो कहें।",
+    "settings.wakeWordOn": "वेक वर्ड ज़रूरी। हर आदेश हे विज़न से शुरू करें। सिर्फ़ हे विज़न कहने पर मैं कुछ सेकंड तक आदेश का इंतज़ार करूँगा।",
+    "settings.wakeWordOff": "वेक वर्ड बंद। हर बात आदेश मानी जाएगी, इसलिए आसपास की बातचीत से भी कोई काम हो सकता है।",
+    "settings.countdownOn": "आपातकालीन कॉल {seconds} सेकंड बाद अपने आप होगी, जब तक रद्द न करें। कॉल रद्द करने के लिए उलटी गिनती के दौरान नहीं कहें।",
+    "settings.countdownOff": "आपातकालीन कॉल नंबर मिलाने से पहले आपके हाँ कहने का इंतज़ार करेगी।",
+    "settings.resetDone": "आवाज़ सेटिंग्स डिफ़ॉल्ट पर लौटाई गईं। बोलने की गति, आवाज़, विस्तार और वेक वर्ड की सेटिंग्स पहले जैसी हो गई हैं।",
+    "camera.approaching": "{objects} पास आ रहा है। कैमरा में यह बड़ा होता जा रहा है।",
+    "camera.hazardWarning": "सावधान: {objects}। यह आपके रास्ते में हो सकता है।",
+  },
+
+  commands: {
+    "mode.camera": ["कैमरा", "कैमरा मोड", "कैमरा खोलो"],
+    "mode.navigation": ["नेविगेशन", "नेविगेशन मोड", "रास्ता बताओ"],
+    "navigation.destination": ["{place:place} ले चलो", "{place:place} का रास्ता बताओ", "{place:place} तक ले चलो"],
+    "mode.emergency": ["इमरजेंसी", "आपातकाल", "मदद चाहिए", "बचाओ"],
+    "mode.settings": ["सेटिंग्स", "सेटिंग्स खोलो"],
+    "contact.call": ["{contact:contact} को कॉल करो", "{contact:contact} को फ़ोन करो", "कॉल {contact:contact}"],
+    "language.set": ["भाषा {language:language} करो", "{language:language} में बोलो", "भाषा बदलो {language:language}"],
+    "status": ["स्थिति", "कौन सा मोड", "अभी कौन सा मोड है"],
+    "help": ["मदद", "आदेश बताओ", "मैं क्या कह सकता हूँ"],
+    "listening.stop": ["सुनना बंद करो", "चुप हो जाओ", "रुको"],
+    "speech.repeat": ["तुमने क्या कहा", "फिर से बोलो", "दोबारा बोलो", "दोहराओ"],
+    "speech.history": ["पिछले संदेश", "पहले क्या कहा"],
+    "verbosity.terse": ["छोटा बोलो", "छोटे संदेश", "कम विवरण"],
+    "verbosity.normal": ["सामान्य विवरण", "सामान्य संदेश"],
+    "verbosity.detailed": ["ज़्यादा विवरण", "विस्तार से बोलो", "विस्तृत संदेश"],
+    "camera.start": ["कैमरा शुरू करो", "कैमरा चालू करो"],
+    "camera.stop": ["कैमरा बंद करो"],
+    "camera.analyze": ["जाँच करो", "वस्तुएँ पहचानो", "स्कैन करो"],
+    "camera.describe": ["क्या दिख रहा है", "तुम्हें क्या दिख रहा है", "दृश्य बताओ"],
+    "camera.repeat": ["फिर से बताओ", "दोहराओ", "दोबारा बोलो"],
+    "camera.distance": ["कितनी दूर है", "कितनी दूर", "दूरी"],
+    "camera.find": ["[मेरा] {object:object} ढूँढो", "[मेरा] {object:object} कहाँ है", "[मेरा] [मेरी] {item:text} ढूँढो", "[मेरा] [मेरी] {item:text} कहाँ है"],
+    "camera.stopSearch": ["खोज बंद करो", "ढूँढना बंद करो", "मिल गया"],
+    "navigation.start": ["नेविगेशन शुरू करो", "रास्ता शुरू करो"],
+    "navigation.stop": ["नेविगेशन बंद करो", "नेविगेशन रोको"],
+    "navigation.next": ["अगला कदम", "अगला", "आगे"],
+    "navigation.previous": ["पिछला कदम", "पिछला", "पीछे जाओ"],
+    "navigation.repeat": ["दोहराओ", "कदम दोहराओ", "दोबारा बोलो"],
+    "navigation.location": ["मैं कहाँ हूँ", "मेरी जगह", "वर्तमान जगह"],
+    "emergency.share-location": ["मेरी जगह भेजो", "लोकेशन भेजो", "लोकेशन शेयर करो"],
+    "emergency.send-help": ["मदद संदेश भेजो", "मदद भेजो"],
+    "emergency.repeat-location": ["जगह दोहराओ", "आख़िरी जगह"],
+    "settings.rate.set": ["गति {rate:number} करो", "बोलने की गति {rate:number}"],
+    "settings.rate.increase": ["तेज़ बोलो", "गति बढ़ाओ"],
+    "settings.rate.decrease": ["धीरे बोलो", "गति कम करो"],
+    "settings.volume.set": ["आवाज़ {volume:number} करो", "वॉल्यूम {volume:number}"],
+    "settings.volume.increase": ["आवाज़ बढ़ाओ", "ज़ोर से बोलो"],
+    "settings.volume.decrease": ["आवाज़ कम करो", "धीमी आवाज़"],
+    "settings.test": ["आवाज़ जाँचो", "सेटिंग्स जाँचो"],
+    "settings.erase": ["सारा डेटा मिटाओ", "डेटा मिटाओ"],
+    "settings.reset": ["सेटिंग्स रीसेट करो", "डिफ़ॉल्ट करो"],
+  },
+  commandExamples: {
+    "camera.find": "मेरा कप ढूँढो",
+    "navigation.destination": "बस स्टॉप ले चलो",
+    "contact.call": "परिवार को कॉल करो",
+    "language.set": "भाषा अंग्रेज़ी करो",
+    "settings.rate.set": "गति एक दशमलव दो करो",
+    "settings.volume.set": "आवाज़ अस्सी करो",
+  },
+  contactNames: {
+    "911": ["आपातकालीन सेवा", "पुलिस", "एंबुलेंस", "इमरजेंसी", "नौ एक एक"],
+    family: ["परिवार", "घर", "घरवाले"],
+    friend: ["दोस्त", "मित्र"],
+  },
+  languageNames: {
+    "en-US": ["अंग्रेज़ी", "इंग्लिश"],
+    "hi-IN": ["हिंदी"],
+    "es-ES": ["स्पैनिश"],
+    "fr-FR": ["फ़्रेंच"],
+    "de-DE": ["जर्मन"],
+  },
+  wakeVariants: {
+    "हे विज़न": "hey vision",
+    "हे विजन": "hey vision",
+    "है विज़न": "hey vision",
+    "विज़न गाइड": "vision guide",
+    "विजन गाइड": "vision guide",
+    "हे गाइड": "hey guide",
+  },
+  yesWords: ["हाँ", "हां", "हा", "जी", "ठीक", "ठीक है", "करो", "हाँ जी"],
+  noWords: ["नहीं", "नही", "ना", "मत", "रुको", "रद्द"],
+  numbers: {
+    words: {
+      "शून्य": 0, "एक": 1, "दो": 2, "तीन": 3, "चार": 4, "पांच": 5, "पाँच": 5, "छह": 6, "छः": 6,
+      "सात": 7, "आठ": 8, "नौ": 9, "दस": 10, "बीस": 20, "तीस": 30, "चालीस": 40, "पचास": 50,
+      "साठ": 60, "सत्तर": 70, "अस्सी": 80, "नब्बे": 90,
+    },
+    hundred: ["सौ"],
+    point: ["दशमलव", "पॉइंट"],
+  },
+  objectLabels: {
+    person: ["व्यक्ति", "लोग"],
+    bicycle: ["साइकिल", "साइकिलें"],
+    car: ["कार", "कारें"],
+    motorcycle: ["मोटरसाइकिल", "मोटरसाइकिलें"],
+    bus: ["बस", "बसें"],
+    truck: ["ट्रक", "ट्रक"],
+    "traffic light": ["ट्रैफ़िक लाइट", "ट्रैफ़िक लाइटें"],
+    "stop sign": ["स्टॉप साइन", "स्टॉप साइन"],
+    bench: ["बेंच", "बेंचें"],
+    dog: ["कुत्ता", "कुत्ते"],
+    cat: ["बिल्ली", "बिल्लियाँ"],
+    cow: ["गाय", "गायें"],
+    backpack: ["बैग", "बैग"],
+    umbrella: ["छाता", "छाते"],
+    bottle: ["बोतल", "बोतलें"],
+    cup: ["कप", "कप"],
+    chair: ["कुर्सी", "कुर्सियाँ"],
+    couch: ["सोफ़ा", "सोफ़े"],
+    bed: ["बिस्तर", "बिस्तर"],
+    "dining table": ["मेज़", "मेज़ें"],
+    tv: ["टीवी", "टीवी"],
+    laptop: ["लैपटॉप", "लैपटॉप"],
+    "cell phone": ["मोबाइल फ़ोन", "मोबाइल फ़ोन"],
+    book: ["किताब", "किताबें"],
+    clock: ["घड़ी", "घड़ियाँ"],
+  },
+};
+
+export default hi;
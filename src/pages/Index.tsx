@@ -1,37 +1,57 @@
-import { useState, useRef, useEffect } from 'react';
+import { useState, useRef, useEffect, useMemo } from 'react';
 import { Camera, Volume2, Navigation, Phone, Settings } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Card } from '@/components/ui/card';
 import { toast } from 'sonner';
-import { CameraView } from '@/components/CameraView';
+import { CameraView, CameraViewHandle, CameraCommand } from '@/components/CameraView';
 import { VoiceControls } from '@/components/VoiceControls';
-import { NavigationGuide } from '@/components/NavigationGuide';
-import { EmergencyPanel } from '@/components/EmergencyPanel';
+import { NavigationGuide, NavigationGuideHandle, NavigationCommand } from '@/components/NavigationGuide';
+import { EmergencyPanel, EmergencyPanelHandle, EmergencyCommand } from '@/components/EmergencyPanel';
 import { SettingsPanel } from '@/components/SettingsPanel';
 import { OCRReader } from "@/components/OCRReader";
 import { PathDemo } from "@/components/PathDemo";
-import { downloadLogs, addLog } from "@/utils/logs";
+import { VoiceConfirmDialog } from '@/components/VoiceConfirmDialog';
+import { TranscriptPanel } from '@/components/TranscriptPanel';
+import { useVoiceConfirmation } from '@/hooks/useVoiceConfirmation';
+import { useSpeechQueue } from '@/hooks/useSpeechQueue';
+import { useTranscript } from '@/hooks/useTranscript';
+import { downloadLogs, addLog, clearLogs } from "@/utils/logs";
 import { getLanguageOptions, LanguageOption } from '@/utils/languageOptions';
+import { VoiceSettings, DEFAULT_VOICE_SETTINGS, emergencyCountdown, loadVoiceSettings, saveVoiceSettings } from '@/utils/voiceSettings';
+import { SettingsChangeValue } from '@/utils/commandRegistry';
+import { AppMode } from '@/utils/commandGrammar';
+import { getEmergencyContact } from '@/utils/emergencyContacts';
+import { createTranslator, hasLocalePack, MessageKey, Verbosity, VERBOSITY_LEVELS } from '@/utils/i18n';
+import { Speak } from '@/utils/speechQueue';
+import { HazardLevel } from '@/utils/hazards';
+import { Haptic, getHapticPattern, vibrate } from '@/utils/haptics';
+import { applyLexicon, createSpeechFormatter } from '@/utils/speechFormat';
+import { getNeuralTtsModel } from '@/utils/neuralTtsModels';
+import { isNeuralSpeechSupported, loadNeuralTtsModel } from '@/utils/neuralSpeechEngine';
 
 const Index = () => {
-  const [activeMode, setActiveMode] = useState<'camera' | 'navigation' | 'emergency' | 'settings'>('camera');
+  const [activeMode, setActiveMode] = useState<AppMode>('camera');
   const [isListening, setIsListening] = useState(false);
-  const [isSpeaking, setIsSpeaking] = useState(false);
   const [detectedObjects, setDetectedObjects] = useState<string[]>([]);
   const [cameraActive, setCameraActive] = useState(false);
   const [navigationActive, setNavigationActive] = useState(false);
+  const [navigationDestination, setNavigationDestination] = useState<string | null>(null);
+  const [hazardLevel, setHazardLevel] = useState<HazardLevel>('none');
+  const [searchTarget, setSearchTarget] = useState<string | null>(null);
   const videoElementRef = useRef<HTMLVideoElement | null>(null);
+  const cameraViewRef = useRef<CameraViewHandle>(null);
+  const navigationGuideRef = useRef<NavigationGuideHandle>(null);
+  const emergencyPanelRef = useRef<EmergencyPanelHandle>(null);
   const [showOcr, setShowOcr] = useState(false);
   const [simMode, setSimMode] = useState(false);
   const [ttsLang, setTtsLang] = useState("en-US");
 
-  // Voice settings state
-  const [voiceSettings, setVoiceSettings] = useState({
-    rate: 0.8,
-    pitch: 1,
-    volume: 1,
-    enabled: true
-  });
+  // Voice settings state, remembered on this device
+  const [voiceSettings, setVoiceSettings] = useState<VoiceSettings>(loadVoiceSettings);
+
+  useEffect(() => {
+    saveVoiceSettings(voiceSettings);
+  }, [voiceSettings]);
 
   // Dynamically populated languages for OCR + TTS based on device/browser support
   const [languageOptions, setLanguageOptions] = useState<LanguageOption[]>([]);
@@ -45,57 +65,83 @@ const Index = () => {
   const selectedLangOption = languageOptions.find(opt => opt.code === ttsLang) || languageOptions[0];
   const ocrLang = selectedLangOption?.tesseract || "eng";
 
+  // Spoken messages follow the selected speech language and verbosity
+  const t = useMemo(() => createTranslator(ttsLang, voiceSettings.verbosity), [ttsLang, voiceSettings.verbosity]);
+  // Numbers, coordinates and distances written out the way the speech language says them
+  const format = useMemo(() => createSpeechFormatter(ttsLang, t, voiceSettings.units), [ttsLang, t, voiceSettings.units]);
+
+  // A downloadable neural voice speaks languages the browser has no voice for, or every language if preferred
+  const neuralTtsModel = getNeuralTtsModel(ttsLang);
+  const useNeuralSpeech = !!neuralTtsModel && isNeuralSpeechSupported() && (
+    voiceSettings.offlineVoice === 'always' ||
+    (voiceSettings.offlineVoice === 'fallback' && selectedLangOption?.ttsSupported === false)
+  );
+
+  // Captions of everything spoken and heard, for screen readers and braille displays
+  const transcript = useTranscript();
+
+  // Prioritised speech output: urgent messages interrupt, routine ones wait their turn
+  const speechQueue = useSpeechQueue(
+    {
+      lang: ttsLang,
+      rate: voiceSettings.rate,
+      pitch: voiceSettings.pitch,
+      volume: voiceSettings.volume,
+      voiceURI: voiceSettings.preferredVoices[ttsLang],
+      engine: useNeuralSpeech ? 'neural' : 'browser',
+    },
+    message => {
+      addLog(`[TTS ${message.priority}]: ${message.text}`);
+      transcript.addSpoken(message);
+    }
+  );
+  const isSpeaking = speechQueue.isSpeaking;
+
   // Speech synthesis for voice feedback (guard: only run if TTS is supported for this language)
-  const speak = (text: string) => {
+  const speak: Speak = (text, options) => {
     const currentLang = languageOptions.find(opt => opt.code === ttsLang);
     if (!currentLang) return;
-    if (!currentLang.ttsSupported) {
+    if (!currentLang.ttsSupported && !useNeuralSpeech) {
       toast.error("Text-to-Speech not available!", {
         description: "Speech output is not available for the selected language on this device. OCR will still work.",
       });
       return;
     }
-    if ('speechSynthesis' in window && voiceSettings.enabled) {
-      window.speechSynthesis.cancel();
-      const utterance = new SpeechSynthesisUtterance(text);
-      utterance.lang = ttsLang;
-      utterance.rate = voiceSettings.rate;
-      utterance.pitch = voiceSettings.pitch;
-      utterance.volume = voiceSettings.volume;
-      
-      utterance.onstart = () => setIsSpeaking(true);
-      utterance.onend = () => setIsSpeaking(false);
-      
-      window.speechSynthesis.speak(utterance);
-      addLog(`[TTS]: ${text}`);
+    if (voiceSettings.enabled) {
+      // The user's pronunciations apply to everything spoken, including OCR and command echoes
+      speechQueue.speak(applyLexicon(text, voiceSettings.lexicon), options);
     }
   };
 
-  // Voice command handler
-  const handleVoiceCommand = (command: string) => {
-    const lowerCommand = command.toLowerCase();
-
-    if (lowerCommand.includes('camera') || lowerCommand.includes('see')) {
-      setActiveMode('camera');
-      setCameraActive(true); // <<----- THIS ENSURES CAMERA OPENS!
-      speak('Camera mode activated. I will describe what I see around you.');
-      console.log('[VoiceCommand] Switched to camera mode and activated camera.');
-    } else if (lowerCommand.includes('navigate') || lowerCommand.includes('walk')) {
-      setActiveMode('navigation');
-      speak('Navigation mode activated. I will guide your steps.');
-    } else if (lowerCommand.includes('emergency') || lowerCommand.includes('help')) {
-      setActiveMode('emergency');
-      speak('Emergency panel opened. Say call emergency for immediate assistance.');
-    } else if (lowerCommand.includes('settings')) {
-      setActiveMode('settings');
-      speak('Settings panel opened. You can adjust speech settings with voice commands.');
+  // The announcement effects below run on a language change or once at start, not on every
+  // render, so they reach the current speak and translator through refs
+  const speakRef = useRef(speak);
+  speakRef.current = speak;
+  const tRef = useRef(t);
+  tRef.current = t;
+
+  // Vibration cues for when speech cannot be heard
+  const haptic: Haptic = (cue) => {
+    if (voiceSettings.hapticsEnabled) {
+      vibrate(getHapticPattern(cue, voiceSettings.hapticPatterns));
     }
   };
 
+  // Spoken yes/no confirmation for calls, messages and data wipes
+  const { pending: pendingConfirmation, requestConfirmation, respond: respondToConfirmation, handleVoiceReply } = useVoiceConfirmation(speak, ttsLang);
+
+  // Mode switches from voice commands; the command itself says what happened
+  const handleVoiceCommand = (mode: AppMode) => {
+    setActiveMode(mode);
+    if (mode === 'camera') setCameraActive(true);
+  };
+
   // Handle settings changes via voice
-  const handleSettingsChange = (setting: string, value: any) => {
+  const handleSettingsChange = (setting: string, value?: SettingsChangeValue) => {
     if (setting === 'speechRate') {
-      if (value === 'increase') {
+      if (typeof value === 'number') {
+        setVoiceSettings(prev => ({ ...prev, rate: value }));
+      } else if (value === 'increase') {
         const newRate = Math.min(voiceSettings.rate + 0.1, 2);
         setVoiceSettings(prev => ({ ...prev, rate: newRate }));
       } else if (value === 'decrease') {
@@ -103,71 +149,96 @@ const Index = () => {
         setVoiceSettings(prev => ({ ...prev, rate: newRate }));
       }
     } else if (setting === 'speechVolume') {
-      if (value === 'increase') {
+      if (typeof value === 'number') {
+        setVoiceSettings(prev => ({ ...prev, volume: value }));
+      } else if (value === 'increase') {
         const newVolume = Math.min(voiceSettings.volume + 0.1, 1);
         setVoiceSettings(prev => ({ ...prev, volume: newVolume }));
       } else if (value === 'decrease') {
         const newVolume = Math.max(voiceSettings.volume - 0.1, 0.1);
         setVoiceSettings(prev => ({ ...prev, volume: newVolume }));
       }
+    } else if (setting === 'verbosity' && VERBOSITY_LEVELS.includes(value as Verbosity)) {
+      const verbosity = value as Verbosity;
+      setVoiceSettings(prev => ({ ...prev, verbosity }));
+      speak(t(`settings.verbosity.${verbosity}` as MessageKey));
     } else if (setting === 'test') {
-      speak('This is a test of your voice settings. The speech rate, pitch, and volume have been adjusted according to your preferences.');
+      speak(t('settings.testMessage'));
+    } else if (setting === 'erase') {
+      eraseAppData();
     } else if (setting === 'reset') {
-      setVoiceSettings({ rate: 0.8, pitch: 1, volume: 1, enabled: true });
-      speak('Settings reset to default values');
+      setVoiceSettings(DEFAULT_VOICE_SETTINGS);
+      speak(t('settings.resetDone'));
     }
   };
 
+  // Wipe logs and restore default settings, after the user confirms
+  const eraseAppData = async () => {
+    const confirmed = await requestConfirmation({
+      message: t('settings.eraseConfirm'),
+      detail: t('settings.eraseDetail'),
+    });
+    if (!confirmed) return;
+    clearLogs();
+    transcript.clear();
+    setVoiceSettings(DEFAULT_VOICE_SETTINGS);
+    speak(t('settings.eraseDone'));
+  };
+
   // Handle camera actions via voice
-  const handleCameraAction = (action: string) => {
+  const handleCameraAction = (action: string, target?: string) => {
     if (action === 'start') {
       setCameraActive(true);
-    } else if (action === 'stop') {
-      setCameraActive(false);
-    } else if (action === 'analyze') {
-      // This will be handled by the CameraView component
+    } else if (action === 'find') {
+      setSearchTarget(target ?? null);
+      setCameraActive(true);
+    } else if (cameraViewRef.current && (activeMode === 'camera' || action === 'stop')) {
+      // The camera can be stopped from any mode, since it keeps running in the background
+      cameraViewRef.current.handleCommand(action as CameraCommand);
+    } else {
+      speak(t('camera.notOpen'));
     }
   };
 
   // Handle navigation actions via voice
-  const handleNavigationAction = (action: string) => {
+  const handleNavigationAction = (action: string, destination?: string) => {
     if (action === 'start') {
+      if (destination) setNavigationDestination(destination);
       setNavigationActive(true);
     } else if (action === 'stop') {
       setNavigationActive(false);
+    } else if (navigationGuideRef.current) {
+      navigationGuideRef.current.handleCommand(action as NavigationCommand);
+    } else {
+      speak(t('navigation.notOpen'));
     }
-    // Other actions like 'next' and 'repeat' will be handled by NavigationGuide component
   };
 
   // Handle emergency actions via voice
-  const handleEmergencyAction = (action: string) => {
-    if (action === 'call-911') {
-      speak('Calling emergency services now');
-      if (typeof window !== 'undefined') {
-        window.location.href = 'tel:911';
-      }
-    } else if (action === 'call-family') {
-      speak('Calling family contact');
-      if (typeof window !== 'undefined') {
-        window.location.href = 'tel:+1-555-0123';
-      }
-    } else if (action === 'call-friend') {
-      speak('Calling trusted friend');
+  const handleEmergencyAction = async (action: string) => {
+    if (action.startsWith('call-')) {
+      const contact = getEmergencyContact(action.slice('call-'.length));
+      if (!contact) return;
+      const name = t(`emergency.contact.${contact.id}.name` as MessageKey);
+      // Emergency services may proceed on a countdown; other contacts always need a "yes"
+      const countdownSeconds = contact.id === '911' ? emergencyCountdown(voiceSettings) : 0;
+      if (countdownSeconds) haptic('emergencyArmed');
+      const confirmed = await requestConfirmation({
+        message: t('emergency.callConfirm', { name }),
+        detail: contact.number,
+        countdownSeconds,
+      });
+      if (!confirmed) return;
+      speak(t('emergency.calling', { name }), { priority: 'emergency' });
       if (typeof window !== 'undefined') {
-        window.location.href = 'tel:+1-555-0456';
+        window.location.href = `tel:${contact.number}`;
       }
-    } else if (action === 'share-location') {
-      if (navigator.geolocation) {
-        navigator.geolocation.getCurrentPosition(
-          (position) => {
-            const { latitude, longitude } = position.coords;
-            speak('Location acquired and ready to share');
-          },
-          () => speak('Unable to get location')
-        );
-      }
-    } else if (action === 'send-help') {
-      speak('Help message prepared and ready to send');
+    } else if (action === 'open') {
+      // Switching to the emergency panel is handled by handleVoiceCommand
+    } else if (emergencyPanelRef.current) {
+      emergencyPanelRef.current.handleCommand(action as EmergencyCommand);
+    } else {
+      speak(t('emergency.notOpen'));
     }
   };
 
@@ -178,26 +249,43 @@ const Index = () => {
     if (lastAnnouncedLang.current === ttsLang) return;
     const lang = languageOptions.find(opt => opt.code === ttsLang);
     if (lang) {
+      const t = tRef.current;
       let supportMsg = "";
-      if (lang.ttsSupported && lang.ocrSupported) {
-        supportMsg = `${lang.label} supports both voice (TTS) and text recognition (OCR).`;
+      if (!lang.ttsSupported && useNeuralSpeech) {
+        supportMsg = t('language.offlineVoice', { language: lang.label });
+      } else if (lang.ttsSupported && lang.ocrSupported) {
+        supportMsg = t('language.supportsBoth', { language: lang.label });
       } else if (lang.ttsSupported) {
-        supportMsg = `${lang.label} supports voice (TTS) only.`;
+        supportMsg = t('language.supportsTts', { language: lang.label });
       } else if (lang.ocrSupported) {
-        supportMsg = `${lang.label} supports text recognition (OCR) only.`;
+        supportMsg = t('language.supportsOcr', { language: lang.label });
       } else {
-        supportMsg = `${lang.label} has no speech or text support.`;
+        supportMsg = t('language.supportsNone', { language: lang.label });
+      }
+      if (!hasLocalePack(ttsLang)) {
+        supportMsg += ` ${t('language.englishCommands')}`;
       }
       toast.info(supportMsg, { duration: 4000 });
-      speak(supportMsg);
+      speakRef.current(supportMsg);
       lastAnnouncedLang.current = ttsLang;
     }
-  }, [ttsLang, languageOptions]);
+  }, [ttsLang, languageOptions, useNeuralSpeech]);
+
+  // Load the neural voice as soon as it is needed, so the first message is not held up by the download
+  useEffect(() => {
+    if (!useNeuralSpeech || !neuralTtsModel) return;
+    loadNeuralTtsModel(neuralTtsModel.id).catch(error => {
+      addLog(`Offline voice ${neuralTtsModel.id} failed to load: ${error.message}`);
+      toast.error("Offline voice not available", {
+        description: `The ${neuralTtsModel.label} voice could not be downloaded. Connect to the internet once to download it.`,
+      });
+    });
+  }, [useNeuralSpeech, neuralTtsModel]);
 
   useEffect(() => {
     // Update: ONLY speak "Welcome to Vision Guide" on load
     setTimeout(() => {
-      speak("Welcome to Vision Guide");
+      speakRef.current(tRef.current('app.welcome'));
       addLog("App started. Welcome message spoken.");
     }, 1000);
   }, []);
@@ -253,9 +341,12 @@ const Index = () => {
       <div className="container mx-auto p-4 space-y-6">
         {/* App Controls */}
         <div className="flex flex-wrap items-center gap-2 mb-2">
-          <Button className="bg-red-600 text-white" onClick={() => speak("Emergency button pressed. SOS initiated.")}>
+          <Button className="bg-red-600 text-white" onClick={() => speak(t('app.sos'), { priority: 'emergency' })}>
             SOS
           </Button>
+          <Button className="bg-gray-700" onClick={() => speechQueue.repeatLast() || speak(t('speech.nothingToRepeat'))}>
+            Repeat Last
+          </Button>
           <Button className="bg-green-600" onClick={() => setShowOcr(x => !x)}>
             {showOcr ? "Hide OCR Scanner" : "Read Sign or Document"}
           </Button>
@@ -304,6 +395,7 @@ const Index = () => {
         {simMode && (
           <PathDemo
             speak={speak}
+            t={t}
             onSimulateObstacle={type => {
               if (type === "stairs") setActiveMode("navigation");
               else if (type === "pole") setActiveMode("camera");
@@ -314,7 +406,7 @@ const Index = () => {
         )}
 
         {/* OCR Reader */}
-        {showOcr && <OCRReader speak={speak} lang={ocrLang} />}
+        {showOcr && <OCRReader speak={speak} t={t} lang={ocrLang} />}
 
         {/* Voice Controls - Always visible and primary interface */}
         <VoiceControls
@@ -322,13 +414,34 @@ const Index = () => {
           onListeningChange={setIsListening}
           onVoiceCommand={handleVoiceCommand}
           speak={speak}
+          haptic={haptic}
+          t={t}
+          recognitionLang={ttsLang}
           currentMode={activeMode}
           onSettingsChange={handleSettingsChange}
           onCameraAction={handleCameraAction}
           onNavigationAction={handleNavigationAction}
           onEmergencyAction={handleEmergencyAction}
+          onLanguageChange={setTtsLang}
+          languageOptions={languageOptions}
+          onConfirmationReply={handleVoiceReply}
+          wakeWordEnabled={voiceSettings.wakeWordEnabled}
+          wakeWordWindowMs={voiceSettings.wakeWordWindowMs}
+          recognizerBackend={voiceSettings.recognizerBackend}
+          whisperModel={voiceSettings.whisperModel}
+          onRecognizerBackendChange={backend => setVoiceSettings(prev => ({ ...prev, recognizerBackend: backend }))}
+          onRepeatLastSpeech={speechQueue.repeatLast}
+          getSpeechHistory={speechQueue.getHistory}
+          onBargeIn={speechQueue.interrupt}
+          onHeard={transcript.addHeard}
         />
 
+        {/* What was said and heard, as text */}
+        <TranscriptPanel entries={transcript.entries} speak={speak} t={t} lang={ttsLang} />
+
+        {/* Spoken confirmation for high-consequence actions */}
+        <VoiceConfirmDialog pending={pendingConfirmation} onRespond={respondToConfirmation} />
+
         {/* Current Mode Indicator */}
         <Card className="bg-white/10 border-white/20 p-4">
           <div className="text-center">
@@ -339,33 +452,63 @@ const Index = () => {
 
         {/* Active Mode Content */}
         <Card className="bg-black/20 backdrop-blur-sm border-white/10 p-6">
-          {activeMode === 'camera' && (
-            <CameraView
-              speak={speak}
-              detectedObjects={detectedObjects}
-              onDetectedObjects={setDetectedObjects}
-              isActive={cameraActive}
-              onActiveChange={setCameraActive}
-            />
-          )}
+          {/* Always mounted, so hazard warnings keep running and navigation can pause for them */}
+          <CameraView
+            ref={cameraViewRef}
+            speak={speak}
+            haptic={haptic}
+            t={t}
+            lang={ttsLang}
+            detectedObjects={detectedObjects}
+            onDetectedObjects={setDetectedObjects}
+            isActive={cameraActive}
+            onActiveChange={setCameraActive}
+            earconsEnabled={voiceSettings.earconsEnabled}
+            earconVolume={voiceSettings.earconVolume}
+            format={format}
+            cameraFovDeg={voiceSettings.cameraFovDeg}
+            onCameraFovChange={cameraFovDeg => setVoiceSettings(prev => ({ ...prev, cameraFovDeg }))}
+            directionStyle={voiceSettings.directionStyle}
+            onHazardChange={setHazardLevel}
+            searchTarget={searchTarget}
+            onSearchTargetChange={setSearchTarget}
+            inBackground={activeMode !== 'camera'}
+          />
           
           {activeMode === 'navigation' && (
             <NavigationGuide 
-              speak={speak} 
+              ref={navigationGuideRef}
+              speak={speak}
+              haptic={haptic}
+              t={t}
+              format={format}
               isActive={navigationActive}
               onActiveChange={setNavigationActive}
+              destination={navigationDestination}
+              hazardLevel={hazardLevel}
             />
           )}
           
           {activeMode === 'emergency' && (
-            <EmergencyPanel speak={speak} />
+            <EmergencyPanel
+              ref={emergencyPanelRef}
+              speak={speak}
+              haptic={haptic}
+              t={t}
+              format={format}
+              confirm={requestConfirmation}
+              emergencyCountdownSeconds={emergencyCountdown(voiceSettings)}
+            />
           )}
           
           {activeMode === 'settings' && (
             <SettingsPanel 
-              speak={speak} 
+              speak={speak}
+              t={t}
+              lang={ttsLang}
               voiceSettings={voiceSettings}
               onVoiceSettingsChange={setVoiceSettings}
+              onEraseData={eraseAppData}
             />
           )}
         </Card>
@@ -0,0 +1,122 @@
+/**
+ * Large binary assets (models, WebAssembly runtimes) kept in Cache Storage so
+ * features that depend on them keep working without a connection.
+ *
+ * Every asset is checked against a pinned SHA-256 before use, whether it came
+ * from the network or the cache: a truncated download or a corrupted cache entry
+ * is refetched rather than handed to the runtime, which would fail in obscure ways.
+ * An asset with no pin fails to load in a production build; development builds
+ * use it unverified, with a console warning, so a model can be tried before pinning it.
+ *
+ * Usage:
+ *   const bytes = await loadPinnedAsset(YOLO_MODEL_ASSET, progress => ...);
+ */
+
+export interface PinnedAsset {
+  url: string;
+  sha256?: string; // lowercase hex; required in production builds
+  label: string;   // for logs
+}
+
+export interface AssetProgress {
+  loadedBytes: number;
+  totalBytes?: number; // unknown when the server sends no Content-Length
+  fromCache: boolean;
+}
+
+export type AssetLoadErrorCode = "offline" | "integrity" | "http";
+
+export class AssetLoadError extends Error {
+  constructor(public code: AssetLoadErrorCode, message: string) {
+    super(message);
+    this.name = "AssetLoadError";
+  }
+}
+
+const ASSET_CACHE_NAME = "vision-guide-assets-v1";
+
+export async function sha256Hex(bytes: ArrayBuffer): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-256", bytes);
+  return [...new Uint8Array(digest)].map(byte => byte.toString(16).padStart(2, "0")).join("");
+}
+
+async function openAssetCache(): Promise<Cache | null> {
+  try {
+    return typeof caches === "undefined" ? null : await caches.open(ASSET_CACHE_NAME);
+  } catch {
+    // Cache Storage is unavailable on insecure origins and in some private modes
+    return null;
+  }
+}
+
+async function matchesPin(asset: PinnedAsset, bytes: ArrayBuffer): Promise<boolean> {
+  if (!asset.sha256) {
+    if (import.meta.env.PROD) throw new AssetLoadError("integrity", `No SHA-256 pinned for ${asset.label}; refusing to use it unverified`);
+    console.warn(`No SHA-256 pinned for ${asset.label}; using it unverified in development`);
+    return true;
+  }
+  return (await sha256Hex(bytes)) === asset.sha256.toLowerCase();
+}
+
+// Streams the body so the caller can report progress on multi-megabyte downloads
+async function download(asset: PinnedAsset, onProgress?: (progress: AssetProgress) => void): Promise<ArrayBuffer> {
+  let response: Response;
+  try {
+    response = await fetch(asset.url, { cache: "no-store" });
+  } catch {
+    throw new AssetLoadError("offline", `Could not download ${asset.label}; no connection and no cached copy`);
+  }
+  if (!response.ok) throw new AssetLoadError("http", `Downloading ${asset.label} failed with HTTP ${response.status}`);
+
+  const totalBytes = Number(response.headers.get("Content-Length")) || undefined;
+  if (!response.body) {
+    const bytes = await response.arrayBuffer();
+    onProgress?.({ loadedBytes: bytes.byteLength, totalBytes, fromCache: false });
+    return bytes;
+  }
+
+  const reader = response.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let loadedBytes = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    chunks.push(value);
+    loadedBytes += value.byteLength;
+    onProgress?.({ loadedBytes, totalBytes, fromCache: false });
+  }
+
+  const bytes = new Uint8Array(loadedBytes);
+  let offset = 0;
+  for (const chunk of chunks) {
+    bytes.set(chunk, offset);
+    offset += chunk.byteLength;
+  }
+  return bytes.buffer;
+}
+
+export async function loadPinnedAsset(asset: PinnedAsset, onProgress?: (progress: AssetProgress) => void): Promise<ArrayBuffer> {
+  const cache = await openAssetCache();
+
+  const cached = await cache?.match(asset.url);
+  if (cached) {
+    const bytes = await cached.arrayBuffer();
+    if (await matchesPin(asset, bytes)) {
+      onProgress?.({ loadedBytes: bytes.byteLength, totalBytes: bytes.byteLength, fromCache: true });
+      return bytes;
+    }
+    console.warn(`Cached ${asset.label} failed its integrity check; downloading it again`);
+    await cache?.delete(asset.url);
+  }
+
+  const bytes = await download(asset, onProgress);
+  if (!(await matchesPin(asset, bytes))) {
+    throw new AssetLoadError("integrity", `${asset.label} does not match its pinned SHA-256`);
+  }
+  try {
+    await cache?.put(asset.url, new Response(bytes));
+  } catch {
+    // Storage quota exceeded; the asset still works for this visit
+  }
+  return bytes;
+}
@@ -0,0 +1,87 @@
+/**
+ * Short non-speech audio cues played through the Web Audio API.
+ *
+ * A single AudioContext is shared by the whole app; browsers limit how many can
+ * be open and only allow them to start after a user gesture, so it is created lazily.
+ */
+
+let audioContext: AudioContext | null = null;
+
+export function getAudioContext(): AudioContext | null {
+  if (typeof window === "undefined") return null;
+  const AudioContextClass = window.AudioContext || (window as unknown as { webkitAudioContext?: typeof AudioContext }).webkitAudioContext;
+  if (!AudioContextClass) return null;
+
+  if (!audioContext) {
+    audioContext = new AudioContextClass();
+  }
+  if (audioContext.state === "suspended") {
+    audioContext.resume().catch(() => {
+      // Resuming fails until the user has interacted with the page
+    });
+  }
+  return audioContext;
+}
+
+export interface ToneOptions {
+  frequency: number;
+  durationMs: number;
+  volume?: number;  // 0 to 1
+  delayMs?: number; // offset from now
+  type?: OscillatorType;
+  pan?: number;     // -1 hard left to 1 hard right
+}
+
+export function playTone({ frequency, durationMs, volume = 0.3, delayMs = 0, type = "sine", pan = 0 }: ToneOptions) {
+  const ctx = getAudioContext();
+  if (!ctx) return;
+
+  const start = ctx.currentTime + delayMs / 1000;
+  const end = start + durationMs / 1000;
+
+  const oscillator = ctx.createOscillator();
+  const gain = ctx.createGain();
+  oscillator.type = type;
+  oscillator.frequency.value = frequency;
+
+  // Short attack and release avoid audible clicks
+  gain.gain.setValueAtTime(0, start);
+  gain.gain.linearRampToValueAtTime(volume, start + 0.01);
+  gain.gain.setValueAtTime(volume, Math.max(start + 0.01, end - 0.02));
+  gain.gain.linearRampToValueAtTime(0, end);
+
+  // Older Safari has no StereoPannerNode; those cues simply play centred
+  if (pan !== 0 && ctx.createStereoPanner) {
+    const panner = ctx.createStereoPanner();
+    panner.pan.value = Math.max(-1, Math.min(1, pan));
+    oscillator.connect(gain).connect(panner).connect(ctx.destination);
+  } else {
+    oscillator.connect(gain).connect(ctx.destination);
+  }
+  oscillator.start(start);
+  oscillator.stop(end);
+}
+
+// Rising two-note chime: the wake word was heard and a command is expected
+export function playArmedCue() {
+  playTone({ frequency: 660, durationMs: 90 });
+  playTone({ frequency: 880, durationMs: 120, delayMs: 100 });
+}
+
+// Falling note: the command window closed without a command
+export function playDisarmedCue() {
+  playTone({ frequency: 440, durationMs: 120, volume: 0.2 });
+}
+
+// Two low buzzy pulses: something ahead is worth slowing down for
+export function playHazardWarningCue(pan = 0) {
+  playTone({ frequency: 330, durationMs: 120, volume: 0.35, type: "square", pan });
+  playTone({ frequency: 330, durationMs: 120, volume: 0.35, delayMs: 180, type: "square", pan });
+}
+
+// Rapid high alarm pulses, unlike any other cue: stop now
+export function playHazardImminentCue(pan = 0) {
+  for (let pulse = 0; pulse < 4; pulse++) {
+    playTone({ frequency: pulse % 2 === 0 ? 1200 : 950, durationMs: 70, volume: 0.5, delayMs: pulse * 90, type: "sawtooth", pan });
+  }
+}
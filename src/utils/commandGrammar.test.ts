@@ -0,0 +1,91 @@
+import { describe, expect, it } from "vitest";
+import { CommandDefinition, NumberVocabulary, SlotVocabulary, parseCommand, parseSpokenNumber } from "@/utils/commandGrammar";
+
+const VOCABULARY: SlotVocabulary = {
+  contacts: [],
+  languages: [],
+  objects: [
+    { label: "cup", names: ["cup", "mug"] },
+    { label: "remote", names: ["remote", "remote control"] },
+  ],
+};
+
+const FRENCH_NUMBERS: NumberVocabulary = {
+  words: { un: 1, deux: 2, sept: 7, neuf: 9, dix: 10, vingt: 20, soixante: 60 },
+  hundred: ["cent"],
+  point: ["virgule"],
+};
+
+const command = (id: string, phrases: string[]): CommandDefinition => ({ id, phrases, mode: "global", description: id, handler: () => {} });
+
+describe("parseCommand text slots", () => {
+  const commands = [
+    command("find", ["find [my] [the] {object:object}", "find [my] [the] {item:text}"]),
+    command("where", ["where am i"]),
+  ];
+  const parse = (utterance: string) => parseCommand(utterance, commands, "camera", VOCABULARY);
+
+  it("prefers a known object over free text", () => {
+    expect(parse("find my mug")).toMatchObject({ status: "matched", match: { args: { object: "cup" } } });
+    expect(parse("find the remote control")).toMatchObject({ status: "matched", match: { args: { object: "remote" } } });
+  });
+
+  it("keeps the known object when a stray word follows it", () => {
+    expect(parse("find my cup please")).toMatchObject({ status: "matched", match: { args: { object: "cup" } } });
+  });
+
+  it("falls back to the words said when no object matches", () => {
+    expect(parse("find my keys")).toMatchObject({ status: "matched", match: { command: { id: "find" }, args: { item: "keys" } } });
+  });
+
+  it("never outscores a command that matches outright", () => {
+    expect(parse("where am i")).toMatchObject({ status: "matched", match: { command: { id: "where" } } });
+  });
+});
+
+describe("parseCommand ties", () => {
+  const commands: CommandDefinition[] = [
+    command("speech.repeat", ["repeat", "repeat that"]),
+    { ...command("camera.repeat", ["repeat", "repeat description"]), mode: "camera" },
+    { ...command("navigation.repeat", ["repeat", "repeat step"]), mode: "navigation" },
+  ];
+
+  it("lets the active mode's command win", () => {
+    expect(parseCommand("repeat", commands, "camera", VOCABULARY)).toMatchObject({ status: "matched", match: { command: { id: "camera.repeat" } } });
+    expect(parseCommand("repeat", commands, "navigation", VOCABULARY)).toMatchObject({ status: "matched", match: { command: { id: "navigation.repeat" } } });
+  });
+
+  it("prefers the global command over those of other modes", () => {
+    expect(parseCommand("repeat", commands, "settings", VOCABULARY)).toMatchObject({ status: "matched", match: { command: { id: "speech.repeat" } } });
+  });
+
+  it("stays ambiguous between commands of other modes", () => {
+    expect(parseCommand("repeat", commands.slice(1), "settings", VOCABULARY)).toMatchObject({ status: "ambiguous" });
+  });
+});
+
+describe("parseSpokenNumber", () => {
+  it.each([
+    ["eighty", 80],
+    ["twenty one", 21],
+    ["one hundred and twenty five", 125],
+    ["hundred five", 105],
+    ["one point two", 1.2],
+    ["point five", 0.5],
+    ["120", 120],
+    ["1 point 2", 1.2],
+  ])("reads %j as %d", (spoken, value) => {
+    expect(parseSpokenNumber(spoken.split(" "))).toBe(value);
+  });
+
+  it.each(["one two", "two one", "twenty thirty", "one hundred two hundred", "5 5", "one two point five"])("rejects %j", spoken => {
+    expect(parseSpokenNumber(spoken.split(" "))).toBeNull();
+  });
+
+  it("reads compounds built from the active language's words", () => {
+    expect(parseSpokenNumber(["dix", "sept"], FRENCH_NUMBERS)).toBe(17);
+    expect(parseSpokenNumber(["soixante", "dix", "neuf"], FRENCH_NUMBERS)).toBe(79);
+    expect(parseSpokenNumber(["deux", "cent", "vingt"], FRENCH_NUMBERS)).toBe(220);
+    expect(parseSpokenNumber(["un", "deux"], FRENCH_NUMBERS)).toBeNull();
+  });
+});
@@ -0,0 +1,331 @@
+/**
+ * Declarative voice command grammar.
+ *
+ * Each command declares the phrases that trigger it, the mode it belongs to and a
+ * handler. Phrases are templates made of literal words, optional words in square
+ * brackets and typed slots in braces:
+ *
+ *   "set [the] speech rate to {rate:number}"
+ *   "call {contact:contact}"
+ *   "find [my] {item:text}"
+ *
+ * A text slot takes any words but scores below every other slot, so it only
+ * wins when nothing more specific matches ("find my keys" when keys are not a
+ * detection class) and a handler can say exactly what it did not understand.
+ *
+ * parseCommand() finds the single best command for an utterance and extracts its
+ * slot values, so "stop navigation" resolves to the navigation command rather
+ * than the global "stop".
+ */
+
+import { normalizeTranscript, similarity } from "./wakeWord";
+import type { Translate } from "./i18n";
+
+export type AppMode = "camera" | "navigation" | "emergency" | "settings";
+export type CommandMode = AppMode | "global";
+export type SlotType = "number" | "contact" | "place" | "language" | "object" | "text";
+export type SlotValue = string | number;
+export type CommandArgs = { [slot: string]: SlotValue };
+
+export interface CommandDefinition {
+  id: string;
+  phrases: string[];
+  mode: CommandMode;
+  description: string; // shown on command cards
+  example?: string;    // spoken in help; defaults to the first phrase
+  handler: (args: CommandArgs) => void;
+}
+
+// Number words of the active language, understood alongside the English ones
+export interface NumberVocabulary {
+  words: { [word: string]: number };
+  hundred: string[];
+  point: string[];
+}
+
+// Values that contact, language, object and number slots can resolve to
+export interface SlotVocabulary {
+  contacts: { id: string; names: string[] }[];
+  languages: { code: string; names: string[] }[];
+  objects: { label: string; names: string[] }[]; // detection classes
+  numbers?: NumberVocabulary;
+}
+
+export interface CommandMatch {
+  command: CommandDefinition;
+  args: CommandArgs;
+  score: number;
+}
+
+export type ParseResult =
+  | { status: "matched"; match: CommandMatch }
+  | { status: "ambiguous"; candidates: CommandMatch[] }
+  | { status: "none" };
+
+type TemplatePart =
+  | { kind: "word"; word: string; optional: boolean }
+  | { kind: "slot"; name: string; type: SlotType };
+
+// Scoring weights: exact words count more than fuzzy ones, words the phrase
+// does not explain count against it, and the active mode breaks ties. Failing that, a
+// global command beats those of other modes, so "repeat" in settings repeats the last message.
+const EXACT_WORD_SCORE = 2;
+const FUZZY_WORD_SCORE = 1.5;
+const SLOT_SCORE = 2;
+const TEXT_SLOT_SCORE = 0.5;
+const UNMATCHED_WORD_PENALTY = 0.5;
+const CURRENT_MODE_BONUS = 1;
+const FUZZY_WORD_THRESHOLD = 0.8;
+const MAX_SLOT_WORDS = 6;
+
+const templateCache = new Map<string, TemplatePart[]>();
+
+function compileTemplate(phrase: string): TemplatePart[] {
+  const cached = templateCache.get(phrase);
+  if (cached) return cached;
+
+  // Hyphens are split the same way normalizeTranscript splits them ("emmène-moi")
+  const parts: TemplatePart[] = phrase
+    .toLowerCase()
+    .replace(/-/g, " ")
+    .split(/\s+/)
+    .filter(Boolean)
+    .map((token): TemplatePart => {
+      const slot = token.match(/^\{(\w+):(number|contact|place|language|object|text)\}$/);
+      if (slot) return { kind: "slot", name: slot[1], type: slot[2] as SlotType };
+      const optional = token.match(/^\[(.+)\]$/);
+      if (optional) return { kind: "word", word: optional[1], optional: true };
+      return { kind: "word", word: token, optional: false };
+    });
+
+  templateCache.set(phrase, parts);
+  return parts;
+}
+
+const ENGLISH_NUMBERS: NumberVocabulary = {
+  words: {
+    zero: 0, oh: 0, one: 1, two: 2, three: 3, four: 4, five: 5, six: 6, seven: 7, eight: 8, nine: 9,
+    ten: 10, eleven: 11, twelve: 12, thirteen: 13, fourteen: 14, fifteen: 15, sixteen: 16,
+    seventeen: 17, eighteen: 18, nineteen: 19, twenty: 20, thirty: 30, forty: 40, fifty: 50,
+    sixty: 60, seventy: 70, eighty: 80, ninety: 90,
+  },
+  hundred: ["hundred"],
+  point: ["point"],
+};
+
+// "one hundred and twenty five", "dix sept", "soixante dix"; a list of numbers such as "one two" is not a number
+function parseWholeNumber(words: string[], numbers: NumberVocabulary): number | null {
+  if (words.length === 0) return null;
+  if (words.length === 1 && /^\d+$/.test(words[0])) return Number(words[0]);
+
+  let hundreds = 0;
+  let rest = 0;
+  let previous: number | null = null; // last value added to rest
+  for (const word of words) {
+    if (numbers.hundred.includes(word)) {
+      if (hundreds > 0) return null;
+      hundreds = (rest || 1) * 100;
+      rest = 0;
+      previous = null;
+      continue;
+    }
+    if (word === "and") continue;
+
+    const value = word in numbers.words ? numbers.words[word] : /^\d+$/.test(word) ? Number(word) : null;
+    if (value === null) return null;
+    // Each word is smaller than the last, and only ten or more can take another after it
+    if (previous !== null && (previous < 10 || value >= previous)) return null;
+    rest += value;
+    previous = value;
+  }
+  return hundreds + rest;
+}
+
+// "one point two", "1 point 2", "point five", "eighty", "120", "uno coma dos" with Spanish words
+export function parseSpokenNumber(words: string[], localNumbers?: NumberVocabulary): number | null {
+  const numbers: NumberVocabulary = localNumbers
+    ? {
+        words: { ...ENGLISH_NUMBERS.words, ...localNumbers.words },
+        hundred: [...ENGLISH_NUMBERS.hundred, ...localNumbers.hundred],
+        point: [...ENGLISH_NUMBERS.point, ...localNumbers.point],
+      }
+    : ENGLISH_NUMBERS;
+
+  const pointIndex = words.findIndex(word => numbers.point.includes(word));
+  if (pointIndex === -1) return parseWholeNumber(words, numbers);
+
+  const whole = pointIndex === 0 ? 0 : parseWholeNumber(words.slice(0, pointIndex), numbers);
+  const fractionWords = words.slice(pointIndex + 1);
+  if (whole === null || fractionWords.length === 0) return null;
+
+  let fraction = "";
+  for (const word of fractionWords) {
+    if (/^\d+$/.test(word)) fraction += word;
+    else if (word in numbers.words && numbers.words[word] < 10) fraction += numbers.words[word];
+    else return null;
+  }
+  return Number(`${whole}.${fraction}`);
+}
+
+function findByName<T extends { names: string[] }>(options: T[], words: string[]): T | null {
+  const spoken = words.join(" ");
+  let best: T | null = null;
+  let bestScore = FUZZY_WORD_THRESHOLD;
+  for (const option of options) {
+    for (const name of option.names) {
+      const score = similarity(spoken, name.toLowerCase());
+      if (score >= bestScore) {
+        best = option;
+        bestScore = score;
+      }
+    }
+  }
+  return best;
+}
+
+function parseSlot(type: SlotType, words: string[], vocabulary: SlotVocabulary): SlotValue | null {
+  switch (type) {
+    case "number":
+      return parseSpokenNumber(words, vocabulary.numbers);
+    case "contact":
+      return findByName(vocabulary.contacts, words)?.id ?? null;
+    case "language":
+      return findByName(vocabulary.languages, words)?.code ?? null;
+    case "object":
+      return findByName(vocabulary.objects, words)?.label ?? null;
+    case "place":
+    case "text":
+      return words.join(" ");
+  }
+}
+
+interface PartialMatch {
+  score: number;
+  end: number;
+  args: CommandArgs;
+}
+
+// Matches template parts against a contiguous run of words starting at `start`
+function matchParts(
+  parts: TemplatePart[],
+  partIndex: number,
+  words: string[],
+  start: number,
+  vocabulary: SlotVocabulary
+): PartialMatch | null {
+  if (partIndex === parts.length) return { score: 0, end: start, args: {} };
+
+  const part = parts[partIndex];
+  let best: PartialMatch | null = null;
+  // On equal scores prefer covering more words, so slots take "one point two" rather than "one"
+  const consider = (candidate: PartialMatch | null) => {
+    if (!candidate) return;
+    if (!best || candidate.score > best.score || (candidate.score === best.score && candidate.end > best.end)) {
+      best = candidate;
+    }
+  };
+
+  if (part.kind === "word") {
+    if (part.optional) consider(matchParts(parts, partIndex + 1, words, start, vocabulary));
+    if (start < words.length) {
+      const word = words[start];
+      const wordScore = word === part.word
+        ? EXACT_WORD_SCORE
+        : part.word.length >= 5 && similarity(word, part.word) >= FUZZY_WORD_THRESHOLD
+        ? FUZZY_WORD_SCORE
+        : 0;
+      if (wordScore > 0) {
+        const rest = matchParts(parts, partIndex + 1, words, start + 1, vocabulary);
+        if (rest) consider({ ...rest, score: rest.score + wordScore });
+      }
+    }
+    return best;
+  }
+
+  const maxEnd = Math.min(words.length, start + MAX_SLOT_WORDS);
+  for (let end = start + 1; end <= maxEnd; end++) {
+    const value = parseSlot(part.type, words.slice(start, end), vocabulary);
+    if (value === null) continue;
+    const rest = matchParts(parts, partIndex + 1, words, end, vocabulary);
+    if (rest) {
+      consider({ score: rest.score + (part.type === "text" ? TEXT_SLOT_SCORE : SLOT_SCORE), end: rest.end, args: { ...rest.args, [part.name]: value } });
+    }
+  }
+  return best;
+}
+
+function matchPhrase(phrase: string, words: string[], vocabulary: SlotVocabulary): { score: number; args: CommandArgs } | null {
+  const parts = compileTemplate(phrase);
+  let best: { score: number; args: CommandArgs } | null = null;
+
+  for (let start = 0; start < words.length; start++) {
+    const match = matchParts(parts, 0, words, start, vocabulary);
+    if (!match || match.score === 0) continue;
+    const unmatchedWords = start + (words.length - match.end);
+    const score = match.score - unmatchedWords * UNMATCHED_WORD_PENALTY;
+    if (!best || score > best.score) best = { score, args: match.args };
+  }
+  return best;
+}
+
+export function parseCommand(
+  utterance: string,
+  commands: CommandDefinition[],
+  currentMode: AppMode,
+  vocabulary: SlotVocabulary
+): ParseResult {
+  const words = normalizeTranscript(utterance);
+  if (words.length === 0) return { status: "none" };
+
+  const matches: CommandMatch[] = [];
+  for (const command of commands) {
+    let best: CommandMatch | null = null;
+    for (const phrase of command.phrases) {
+      const match = matchPhrase(phrase, words, vocabulary);
+      if (!match || match.score <= 0) continue;
+      const score = match.score + (command.mode === currentMode ? CURRENT_MODE_BONUS : 0);
+      if (!best || score > best.score) best = { command, args: match.args, score };
+    }
+    if (best) matches.push(best);
+  }
+
+  if (matches.length === 0) return { status: "none" };
+  matches.sort((a, b) => b.score - a.score);
+
+  const tied = matches.filter(match => match.score === matches[0].score);
+  if (tied.length > 1 && !tied.some(match => match.command.mode === currentMode)) {
+    const global = tied.filter(match => match.command.mode === "global");
+    if (global.length === 1) return { status: "matched", match: global[0] };
+  }
+  if (tied.length > 1) return { status: "ambiguous", candidates: tied };
+  return { status: "matched", match: matches[0] };
+}
+
+// Spoken form of a command: its example, or the first phrase with optional words filled in
+export function getCommandExample(command: CommandDefinition): string {
+  return command.example ?? command.phrases[0].replace(/\[([^\]]+)\]/g, "$1");
+}
+
+// Commands usable right now: global ones plus those for the active mode
+export function getAvailableCommands(commands: CommandDefinition[], currentMode: AppMode): CommandDefinition[] {
+  return commands.filter(command => command.mode === "global" || command.mode === currentMode);
+}
+
+export function getCommandCards(commands: CommandDefinition[], currentMode: AppMode) {
+  return getAvailableCommands(commands, currentMode).map(command => ({
+    id: command.id,
+    command: getCommandExample(command),
+    description: command.description,
+  }));
+}
+
+export function buildSpokenHelp(commands: CommandDefinition[], currentMode: AppMode, t: Translate): string {
+  const list = (mode: CommandMode) =>
+    commands.filter(command => command.mode === mode).map(getCommandExample).join(", ");
+
+  const modeCommands = list(currentMode);
+  const globalCommands = list("global");
+  return modeCommands
+    ? t("help.modeCommands", { mode: t(`mode.name.${currentMode}`), modeCommands, globalCommands })
+    : t("help.globalCommands", { globalCommands });
+}
@@ -0,0 +1,427 @@
+/**
+ * The app's voice commands, declared with the grammar in commandGrammar.ts.
+ *
+ * English phrases are always understood; phrases from the active language pack
+ * are tried alongside them, and spoken feedback comes from its message catalog.
+ *
+ * Usage:
+ *   const commands = createCommandRegistry({ speak, t, lang, currentMode, ... });
+ *   const result = parseCommand(transcript, commands, currentMode, getSlotVocabulary(languageOptions, lang));
+ */
+
+import { AppMode, CommandDefinition, SlotVocabulary, buildSpokenHelp } from "./commandGrammar";
+import { EMERGENCY_CONTACTS } from "./emergencyContacts";
+import { LanguageOption } from "./languageOptions";
+import { MessageKey, Translate, Verbosity, getLocalePack } from "./i18n";
+import type { SpokenMessage } from "./speechQueue";
+import { COCO_CLASSES } from "./yoloPipeline";
+
+export type SettingsChangeValue = "increase" | "decrease" | number | Verbosity;
+
+export interface CommandActions {
+  speak: (text: string) => void;
+  t: Translate;
+  lang: string; // speech language; selects the command phrases to listen for
+  currentMode: AppMode;
+  onVoiceCommand: (mode: AppMode) => void;
+  onSettingsChange: (setting: string, value?: SettingsChangeValue) => void;
+  onCameraAction: (action: string, target?: string) => void; // target: detection class to search for
+  onNavigationAction: (action: string, destination?: string) => void;
+  onEmergencyAction: (action: string) => void;
+  onLanguageChange: (code: string) => void;
+  stopListening: () => void;
+  repeatLastSpeech: () => boolean;        // false when nothing has been said yet
+  getSpeechHistory: () => SpokenMessage[];
+}
+
+// Spoken values above the slider range are taken as percentages ("speech rate 120")
+const toFraction = (value: number, max: number) => (value > max ? value / 100 : value);
+const clamp = (value: number, min: number, max: number) => Math.min(Math.max(value, min), max);
+
+// Everyday English names for detection classes, besides the class names themselves
+const SPOKEN_OBJECT_NAMES: { [label: string]: string[] } = {
+  "cell phone": ["phone", "mobile", "mobile phone"],
+  cup: ["mug"],
+  tv: ["television"],
+  remote: ["remote control"],
+  couch: ["sofa"],
+  "dining table": ["table"],
+  "potted plant": ["plant"],
+  laptop: ["computer"],
+  handbag: ["bag", "purse"],
+  backpack: ["rucksack"],
+  "wine glass": ["glass"],
+  mouse: ["computer mouse"],
+};
+
+export function getSlotVocabulary(languageOptions: LanguageOption[], lang: string): SlotVocabulary {
+  const pack = getLocalePack(lang);
+  return {
+    contacts: EMERGENCY_CONTACTS.map(contact => ({
+      id: contact.id,
+      names: [...contact.spokenNames, ...(pack.contactNames?.[contact.id] ?? [])],
+    })),
+    languages: languageOptions.map(option => {
+      // "Hindi (हिन्दी)" can be spoken as "hindi" or "हिन्दी", or by its name in the current language
+      const [englishName, nativeName] = option.label.replace(")", "").split(" (");
+      return { code: option.code, names: [englishName, nativeName, ...(pack.languageNames?.[option.code] ?? [])].filter(Boolean) };
+    }),
+    objects: COCO_CLASSES.map(label => ({
+      label,
+      names: [label, ...(SPOKEN_OBJECT_NAMES[label] ?? []), ...(pack.objectLabels?.[label] ?? [])],
+    })),
+    numbers: pack.numbers,
+  };
+}
+
+export function createCommandRegistry(actions: CommandActions): CommandDefinition[] {
+  const {
+    speak,
+    t,
+    lang,
+    currentMode,
+    onVoiceCommand,
+    onSettingsChange,
+    onCameraAction,
+    onNavigationAction,
+    onEmergencyAction,
+    onLanguageChange,
+    stopListening,
+    repeatLastSpeech,
+    getSpeechHistory,
+  } = actions;
+
+  const definitions: Omit<CommandDefinition, "description">[] = [
+    // Mode switching - available everywhere
+    {
+      id: "mode.camera",
+      mode: "global",
+      phrases: ["camera", "camera mode", "open camera", "smart vision"],
+      handler: () => {
+        onVoiceCommand("camera");
+        onCameraAction("start");
+        speak(t("command.cameraActivated"));
+      },
+    },
+    {
+      id: "mode.navigation",
+      mode: "global",
+      phrases: ["navigate", "navigation", "navigation mode", "walk", "walk guide"],
+      handler: () => {
+        onVoiceCommand("navigation");
+        onNavigationAction("start");
+        speak(t("command.navigationActivated"));
+      },
+    },
+    {
+      id: "navigation.destination",
+      mode: "global",
+      phrases: ["navigate to {place:place}", "take me to {place:place}", "walk to {place:place}", "directions to {place:place}"],
+      example: "navigate to the bus stop",
+      handler: ({ place }) => {
+        onVoiceCommand("navigation");
+        onNavigationAction("start", String(place));
+        speak(t("command.navigatingTo", { place }));
+      },
+    },
+    {
+      id: "mode.emergency",
+      mode: "global",
+      phrases: ["emergency", "emergency mode", "emergency panel", "sos", "i need help"],
+      handler: () => {
+        onVoiceCommand("emergency");
+        onEmergencyAction("open");
+        speak(t("command.emergencyOpened"));
+      },
+    },
+    {
+      id: "mode.settings",
+      mode: "global",
+      phrases: ["settings", "open settings", "preferences"],
+      handler: () => {
+        onVoiceCommand("settings");
+        speak(t("command.settingsOpened"));
+      },
+    },
+    {
+      id: "contact.call",
+      mode: "global",
+      phrases: ["call {contact:contact}", "phone {contact:contact}", "dial {contact:contact}"],
+      example: "call family",
+      handler: ({ contact }) => {
+        onVoiceCommand("emergency");
+        onEmergencyAction(`call-${contact}`);
+      },
+    },
+    {
+      id: "language.set",
+      mode: "global",
+      phrases: ["switch language to {language:language}", "change language to {language:language}", "language {language:language}", "speak {language:language}"],
+      example: "switch language to Hindi",
+      handler: ({ language }) => onLanguageChange(String(language)),
+    },
+    {
+      id: "status",
+      mode: "global",
+      phrases: ["status", "current mode", "what mode", "which mode"],
+      handler: () => speak(t("command.status", { mode: t(`mode.name.${currentMode}`) })),
+    },
+    {
+      id: "help",
+      mode: "global",
+      phrases: ["help", "commands", "list commands", "what can i say"],
+      handler: () => speak(buildSpokenHelp(commands, currentMode, t)),
+    },
+    {
+      id: "listening.stop",
+      mode: "global",
+      phrases: ["stop listening", "stop", "go to sleep", "be quiet"],
+      example: "stop listening",
+      handler: () => {
+        stopListening();
+        speak(t("voice.stopped"));
+      },
+    },
+    {
+      id: "speech.repeat",
+      mode: "global",
+      // Bare "repeat" is also a camera and a navigation command; in those modes they win
+      phrases: ["what did you [just] say", "repeat that", "repeat last message", "pardon", "repeat", "say that again"],
+      example: "what did you say",
+      handler: () => {
+        if (!repeatLastSpeech()) speak(t("speech.nothingToRepeat"));
+      },
+    },
+    {
+      id: "speech.history",
+      mode: "global",
+      phrases: ["speech history", "recent messages", "what did you say before"],
+      handler: () => {
+        const recent = getSpeechHistory().slice(-3).map(message => message.text);
+        speak(recent.length ? t("speech.history", { messages: recent.join(" ... ") }) : t("speech.nothingToRepeat"));
+      },
+    },
+    {
+      id: "verbosity.terse",
+      mode: "global",
+      phrases: ["be brief", "shorter messages", "less detail", "keep it short"],
+      handler: () => onSettingsChange("verbosity", "terse"),
+    },
+    {
+      id: "verbosity.normal",
+      mode: "global",
+      phrases: ["normal detail", "normal messages", "normal verbosity"],
+      handler: () => onSettingsChange("verbosity", "normal"),
+    },
+    {
+      id: "verbosity.detailed",
+      mode: "global",
+      phrases: ["more detail", "be detailed", "detailed messages", "longer messages"],
+      handler: () => onSettingsChange("verbosity", "detailed"),
+    },
+
+    // Camera mode
+    {
+      id: "camera.start",
+      mode: "camera",
+      phrases: ["start camera", "turn on [the] camera"],
+      handler: () => onCameraAction("start"),
+    },
+    {
+      id: "camera.stop",
+      mode: "camera",
+      phrases: ["stop camera", "turn off [the] camera", "close [the] camera"],
+      handler: () => onCameraAction("stop"),
+    },
+    {
+      id: "camera.analyze",
+      mode: "camera",
+      phrases: ["analyze", "detect objects", "scan"],
+      handler: () => onCameraAction("analyze"),
+    },
+    {
+      id: "camera.describe",
+      mode: "camera",
+      phrases: ["what do you see", "what can you see", "describe [the] scene"],
+      handler: () => onCameraAction("describe"),
+    },
+    {
+      id: "camera.repeat",
+      mode: "camera",
+      phrases: ["repeat description", "repeat", "say that again"],
+      example: "repeat description",
+      handler: () => onCameraAction("repeat-description"),
+    },
+    {
+      id: "camera.find",
+      mode: "global",
+      phrases: [
+        "find [my] [the] {object:object}", "where [is] [my] [the] {object:object}", "look for [my] [the] {object:object}", "search for [my] [the] {object:object}",
+        // Anything else asked for, so the reply can name what cannot be found
+        "find [my] [the] {item:text}", "where [is] [are] [my] [the] {item:text}", "look for [my] [the] {item:text}", "search for [my] [the] {item:text}",
+      ],
+      example: "find my cup",
+      handler: ({ object, item }) => {
+        if (object === undefined) {
+          speak(t("camera.unknownObject", { object: item }));
+          return;
+        }
+        onVoiceCommand("camera");
+        onCameraAction("find", String(object));
+      },
+    },
+    {
+      id: "camera.stopSearch",
+      mode: "camera",
+      phrases: ["stop searching", "stop looking", "stop search", "found it"],
+      handler: () => onCameraAction("stop-search"),
+    },
+    {
+      id: "camera.distance",
+      mode: "camera",
+      phrases: ["how far [away] [is] [it]", "how far away are they", "distance"],
+      example: "how far",
+      handler: () => onCameraAction("distance"),
+    },
+
+    // Navigation mode
+    {
+      id: "navigation.start",
+      mode: "navigation",
+      phrases: ["start navigation", "start guidance"],
+      handler: () => onNavigationAction("start"),
+    },
+    {
+      id: "navigation.stop",
+      mode: "navigation",
+      phrases: ["stop navigation", "end navigation", "cancel navigation", "stop guidance"],
+      handler: () => onNavigationAction("stop"),
+    },
+    {
+      id: "navigation.next",
+      mode: "navigation",
+      phrases: ["next step", "next", "continue"],
+      handler: () => onNavigationAction("next"),
+    },
+    {
+      id: "navigation.previous",
+      mode: "navigation",
+      phrases: ["previous step", "previous", "go back", "last step"],
+      handler: () => onNavigationAction("previous"),
+    },
+    {
+      id: "navigation.repeat",
+      mode: "navigation",
+      phrases: ["repeat", "repeat step", "say that again"],
+      handler: () => onNavigationAction("repeat"),
+    },
+    {
+      id: "navigation.location",
+      mode: "navigation",
+      phrases: ["where am i", "current location", "my location"],
+      handler: () => onNavigationAction("location"),
+    },
+
+    // Emergency mode
+    {
+      id: "emergency.share-location",
+      mode: "emergency",
+      phrases: ["share [my] location", "send [my] location"],
+      handler: () => onEmergencyAction("share-location"),
+    },
+    {
+      id: "emergency.send-help",
+      mode: "emergency",
+      phrases: ["send help", "send help message", "send distress message"],
+      handler: () => onEmergencyAction("send-help"),
+    },
+
+    {
+      id: "emergency.repeat-location",
+      mode: "emergency",
+      phrases: ["repeat [my] location", "last location"],
+      handler: () => onEmergencyAction("repeat-location"),
+    },
+
+    // Settings mode
+    {
+      id: "settings.rate.set",
+      mode: "settings",
+      phrases: ["set [the] speech rate to {rate:number}", "speech rate {rate:number}", "set [the] rate to {rate:number}"],
+      example: "set speech rate to one point two",
+      handler: ({ rate }) => {
+        const newRate = clamp(toFraction(Number(rate), 2), 0.1, 2);
+        onSettingsChange("speechRate", newRate);
+        speak(t("settings.rateSet", { percent: Math.round(newRate * 100) }));
+      },
+    },
+    {
+      id: "settings.rate.increase",
+      mode: "settings",
+      phrases: ["speech faster", "speak faster", "faster"],
+      handler: () => onSettingsChange("speechRate", "increase"),
+    },
+    {
+      id: "settings.rate.decrease",
+      mode: "settings",
+      phrases: ["speech slower", "speak slower", "slower"],
+      handler: () => onSettingsChange("speechRate", "decrease"),
+    },
+    {
+      id: "settings.volume.set",
+      mode: "settings",
+      phrases: ["set [the] volume to {volume:number}", "volume {volume:number}"],
+      example: "set volume to eighty",
+      handler: ({ volume }) => {
+        const newVolume = clamp(toFraction(Number(volume), 1), 0.1, 1);
+        onSettingsChange("speechVolume", newVolume);
+        speak(t("settings.volumeSet", { percent: Math.round(newVolume * 100) }));
+      },
+    },
+    {
+      id: "settings.volume.increase",
+      mode: "settings",
+      phrases: ["volume up", "louder"],
+      handler: () => onSettingsChange("speechVolume", "increase"),
+    },
+    {
+      id: "settings.volume.decrease",
+      mode: "settings",
+      phrases: ["volume down", "quieter", "softer"],
+      handler: () => onSettingsChange("speechVolume", "decrease"),
+    },
+    {
+      id: "settings.test",
+      mode: "settings",
+      phrases: ["test voice", "test [the] settings"],
+      handler: () => onSettingsChange("test"),
+    },
+    {
+      id: "settings.erase",
+      mode: "settings",
+      phrases: ["erase [all] data", "clear [all] data", "wipe [all] data"],
+      example: "erase all data",
+      handler: () => onSettingsChange("erase"),
+    },
+    {
+      id: "settings.reset",
+      mode: "settings",
+      phrases: ["reset settings", "restore defaults"],
+      handler: () => onSettingsChange("reset"),
+    },
+  ];
+
+  // Local phrases come first so help and command cards show them
+  const pack = getLocalePack(lang);
+  const commands = definitions.map((command): CommandDefinition => {
+    const localPhrases = pack.commands[command.id] ?? [];
+    return {
+      ...command,
+      phrases: [...localPhrases, ...command.phrases],
+      description: t(`commandCard.${command.id}` as MessageKey),
+      example: localPhrases.length ? pack.commandExamples?.[command.id] : command.example,
+    };
+  });
+
+  return commands;
+}
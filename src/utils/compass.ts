@@ -0,0 +1,57 @@
+/**
+ * Device compass heading from orientation events.
+ *
+ * Browsers report orientation as three Euler angles relative to the earth, and
+ * only some of them anchor alpha to magnetic north (Chrome's
+ * `deviceorientationabsolute`, or iOS's `webkitCompassHeading`). Relative
+ * readings are ignored: a heading that drifts would make directions wrong
+ * rather than merely missing.
+ *
+ * The heading is the way the back camera faces, so it stays meaningful while
+ * the phone is held upright to look ahead, not only when it lies flat.
+ */
+
+interface CompassOrientationEvent extends DeviceOrientationEvent {
+  webkitCompassHeading?: number; // iOS; degrees clockwise from north
+}
+
+interface OrientationPermissionApi {
+  requestPermission?: () => Promise<"granted" | "denied">;
+}
+
+const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+
+// Compass heading of the back camera (the device's -Z axis), in degrees clockwise from north
+export function headingFromOrientation(alpha: number, beta: number, gamma: number): number | null {
+  const [sinA, cosA] = [Math.sin(toRadians(alpha)), Math.cos(toRadians(alpha))];
+  const [sinB, cosB] = [Math.sin(toRadians(beta)), Math.cos(toRadians(beta))];
+  const [sinG, cosG] = [Math.sin(toRadians(gamma)), Math.cos(toRadians(gamma))];
+  const east = -(cosA * sinG + sinA * sinB * cosG);
+  const north = -(sinA * sinG - cosA * sinB * cosG);
+  // Lying flat, the camera looks at the ground and has no meaningful heading
+  if (Math.hypot(east, north) < 0.2) return null;
+  return (Math.atan2(east, north) * 180 / Math.PI + 360) % 360;
+}
+
+export function readCompassHeading(event: CompassOrientationEvent): number | null {
+  if (typeof event.webkitCompassHeading === "number") return event.webkitCompassHeading;
+  if (!event.absolute || event.alpha === null || event.beta === null || event.gamma === null) return null;
+  return headingFromOrientation(event.alpha, event.beta, event.gamma);
+}
+
+// iOS asks once, and only from a tap or click; elsewhere access is already allowed
+export async function requestCompassPermission(): Promise<boolean> {
+  if (typeof DeviceOrientationEvent === "undefined") return false;
+  const api = DeviceOrientationEvent as unknown as OrientationPermissionApi;
+  if (!api.requestPermission) return true;
+  try {
+    return (await api.requestPermission()) === "granted";
+  } catch {
+    return false;
+  }
+}
+
+// Signed difference a - b in degrees, from -180 to 180
+export function angleDifference(a: number, b: number): number {
+  return ((a - b + 540) % 360) - 180;
+}
@@ -0,0 +1,43 @@
+import { describe, expect, it } from "vitest";
+import { clockHour, relativeOffsetDeg } from "@/utils/directions";
+
+describe("clockHour", () => {
+  it.each([
+    [0, 12],
+    [14, 12],
+    [-14, 12],
+    [15, 1],
+    [30, 1],
+    [-30, 11],
+    [90, 3],
+    [-90, 9],
+    [179, 6],
+    [180, 6],
+    [-180, 6],
+    [-179, 6],
+    [200, 7],
+    [-200, 5],
+    [345, 12],
+    [-345, 1],
+    [360, 12],
+    [-360, 12],
+  ])("puts %d degrees at %d o'clock", (offsetDeg, hour) => {
+    expect(clockHour(offsetDeg)).toBe(hour);
+  });
+});
+
+describe("relativeOffsetDeg", () => {
+  it("uses the frame offset when there is no compass", () => {
+    expect(relativeOffsetDeg(20, null, 90)).toBe(20);
+  });
+
+  it("allows for turning across north", () => {
+    expect(relativeOffsetDeg(20, 350, 10)).toBe(0);
+    expect(relativeOffsetDeg(-20, 10, 340)).toBe(10);
+  });
+
+  it("keeps an object now behind the user within half a turn", () => {
+    expect(relativeOffsetDeg(0, 0, 180)).toBe(-180);
+    expect(relativeOffsetDeg(10, 0, 180)).toBe(-170);
+  });
+});
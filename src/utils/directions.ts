@@ -0,0 +1,75 @@
+/**
+ * Where a detected object is, in words: "at 11 o'clock", "20 degrees left" or
+ * "on the left".
+ *
+ * The in-frame angle comes from the box centre and the camera's field of view.
+ * With a compass, the object's compass bearing is remembered from when the
+ * frame was captured and compared with the current heading when the sentence is
+ * built, so a user who has turned since hears where the object is now relative
+ * to them, and the degrees style also names the compass direction.
+ *
+ * Usage:
+ *   const offset = frameOffsetDeg(track.bbox, frameSize, fovDeg);
+ *   describeDirection(offset, "clock", t); // "at 1 o'clock"
+ */
+import type { FrameSize } from "@/utils/yoloPipeline";
+import type { MessageKey, Translate } from "@/utils/i18n";
+import { DEFAULT_CAMERA_FOV_DEG, focalLengthPx } from "@/utils/distanceEstimation";
+import { angleDifference } from "@/utils/compass";
+
+export type DirectionStyle = "clock" | "degrees" | "sides";
+
+export const DIRECTION_STYLES: DirectionStyle[] = ["clock", "degrees", "sides"];
+
+// Within this many degrees of the camera's axis an object is straight ahead
+const AHEAD_DEGREES = 5;
+// Sides are coarser; an object needs to be clearly off to one side to be "left" or "right"
+const SIDE_DEGREES = 10;
+// Degrees are spoken in steps of five; finer suggests precision the box does not have
+const DEGREE_STEP = 5;
+
+const CARDINALS: MessageKey[] = [
+  "direction.cardinal.north",
+  "direction.cardinal.northeast",
+  "direction.cardinal.east",
+  "direction.cardinal.southeast",
+  "direction.cardinal.south",
+  "direction.cardinal.southwest",
+  "direction.cardinal.west",
+  "direction.cardinal.northwest",
+];
+
+// Horizontal angle of the box centre from the camera's axis; positive is to the right
+export function frameOffsetDeg(bbox: [number, number, number, number], frameSize: FrameSize, fovDeg = DEFAULT_CAMERA_FOV_DEG): number {
+  const centerX = bbox[0] + bbox[2] / 2 - frameSize.width / 2;
+  return Math.atan(centerX / focalLengthPx(frameSize, fovDeg)) * 180 / Math.PI;
+}
+
+// Angle from where the user faces now, given the heading the frame was captured at
+export function relativeOffsetDeg(offsetDeg: number, capturedHeading: number | null, currentHeading: number | null): number {
+  if (capturedHeading === null || currentHeading === null) return offsetDeg;
+  return angleDifference(capturedHeading + offsetDeg, currentHeading);
+}
+
+export function clockHour(offsetDeg: number): number {
+  const hour = Math.round(offsetDeg / 30) % 12;
+  return hour <= 0 ? hour + 12 : hour;
+}
+
+export function describeDirection(offsetDeg: number, style: DirectionStyle, t: Translate, currentHeading: number | null = null): string {
+  if (style === "clock") return t("direction.clock", { hour: clockHour(offsetDeg) });
+
+  if (style === "sides") {
+    if (offsetDeg <= -SIDE_DEGREES) return t("direction.left");
+    if (offsetDeg >= SIDE_DEGREES) return t("direction.right");
+    return t("direction.center");
+  }
+
+  const degrees = Math.round(Math.abs(offsetDeg) / DEGREE_STEP) * DEGREE_STEP;
+  const direction = Math.abs(offsetDeg) < AHEAD_DEGREES || degrees === 0
+    ? t("direction.ahead")
+    : t(offsetDeg < 0 ? "direction.degreesLeft" : "direction.degreesRight", { degrees });
+  if (currentHeading === null) return direction;
+  const bearing = (currentHeading + offsetDeg + 360) % 360;
+  return t("direction.withCardinal", { direction, cardinal: t(CARDINALS[Math.round(bearing / 45) % 8]) });
+}
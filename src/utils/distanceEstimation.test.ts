@@ -0,0 +1,61 @@
+import { describe, expect, it } from "vitest";
+import { DEFAULT_CAMERA_FOV_DEG, calibrateFov, estimateDistance, focalLengthPx, roundDistance } from "@/utils/distanceEstimation";
+
+const FRAME = { width: 640, height: 480 };
+
+// How tall a person 1.7 m tall appears at the given distance through the default lens
+const personHeightPx = (meters: number) => (1.7 * focalLengthPx(FRAME, DEFAULT_CAMERA_FOV_DEG)) / meters;
+
+describe("estimateDistance", () => {
+  it("reads the distance back from a person's apparent height", () => {
+    const estimate = estimateDistance({ label: "person", confidence: 0.9, bbox: [300, 100, 80, personHeightPx(4)] }, FRAME);
+    expect(estimate.meters).toBeCloseTo(4);
+    expect(estimate.clipped).toBe(false);
+  });
+
+  it("flags a box cut off by the frame edge as an upper bound", () => {
+    expect(estimateDistance({ label: "person", confidence: 0.9, bbox: [300, 0, 200, 480] }, FRAME)).toMatchObject({ clipped: true });
+  });
+
+  it("gives no estimate for objects with no typical height", () => {
+    expect(estimateDistance({ label: "kite", confidence: 0.9, bbox: [300, 100, 80, 80] }, FRAME)).toBeNull();
+  });
+});
+
+describe("calibrateFov", () => {
+  it("recovers the field of view a reference was seen through", () => {
+    expect(calibrateFov(personHeightPx(3), FRAME, 1.7, 3)).toBeCloseTo(DEFAULT_CAMERA_FOV_DEG);
+  });
+
+  it("rejects a calibration wider than 120 degrees", () => {
+    // 50 px for 1.7 m at 3 m would take a 149 degree lens
+    expect(calibrateFov(50, FRAME, 1.7, 3)).toBeNull();
+  });
+
+  it("rejects a calibration narrower than 20 degrees", () => {
+    // 400 px for 1.7 m at 10 m would take a 15 degree lens
+    expect(calibrateFov(400, FRAME, 1.7, 10)).toBeNull();
+  });
+
+  it.each([
+    [0, 1.7, 3],
+    [200, 0, 3],
+    [200, 1.7, 0],
+    [200, 1.7, -2],
+  ])("rejects a box of %d px for %d m at %d m", (boxHeightPx, heightM, distanceM) => {
+    expect(calibrateFov(boxHeightPx, FRAME, heightM, distanceM)).toBeNull();
+  });
+});
+
+describe("roundDistance", () => {
+  it.each([
+    [0.2, 0.5],
+    [1.3, 1.5],
+    [2.7, 2.5],
+    [4.4, 4],
+    [12, 10],
+    [13, 15],
+  ])("speaks %d m as %d m", (meters, rounded) => {
+    expect(roundDistance(meters)).toBe(rounded);
+  });
+});
@@ -0,0 +1,110 @@
+/**
+ * Approximate distance to detected objects from a single camera.
+ *
+ * A pinhole camera shows an object of real height H at distance D as
+ * H × focal / D pixels tall, so D = H × focal / boxHeight. Typical heights per
+ * COCO class stand in for H, and the focal length in pixels comes from the
+ * camera's field of view, which users can calibrate with an object of known
+ * height at a known distance. Estimates are rough (people and cars vary in
+ * size, and boxes are loose), so they are rounded before being spoken.
+ *
+ * Usage:
+ *   const estimate = estimateDistance(track, frameSize, fovDeg);
+ *   if (estimate) speak(format.distance(estimate.meters));
+ */
+import type { FrameSize, YOLODetection } from "@/utils/yoloPipeline";
+
+// Field of view across the frame's longer side; a typical phone main camera
+export const DEFAULT_CAMERA_FOV_DEG = 65;
+
+// Calibrations outside this range mean the reference was misidentified or mismeasured
+const MIN_FOV_DEG = 20;
+const MAX_FOV_DEG = 120;
+
+// Boxes this close to the top or bottom edge are probably cut off by the frame
+const EDGE_MARGIN_PX = 2;
+
+// Typical standing height in metres of objects the model knows
+export const OBJECT_HEIGHTS_M: Record<string, number> = {
+  person: 1.7,
+  bicycle: 1.0,
+  car: 1.5,
+  motorcycle: 1.1,
+  bus: 3.2,
+  train: 3.8,
+  truck: 3.0,
+  "traffic light": 0.9,
+  "fire hydrant": 0.75,
+  "stop sign": 0.75,
+  "parking meter": 1.4,
+  bench: 0.85,
+  bird: 0.2,
+  cat: 0.3,
+  dog: 0.6,
+  horse: 1.6,
+  sheep: 0.9,
+  cow: 1.4,
+  backpack: 0.5,
+  umbrella: 1.0,
+  handbag: 0.3,
+  suitcase: 0.65,
+  "sports ball": 0.22,
+  skateboard: 0.12,
+  bottle: 0.25,
+  "wine glass": 0.2,
+  cup: 0.1,
+  bowl: 0.08,
+  chair: 0.9,
+  couch: 0.85,
+  "potted plant": 0.6,
+  bed: 0.6,
+  "dining table": 0.75,
+  toilet: 0.75,
+  tv: 0.6,
+  laptop: 0.25,
+  microwave: 0.3,
+  oven: 0.9,
+  sink: 0.2,
+  refrigerator: 1.8,
+  book: 0.24,
+  clock: 0.3,
+  vase: 0.3,
+};
+
+export interface DistanceEstimate {
+  meters: number;
+  clipped: boolean; // the object runs off the frame, so it is at most this far away
+}
+
+export function focalLengthPx(frameSize: FrameSize, fovDeg: number): number {
+  const longSide = Math.max(frameSize.width, frameSize.height);
+  return longSide / 2 / Math.tan((fovDeg * Math.PI) / 360);
+}
+
+// Null for objects with no typical height, or boxes too small to measure
+export function estimateDistance(detection: YOLODetection, frameSize: FrameSize, fovDeg = DEFAULT_CAMERA_FOV_DEG): DistanceEstimate | null {
+  const realHeight = OBJECT_HEIGHTS_M[detection.label];
+  const [, y, , height] = detection.bbox;
+  if (!realHeight || height < 1) return null;
+
+  return {
+    meters: (realHeight * focalLengthPx(frameSize, fovDeg)) / height,
+    clipped: y <= EDGE_MARGIN_PX || y + height >= frameSize.height - EDGE_MARGIN_PX,
+  };
+}
+
+// Field of view that makes a reference of known height, at a known distance, appear as tall as it does
+export function calibrateFov(boxHeightPx: number, frameSize: FrameSize, referenceHeightM: number, distanceM: number): number | null {
+  if (boxHeightPx < 1 || referenceHeightM <= 0 || distanceM <= 0) return null;
+  const focal = (boxHeightPx * distanceM) / referenceHeightM;
+  const longSide = Math.max(frameSize.width, frameSize.height);
+  const fovDeg = (2 * Math.atan(longSide / 2 / focal) * 180) / Math.PI;
+  return fovDeg >= MIN_FOV_DEG && fovDeg <= MAX_FOV_DEG ? fovDeg : null;
+}
+
+// Coarser steps further out, so speech does not suggest precision the estimate lacks
+export function roundDistance(meters: number): number {
+  if (meters < 3) return Math.max(0.5, Math.round(meters * 2) / 2);
+  if (meters < 10) return Math.round(meters);
+  return Math.round(meters / 5) * 5;
+}
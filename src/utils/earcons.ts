@@ -0,0 +1,101 @@
+/**
+ * Spatial earcons: a short sound per kind of object, placed in the stereo field
+ * where the object is in the camera frame.
+ *
+ * Speech says what is there; the earcon says where. An object on the left of
+ * the frame is heard in the left ear, and a box that fills more of the frame
+ * (usually something closer) is louder.
+ *
+ * Usage:
+ *   const placement = placeDetection(detection.bbox, frameSize.width, frameSize.height);
+ *   playEarcon("person", { ...placement, volume: 0.6 });
+ */
+import { playTone } from "./audioCues";
+
+export type EarconCategory = "person" | "vehicle" | "animal" | "furniture" | "obstacle" | "object";
+
+interface EarconSound {
+  type: OscillatorType;
+  frequencies: number[]; // played one after another
+  noteMs: number;
+}
+
+// Distinct timbres and contours so categories can be told apart without speech
+const EARCON_SOUNDS: Record<EarconCategory, EarconSound> = {
+  person: { type: "sine", frequencies: [660, 880], noteMs: 70 },
+  vehicle: { type: "sawtooth", frequencies: [196, 147], noteMs: 110 },
+  animal: { type: "triangle", frequencies: [988, 1319, 988], noteMs: 45 },
+  furniture: { type: "square", frequencies: [330], noteMs: 90 },
+  obstacle: { type: "triangle", frequencies: [523, 523], noteMs: 55 },
+  object: { type: "sine", frequencies: [440], noteMs: 60 },
+};
+
+const CATEGORY_LABELS: Record<Exclude<EarconCategory, "object">, string[]> = {
+  person: ["person"],
+  vehicle: ["bicycle", "car", "motorcycle", "bus", "train", "truck", "boat", "airplane"],
+  animal: ["bird", "cat", "dog", "horse", "sheep", "cow", "elephant", "bear", "zebra", "giraffe"],
+  furniture: ["bench", "chair", "couch", "bed", "dining table", "toilet"],
+  obstacle: ["traffic light", "fire hydrant", "stop sign", "parking meter", "potted plant", "suitcase"],
+};
+
+export const EARCON_CATEGORIES = Object.keys(EARCON_SOUNDS) as EarconCategory[];
+
+export function getEarconCategory(label: string): EarconCategory {
+  for (const [category, labels] of Object.entries(CATEGORY_LABELS)) {
+    if (labels.includes(label)) return category as EarconCategory;
+  }
+  return "object";
+}
+
+export interface EarconPlacement {
+  pan: number;       // -1 left edge of the frame to 1 right edge
+  proximity: number; // 0 far or small to 1 filling the frame
+}
+
+// Box side relative to the frame at which an object counts as right in front of the user
+const NEAR_BOX_FRACTION = 0.6;
+
+export function placeDetection(bbox: [number, number, number, number], frameWidth: number, frameHeight: number): EarconPlacement {
+  const [x, , width, height] = bbox;
+  const centerX = (x + width / 2) / frameWidth;
+  // Square root of the area, so a box twice as wide and tall counts twice as close
+  const size = Math.sqrt(Math.max(0, width * height) / (frameWidth * frameHeight));
+  return {
+    pan: Math.max(-1, Math.min(1, centerX * 2 - 1)),
+    proximity: Math.max(0, Math.min(1, size / NEAR_BOX_FRACTION)),
+  };
+}
+
+export interface EarconOptions extends EarconPlacement {
+  volume: number;    // user's earcon volume, 0 to 1
+  delayMs?: number;
+}
+
+// Far objects stay audible; near ones are up to four times louder
+const MIN_PROXIMITY_GAIN = 0.25;
+
+export function playEarcon(label: string, { pan, proximity, volume, delayMs = 0 }: EarconOptions) {
+  playCategoryEarcon(getEarconCategory(label), { pan, proximity, volume, delayMs });
+}
+
+export function playCategoryEarcon(category: EarconCategory, { pan, proximity, volume, delayMs = 0 }: EarconOptions) {
+  if (volume <= 0) return;
+  const sound = EARCON_SOUNDS[category];
+  const level = volume * 0.4 * (MIN_PROXIMITY_GAIN + (1 - MIN_PROXIMITY_GAIN) * proximity);
+  sound.frequencies.forEach((frequency, index) => {
+    playTone({
+      frequency,
+      durationMs: sound.noteMs,
+      volume: level,
+      delayMs: delayMs + index * (sound.noteMs + 15),
+      type: sound.type,
+      pan,
+    });
+  });
+}
+
+// How long one earcon takes, for spacing several in a row
+export function getEarconDurationMs(category: EarconCategory): number {
+  const sound = EARCON_SOUNDS[category];
+  return sound.frequencies.length * (sound.noteMs + 15);
+}
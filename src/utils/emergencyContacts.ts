@@ -0,0 +1,35 @@
+/**
+ * Pre-configured emergency contacts and the names users may call them by.
+ */
+
+export interface EmergencyContact {
+  id: string;
+  name: string;
+  number: string;
+  spokenNames: string[]; // what a user might say, e.g. "call my family"
+}
+
+export const EMERGENCY_CONTACTS: EmergencyContact[] = [
+  {
+    id: "911",
+    name: "Emergency Services",
+    number: "911",
+    spokenNames: ["emergency", "emergency services", "911", "nine one one", "police", "ambulance", "fire department"],
+  },
+  {
+    id: "family",
+    name: "Family Contact",
+    number: "+1-555-0123",
+    spokenNames: ["family", "my family", "family contact", "family member"],
+  },
+  {
+    id: "friend",
+    name: "Trusted Friend",
+    number: "+1-555-0456",
+    spokenNames: ["friend", "my friend", "trusted friend"],
+  },
+];
+
+export function getEmergencyContact(id: string): EmergencyContact | undefined {
+  return EMERGENCY_CONTACTS.find(contact => contact.id === id);
+}
@@ -0,0 +1,80 @@
+/**
+ * Vibration patterns for the things the app most needs to get across when
+ * speech is drowned out by traffic or a crowd.
+ *
+ * A pattern alternates vibration and pause lengths in milliseconds, as the
+ * Vibration API expects. Users can replace any default in Settings; their
+ * versions are stored with the other voice settings.
+ *
+ * Usage:
+ *   vibrate(getHapticPattern("turnLeft", voiceSettings.hapticPatterns));
+ */
+
+export type HapticCue =
+  | "hazardAhead"
+  | "turnLeft"
+  | "turnRight"
+  | "arrived"
+  | "commandRecognized"
+  | "commandNotUnderstood"
+  | "emergencyArmed";
+
+export type HapticPatterns = Partial<Record<HapticCue, number[]>>;
+
+export type Haptic = (cue: HapticCue) => void;
+
+export const DEFAULT_HAPTIC_PATTERNS: Record<HapticCue, number[]> = {
+  hazardAhead: [100, 50, 100, 50, 100, 50, 400],
+  turnLeft: [400, 150, 100],
+  turnRight: [100, 150, 400],
+  arrived: [100, 100, 100, 100, 600],
+  commandRecognized: [40],
+  commandNotUnderstood: [80, 80, 80],
+  emergencyArmed: [600, 200, 600, 200, 600],
+};
+
+export const HAPTIC_CUES: { id: HapticCue; label: string; description: string }[] = [
+  { id: "hazardAhead", label: "Hazard ahead", description: "Rapid pulses ending in a long buzz" },
+  { id: "turnLeft", label: "Turn left", description: "Long then short" },
+  { id: "turnRight", label: "Turn right", description: "Short then long" },
+  { id: "arrived", label: "Arrived", description: "Two taps and a long buzz" },
+  { id: "commandRecognized", label: "Command recognized", description: "One short tap" },
+  { id: "commandNotUnderstood", label: "Command not understood", description: "Three quick taps" },
+  { id: "emergencyArmed", label: "Emergency armed", description: "Three long buzzes" },
+];
+
+// Longer patterns tie up the motor and drown out the next cue
+const MAX_SEGMENT_MS = 2000;
+const MAX_SEGMENTS = 12;
+
+export function isHapticsSupported(): boolean {
+  return typeof navigator !== "undefined" && typeof navigator.vibrate === "function";
+}
+
+export function getHapticPattern(cue: HapticCue, custom: HapticPatterns = {}): number[] {
+  return custom[cue] ?? DEFAULT_HAPTIC_PATTERNS[cue];
+}
+
+export function vibrate(pattern: number[]) {
+  if (!isHapticsSupported()) return;
+  try {
+    navigator.vibrate(pattern);
+  } catch {
+    // Some browsers throw instead of ignoring vibration without a user gesture
+  }
+}
+
+export function formatHapticPattern(pattern: number[]): string {
+  return pattern.join(", ");
+}
+
+// "200, 100, 200" -> [200, 100, 200]; null when the text is not a usable pattern
+export function parseHapticPattern(text: string): number[] | null {
+  const parts = text.split(/[\s,]+/).filter(Boolean);
+  if (parts.length === 0 || parts.length > MAX_SEGMENTS) return null;
+  const pattern = parts.map(Number);
+  if (pattern.some(ms => !Number.isInteger(ms) || ms < 0 || ms > MAX_SEGMENT_MS)) return null;
+  // Only the vibration segments (even positions) can be felt
+  if (!pattern.some((ms, index) => index % 2 === 0 && ms > 0)) return null;
+  return pattern;
+}
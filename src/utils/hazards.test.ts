@@ -0,0 +1,74 @@
+import { describe, expect, it, vi } from "vitest";
+import { assessHazards, createInstructionGate, highestHazardLevel } from "@/utils/hazards";
+import { TrackedObject } from "@/utils/objectTracker";
+
+const FRAME = { width: 640, height: 480 };
+
+const track = (label: string, bbox: [number, number, number, number], growth: number): TrackedObject => ({
+  id: 1,
+  label,
+  confidence: 0.9,
+  bbox,
+  velocity: { x: 0, y: 0, growth },
+  ageMs: 1000,
+  hits: 5,
+  missedFrames: 0,
+});
+
+describe("assessHazards", () => {
+  it("rates a car closing fast in the path as imminent", () => {
+    const [hazard] = assessHazards([track("car", [220, 100, 200, 200], 0.6)], FRAME);
+    expect(hazard.level).toBe("imminent");
+    expect(hazard.ttcSeconds).toBeCloseTo(1 / 0.6);
+  });
+
+  it("ignores a cup, however fast it grows", () => {
+    expect(highestHazardLevel(assessHazards([track("cup", [300, 300, 30, 30], 1)], FRAME))).toBe("none");
+  });
+});
+
+describe("createInstructionGate", () => {
+  it("gives instructions straight away while the way is clear", () => {
+    const gate = createInstructionGate();
+    const deliver = vi.fn();
+    gate.give(deliver);
+    expect(deliver).toHaveBeenCalledOnce();
+  });
+
+  it.each(["warning", "imminent"] as const)("holds the next instruction during a %s and gives it once clear", level => {
+    const gate = createInstructionGate();
+    gate.setHazardLevel(level);
+    const deliver = vi.fn();
+    gate.give(deliver);
+    expect(deliver).not.toHaveBeenCalled();
+    expect(gate.isHolding()).toBe(true);
+
+    gate.setHazardLevel("caution");
+    expect(deliver).toHaveBeenCalledOnce();
+    expect(gate.isHolding()).toBe(false);
+  });
+
+  it("keeps only the latest held instruction", () => {
+    const gate = createInstructionGate();
+    gate.setHazardLevel("imminent");
+    const stale = vi.fn();
+    const latest = vi.fn();
+    gate.give(stale);
+    gate.give(latest);
+    gate.setHazardLevel("warning");
+    expect(latest).not.toHaveBeenCalled();
+    gate.setHazardLevel("none");
+    expect(stale).not.toHaveBeenCalled();
+    expect(latest).toHaveBeenCalledOnce();
+  });
+
+  it("drops a held instruction when navigation stops", () => {
+    const gate = createInstructionGate();
+    gate.setHazardLevel("warning");
+    const deliver = vi.fn();
+    gate.give(deliver);
+    gate.clear();
+    gate.setHazardLevel("none");
+    expect(deliver).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,225 @@
+/**
+ * Collision risk for tracked objects.
+ *
+ * Each object is scored from three things: how dangerous its kind is to walk
+ * into (a car far more than a cup), how soon it would reach the user, and how
+ * much of it is in the corridor straight ahead. Time to contact comes from how
+ * fast the box is growing: an object whose image doubles in size every second
+ * is one second away, whatever its real size, so no distance estimate is
+ * needed. A nearby distance estimate raises the risk on its own for objects
+ * that are close but not moving.
+ *
+ * The monitor turns per-frame assessments into alerts, once per object per
+ * level, so a parked car does not trigger a warning on every frame.
+ *
+ * Usage:
+ *   const hazards = assessHazards(tracks, frameSize, distances);
+ *   const alerts = monitor.update(hazards, Date.now());
+ */
+import type { FrameSize } from "@/utils/yoloPipeline";
+import type { TrackedObject } from "@/utils/objectTracker";
+import type { DistanceEstimate } from "@/utils/distanceEstimation";
+
+export type HazardLevel = "none" | "caution" | "warning" | "imminent";
+
+export const HAZARD_LEVELS: HazardLevel[] = ["none", "caution", "warning", "imminent"];
+
+export interface Hazard {
+  track: TrackedObject;
+  level: HazardLevel;
+  score: number;             // 0 to 1
+  ttcSeconds: number | null; // null when the object is not getting closer
+  pathOverlap: number;       // fraction of the box inside the walking corridor, 0 to 1
+}
+
+export interface HazardAlert {
+  level: "warning" | "imminent";
+  hazard: Hazard;
+}
+
+export interface HazardMonitor {
+  update: (hazards: Hazard[], now: number) => HazardAlert[];
+  reset: () => void;
+}
+
+// How bad walking into each kind of object would be; unlisted classes use DEFAULT_DANGER
+export const HAZARD_WEIGHTS: Record<string, number> = {
+  car: 1,
+  bus: 1,
+  truck: 1,
+  train: 1,
+  motorcycle: 1,
+  bicycle: 0.8,
+  horse: 0.7,
+  cow: 0.7,
+  person: 0.4,
+  dog: 0.5,
+  "fire hydrant": 0.6,
+  "parking meter": 0.6,
+  "stop sign": 0.6,
+  "traffic light": 0.5,
+  bench: 0.6,
+  chair: 0.5,
+  "dining table": 0.5,
+  couch: 0.4,
+  bed: 0.4,
+  toilet: 0.4,
+  refrigerator: 0.5,
+  suitcase: 0.4,
+  "potted plant": 0.4,
+  skateboard: 0.4,
+  bottle: 0.1,
+  cup: 0.05,
+  "wine glass": 0.1,
+  book: 0.05,
+  "cell phone": 0.05,
+  remote: 0.05,
+};
+const DEFAULT_DANGER = 0.2;
+
+// Central share of the frame width the user will walk through
+const CORRIDOR_WIDTH_FRACTION = 0.4;
+// Box growth below this (relative size per second) is treated as standing still
+const MIN_GROWTH = 0.05;
+// Contact within this many seconds is as urgent as it gets; beyond TTC_HORIZON it adds nothing
+const TTC_URGENT_S = 1.5;
+const TTC_HORIZON_S = 6;
+// Closer than this counts as urgent even without movement
+const NEAR_DISTANCE_M = 1;
+const PROXIMITY_HORIZON_M = 4;
+
+// Score thresholds for each level; imminent also needs a short time to contact or a very close object
+const CAUTION_SCORE = 0.2;
+const WARNING_SCORE = 0.4;
+const IMMINENT_SCORE = 0.6;
+const IMMINENT_TTC_S = 2.5;
+// A dangerous object counts as "in the way" once this much of it is in the corridor
+const IN_PATH_OVERLAP = 0.3;
+
+// An object that calmed down must stay calm this long before it can alert again
+const REALERT_MS = 8000;
+
+export function dangerWeight(label: string): number {
+  return HAZARD_WEIGHTS[label] ?? DEFAULT_DANGER;
+}
+
+// Size doubling time, in effect: 1 / (relative growth per second)
+export function timeToContact(track: TrackedObject): number | null {
+  return track.velocity.growth > MIN_GROWTH ? 1 / track.velocity.growth : null;
+}
+
+export function corridorOverlap(bbox: [number, number, number, number], frameSize: FrameSize): number {
+  const corridorHalf = (frameSize.width * CORRIDOR_WIDTH_FRACTION) / 2;
+  const left = frameSize.width / 2 - corridorHalf;
+  const right = frameSize.width / 2 + corridorHalf;
+  const [x, , width] = bbox;
+  if (width <= 0) return 0;
+  const overlap = Math.max(0, Math.min(x + width, right) - Math.max(x, left));
+  // Measured against the smaller of box and corridor, so a wide car filling the corridor counts fully
+  return overlap / Math.min(width, right - left);
+}
+
+export function assessHazard(track: TrackedObject, frameSize: FrameSize, distance?: DistanceEstimate): Hazard {
+  const weight = dangerWeight(track.label);
+  const ttcSeconds = timeToContact(track);
+  const pathOverlap = corridorOverlap(track.bbox, frameSize);
+  const distanceM = distance?.meters;
+
+  const ttcUrgency = ttcSeconds === null ? 0 : Math.max(0, Math.min(1, (TTC_HORIZON_S - ttcSeconds) / (TTC_HORIZON_S - TTC_URGENT_S)));
+  const proximityUrgency = distanceM === undefined ? 0 : Math.max(0, Math.min(1, (PROXIMITY_HORIZON_M - distanceM) / (PROXIMITY_HORIZON_M - NEAR_DISTANCE_M)));
+  const urgency = Math.max(ttcUrgency, proximityUrgency);
+  // Something off to the side still matters a little: it may cross the user's path
+  const score = weight * urgency * (0.3 + 0.7 * pathOverlap);
+
+  const inPath = pathOverlap >= IN_PATH_OVERLAP;
+  const closing = (ttcSeconds !== null && ttcSeconds <= IMMINENT_TTC_S) || (distanceM !== undefined && distanceM <= NEAR_DISTANCE_M);
+  let level: HazardLevel = "none";
+  if (score >= IMMINENT_SCORE && inPath && closing) level = "imminent";
+  else if (score >= WARNING_SCORE) level = "warning";
+  else if (score >= CAUTION_SCORE) level = "caution";
+
+  return { track, level, score, ttcSeconds, pathOverlap };
+}
+
+// Most dangerous first
+export function assessHazards(tracks: TrackedObject[], frameSize: FrameSize, distances?: Map<number, DistanceEstimate>): Hazard[] {
+  return tracks
+    .map(track => assessHazard(track, frameSize, distances?.get(track.id)))
+    .sort((a, b) => b.score - a.score);
+}
+
+export function highestHazardLevel(hazards: Hazard[]): HazardLevel {
+  return hazards.reduce<HazardLevel>(
+    (highest, hazard) => (HAZARD_LEVELS.indexOf(hazard.level) > HAZARD_LEVELS.indexOf(highest) ? hazard.level : highest),
+    "none",
+  );
+}
+
+export function createHazardMonitor(): HazardMonitor {
+  // Highest level alerted per track, and when the track was last at or above warning
+  const alerted = new Map<number, { level: HazardAlert["level"]; lastActiveAt: number }>();
+
+  return {
+    update(hazards, now) {
+      const alerts: HazardAlert[] = [];
+      for (const hazard of hazards) {
+        const id = hazard.track.id;
+        const previous = alerted.get(id);
+        if (hazard.level !== "warning" && hazard.level !== "imminent") {
+          if (previous && now - previous.lastActiveAt > REALERT_MS) alerted.delete(id);
+          continue;
+        }
+        // Escalation to imminent always alerts; repeats at the same level do not
+        if (!previous || (hazard.level === "imminent" && previous.level === "warning")) {
+          alerts.push({ level: hazard.level, hazard });
+          alerted.set(id, { level: hazard.level, lastActiveAt: now });
+        } else {
+          previous.lastActiveAt = now;
+        }
+      }
+      // Forget tracks that have left
+      const present = new Set(hazards.map(hazard => hazard.track.id));
+      for (const id of alerted.keys()) if (!present.has(id)) alerted.delete(id);
+
+      return alerts.sort((a, b) => b.hazard.score - a.hazard.score);
+    },
+    reset() {
+      alerted.clear();
+    },
+  };
+}
+
+// Navigation holds back its instructions at these levels, and gives them once the way is clear
+export const PAUSING_HAZARDS: HazardLevel[] = ["warning", "imminent"];
+
+export interface InstructionGate {
+  give: (deliver: () => void) => void; // delivers now, or holds it while a hazard is in the way
+  setHazardLevel: (level: HazardLevel) => void;
+  clear: () => void;
+  isHolding: () => boolean;
+}
+
+export function createInstructionGate(): InstructionGate {
+  let level: HazardLevel = "none";
+  // Only the latest instruction is kept; earlier ones are out of date by the time the way is clear
+  let held: (() => void) | null = null;
+  const paused = () => PAUSING_HAZARDS.includes(level);
+
+  return {
+    give(deliver) {
+      if (paused()) held = deliver;
+      else deliver();
+    },
+    setHazardLevel(next) {
+      level = next;
+      if (paused() || !held) return;
+      const deliver = held;
+      held = null;
+      deliver();
+    },
+    clear() {
+      held = null;
+    },
+    isHolding: () => held !== null,
+  };
+}
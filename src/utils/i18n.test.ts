@@ -0,0 +1,25 @@
+import { describe, expect, it } from "vitest";
+import { getLocalePack } from "@/utils/i18n";
+
+const english = getLocalePack("en");
+const placeholders = (template: string) => [...template.matchAll(/\{(\w+)\}/g)].map(match => match[1]).sort();
+
+describe.each(["hi", "es", "fr", "de"])("the %s locale pack", lang => {
+  const pack = getLocalePack(lang);
+
+  it("translates every message", () => {
+    expect(Object.keys(english.messages).filter(key => !(key in pack.messages))).toEqual([]);
+  });
+
+  it("translates every detailed variant", () => {
+    expect(Object.keys(english.detailed).filter(key => !(key in (pack.detailed ?? {})))).toEqual([]);
+  });
+
+  it("keeps the placeholders of each English message", () => {
+    for (const catalog of ["messages", "terse", "detailed"] as const) {
+      for (const [key, template] of Object.entries(pack[catalog] ?? {})) {
+        expect(placeholders(template), `${catalog} ${key}`).toEqual(placeholders(english[catalog]?.[key] ?? english.messages[key]));
+      }
+    }
+  });
+});
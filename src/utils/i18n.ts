@@ -0,0 +1,91 @@
+/**
+ * Spoken message catalogs and per-language voice command vocabularies.
+ *
+ * Each language pack lives in src/locales and is looked up by the root of the
+ * BCP-47 speech language ("hi-IN" -> "hi"). Messages and command phrases a pack
+ * does not translate fall back to English, so a partial pack is always safe.
+ *
+ * Messages can also have terse and detailed variants. A translator created for
+ * a verbosity level prefers the pack's variant, then the pack's normal message,
+ * so a Spanish user on "terse" never hears an English variant instead of the
+ * Spanish sentence the pack does have.
+ *
+ * Usage:
+ *   const t = createTranslator("es-ES");
+ *   speak(t("emergency.calling", { name: "Familia" })); // "Llamando a Familia"
+ *   createTranslator("en-US", "terse")("emergency.cancelled"); // "Emergency mode cancelled."
+ */
+
+import en, { messages as englishMessages } from "@/locales/en";
+import hi from "@/locales/hi";
+import es from "@/locales/es";
+import fr from "@/locales/fr";
+import de from "@/locales/de";
+import type { NumberVocabulary } from "./commandGrammar";
+
+export type MessageKey = keyof typeof englishMessages;
+export type MessageParams = { [name: string]: string | number };
+export type Translate = (key: MessageKey, params?: MessageParams) => string;
+export type MessageCatalog = Partial<Record<MessageKey, string>>;
+
+export type Verbosity = "terse" | "normal" | "detailed";
+export const VERBOSITY_LEVELS: Verbosity[] = ["terse", "normal", "detailed"];
+
+export interface LocalePack {
+  messages: MessageCatalog;
+  terse?: MessageCatalog;                            // shorter wording for the "terse" verbosity
+  detailed?: MessageCatalog;                         // extra guidance for the "detailed" verbosity
+  commands: { [commandId: string]: string[] };       // phrases tried before the English ones
+  commandExamples?: { [commandId: string]: string }; // spoken in help for commands with slots
+  contactNames?: { [contactId: string]: string[] };
+  languageNames?: { [code: string]: string[] };
+  wakeVariants?: { [heard: string]: string };        // how this language's recognizer hears "Hey Vision"
+  yesWords: string[];
+  noWords: string[];
+  numbers?: NumberVocabulary;                        // English number words are always understood
+  objectLabels?: { [cocoLabel: string]: [singular: string, plural: string] };
+  countObjects?: (label: string, count: number) => string;
+}
+
+const LOCALE_PACKS: { [root: string]: LocalePack } = { en, hi, es, fr, de };
+
+export function getLocalePack(lang: string): LocalePack {
+  const root = (lang || "en").split("-")[0].toLowerCase();
+  return LOCALE_PACKS[root] ?? en;
+}
+
+export function hasLocalePack(lang: string): boolean {
+  return !!LOCALE_PACKS[(lang || "en").split("-")[0].toLowerCase()];
+}
+
+export function formatMessage(template: string, params: MessageParams = {}): string {
+  return template.replace(/\{(\w+)\}/g, (placeholder, name) => (name in params ? String(params[name]) : placeholder));
+}
+
+function lookupMessage(pack: LocalePack, key: MessageKey, verbosity: Verbosity): string | undefined {
+  if (verbosity === "normal") return pack.messages[key];
+  return pack[verbosity]?.[key] ?? pack.messages[key];
+}
+
+export function createTranslator(lang: string, verbosity: Verbosity = "normal"): Translate {
+  const pack = getLocalePack(lang);
+  return (key, params) => formatMessage(lookupMessage(pack, key, verbosity) ?? lookupMessage(en, key, verbosity) ?? key, params);
+}
+
+// "a, b and c" using the language's own conjunction
+export function joinList(items: string[], t: Translate, conjunction: "common.and" | "common.or" = "common.and"): string {
+  if (items.length <= 1) return items.join("");
+  return `${items.slice(0, -1).join(", ")} ${t(conjunction)} ${items[items.length - 1]}`;
+}
+
+export function translateObjectLabel(lang: string, label: string): string {
+  return getLocalePack(lang).objectLabels?.[label]?.[0] ?? label;
+}
+
+// "a chair", "2 people", "2 personas"
+export function countObjects(lang: string, label: string, count: number): string {
+  const pack = getLocalePack(lang);
+  const names = pack.objectLabels?.[label];
+  if (names) return `${count} ${count === 1 ? names[0] : names[1]}`;
+  return (pack.countObjects ?? en.countObjects)(label, count);
+}
@@ -7,6 +7,8 @@
  *   const languageOptions = await getLanguageOptions();
  */
 
+import { loadSystemVoices } from "./voices";
+
 export interface LanguageOption {
   label: string;
   code: string;       // BCP-47 code for TTS
@@ -75,23 +77,10 @@ const LANG_MAP: { code: string; tesseract: string; label: string }[] = [
   { code: "it-IT", tesseract: "ita", label: "Italian (Italiano)" }
 ];
 
-// Detects browser TTS languages and root codes as well
-function findSystemTTSCodes(): Promise<string[]> {
-  return new Promise(resolve => {
-    if (!window.speechSynthesis) return resolve([]);
-    let voices = window.speechSynthesis.getVoices();
-    if (voices.length > 0) {
-      resolve(voices.map(v => v.lang));
-    } else {
-      // Safari loads voices async
-      window.speechSynthesis.onvoiceschanged = () => {
-        voices = window.speechSynthesis.getVoices();
-        resolve(voices.map(v => v.lang));
-      };
-      // fallback: after 1s still no voices, just resolve
-      setTimeout(() => resolve(window.speechSynthesis.getVoices().map(v => v.lang)), 1000);
-    }
-  });
+// Detects browser TTS languages; the voices themselves are listed in voices.ts
+async function findSystemTTSCodes(): Promise<string[]> {
+  const voices = await loadSystemVoices();
+  return voices.map(v => v.lang);
 }
 
 export async function getLanguageOptions(): Promise<LanguageOption[]> {
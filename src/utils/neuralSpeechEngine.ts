@@ -0,0 +1,131 @@
+/**
+ * Offline neural speech: text is synthesized by an MMS-TTS model in a Web
+ * Worker and played through Web Audio.
+ *
+ * Used for speech languages the browser has no voice for, so a user who picks
+ * Odia or Assamese still hears the app. The worker is shared by every engine so
+ * a loaded model survives language switches back and forth.
+ */
+import type { SpeechEngine } from "./speechQueue";
+import type { UtteranceSettings } from "./speechEngine";
+import { getAudioContext } from "./audioCues";
+import { getNeuralTtsModel } from "./neuralTtsModels";
+import type { TtsWorkerRequest, TtsWorkerResponse } from "@/workers/tts.worker";
+
+let worker: Worker | null = null;
+let nextUtteranceId = 0;
+const listeners = new Set<(message: TtsWorkerResponse) => void>();
+
+function getWorker(): Worker {
+  if (!worker) {
+    worker = new Worker(new URL("../workers/tts.worker.ts", import.meta.url), { type: "module" });
+    worker.onmessage = (event: MessageEvent<TtsWorkerResponse>) => {
+      listeners.forEach(listener => listener(event.data));
+    };
+    worker.onerror = event => {
+      listeners.forEach(listener => listener({ type: "error", message: event.message || "Speech worker failed" }));
+    };
+  }
+  return worker;
+}
+
+function postToWorker(request: TtsWorkerRequest) {
+  getWorker().postMessage(request);
+}
+
+export function isNeuralSpeechSupported(): boolean {
+  return typeof Worker !== "undefined" && typeof window !== "undefined" && ("AudioContext" in window || "webkitAudioContext" in window);
+}
+
+// Downloads (or loads from cache) a model ahead of its first message; resolves once it can speak
+export function loadNeuralTtsModel(modelId: string, onProgress?: (progress: number) => void): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const handleMessage = (message: TtsWorkerResponse) => {
+      if (message.type === "loading" && message.model === modelId) {
+        onProgress?.(message.progress);
+      } else if (message.type === "ready" && message.model === modelId) {
+        listeners.delete(handleMessage);
+        resolve();
+      } else if (message.type === "error" && message.id === undefined && (message.model ?? modelId) === modelId) {
+        listeners.delete(handleMessage);
+        reject(new Error(message.message));
+      }
+    };
+    listeners.add(handleMessage);
+    postToWorker({ type: "load", model: modelId });
+  });
+}
+
+// The models speak at their own pace and pitch; rate and pitch would have to resample the
+// waveform, which shifts both at once, so only volume is taken from the settings
+export function createNeuralSpeechEngine(getSettings: () => UtteranceSettings): SpeechEngine {
+  let stopCurrent: (() => void) | null = null;
+
+  return {
+    speak(text, { onStart, onEnd }) {
+      const model = getNeuralTtsModel(getSettings().lang);
+      const context = getAudioContext();
+      if (!model || !context) {
+        onEnd();
+        return;
+      }
+
+      const id = nextUtteranceId++;
+      let source: AudioBufferSourceNode | null = null;
+      let finished = false;
+
+      const release = () => {
+        finished = true;
+        listeners.delete(handleMessage);
+        if (source) {
+          source.onended = null;
+          source.stop();
+          source = null;
+        }
+        if (stopCurrent === stop) stopCurrent = null;
+      };
+      const finish = () => {
+        if (finished) return;
+        release();
+        onEnd();
+      };
+      // Cancelled by the speech queue, which no longer expects an end for this message
+      const stop = () => {
+        if (finished) return;
+        if (!source) postToWorker({ type: "cancel", id });
+        release();
+      };
+
+      function handleMessage(message: TtsWorkerResponse) {
+        if (message.type === "audio" && message.id === id) {
+          const buffer = context.createBuffer(1, message.audio.length, message.samplingRate);
+          buffer.copyToChannel(message.audio, 0);
+          const gain = context.createGain();
+          gain.gain.value = getSettings().volume;
+          source = context.createBufferSource();
+          source.buffer = buffer;
+          source.connect(gain);
+          gain.connect(context.destination);
+          source.onended = () => {
+            source = null;
+            finish();
+          };
+          source.start();
+          onStart();
+        } else if (message.type === "error" && (message.id === id || (message.id === undefined && message.model === undefined))) {
+          // A missing model offline, or a worker crash: skip the message rather than stall the queue
+          console.warn(`Offline speech failed: ${message.message}`);
+          finish();
+        }
+      }
+
+      stopCurrent?.();
+      stopCurrent = stop;
+      listeners.add(handleMessage);
+      postToWorker({ type: "synthesize", id, text, model: model.id });
+    },
+    cancel() {
+      stopCurrent?.();
+    },
+  };
+}
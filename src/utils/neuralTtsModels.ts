@@ -0,0 +1,76 @@
+/**
+ * On-device text-to-speech voices for languages the browser cannot speak.
+ *
+ * Meta's MMS-TTS checkpoints cover almost every language in the language list
+ * with a small VITS model per language, exported to ONNX so transformers.js can
+ * run them on onnxruntime-web. A model is downloaded the first time it is used
+ * (or from Settings ahead of time) and kept in the browser's Cache Storage, so
+ * afterwards it speaks without a connection.
+ */
+
+// "fallback" speaks with a model only where the browser has no voice for the language
+export type OfflineVoiceMode = "fallback" | "always" | "off";
+
+export interface NeuralTtsModelOption {
+  id: string;
+  lang: string; // ISO 639-1 root of the speech languages it speaks
+  label: string;
+  sizeMb: number;
+}
+
+export const NEURAL_TTS_MODELS: NeuralTtsModelOption[] = [
+  { id: "Xenova/mms-tts-eng", lang: "en", label: "English", sizeMb: 30 },
+  { id: "Xenova/mms-tts-hin", lang: "hi", label: "Hindi", sizeMb: 30 },
+  { id: "Xenova/mms-tts-ben", lang: "bn", label: "Bengali", sizeMb: 30 },
+  { id: "Xenova/mms-tts-tam", lang: "ta", label: "Tamil", sizeMb: 30 },
+  { id: "Xenova/mms-tts-tel", lang: "te", label: "Telugu", sizeMb: 30 },
+  { id: "Xenova/mms-tts-kan", lang: "kn", label: "Kannada", sizeMb: 30 },
+  { id: "Xenova/mms-tts-mal", lang: "ml", label: "Malayalam", sizeMb: 30 },
+  { id: "Xenova/mms-tts-mar", lang: "mr", label: "Marathi", sizeMb: 30 },
+  { id: "Xenova/mms-tts-guj", lang: "gu", label: "Gujarati", sizeMb: 30 },
+  { id: "Xenova/mms-tts-pan", lang: "pa", label: "Punjabi", sizeMb: 30 },
+  { id: "Xenova/mms-tts-urd-script_arabic", lang: "ur", label: "Urdu", sizeMb: 30 },
+  { id: "Xenova/mms-tts-ory", lang: "or", label: "Odia", sizeMb: 30 },
+  { id: "Xenova/mms-tts-asm", lang: "as", label: "Assamese", sizeMb: 30 },
+  { id: "Xenova/mms-tts-npi", lang: "ne", label: "Nepali", sizeMb: 30 },
+  { id: "Xenova/mms-tts-mai", lang: "mai", label: "Maithili", sizeMb: 30 },
+  { id: "Xenova/mms-tts-spa", lang: "es", label: "Spanish", sizeMb: 30 },
+  { id: "Xenova/mms-tts-fra", lang: "fr", label: "French", sizeMb: 30 },
+  { id: "Xenova/mms-tts-deu", lang: "de", label: "German", sizeMb: 30 },
+  { id: "Xenova/mms-tts-rus", lang: "ru", label: "Russian", sizeMb: 30 },
+  { id: "Xenova/mms-tts-por", lang: "pt", label: "Portuguese", sizeMb: 30 },
+  { id: "Xenova/mms-tts-ita", lang: "it", label: "Italian", sizeMb: 30 },
+];
+
+// Transformers.js keeps downloaded model files here, keyed by their Hugging Face URL
+const MODEL_CACHE_NAME = "transformers-cache";
+
+const langRoot = (lang: string) => lang.toLowerCase().replace("_", "-").split("-")[0];
+
+// undefined when no offline voice exists for the language (Sanskrit, Konkani, Chinese, ...)
+export function getNeuralTtsModel(lang: string): NeuralTtsModelOption | undefined {
+  return NEURAL_TTS_MODELS.find(model => model.lang === langRoot(lang));
+}
+
+async function getCachedModelRequests(model: NeuralTtsModelOption): Promise<Request[]> {
+  if (typeof caches === "undefined") return [];
+  const cache = await caches.open(MODEL_CACHE_NAME);
+  const requests = await cache.keys();
+  return requests.filter(request => request.url.includes(`/${model.id}/`));
+}
+
+// Downloaded models have their weights in the cache; a config file alone means the download was cut short
+export async function isNeuralTtsModelCached(model: NeuralTtsModelOption): Promise<boolean> {
+  try {
+    const requests = await getCachedModelRequests(model);
+    return requests.some(request => request.url.endsWith(".onnx"));
+  } catch {
+    return false;
+  }
+}
+
+export async function deleteNeuralTtsModel(model: NeuralTtsModelOption): Promise<void> {
+  const requests = await getCachedModelRequests(model);
+  const cache = await caches.open(MODEL_CACHE_NAME);
+  await Promise.all(requests.map(request => cache.delete(request)));
+}
@@ -0,0 +1,44 @@
+import { describe, expect, it } from "vitest";
+import { guideToObject } from "@/utils/objectSearch";
+
+const FRAME = { width: 640, height: 480 };
+
+// A square box of the given side centred on (centerX, centerY)
+const box = (centerX: number, centerY: number, side = 40): [number, number, number, number] => [centerX - side / 2, centerY - side / 2, side, side];
+
+describe("guideToObject", () => {
+  it.each([
+    ["left", box(80, 240)],
+    ["right", box(560, 240)],
+    ["up", box(320, 40)],
+    ["down", box(320, 440)],
+  ])("points the camera %s towards an object near that edge", (hint, bbox) => {
+    expect(guideToObject(bbox, FRAME).hint).toBe(hint);
+  });
+
+  it("corrects the larger offset first", () => {
+    // A quarter of the way left, but near the bottom edge
+    expect(guideToObject(box(160, 432), FRAME).hint).toBe("down");
+    // Near the left edge, a little high
+    expect(guideToObject(box(64, 180), FRAME).hint).toBe("left");
+  });
+
+  it("sends the user closer once a small object is centred", () => {
+    expect(guideToObject(box(320, 240), FRAME).hint).toBe("closer");
+    // A quarter of the way to the edge still counts as centred
+    expect(guideToObject(box(400, 240), FRAME).hint).toBe("closer");
+  });
+
+  it("says the object is in front when it is centred and fills enough of the frame", () => {
+    expect(guideToObject(box(320, 240, 200), FRAME)).toMatchObject({ hint: "inFront", proximity: 1 });
+  });
+
+  it("grows warmer as the object is centred and fills more of the frame", () => {
+    const edge = guideToObject(box(80, 240), FRAME).warmth;
+    const centred = guideToObject(box(320, 240), FRAME).warmth;
+    const inFront = guideToObject(box(320, 240, 200), FRAME).warmth;
+    expect(edge).toBeLessThan(centred);
+    expect(centred).toBeLessThan(inFront);
+    expect(inFront).toBeCloseTo(1);
+  });
+});
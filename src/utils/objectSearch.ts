@@ -0,0 +1,96 @@
+/**
+ * Hot/cold guidance towards one kind of object ("find my cup").
+ *
+ * The object's box is compared with the middle of the camera frame: the hint
+ * says which way to point the phone, and "warmth" grows as the object moves
+ * to the middle and fills more of the frame. Warmth drives the search beep,
+ * which rises in pitch and repeats faster as the user closes in, so the user
+ * can home in by ear between the spoken hints.
+ *
+ * Usage:
+ *   const guidance = guideToObject(track.bbox, frameSize);
+ *   playSearchBeep(guidance, volume);
+ */
+import { playTone } from "./audioCues";
+import type { FrameSize } from "./yoloPipeline";
+import type { TrackedObject } from "./objectTracker";
+
+export type SearchHint = "left" | "right" | "up" | "down" | "closer" | "inFront";
+
+export interface SearchGuidance {
+  pan: number;       // -1 left edge of the frame to 1 right edge
+  tilt: number;      // -1 top edge to 1 bottom edge
+  proximity: number; // 0 tiny to 1 filling the box a found object is expected to fill
+  warmth: number;    // 0 cold to 1 right in front of the camera
+  hint: SearchHint;
+}
+
+// Within this much of the middle, the object counts as centred on that axis
+const CENTERED_OFFSET = 0.25;
+// Box side relative to the frame at which the object counts as right in front of the camera
+const IN_FRONT_BOX_FRACTION = 0.35;
+// Centring matters more than size: a small centred object is only a step or two away
+const CENTERING_WEIGHT = 0.7;
+
+// Beeps slow down to this when the object is at the edge of the frame or far away...
+const COLD_INTERVAL_MS = 900;
+// ...and speed up to this when it is right in front of the camera
+const HOT_INTERVAL_MS = 120;
+const COLD_FREQUENCY = 300;
+const HOT_FREQUENCY = 1200;
+// While the object is not in view, a low tick says the search is still running
+export const SEARCHING_INTERVAL_MS = 1500;
+const SEARCHING_FREQUENCY = 200;
+
+export function guideToObject(bbox: [number, number, number, number], frameSize: FrameSize): SearchGuidance {
+  const [x, y, width, height] = bbox;
+  const pan = Math.max(-1, Math.min(1, ((x + width / 2) / frameSize.width) * 2 - 1));
+  const tilt = Math.max(-1, Math.min(1, ((y + height / 2) / frameSize.height) * 2 - 1));
+  const size = Math.sqrt(Math.max(0, width * height) / (frameSize.width * frameSize.height));
+  const proximity = Math.min(1, size / IN_FRONT_BOX_FRACTION);
+
+  const offset = Math.max(Math.abs(pan), Math.abs(tilt));
+  const warmth = CENTERING_WEIGHT * (1 - offset) + (1 - CENTERING_WEIGHT) * proximity;
+
+  // The larger offset is corrected first; once centred, the user is sent forward
+  let hint: SearchHint;
+  if (offset > CENTERED_OFFSET) {
+    hint = Math.abs(pan) >= Math.abs(tilt) ? (pan < 0 ? "left" : "right") : (tilt < 0 ? "up" : "down");
+  } else {
+    hint = proximity >= 1 ? "inFront" : "closer";
+  }
+  return { pan, tilt, proximity, warmth, hint };
+}
+
+// The object being searched for: the one already followed if it is still in view, otherwise the largest
+export function pickSearchTarget(tracks: TrackedObject[], label: string, followedId: number | null): TrackedObject | null {
+  const candidates = tracks.filter(track => track.label === label);
+  const followed = candidates.find(track => track.id === followedId);
+  if (followed) return followed;
+  return candidates.reduce<TrackedObject | null>(
+    (largest, track) => (!largest || track.bbox[2] * track.bbox[3] > largest.bbox[2] * largest.bbox[3] ? track : largest),
+    null,
+  );
+}
+
+// Time until the next beep; null guidance means the object is not in view
+export function searchBeepIntervalMs(guidance: SearchGuidance | null): number {
+  if (!guidance) return SEARCHING_INTERVAL_MS;
+  return COLD_INTERVAL_MS - (COLD_INTERVAL_MS - HOT_INTERVAL_MS) * guidance.warmth;
+}
+
+// Pitch rises with warmth and the beep comes from the side the object is on
+export function playSearchBeep(guidance: SearchGuidance | null, volume: number) {
+  if (volume <= 0) return;
+  if (!guidance) {
+    playTone({ frequency: SEARCHING_FREQUENCY, durationMs: 40, volume: volume * 0.15 });
+    return;
+  }
+  playTone({
+    frequency: COLD_FREQUENCY + (HOT_FREQUENCY - COLD_FREQUENCY) * guidance.warmth,
+    durationMs: 60,
+    volume: volume * 0.4,
+    type: "triangle",
+    pan: guidance.pan,
+  });
+}
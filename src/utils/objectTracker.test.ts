@@ -0,0 +1,115 @@
+import { describe, expect, it } from "vitest";
+import { TrackEvent, createObjectTracker } from "@/utils/objectTracker";
+import { YOLODetection } from "@/utils/yoloPipeline";
+
+const FRAME_MS = 100;
+
+const detection = (label: string, bbox: [number, number, number, number], confidence = 0.9): YOLODetection => ({ label, confidence, bbox });
+
+const describeEvents = (events: TrackEvent[]) => events.map(({ type, track }) => `${type} ${track.label} #${track.id}`);
+
+describe("createObjectTracker", () => {
+  it("announces an object only once it has been seen in two frames", () => {
+    const tracker = createObjectTracker();
+    const first = tracker.update([detection("chair", [100, 100, 80, 120])], 0);
+    expect(first.tracks).toEqual([]);
+    expect(first.events).toEqual([]);
+
+    const second = tracker.update([detection("chair", [102, 100, 80, 120])], FRAME_MS);
+    expect(describeEvents(second.events)).toEqual(["enter chair #1"]);
+    expect(second.tracks).toMatchObject([{ id: 1, label: "chair", hits: 2 }]);
+  });
+
+  it("drops a one-frame detection without announcing it", () => {
+    const tracker = createObjectTracker();
+    tracker.update([detection("dog", [300, 200, 60, 60])], 0);
+    const events = [1, 2, 3, 4, 5, 6].flatMap(frame => tracker.update([], frame * FRAME_MS).events);
+    expect(events).toEqual([]);
+  });
+
+  it("keeps the same id for an object moving steadily across the frame", () => {
+    const tracker = createObjectTracker();
+    let ids: number[] = [];
+    for (let frame = 0; frame < 6; frame++) {
+      ids = [...ids, ...tracker.update([detection("person", [100 + frame * 20, 100, 60, 160])], frame * FRAME_MS).tracks.map(track => track.id)];
+    }
+    expect(new Set(ids)).toEqual(new Set([1]));
+  });
+
+  it("tells two objects with the same label apart", () => {
+    const tracker = createObjectTracker();
+    const pair = (offset: number) => [detection("cup", [50 + offset, 300, 40, 50]), detection("cup", [400 - offset, 300, 40, 50])];
+    tracker.update(pair(0), 0);
+    const { tracks } = tracker.update(pair(5), FRAME_MS);
+    expect(tracks.map(track => [track.id, track.bbox[0]])).toEqual([[1, 55], [2, 395]]);
+  });
+
+  it("never matches a detection to a track with another label", () => {
+    const tracker = createObjectTracker();
+    tracker.update([detection("cat", [200, 200, 80, 80])], 0);
+    tracker.update([detection("cat", [200, 200, 80, 80])], FRAME_MS);
+    const { events } = tracker.update([detection("dog", [200, 200, 80, 80])], 2 * FRAME_MS);
+    expect(events).toEqual([]);
+    expect(tracker.update([detection("dog", [200, 200, 80, 80])], 3 * FRAME_MS).events.map(event => event.type)).toEqual(["enter"]);
+  });
+
+  it("keeps a track alive on weak detections but never starts one from them", () => {
+    const tracker = createObjectTracker();
+    tracker.update([detection("bicycle", [100, 100, 120, 80])], 0);
+    tracker.update([detection("bicycle", [100, 100, 120, 80])], FRAME_MS);
+    for (let frame = 2; frame < 10; frame++) {
+      const { tracks, events } = tracker.update([detection("bicycle", [100, 100, 120, 80], 0.2)], frame * FRAME_MS);
+      expect(events).toEqual([]);
+      expect(tracks).toMatchObject([{ id: 1, missedFrames: 0 }]);
+    }
+
+    const fresh = createObjectTracker();
+    fresh.update([detection("bicycle", [100, 100, 120, 80], 0.2)], 0);
+    expect(fresh.update([detection("bicycle", [100, 100, 120, 80], 0.2)], FRAME_MS)).toEqual({ tracks: [], events: [] });
+  });
+
+  it("bridges a dropped frame and exits after being missed five frames in a row", () => {
+    const tracker = createObjectTracker();
+    const box = detection("car", [200, 150, 160, 100]);
+    tracker.update([box], 0);
+    tracker.update([box], FRAME_MS);
+
+    const missed = [2, 3, 4, 5, 6].map(frame => tracker.update([], frame * FRAME_MS));
+    expect(missed[0].tracks).toMatchObject([{ id: 1, missedFrames: 1 }]);
+    expect(missed[1].tracks).toEqual([]);
+    expect(missed.slice(0, 4).flatMap(update => update.events)).toEqual([]);
+    expect(describeEvents(missed[4].events)).toEqual(["exit car #1"]);
+  });
+
+  it("announces an approach once, and again only after the object has stopped closing in", () => {
+    const tracker = createObjectTracker();
+    // The box stays centred and grows by the given fraction per second
+    let size = 100;
+    const frame = (growthPerSecond: number, index: number) => {
+      size *= 1 + growthPerSecond * (FRAME_MS / 1000);
+      const box = detection("person", [320 - size / 2, 240 - size / 2, size, size]);
+      return tracker.update([box], index * FRAME_MS).events.filter(event => event.type === "approaching").length;
+    };
+    const run = (growths: number[], start: number) => growths.map((growth, i) => frame(growth, start + i));
+
+    // Smoothing takes the growth past the 0.25 threshold on the second fast frame
+    expect(run([0, 0], 0)).toEqual([0, 0]);
+    expect(run([0.4, 0.4, 0.4, 0.4], 2)).toEqual([0, 1, 0, 0]);
+    // Slowing to below the threshold but above half of it keeps the approach going
+    expect(run([0.2, 0.2, 0.2, 0.2, 0.4, 0.4], 6)).toEqual([0, 0, 0, 0, 0, 0]);
+    expect(run([0, 0, 0, 0], 12)).toEqual([0, 0, 0, 0]);
+    expect(run([0.4, 0.4], 16)).toEqual([0, 1]);
+  });
+
+  it("picks a track back up if the object returns before it exits", () => {
+    const tracker = createObjectTracker();
+    const box = detection("car", [200, 150, 160, 100]);
+    tracker.update([box], 0);
+    tracker.update([box], FRAME_MS);
+    tracker.update([], 2 * FRAME_MS);
+    tracker.update([], 3 * FRAME_MS);
+    const back = tracker.update([box], 4 * FRAME_MS);
+    expect(back.events).toEqual([]);
+    expect(back.tracks).toMatchObject([{ id: 1, missedFrames: 0 }]);
+  });
+});
@@ -0,0 +1,240 @@
+/**
+ * Multi-object tracking on top of per-frame YOLO detections, in the style of
+ * SORT and ByteTrack.
+ *
+ * Each frame, existing tracks are moved forward by their velocity and matched to
+ * the new boxes by overlap. Confident detections are matched first; weak ones
+ * (often a partly hidden object) are then used only to keep existing tracks
+ * alive, never to start new ones. A track is announced ("enter") once it has
+ * been seen in enough frames to be trusted, and retired ("exit") after it has
+ * been missing for a while, so a single dropped frame does not make an object
+ * vanish and reappear.
+ *
+ * Boxes are in camera frame pixels, as reported by useYOLODetection.
+ *
+ * Usage:
+ *   const tracker = createObjectTracker();
+ *   const { tracks, events } = tracker.update(detections, performance.now());
+ */
+import { YOLODetection, calculateIOU } from "@/utils/yoloPipeline";
+
+export interface TrackVelocity {
+  x: number;      // centre movement in frame pixels per second
+  y: number;
+  growth: number; // relative change in box size per second; positive means getting closer
+}
+
+export interface TrackedObject extends YOLODetection {
+  id: number;
+  velocity: TrackVelocity;
+  ageMs: number;        // since the object was first seen
+  hits: number;         // frames it was matched in
+  missedFrames: number; // consecutive frames without a match; 0 while visible
+}
+
+export type TrackEventType = "enter" | "exit" | "approaching";
+
+export interface TrackEvent {
+  type: TrackEventType;
+  track: TrackedObject;
+}
+
+export interface TrackerUpdate {
+  tracks: TrackedObject[]; // confirmed tracks seen in this frame or just missed
+  events: TrackEvent[];
+}
+
+export interface ObjectTracker {
+  update: (detections: YOLODetection[], now: number) => TrackerUpdate;
+  reset: () => void;
+}
+
+export interface ObjectTrackerOptions {
+  highConfidence?: number;  // detections at or above this can start tracks
+  minHits?: number;         // frames before a track is trusted and announced
+  maxMissedFrames?: number; // frames a confirmed track may go unseen before it exits
+  approachGrowth?: number;  // growth per second at which a track counts as approaching
+}
+
+// First pass takes only confident boxes, and they may be looser: the object may have moved
+const MATCH_IOU_HIGH = 0.3;
+// Weak boxes must overlap the predicted position closely to count as the same object
+const MATCH_IOU_LOW = 0.5;
+// Weight of the newest measurement in the velocity estimate; lower is smoother
+const VELOCITY_SMOOTHING = 0.5;
+// Confirmed tracks stay visible through this many missed frames, bridging a flickering detection
+const VISIBLE_MISSED_FRAMES = 1;
+// Growth must fall back below this fraction of the threshold before approaching fires again
+const APPROACH_RESET_FRACTION = 0.5;
+
+const DEFAULT_OPTIONS: Required<ObjectTrackerOptions> = {
+  highConfidence: 0.4,
+  minHits: 2,
+  maxMissedFrames: 4,
+  approachGrowth: 0.25,
+};
+
+interface TrackState {
+  id: number;
+  label: string;
+  confidence: number;
+  bbox: [number, number, number, number];
+  velocity: TrackVelocity;
+  firstSeenAt: number;
+  lastSeenAt: number;
+  hits: number;
+  missedFrames: number;
+  confirmed: boolean;
+  approaching: boolean;
+}
+
+type Box = [number, number, number, number];
+
+const boxSize = ([, , width, height]: Box) => Math.sqrt(Math.max(0, width * height));
+
+// Where the box should be after dtSeconds at the track's current velocity
+function predictBox(track: TrackState, dtSeconds: number): Box {
+  const [x, y, width, height] = track.bbox;
+  const scale = Math.max(0.1, 1 + track.velocity.growth * dtSeconds);
+  const newWidth = width * scale;
+  const newHeight = height * scale;
+  const centerX = x + width / 2 + track.velocity.x * dtSeconds;
+  const centerY = y + height / 2 + track.velocity.y * dtSeconds;
+  return [centerX - newWidth / 2, centerY - newHeight / 2, newWidth, newHeight];
+}
+
+// Greedy best-overlap-first assignment; with at most a few dozen boxes it matches the optimal result in practice
+function associate(predicted: Map<number, Box>, tracks: TrackState[], detections: YOLODetection[], minIou: number) {
+  const pairs: { track: TrackState; detection: YOLODetection; iou: number }[] = [];
+  for (const track of tracks) {
+    const box = predicted.get(track.id)!;
+    for (const detection of detections) {
+      if (detection.label !== track.label) continue;
+      const iou = calculateIOU(box, detection.bbox);
+      if (iou >= minIou) pairs.push({ track, detection, iou });
+    }
+  }
+  pairs.sort((a, b) => b.iou - a.iou);
+
+  const matches: { track: TrackState; detection: YOLODetection }[] = [];
+  const usedTracks = new Set<TrackState>();
+  const usedDetections = new Set<YOLODetection>();
+  for (const pair of pairs) {
+    if (usedTracks.has(pair.track) || usedDetections.has(pair.detection)) continue;
+    usedTracks.add(pair.track);
+    usedDetections.add(pair.detection);
+    matches.push(pair);
+  }
+  return {
+    matches,
+    unmatchedTracks: tracks.filter(track => !usedTracks.has(track)),
+    unmatchedDetections: detections.filter(detection => !usedDetections.has(detection)),
+  };
+}
+
+export function createObjectTracker(options: ObjectTrackerOptions = {}): ObjectTracker {
+  const { highConfidence, minHits, maxMissedFrames, approachGrowth } = { ...DEFAULT_OPTIONS, ...options };
+  let tracks: TrackState[] = [];
+  let nextId = 1;
+
+  const toTrackedObject = (track: TrackState, now: number): TrackedObject => ({
+    id: track.id,
+    label: track.label,
+    confidence: track.confidence,
+    bbox: track.bbox,
+    velocity: { ...track.velocity },
+    ageMs: now - track.firstSeenAt,
+    hits: track.hits,
+    missedFrames: track.missedFrames,
+  });
+
+  const applyMatch = (track: TrackState, detection: YOLODetection, now: number) => {
+    const dtSeconds = (now - track.lastSeenAt) / 1000;
+    if (dtSeconds > 0) {
+      const [x, y, width, height] = track.bbox;
+      const [newX, newY, newWidth, newHeight] = detection.bbox;
+      const measured: TrackVelocity = {
+        x: (newX + newWidth / 2 - (x + width / 2)) / dtSeconds,
+        y: (newY + newHeight / 2 - (y + height / 2)) / dtSeconds,
+        growth: boxSize(track.bbox) > 0 ? (boxSize(detection.bbox) / boxSize(track.bbox) - 1) / dtSeconds : 0,
+      };
+      // The first measurement is taken as is; later ones are blended in
+      const weight = track.hits === 1 ? 1 : VELOCITY_SMOOTHING;
+      track.velocity = {
+        x: track.velocity.x + weight * (measured.x - track.velocity.x),
+        y: track.velocity.y + weight * (measured.y - track.velocity.y),
+        growth: track.velocity.growth + weight * (measured.growth - track.velocity.growth),
+      };
+    }
+    track.bbox = detection.bbox;
+    track.confidence = detection.confidence;
+    track.lastSeenAt = now;
+    track.hits++;
+    track.missedFrames = 0;
+  };
+
+  return {
+    update(detections, now) {
+      const events: TrackEvent[] = [];
+
+      const predicted = new Map<number, Box>();
+      for (const track of tracks) predicted.set(track.id, predictBox(track, (now - track.lastSeenAt) / 1000));
+
+      const strong = detections.filter(detection => detection.confidence >= highConfidence);
+      const weak = detections.filter(detection => detection.confidence < highConfidence);
+
+      const first = associate(predicted, tracks, strong, MATCH_IOU_HIGH);
+      const second = associate(predicted, first.unmatchedTracks, weak, MATCH_IOU_LOW);
+      for (const { track, detection } of [...first.matches, ...second.matches]) applyMatch(track, detection, now);
+
+      for (const track of second.unmatchedTracks) track.missedFrames++;
+
+      for (const detection of first.unmatchedDetections) {
+        tracks.push({
+          id: nextId++,
+          label: detection.label,
+          confidence: detection.confidence,
+          bbox: detection.bbox,
+          velocity: { x: 0, y: 0, growth: 0 },
+          firstSeenAt: now,
+          lastSeenAt: now,
+          hits: 1,
+          missedFrames: 0,
+          confirmed: false,
+          approaching: false,
+        });
+      }
+
+      const surviving: TrackState[] = [];
+      for (const track of tracks) {
+        if (!track.confirmed && track.missedFrames > 0) continue; // never trusted; dropped quietly
+        if (track.missedFrames > maxMissedFrames) {
+          events.push({ type: "exit", track: toTrackedObject(track, now) });
+          continue;
+        }
+        if (!track.confirmed && track.hits >= minHits) {
+          track.confirmed = true;
+          events.push({ type: "enter", track: toTrackedObject(track, now) });
+        }
+        if (track.confirmed && track.missedFrames === 0) {
+          if (!track.approaching && track.velocity.growth >= approachGrowth) {
+            track.approaching = true;
+            events.push({ type: "approaching", track: toTrackedObject(track, now) });
+          } else if (track.approaching && track.velocity.growth < approachGrowth * APPROACH_RESET_FRACTION) {
+            track.approaching = false;
+          }
+        }
+        surviving.push(track);
+      }
+      tracks = surviving;
+
+      return {
+        tracks: tracks.filter(track => track.confirmed && track.missedFrames <= VISIBLE_MISSED_FRAMES).map(track => toTrackedObject(track, now)),
+        events,
+      };
+    },
+    reset() {
+      tracks = [];
+    },
+  };
+}
@@ -0,0 +1,92 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { ScriptedUtterance, createScriptedRecognizer } from "@/utils/scriptedRecognizer";
+import type { RecognizerCallbacks } from "@/utils/speechRecognizer";
+
+const SCRIPT: ScriptedUtterance[] = [
+  { transcript: "hey vision help", confidence: 0.93, delayMs: 500 },
+  { error: "network", delayMs: 500 },
+  { transcript: "hey vision camera mode", confidence: 0.9, delayMs: 500 },
+  { error: "no-speech", delayMs: 500 },
+  { transcript: "hey vision status", confidence: 0.8, delayMs: 500 },
+];
+
+// Plays a script the way the app listens: every session that ends is restarted on the same recognizer
+function runScript(script: ScriptedUtterance[], maxRestarts = 10) {
+  const events: string[] = [];
+  let restarts = 0;
+  const callbacks: RecognizerCallbacks = {
+    onStart: () => events.push("start"),
+    onEnd: () => {
+      events.push("end");
+      if (restarts++ < maxRestarts) setTimeout(() => recognizer.start(), 1000);
+    },
+    onResult: ({ transcript, confidence, isFinal }) => {
+      if (isFinal) events.push(`${transcript} (${confidence})`);
+    },
+    onError: ({ code }) => events.push(`error: ${code}`),
+  };
+  const recognizer = createScriptedRecognizer(script, callbacks);
+  recognizer.start();
+  vi.runAllTimers();
+  return events;
+}
+
+describe("createScriptedRecognizer", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("plays a script end to end, resuming after each error instead of starting over", () => {
+    expect(runScript(SCRIPT)).toEqual([
+      "start",
+      "hey vision help (0.93)",
+      "error: network",
+      "end",
+      "start",
+      "hey vision camera mode (0.9)",
+      "error: no-speech",
+      "end",
+      "start",
+      "hey vision status (0.8)",
+    ]);
+  });
+
+  it("goes quiet after a trailing error rather than replaying it", () => {
+    const events = runScript([{ error: "network", delayMs: 100 }], 3);
+    expect(events.filter(event => event === "error: network")).toHaveLength(1);
+    expect(events.slice(-1)).toEqual(["start"]);
+  });
+
+  it("sends interim results word by word before the final one", () => {
+    const results: [string, boolean][] = [];
+    const recognizer = createScriptedRecognizer([{ transcript: "hey vision help", delayMs: 0 }], {
+      onStart: () => {},
+      onEnd: () => {},
+      onResult: ({ transcript, isFinal }) => results.push([transcript, isFinal]),
+      onError: () => {},
+    });
+    recognizer.start();
+    vi.runAllTimers();
+    expect(results).toEqual([
+      ["hey", false],
+      ["hey vision", false],
+      ["hey vision help", true],
+    ]);
+  });
+
+  it("stops without further results once aborted", () => {
+    const onResult = vi.fn();
+    const onEnd = vi.fn();
+    const recognizer = createScriptedRecognizer(SCRIPT, { onStart: () => {}, onEnd, onResult, onError: () => {} });
+    recognizer.start();
+    vi.advanceTimersByTime(200);
+    recognizer.abort();
+    vi.runAllTimers();
+    expect(onResult).not.toHaveBeenCalled();
+    expect(onEnd).toHaveBeenCalledOnce();
+  });
+});
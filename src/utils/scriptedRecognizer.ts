@@ -0,0 +1,118 @@
+/**
+ * Scripted recognition backend: replays a fixed list of transcripts with their
+ * confidences and timings instead of listening to the microphone.
+ *
+ * It goes through the same start/result/error/end lifecycle as Web Speech, so
+ * command handling, restarts and error recovery can be exercised headlessly.
+ *
+ * Usage:
+ *   const recognizer = createScriptedRecognizer([
+ *     { transcript: "hey vision camera", confidence: 0.92, delayMs: 500 },
+ *     { error: "network" },
+ *   ], callbacks);
+ */
+import type { RecognizerCallbacks, RecognizerErrorCode, SpeechRecognizer } from "./speechRecognizer";
+
+export interface ScriptedUtterance {
+  transcript?: string;
+  confidence?: number;         // defaults to 0.9
+  delayMs?: number;            // pause before this entry, defaults to 1500
+  error?: RecognizerErrorCode; // raise this error and end the session, as Web Speech does
+}
+
+export interface ScriptedRecognizerOptions {
+  loop?: boolean;        // start over after the last entry instead of going quiet
+  startDelayMs?: number; // time between start() and onStart
+  wordMs?: number;       // pace of interim results within an utterance; 0 sends only finals
+}
+
+export const DEMO_SCRIPT: ScriptedUtterance[] = [
+  { transcript: "hey vision help", confidence: 0.93, delayMs: 2000 },
+  { transcript: "hey vision camera mode", confidence: 0.9, delayMs: 6000 },
+  { transcript: "hey vision what do you see", confidence: 0.86, delayMs: 4000 },
+  { transcript: "hey vision", confidence: 0.95, delayMs: 5000 },
+  { transcript: "navigation mode", confidence: 0.88, delayMs: 1500 },
+  { transcript: "hey vision next step", confidence: 0.9, delayMs: 4000 },
+  { transcript: "hey vision volume up", confidence: 0.84, delayMs: 4000 },
+  { transcript: "hey vision status", confidence: 0.91, delayMs: 4000 },
+];
+
+export function createScriptedRecognizer(
+  script: ScriptedUtterance[],
+  callbacks: RecognizerCallbacks,
+  options: ScriptedRecognizerOptions = {}
+): SpeechRecognizer {
+  const { loop = false, startDelayMs = 100, wordMs = 150 } = options;
+  // The position belongs to the instance, not the session: restarting the same recognizer
+  // after an error resumes with the next entry instead of replaying the script from the top
+  let cursor = 0;
+  let active = false;
+  let timers: ReturnType<typeof setTimeout>[] = [];
+
+  const later = (delay: number, action: () => void) => {
+    timers.push(setTimeout(action, delay));
+  };
+
+  const clearTimers = () => {
+    timers.forEach(clearTimeout);
+    timers = [];
+  };
+
+  const end = () => {
+    if (!active) return;
+    clearTimers();
+    active = false;
+    callbacks.onEnd();
+  };
+
+  const playNext = () => {
+    if (cursor >= script.length) {
+      if (!loop || script.length === 0) return;
+      cursor = 0;
+    }
+    const entry = script[cursor++];
+
+    later(entry.delayMs ?? 1500, () => {
+      if (entry.error) {
+        callbacks.onError({ code: entry.error, message: "Scripted error" });
+        end();
+        return;
+      }
+
+      const words = (entry.transcript ?? "").split(/\s+/).filter(Boolean);
+      const confidence = entry.confidence ?? 0.9;
+      if (wordMs > 0) {
+        callbacks.onStatus?.({ isSpeaking: true });
+        words.slice(0, -1).forEach((_, index) => {
+          later(index * wordMs, () => {
+            callbacks.onResult({ transcript: words.slice(0, index + 1).join(" "), confidence: 0, isFinal: false });
+          });
+        });
+      }
+      later(Math.max(0, words.length - 1) * wordMs, () => {
+        callbacks.onStatus?.({ isSpeaking: false });
+        callbacks.onResult({ transcript: words.join(" "), confidence, isFinal: true });
+        playNext();
+      });
+    });
+  };
+
+  return {
+    backend: "scripted",
+    start() {
+      if (active) return;
+      active = true;
+      later(startDelayMs, () => {
+        callbacks.onStart();
+        playNext();
+      });
+    },
+    stop() {
+      if (active) later(0, end);
+    },
+    abort: end,
+    setLanguage() {
+      // Transcripts are replayed verbatim whatever the language
+    },
+  };
+}
@@ -0,0 +1,64 @@
+import { describe, expect, it } from "vitest";
+import { ECHO_WINDOW_MS, getRecentSpeech, removeSelfSpeech } from "@/utils/selfSpeech";
+import type { SpokenMessage } from "@/utils/speechQueue";
+
+const NOW = 100_000;
+
+const message = (text: string, spokenAt?: number, endedAt?: number): SpokenMessage => ({
+  id: 0,
+  text,
+  priority: "info",
+  queuedAt: (spokenAt ?? NOW) - 100,
+  expiresAt: NOW + 10_000,
+  spokenAt,
+  endedAt,
+});
+
+const STOPPED = "Navigation stopped. You can restart anytime by saying Hey Vision Start Navigation.";
+
+describe("getRecentSpeech", () => {
+  it("keeps messages still playing and those that ended within the echo window", () => {
+    const playing = message("Camera mode", NOW - 500);
+    const justEnded = message("Turn left", NOW - 4000, NOW - ECHO_WINDOW_MS + 1);
+    const longEnded = message("Go straight", NOW - 9000, NOW - ECHO_WINDOW_MS);
+    const queued = message("Not yet spoken");
+    expect(getRecentSpeech([playing, justEnded, longEnded, queued], NOW)).toEqual([playing, justEnded]);
+  });
+});
+
+describe("removeSelfSpeech", () => {
+  it("drops a transcript that is only the app's own voice", () => {
+    expect(removeSelfSpeech("camera activated for object detection", [message("Camera activated for object detection", NOW - 1000)])).toEqual({
+      remainder: "",
+      echoed: true,
+    });
+  });
+
+  it("keeps what the user said after the echo", () => {
+    const recent = [message("Camera activated for object detection", NOW - 2000, NOW - 500)];
+    expect(removeSelfSpeech("camera activated for object detection hey vision stop", recent)).toEqual({
+      remainder: "hey vision stop",
+      echoed: true,
+    });
+  });
+
+  it("tolerates words the recognizer dropped", () => {
+    const recent = [message("Camera activated for object detection", NOW - 2000, NOW - 500)];
+    expect(removeSelfSpeech("camera for object detection", recent).remainder).toBe("");
+  });
+
+  it("catches an echo that starts partway through a message still playing", () => {
+    expect(removeSelfSpeech("hey vision start navigation", [message(STOPPED, NOW - 3000)])).toEqual({ remainder: "", echoed: true });
+  });
+
+  it("hears a user repeating the end of a prompt that has finished", () => {
+    expect(removeSelfSpeech("hey vision start navigation", [message(STOPPED, NOW - 5000, NOW - 1000)])).toEqual({
+      remainder: "hey vision start navigation",
+      echoed: false,
+    });
+  });
+
+  it("does not take a lone word for echo once the message has ended", () => {
+    expect(removeSelfSpeech("camera", [message("Camera mode", NOW - 2000, NOW - 500)]).echoed).toBe(false);
+  });
+});
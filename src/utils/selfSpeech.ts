@@ -0,0 +1,75 @@
+/**
+ * Recognising the app's own voice in recognition transcripts.
+ *
+ * The microphone hears the speaker, so "Camera activated for object detection"
+ * can come back as a transcript and be mistaken for the "camera" command. A
+ * transcript that follows recently spoken text word by word is treated as echo;
+ * whatever the user said after the echoed part is kept. While a message is still
+ * playing, the echo may pick it up anywhere (recognition may have started partway
+ * through); once it has ended, the echo has to start with it, so a user repeating
+ * the end of a prompt ("... saying Hey Vision Start Navigation") is still heard.
+ *
+ * Usage:
+ *   const { remainder, echoed } = removeSelfSpeech("activated for object detection hey vision stop", recent);
+ *   // => { remainder: "hey vision stop", echoed: true }
+ */
+import { normalizeTranscript, similarity } from "./wakeWord";
+import type { SpokenMessage } from "./speechQueue";
+
+// Recognizers deliver final results a little after the words were heard
+export const ECHO_WINDOW_MS = 3000;
+
+const WORD_SIMILARITY = 0.75;
+
+// Recognizers drop and merge words, so a few spoken words may be skipped between matches
+const MAX_SKIPPED_WORDS = 2;
+
+export interface SelfSpeechResult {
+  remainder: string;
+  echoed: boolean;
+}
+
+// Messages still being spoken, or finished so recently that their echo may still arrive
+export function getRecentSpeech(history: SpokenMessage[], now = Date.now(), windowMs = ECHO_WINDOW_MS): SpokenMessage[] {
+  return history.filter(message => message.spokenAt !== undefined && (message.endedAt === undefined || now - message.endedAt < windowMs));
+}
+
+// How many leading transcript words follow the spoken words in order; fromStart ties the first to the message's opening words
+function echoedPrefixLength(heard: string[], spoken: string[], fromStart: boolean): number {
+  let matched = 0;
+  let position = 0;
+  for (const word of heard) {
+    // The first word may be anywhere it is allowed to be; afterwards the transcript has to keep pace
+    const reach = matched === 0 && !fromStart ? spoken.length : position + MAX_SKIPPED_WORDS + 1;
+    const limit = Math.min(spoken.length, reach);
+    let found = -1;
+    for (let k = position; k < limit; k++) {
+      if (similarity(word, spoken[k]) >= WORD_SIMILARITY) {
+        found = k;
+        break;
+      }
+    }
+    if (found === -1) break;
+    matched++;
+    position = found + 1;
+  }
+  return matched;
+}
+
+export function removeSelfSpeech(transcript: string, recentSpeech: SpokenMessage[]): SelfSpeechResult {
+  const heard = normalizeTranscript(transcript);
+  let longest = 0;
+
+  for (const message of recentSpeech) {
+    const spoken = normalizeTranscript(message.text);
+    const length = echoedPrefixLength(heard, spoken, message.endedAt !== undefined);
+    // One matching word is only echo when it is the whole transcript and the message is still playing
+    const convincing = length >= 2 || (length === heard.length && length > 0 && message.endedAt === undefined);
+    if (convincing && length > longest) longest = length;
+  }
+
+  return {
+    remainder: heard.slice(longest).join(" "),
+    echoed: longest > 0,
+  };
+}
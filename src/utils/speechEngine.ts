@@ -0,0 +1,66 @@
+/**
+ * Speech engines that turn text into sound for the speech queue.
+ */
+import type { SpeechEngine } from "./speechQueue";
+import { findVoice } from "./voices";
+import { createNeuralSpeechEngine } from "./neuralSpeechEngine";
+
+export type SpeechEngineKind = "browser" | "neural";
+
+export interface UtteranceSettings {
+  lang: string;
+  rate: number;
+  pitch: number;
+  volume: number;
+  voiceURI?: string; // preferred voice; the browser chooses one for the language when unset or uninstalled
+  engine?: SpeechEngineKind; // defaults to the browser's speechSynthesis
+}
+
+// Browser speechSynthesis; settings are read per utterance so changes apply to the next message
+export function createBrowserSpeechEngine(getSettings: () => UtteranceSettings): SpeechEngine {
+  return {
+    speak(text, { onStart, onEnd }) {
+      if (!("speechSynthesis" in window)) {
+        onEnd();
+        return;
+      }
+      const settings = getSettings();
+      const utterance = new SpeechSynthesisUtterance(text);
+      utterance.lang = settings.lang;
+      utterance.rate = settings.rate;
+      utterance.pitch = settings.pitch;
+      utterance.volume = settings.volume;
+      const voice = findVoice(window.speechSynthesis.getVoices(), settings.voiceURI);
+      if (voice) utterance.voice = voice;
+
+      utterance.onstart = onStart;
+      utterance.onend = onEnd;
+      // Cancelled or failed utterances never fire end in some browsers
+      utterance.onerror = onEnd;
+
+      window.speechSynthesis.speak(utterance);
+    },
+    cancel() {
+      if ("speechSynthesis" in window) {
+        window.speechSynthesis.cancel();
+      }
+    },
+  };
+}
+
+// Chooses the engine per message, so switching to a language without a system voice takes effect at once
+export function createSpeechEngine(getSettings: () => UtteranceSettings): SpeechEngine {
+  const browser = createBrowserSpeechEngine(getSettings);
+  const neural = createNeuralSpeechEngine(getSettings);
+  let active = browser;
+
+  return {
+    speak(text, callbacks) {
+      active = getSettings().engine === "neural" ? neural : browser;
+      active.speak(text, callbacks);
+    },
+    cancel() {
+      active.cancel();
+    },
+  };
+}
@@ -0,0 +1,119 @@
+/**
+ * Turning numbers, phone numbers, coordinates, distances, durations and times
+ * into text that speech synthesis reads well in the user's language.
+ *
+ * Synthesizers read "+1-555-0123" as a subtraction and "12.9716" as "twelve
+ * point nine thousand...". Phone numbers are spoken digit by digit in their
+ * groups, decimals use the language's own separator, and units come from Intl
+ * so they are named in the speech language.
+ *
+ * Usage:
+ *   const format = createSpeechFormatter("es-ES", t, "auto");
+ *   format.phoneNumber("+1-555-0123"); // "más 1, 5 5 5, 0 1 2 3"
+ *   format.distance(3.2);              // "3,2 metros"
+ */
+import { Translate, joinList } from "./i18n";
+
+export type UnitSystem = "auto" | "metric" | "imperial";
+
+export interface SpeechFormatter {
+  number: (value: number, maxFractionDigits?: number) => string;
+  phoneNumber: (number: string) => string;
+  coordinates: (latitude: number, longitude: number) => string;
+  distance: (meters: number) => string;
+  duration: (seconds: number) => string;
+  time: (date: Date) => string;
+}
+
+export interface LexiconEntry {
+  written: string; // as it appears in messages, matched as a whole word, any case
+  spoken: string;  // what the synthesizer is given instead
+}
+
+const METERS_PER_FOOT = 0.3048;
+const METERS_PER_MILE = 1609.344;
+
+// Only a handful of countries measure walking distances in feet and miles
+const IMPERIAL_REGIONS = ["US", "LR", "MM"];
+
+export function resolveUnitSystem(units: UnitSystem, lang: string): "metric" | "imperial" {
+  if (units !== "auto") return units;
+  const region = lang.split("-")[1]?.toUpperCase();
+  return region && IMPERIAL_REGIONS.includes(region) ? "imperial" : "metric";
+}
+
+// "+1-555-0123" -> ["+", "1", "555", "0123"]; a bare ten-digit number is split 3-3-4
+function splitPhoneGroups(number: string): { plus: boolean; groups: string[] } {
+  const plus = number.trim().startsWith("+");
+  let groups = number.split(/[^\d]+/).filter(Boolean);
+  if (groups.length === 1 && groups[0].length === 10) {
+    groups = [groups[0].slice(0, 3), groups[0].slice(3, 6), groups[0].slice(6)];
+  }
+  return { plus, groups };
+}
+
+export function createSpeechFormatter(lang: string, t: Translate, units: UnitSystem = "auto"): SpeechFormatter {
+  const system = resolveUnitSystem(units, lang);
+
+  const number = (value: number, maxFractionDigits = 0) =>
+    value.toLocaleString(lang, { maximumFractionDigits: maxFractionDigits });
+
+  const unit = (value: number, name: string, maxFractionDigits = 0) =>
+    new Intl.NumberFormat(lang, { style: "unit", unit: name, unitDisplay: "long", maximumFractionDigits: maxFractionDigits }).format(value);
+
+  // Four decimal places is about eleven metres, as precise as a phone fix usually is
+  const coordinate = (value: number, positive: "format.north" | "format.east", negative: "format.south" | "format.west") =>
+    t("format.degrees", { value: number(Math.abs(value), 4), direction: t(value < 0 ? negative : positive) });
+
+  return {
+    number,
+
+    phoneNumber(phone) {
+      const { plus, groups } = splitPhoneGroups(phone);
+      // Spaces between digits make every synthesizer read them one at a time
+      const spoken = groups.map(group => group.split("").join(" ")).join(", ");
+      return plus ? `${t("format.plus")} ${spoken}` : spoken;
+    },
+
+    coordinates(latitude, longitude) {
+      return `${coordinate(latitude, "format.north", "format.south")}, ${coordinate(longitude, "format.east", "format.west")}`;
+    },
+
+    distance(meters) {
+      if (system === "imperial") {
+        const feet = meters / METERS_PER_FOOT;
+        return feet < 1000 ? unit(feet, "foot", feet < 10 ? 1 : 0) : unit(meters / METERS_PER_MILE, "mile", 1);
+      }
+      return meters < 1000 ? unit(meters, "meter", meters < 10 ? 1 : 0) : unit(meters / 1000, "kilometer", 1);
+    },
+
+    duration(seconds) {
+      if (seconds < 90) return unit(Math.round(seconds), "second");
+      const minutes = Math.round(seconds / 60);
+      if (minutes < 90) return unit(minutes, "minute");
+      const parts = [unit(Math.floor(minutes / 60), "hour")];
+      if (minutes % 60) parts.push(unit(minutes % 60, "minute"));
+      return joinList(parts, t);
+    },
+
+    time(date) {
+      return date.toLocaleTimeString(lang, { hour: "numeric", minute: "2-digit" });
+    },
+  };
+}
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+// Replaces whole words only, longest entries first so "St Marys" wins over "St"
+export function applyLexicon(text: string, lexicon: LexiconEntry[]): string {
+  const entries = lexicon
+    .filter(entry => entry.written.trim() && entry.spoken.trim())
+    .sort((a, b) => b.written.length - a.written.length);
+  if (entries.length === 0) return text;
+
+  const pattern = new RegExp(`(?<![\\p{L}\\p{N}])(${entries.map(entry => escapeRegExp(entry.written.trim())).join("|")})(?![\\p{L}\\p{N}])`, "giu");
+  return text.replace(pattern, match => {
+    const lower = match.toLowerCase();
+    return entries.find(entry => entry.written.trim().toLowerCase() === lower)?.spoken ?? match;
+  });
+}
@@ -0,0 +1,82 @@
+import { describe, expect, it, vi } from "vitest";
+import { SpeechEngine, createSpeechManager } from "@/utils/speechQueue";
+
+// Ends every utterance as soon as it is given, like speech with no synthesis voice or no neural model
+const silentEngine: SpeechEngine = {
+  speak: (_text, { onStart, onEnd }) => {
+    onStart();
+    onEnd();
+  },
+  cancel: () => {},
+};
+
+// Keeps utterances going until the test ends them
+function manualEngine() {
+  const pending: (() => void)[] = [];
+  const engine: SpeechEngine = {
+    speak: (_text, { onStart, onEnd }) => {
+      onStart();
+      pending.push(onEnd);
+    },
+    cancel: vi.fn(() => {
+      pending.length = 0;
+    }),
+  };
+  return { engine, finish: () => pending.shift()?.() };
+}
+
+describe("createSpeechManager", () => {
+  it("is not left speaking when the engine ends an utterance straight away", () => {
+    const onSpeakingChange = vi.fn();
+    const manager = createSpeechManager(silentEngine, { onSpeakingChange });
+    manager.speak("Camera mode");
+    manager.speak("Navigation mode");
+    expect(manager.isSpeaking()).toBe(false);
+    expect(onSpeakingChange).toHaveBeenLastCalledWith(false);
+  });
+
+  it("reports speaking until the queue runs dry", () => {
+    const onSpeakingChange = vi.fn();
+    const { engine, finish } = manualEngine();
+    const manager = createSpeechManager(engine, { onSpeakingChange });
+    manager.speak("Turn left");
+    manager.speak("Then go straight");
+    expect(onSpeakingChange).toHaveBeenLastCalledWith(true);
+    finish();
+    expect(onSpeakingChange).toHaveBeenLastCalledWith(true);
+    finish();
+    expect(onSpeakingChange).toHaveBeenLastCalledWith(false);
+    expect(manager.getHistory().map(message => message.text)).toEqual(["Turn left", "Then go straight"]);
+  });
+
+  it("lets a newer version of a message replace the one being said", () => {
+    const { engine } = manualEngine();
+    const manager = createSpeechManager(engine);
+    manager.speak("Careful: car.", { priority: "info", key: "camera.hazard" });
+    manager.speak("Careful: bicycle.", { priority: "info", key: "camera.hazard" });
+    expect(engine.cancel).toHaveBeenCalledOnce();
+    expect(manager.getHistory().map(message => message.text)).toEqual(["Careful: car.", "Careful: bicycle."]);
+  });
+
+  it("never cuts off an alert for a lower priority message with the same key", () => {
+    const { engine, finish } = manualEngine();
+    const manager = createSpeechManager(engine);
+    manager.speak("Stop! Car.", { priority: "critical", key: "camera.hazard" });
+    manager.speak("Careful: bicycle.", { priority: "info", key: "camera.hazard" });
+    expect(engine.cancel).not.toHaveBeenCalled();
+    expect(manager.getHistory().map(message => message.text)).toEqual(["Stop! Car."]);
+    finish();
+    expect(manager.getHistory().map(message => message.text)).toEqual(["Stop! Car.", "Careful: bicycle."]);
+  });
+
+  it("keeps a queued alert when a lower priority message with the same key arrives", () => {
+    const { engine, finish } = manualEngine();
+    const manager = createSpeechManager(engine);
+    manager.speak("Stop! Stairs.", { priority: "critical" });
+    manager.speak("Stop! Car.", { priority: "critical", key: "camera.hazard" });
+    manager.speak("Careful: bicycle.", { priority: "info", key: "camera.hazard" });
+    finish();
+    finish();
+    expect(manager.getHistory().map(message => message.text)).toEqual(["Stop! Stairs.", "Stop! Car.", "Careful: bicycle."]);
+  });
+});
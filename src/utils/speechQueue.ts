@@ -0,0 +1,220 @@
+/**
+ * Prioritised speech output.
+ *
+ * Every spoken message goes through one queue instead of cancelling whatever
+ * was being said, so a routine scene description cannot cut off a navigation
+ * instruction or an emergency message. The rules:
+ *
+ * - A message interrupts the current one only when it has a higher priority,
+ *   or when it carries the same key (a newer version of the same information)
+ *   and is not of a lower priority; a routine update never cuts off an alert.
+ * - Interrupted critical, emergency and navigation messages are said again
+ *   afterwards; interrupted info and ambient messages are dropped.
+ * - A queued message with the same key or text is replaced rather than repeated,
+ *   unless the queued one has the higher priority.
+ * - Messages that waited longer than their time-to-live are skipped as stale.
+ * - When the user talks over the app (barge-in), the current message stops and
+ *   routine messages still waiting are dropped; hazard warnings cannot be talked over.
+ *
+ * Usage:
+ *   const manager = createSpeechManager(engine);
+ *   manager.speak("Stairs ahead", { priority: "critical" });
+ *   manager.speak("I can see a chair", { priority: "ambient", key: "camera.scene" });
+ */
+
+export type SpeechPriority = "critical" | "emergency" | "navigation" | "info" | "ambient";
+
+export interface SpeakOptions {
+  priority?: SpeechPriority;  // defaults to "info"
+  key?: string;               // messages with the same key supersede each other
+  ttlMs?: number;             // skip if not started within this long; defaults per priority
+}
+
+export type Speak = (text: string, options?: SpeakOptions) => void;
+
+export interface SpokenMessage {
+  id: number;
+  text: string;
+  priority: SpeechPriority;
+  key?: string;
+  queuedAt: number;
+  expiresAt: number;
+  spokenAt?: number;
+  endedAt?: number;  // finished or cut off; recognition may still be hearing it for a moment
+}
+
+// Whatever actually produces sound; the manager decides what and when
+export interface SpeechEngine {
+  speak: (text: string, callbacks: { onStart: () => void; onEnd: () => void }) => void;
+  cancel: () => void;
+}
+
+export interface SpeechManagerOptions {
+  onSpeakingChange?: (speaking: boolean) => void;
+  onSpoken?: (message: SpokenMessage) => void;
+  historySize?: number;
+  now?: () => number;
+}
+
+export interface SpeechManager {
+  speak: Speak;
+  repeatLast: () => boolean;
+  getHistory: () => SpokenMessage[];
+  interrupt: () => boolean;
+  cancelAll: () => void;
+  isSpeaking: () => boolean;
+}
+
+const PRIORITY_RANK: Record<SpeechPriority, number> = {
+  critical: 0,
+  emergency: 1,
+  navigation: 2,
+  info: 3,
+  ambient: 4,
+};
+
+// A hazard warning a few seconds late describes a scene that has already changed
+const DEFAULT_TTL_MS: Record<SpeechPriority, number> = {
+  critical: 3000,
+  emergency: 60000,
+  navigation: 20000,
+  info: 10000,
+  ambient: 4000,
+};
+
+const RESUMED_PRIORITIES: SpeechPriority[] = ["critical", "emergency", "navigation"];
+
+// Messages that survive the user talking over the app
+const KEPT_ON_BARGE_IN: SpeechPriority[] = ["critical", "emergency"];
+
+export function createSpeechManager(engine: SpeechEngine, options: SpeechManagerOptions = {}): SpeechManager {
+  const { onSpeakingChange, onSpoken, historySize = 20, now = Date.now } = options;
+  let queue: SpokenMessage[] = [];
+  let current: SpokenMessage | null = null;
+  let history: SpokenMessage[] = [];
+  let nextId = 0;
+
+  const isStale = (message: SpokenMessage) => now() > message.expiresAt;
+
+  // Stable by arrival within a priority level
+  const enqueue = (message: SpokenMessage, atFront = false) => {
+    const rank = PRIORITY_RANK[message.priority];
+    const index = atFront
+      ? queue.findIndex(queued => PRIORITY_RANK[queued.priority] >= rank)
+      : queue.findIndex(queued => PRIORITY_RANK[queued.priority] > rank);
+    if (index === -1) queue.push(message);
+    else queue.splice(index, 0, message);
+  };
+
+  const markEnded = (message: SpokenMessage | null) => {
+    if (message && message.spokenAt !== undefined) message.endedAt = now();
+  };
+
+  const playNext = () => {
+    current = null;
+    queue = queue.filter(message => !isStale(message));
+    const message = queue.shift();
+    if (!message) {
+      onSpeakingChange?.(false);
+      return;
+    }
+
+    current = message;
+    // Reported before speaking: an engine that cannot speak ends the message at once, and the
+    // "not speaking" from that nested playNext must be the last word
+    onSpeakingChange?.(true);
+    engine.speak(message.text, {
+      onStart: () => {
+        if (current !== message) return;
+        // A message resumed after an interruption is already in the history
+        if (message.spokenAt === undefined) {
+          history = [...history, message].slice(-historySize);
+          onSpoken?.(message);
+        }
+        message.spokenAt = now();
+        message.endedAt = undefined;
+      },
+      onEnd: () => {
+        // Ends reported for utterances we already cancelled belong to the past
+        if (current !== message) return;
+        markEnded(message);
+        playNext();
+      },
+    });
+  };
+
+  const interruptCurrent = () => {
+    const interrupted = current;
+    markEnded(interrupted);
+    current = null;
+    engine.cancel();
+    if (interrupted && RESUMED_PRIORITIES.includes(interrupted.priority)) {
+      // Said again from the start once the interruption is over, keeping its original deadline
+      enqueue(interrupted, true);
+    }
+  };
+
+  const speak: Speak = (text, speakOptions = {}) => {
+    const trimmed = text.trim();
+    if (!trimmed) return;
+    const { priority = "info", key, ttlMs = DEFAULT_TTL_MS[priority] } = speakOptions;
+    const queuedAt = now();
+    const message: SpokenMessage = { id: nextId++, text: trimmed, priority, key, queuedAt, expiresAt: queuedAt + ttlMs };
+
+    const sameAs = (other: SpokenMessage) => (key !== undefined && other.key === key) || other.text === trimmed;
+    const outranks = (other: SpokenMessage) => PRIORITY_RANK[other.priority] < PRIORITY_RANK[priority];
+
+    // Already saying exactly this
+    if (current && current.text === trimmed) return;
+
+    // A newer version replaces the queued one, and is never older news than it
+    queue = queue.filter(queued => !sameAs(queued) || outranks(queued));
+
+    if (current && key !== undefined && current.key === key && !outranks(current)) {
+      markEnded(current);
+      current = null;
+      engine.cancel();
+      enqueue(message, true);
+      playNext();
+      return;
+    }
+
+    if (current && PRIORITY_RANK[priority] < PRIORITY_RANK[current.priority]) {
+      interruptCurrent();
+      enqueue(message, true);
+      playNext();
+      return;
+    }
+
+    enqueue(message);
+    if (!current) playNext();
+  };
+
+  return {
+    speak,
+    repeatLast() {
+      const last = history[history.length - 1];
+      if (!last) return false;
+      speak(last.text, { priority: last.priority === "ambient" ? "info" : last.priority, key: "speech.repeat" });
+      return true;
+    },
+    getHistory: () => history,
+    interrupt() {
+      if (!current || current.priority === "critical") return false;
+      markEnded(current);
+      current = null;
+      engine.cancel();
+      queue = queue.filter(message => KEPT_ON_BARGE_IN.includes(message.priority));
+      playNext();
+      return true;
+    },
+    cancelAll() {
+      queue = [];
+      markEnded(current);
+      current = null;
+      engine.cancel();
+      onSpeakingChange?.(false);
+    },
+    isSpeaking: () => current !== null,
+  };
+}
@@ -0,0 +1,115 @@
+/**
+ * Speech recognition backends behind one interface.
+ *
+ * VoiceControls only sees start/stop, lifecycle callbacks and transcripts, so the
+ * same wake word and command pipeline runs on browser Web Speech, on-device
+ * Whisper, or a scripted replay for exercising the app without a microphone.
+ *
+ * Usage:
+ *   const recognizer = createSpeechRecognizer("webspeech", { lang: "en-US" }, {
+ *     onStart, onEnd, onError,
+ *     onResult: result => result.isFinal && handle(result.transcript),
+ *   });
+ *   recognizer.start();
+ */
+import { createWebSpeechRecognizer, isWebSpeechSupported } from "./webSpeechRecognizer";
+import { createWhisperRecognizer } from "./whisperRecognizer";
+import { createScriptedRecognizer, ScriptedUtterance, DEMO_SCRIPT } from "./scriptedRecognizer";
+
+export type RecognizerBackend = "webspeech" | "whisper" | "scripted";
+
+export type RecognitionState = "stopped" | "starting" | "running" | "stopping";
+
+export interface RecognitionResult {
+  transcript: string;
+  confidence: number;
+  isFinal: boolean;
+}
+
+// Codes follow Web Speech's error names so restart policy is shared by every backend
+export type RecognizerErrorCode =
+  | "not-allowed"
+  | "network"
+  | "audio-capture"
+  | "no-speech"
+  | "aborted"
+  | "model-load"
+  | "unsupported"
+  | "unknown";
+
+export interface RecognizerError {
+  code: RecognizerErrorCode;
+  message?: string;
+}
+
+export interface RecognizerStatus {
+  loadProgress?: number;  // model download, 0 to 100
+  isSpeaking?: boolean;   // voice activity, when the backend can tell
+}
+
+export interface RecognizerCallbacks {
+  onStart: () => void;
+  onEnd: () => void;
+  onResult: (result: RecognitionResult) => void;
+  onError: (error: RecognizerError) => void;
+  onStatus?: (status: RecognizerStatus) => void;
+}
+
+export interface RecognizerOptions {
+  lang: string;
+  whisperModel?: string;          // preferred checkpoint id; empty picks one for the language
+  script?: ScriptedUtterance[];   // scripted backend only
+}
+
+export interface SpeechRecognizer {
+  readonly backend: RecognizerBackend;
+  start: () => void;
+  stop: () => void;   // finish the current utterance, then end
+  abort: () => void;  // end immediately without further results
+  setLanguage: (lang: string) => void;
+}
+
+export interface RecognizerBackendOption {
+  id: RecognizerBackend;
+  label: string;
+  description: string;
+}
+
+export const RECOGNIZER_BACKENDS: RecognizerBackendOption[] = [
+  { id: "webspeech", label: "Browser (Web Speech)", description: "Most accurate, needs a connection in most browsers" },
+  { id: "whisper", label: "Offline (Whisper)", description: "Runs on this device after a one-time model download" },
+  { id: "scripted", label: "Scripted demo", description: "Replays recorded commands without using the microphone" },
+];
+
+export function isRecognizerSupported(backend: RecognizerBackend): boolean {
+  switch (backend) {
+    case "webspeech":
+      return isWebSpeechSupported();
+    case "whisper":
+      return typeof Worker !== "undefined" && !!navigator.mediaDevices?.getUserMedia;
+    case "scripted":
+      return true;
+  }
+}
+
+// Only backends that listen to the microphone need permission first
+export function needsMicrophone(backend: RecognizerBackend): boolean {
+  return backend !== "scripted";
+}
+
+export function createSpeechRecognizer(
+  backend: RecognizerBackend,
+  options: RecognizerOptions,
+  callbacks: RecognizerCallbacks
+): SpeechRecognizer {
+  switch (backend) {
+    case "whisper":
+      return createWhisperRecognizer(options, callbacks);
+    case "scripted":
+      return createScriptedRecognizer(options.script ?? DEMO_SCRIPT, callbacks);
+    default:
+      return createWebSpeechRecognizer(options, callbacks);
+  }
+}
+
+export type { ScriptedUtterance };
@@ -0,0 +1,40 @@
+/**
+ * A running record of what the app said and what it heard, for the caption panel.
+ *
+ * Speech is the app's main output, but deaf-blind users on a braille display,
+ * screen reader users and anyone in a noisy street need the same information
+ * as text. Each entry says who spoke, when, and for heard speech what became of it.
+ */
+import type { SpeechPriority } from "./speechQueue";
+
+// What a final recognition result led to
+export type HeardOutcome = "command" | "reply" | "not-understood" | "ignored";
+
+export type TranscriptEntry =
+  | { id: number; at: number; source: "app"; text: string; priority: SpeechPriority }
+  | { id: number; at: number; source: "user"; text: string; outcome: HeardOutcome };
+
+export type TranscriptFilter = "all" | "app" | "commands" | "heard";
+
+// In the order they are offered; labels are "transcript.filter.<id>" in the message catalogs
+export const TRANSCRIPT_FILTERS: TranscriptFilter[] = ["all", "app", "commands", "heard"];
+
+// Screen readers interrupt for these; everything else waits its turn
+export const URGENT_PRIORITIES: SpeechPriority[] = ["critical", "emergency"];
+
+export function matchesTranscriptFilter(entry: TranscriptEntry, filter: TranscriptFilter): boolean {
+  switch (filter) {
+    case "all":
+      return true;
+    case "app":
+      return entry.source === "app";
+    case "commands":
+      return entry.source === "user" && (entry.outcome === "command" || entry.outcome === "reply");
+    case "heard":
+      return entry.source === "user";
+  }
+}
+
+export function isUrgentEntry(entry: TranscriptEntry): boolean {
+  return entry.source === "app" && URGENT_PRIORITIES.includes(entry.priority);
+}
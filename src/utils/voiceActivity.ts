@@ -0,0 +1,165 @@
+/**
+ * Energy-based voice activity detection for continuous offline recognition.
+ *
+ * Audio is fed in as mono Float32 frames; the detector tracks the background
+ * noise floor and emits one segment per utterance, with a little audio kept
+ * from before speech started so the first syllable is not clipped.
+ *
+ * Usage:
+ *   const vad = createVoiceActivityDetector({ sampleRate: 16000 }, segment => transcribe(segment.audio));
+ *   processor.onaudioprocess = e => vad.push(e.inputBuffer.getChannelData(0));
+ */
+
+export interface VoiceActivityOptions {
+  sampleRate: number;
+  frameMs?: number;          // analysis window
+  speechRatio?: number;      // frame energy must exceed noise floor by this factor
+  minEnergy?: number;        // RMS below this is always silence
+  startFrames?: number;      // consecutive speech frames needed to open a segment
+  hangoverMs?: number;       // silence that closes a segment
+  preRollMs?: number;        // audio kept from before speech was detected
+  minSpeechMs?: number;      // shorter segments are dropped as clicks and bumps
+  maxSegmentMs?: number;     // long speech is cut so transcription keeps up
+}
+
+export interface SpeechSegment {
+  audio: Float32Array;
+  durationMs: number;
+}
+
+export interface VoiceActivityDetector {
+  push: (samples: Float32Array) => void;
+  flush: () => void;
+  reset: () => void;
+  isSpeaking: () => boolean;
+}
+
+const DEFAULTS = {
+  frameMs: 30,
+  speechRatio: 3,
+  minEnergy: 0.008,
+  startFrames: 3,
+  hangoverMs: 700,
+  preRollMs: 300,
+  minSpeechMs: 250,
+  maxSegmentMs: 12000,
+};
+
+export function frameEnergy(frame: Float32Array): number {
+  let sum = 0;
+  for (let i = 0; i < frame.length; i++) {
+    sum += frame[i] * frame[i];
+  }
+  return Math.sqrt(sum / (frame.length || 1));
+}
+
+function concatFrames(frames: Float32Array[]): Float32Array {
+  const length = frames.reduce((total, frame) => total + frame.length, 0);
+  const audio = new Float32Array(length);
+  let offset = 0;
+  for (const frame of frames) {
+    audio.set(frame, offset);
+    offset += frame.length;
+  }
+  return audio;
+}
+
+export function createVoiceActivityDetector(
+  options: VoiceActivityOptions,
+  onSegment: (segment: SpeechSegment) => void
+): VoiceActivityDetector {
+  const config = { ...DEFAULTS, ...options };
+  const frameSize = Math.round((config.sampleRate * config.frameMs) / 1000);
+  const hangoverFrames = Math.ceil(config.hangoverMs / config.frameMs);
+  const preRollFrames = Math.ceil(config.preRollMs / config.frameMs);
+  const minSpeechFrames = Math.ceil(config.minSpeechMs / config.frameMs);
+  const maxSegmentFrames = Math.ceil(config.maxSegmentMs / config.frameMs);
+
+  let pending = new Float32Array(0);
+  let noiseFloor = config.minEnergy / 2;
+  let preRoll: Float32Array[] = [];
+  let segment: Float32Array[] = [];
+  let speaking = false;
+  let speechRun = 0;
+  let speechFrames = 0;
+  let silenceRun = 0;
+
+  const emit = () => {
+    if (speechFrames >= minSpeechFrames) {
+      // Trailing silence beyond a short tail only slows transcription down
+      const tail = Math.max(0, silenceRun - Math.ceil(200 / config.frameMs));
+      const audio = concatFrames(segment.slice(0, segment.length - tail));
+      onSegment({ audio, durationMs: (audio.length / config.sampleRate) * 1000 });
+    }
+    segment = [];
+    speaking = false;
+    speechFrames = 0;
+    silenceRun = 0;
+  };
+
+  const processFrame = (frame: Float32Array) => {
+    const energy = frameEnergy(frame);
+    const isSpeech = energy > config.minEnergy && energy > noiseFloor * config.speechRatio;
+
+    if (!isSpeech) {
+      // Adapt quickly to quieter rooms, slowly to louder ones
+      const rate = energy < noiseFloor ? 0.2 : 0.02;
+      noiseFloor += (energy - noiseFloor) * rate;
+    }
+
+    if (!speaking) {
+      preRoll.push(frame);
+      if (preRoll.length > preRollFrames + config.startFrames) preRoll.shift();
+      speechRun = isSpeech ? speechRun + 1 : 0;
+      if (speechRun >= config.startFrames) {
+        speaking = true;
+        segment = preRoll;
+        preRoll = [];
+        speechFrames = speechRun;
+        silenceRun = 0;
+        speechRun = 0;
+      }
+      return;
+    }
+
+    segment.push(frame);
+    if (isSpeech) {
+      speechFrames++;
+      silenceRun = 0;
+    } else {
+      silenceRun++;
+    }
+
+    if (silenceRun >= hangoverFrames || segment.length >= maxSegmentFrames) {
+      emit();
+    }
+  };
+
+  return {
+    push(samples: Float32Array) {
+      const buffer = new Float32Array(pending.length + samples.length);
+      buffer.set(pending);
+      buffer.set(samples, pending.length);
+
+      let offset = 0;
+      while (offset + frameSize <= buffer.length) {
+        processFrame(buffer.slice(offset, offset + frameSize));
+        offset += frameSize;
+      }
+      pending = buffer.slice(offset);
+    },
+    flush() {
+      if (speaking) emit();
+    },
+    reset() {
+      pending = new Float32Array(0);
+      preRoll = [];
+      segment = [];
+      speaking = false;
+      speechRun = 0;
+      speechFrames = 0;
+      silenceRun = 0;
+    },
+    isSpeaking: () => speaking,
+  };
+}
@@ -0,0 +1,87 @@
+/**
+ * Speech output and voice command preferences shared by Index, SettingsPanel
+ * and VoiceControls. They are kept in localStorage so each user's device
+ * remembers them between visits.
+ */
+import type { RecognizerBackend } from "./speechRecognizer";
+import type { Verbosity } from "./i18n";
+import type { HapticPatterns } from "./haptics";
+import type { PreferredVoices } from "./voices";
+import type { LexiconEntry, UnitSystem } from "./speechFormat";
+import type { OfflineVoiceMode } from "./neuralTtsModels";
+import type { DirectionStyle } from "./directions";
+
+export interface VoiceSettings {
+  rate: number;
+  pitch: number;
+  volume: number;
+  preferredVoices: PreferredVoices; // chosen voice per speech language
+  offlineVoice: OfflineVoiceMode; // when to speak with a downloaded neural voice instead of the browser's
+  enabled: boolean;
+  wakeWordEnabled: boolean;  // only act on commands introduced by "Hey Vision"
+  wakeWordWindowMs: number;  // how long a bare wake phrase keeps command parsing armed
+  emergencyAutoCall: boolean;        // opt-in: emergency calls proceed on their own when the countdown ends
+  emergencyCountdownSeconds: number; // length of that countdown
+  recognizerBackend: RecognizerBackend; // which speech recognizer VoiceControls listens with
+  whisperModel: string;      // preferred offline checkpoint; empty picks the smallest one for the language
+  verbosity: Verbosity;      // how much spoken messages say
+  earconsEnabled: boolean;   // stereo sounds for detected objects, independent of speech
+  earconVolume: number;      // 0 to 1
+  hapticsEnabled: boolean;
+  hapticPatterns: HapticPatterns; // the user's replacements for default vibration patterns
+  units: UnitSystem;         // how distances are spoken; auto follows the speech language's region
+  lexicon: LexiconEntry[];   // the user's pronunciations for street names, acronyms and the like
+  cameraFovDeg: number | null; // this device's calibrated camera field of view; null uses a typical phone's
+  directionStyle: DirectionStyle; // how the camera says where objects are
+}
+
+export const DEFAULT_VOICE_SETTINGS: VoiceSettings = {
+  rate: 0.8,
+  pitch: 1,
+  volume: 1,
+  preferredVoices: {},
+  offlineVoice: "fallback",
+  enabled: true,
+  wakeWordEnabled: true,
+  wakeWordWindowMs: 6000,
+  // A misheard "call 911" must never dial by itself unless the user has chosen that
+  emergencyAutoCall: false,
+  emergencyCountdownSeconds: 10,
+  recognizerBackend: "webspeech",
+  whisperModel: "",
+  verbosity: "normal",
+  earconsEnabled: true,
+  earconVolume: 0.6,
+  hapticsEnabled: true,
+  hapticPatterns: {},
+  units: "auto",
+  lexicon: [],
+  cameraFovDeg: null,
+  directionStyle: "clock",
+};
+
+// Seconds before an emergency call dials by itself; 0 waits for "yes"
+export function emergencyCountdown(settings: VoiceSettings): number {
+  return settings.emergencyAutoCall ? settings.emergencyCountdownSeconds : 0;
+}
+
+const STORAGE_KEY = "vision-guide.voice-settings";
+
+// Saved settings from older versions lack newer fields; defaults fill them in
+export function loadVoiceSettings(): VoiceSettings {
+  try {
+    const saved = window.localStorage.getItem(STORAGE_KEY);
+    return saved ? { ...DEFAULT_VOICE_SETTINGS, ...JSON.parse(saved) } : DEFAULT_VOICE_SETTINGS;
+  } catch {
+    // Private browsing or a corrupted entry
+    return DEFAULT_VOICE_SETTINGS;
+  }
+}
+
+export function saveVoiceSettings(settings: VoiceSettings) {
+  try {
+    window.localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+  } catch {
+    // Storage full or disabled; settings still apply for this visit
+  }
+}
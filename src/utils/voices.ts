@@ -0,0 +1,64 @@
+/**
+ * Speech synthesis voices installed in the browser or offered by it over the network.
+ *
+ * Without a chosen voice the browser picks any voice for the utterance's
+ * language, which can differ from one message to the next. Users pick a voice
+ * per speech language and it is stored by voiceURI, which stays the same across visits.
+ *
+ * Usage:
+ *   const voices = await loadSystemVoices();
+ *   const voice = findVoice(voices, voiceSettings.preferredVoices["hi-IN"]);
+ */
+
+export type PreferredVoices = { [lang: string]: string }; // speech language code -> voiceURI
+
+const langRoot = (lang: string) => lang.toLowerCase().replace("_", "-").split("-")[0];
+
+// Resolves with an empty list where synthesis is unavailable; Chrome and Safari fill the list in asynchronously
+export function loadSystemVoices(): Promise<SpeechSynthesisVoice[]> {
+  return new Promise(resolve => {
+    if (typeof window === "undefined" || !window.speechSynthesis) return resolve([]);
+    const voices = window.speechSynthesis.getVoices();
+    if (voices.length > 0) return resolve(voices);
+
+    const handleVoicesChanged = () => {
+      window.speechSynthesis.removeEventListener("voiceschanged", handleVoicesChanged);
+      resolve(window.speechSynthesis.getVoices());
+    };
+    window.speechSynthesis.addEventListener("voiceschanged", handleVoicesChanged);
+    // Some browsers never fire voiceschanged; resolve with whatever exists after a second
+    setTimeout(() => {
+      window.speechSynthesis.removeEventListener("voiceschanged", handleVoicesChanged);
+      resolve(window.speechSynthesis.getVoices());
+    }, 1000);
+  });
+}
+
+// Called whenever voices are installed, removed or finish loading
+export function subscribeToVoices(callback: (voices: SpeechSynthesisVoice[]) => void): () => void {
+  if (typeof window === "undefined" || !window.speechSynthesis) return () => {};
+  const handleVoicesChanged = () => callback(window.speechSynthesis.getVoices());
+  window.speechSynthesis.addEventListener("voiceschanged", handleVoicesChanged);
+  return () => window.speechSynthesis.removeEventListener("voiceschanged", handleVoicesChanged);
+}
+
+export function findVoice(voices: SpeechSynthesisVoice[], voiceURI: string | undefined): SpeechSynthesisVoice | undefined {
+  return voiceURI ? voices.find(voice => voice.voiceURI === voiceURI) : undefined;
+}
+
+// Voices that can speak the language: the exact region first, on-device before network, then by name
+export function getVoicesForLanguage(voices: SpeechSynthesisVoice[], lang: string): SpeechSynthesisVoice[] {
+  const exact = (voice: SpeechSynthesisVoice) => voice.lang.toLowerCase().replace("_", "-") === lang.toLowerCase();
+  return voices
+    .filter(voice => langRoot(voice.lang) === langRoot(lang))
+    .sort((a, b) =>
+      Number(exact(b)) - Number(exact(a)) ||
+      Number(b.localService) - Number(a.localService) ||
+      a.name.localeCompare(b.name)
+    );
+}
+
+// "Google Deutsch (de-DE, network)"
+export function describeVoice(voice: SpeechSynthesisVoice): string {
+  return `${voice.name} (${voice.lang}, ${voice.localService ? "on device" : "network"}${voice.default ? ", default" : ""})`;
+}
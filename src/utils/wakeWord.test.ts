@@ -0,0 +1,38 @@
+import { describe, expect, it } from "vitest";
+import { detectWakeWord } from "@/utils/wakeWord";
+
+const HINDI_VARIANTS = { "हे विज़न": "hey vision" };
+
+describe("detectWakeWord", () => {
+  it.each([
+    ["hey vision camera mode", "hey vision", "camera mode"],
+    ["hey division camera", "hey vision", "camera"],
+    ["hey vison what do you see", "hey vision", "what do you see"],
+    ["okay vision status", "hey vision", "status"],
+    ["vision guide help", "vision guide", "help"],
+    ["hey guide next step", "hey guide", "next step"],
+    ["um hey vision help", "hey vision", "help"],
+    ["vision", "hey vision", ""],
+    ["division", "hey vision", ""],
+  ])("wakes on %j", (transcript, phrase, remainder) => {
+    expect(detectWakeWord(transcript)).toMatchObject({ phrase, remainder });
+  });
+
+  it.each([
+    "the vision of the future",
+    "a vision of the future",
+    "hey guys what's up",
+    "hey guy",
+    "division of labour",
+    "revision notes for tomorrow",
+    "vision is blurry today",
+    "so okay vision camera", // a loose variant after a lead-in
+    "visions", // a single word must be heard exactly
+  ])("ignores %j", transcript => {
+    expect(detectWakeWord(transcript)).toBeNull();
+  });
+
+  it("lets the active language's own wake phrase follow a lead-in", () => {
+    expect(detectWakeWord("अच्छा हे विज़न कैमरा", HINDI_VARIANTS)).toMatchObject({ phrase: "hey vision", remainder: "कैमरा" });
+  });
+});
@@ -0,0 +1,119 @@
+/**
+ * Wake word detection for voice commands.
+ *
+ * Every command must be introduced by a wake phrase ("Hey Vision", "Vision Guide",
+ * "Hey Guide"). Speech recognizers often mishear these, so phrases are compared
+ * with a normalized Levenshtein similarity instead of exact matching.
+ *
+ * Usage:
+ *   const match = detectWakeWord("hey division camera");
+ *   // => { phrase: "hey vision", heard: "hey division", score: 1, remainder: "camera" }
+ */
+
+export const WAKE_PHRASES = ["hey vision", "vision guide", "hey guide"];
+
+// Phonetically similar variants that recognizers commonly return for the wake phrases.
+// They are loose by nature ("division" is an ordinary word), so they only count at the
+// very start of the utterance, and single words only when they are all that was said
+const WAKE_VARIANTS: { [heard: string]: string } = {
+  "vision": "hey vision",
+  "division": "hey vision",
+  "revision": "hey vision",
+  "hey division": "hey vision",
+  "hey revision": "hey vision",
+  "hi vision": "hey vision",
+  "hay vision": "hey vision",
+  "okay vision": "hey vision",
+  "ok vision": "hey vision",
+  "division guide": "vision guide",
+};
+
+// Single words are easy to confuse with ordinary speech, so they need a closer match:
+// a word under ten letters has to be heard exactly ("visions" is 0.86 against "vision").
+// Multi-word phrases still reject near misses like "the vision" (0.8 against "hey vision")
+const MULTI_WORD_THRESHOLD = 0.85;
+const SINGLE_WORD_THRESHOLD = 0.9;
+
+// The wake phrase itself may follow a short lead-in such as "okay" or "um"
+const MAX_LEAD_IN_WORDS = 2;
+
+export interface WakeWordMatch {
+  phrase: string;    // canonical wake phrase
+  heard: string;     // words in the transcript that matched
+  score: number;     // similarity between 0 and 1
+  remainder: string; // rest of the transcript after the wake phrase
+}
+
+export function levenshtein(a: string, b: string): number {
+  if (a === b) return 0;
+  if (!a.length) return b.length;
+  if (!b.length) return a.length;
+
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+// 1 means identical, 0 means nothing in common
+export function similarity(a: string, b: string): number {
+  const maxLength = Math.max(a.length, b.length);
+  if (maxLength === 0) return 1;
+  return 1 - levenshtein(a, b) / maxLength;
+}
+
+export function normalizeTranscript(text: string): string[] {
+  return text
+    .toLowerCase()
+    .replace(/(\d)\.(\d)/g, "$1 point $2")
+    .replace(/[^\p{L}\p{M}\p{N}\s']/gu, " ")
+    .split(/\s+/)
+    .filter(Boolean);
+}
+
+// localVariants lists how the active language's recognizer hears the wake phrases, e.g. "हे विज़न";
+// they are that language's own wake phrases, so like WAKE_PHRASES they may follow a lead-in
+export function detectWakeWord(transcript: string, localVariants: { [heard: string]: string } = {}): WakeWordMatch | null {
+  const words = normalizeTranscript(transcript);
+  const variants = { ...WAKE_VARIANTS, ...localVariants };
+  const phrases = [...WAKE_PHRASES, ...Object.keys(localVariants)];
+  const candidates = [...phrases, ...Object.keys(WAKE_VARIANTS)];
+  let best: (WakeWordMatch & { length: number }) | null = null;
+
+  for (let start = 0; start <= Math.min(MAX_LEAD_IN_WORDS, words.length - 1); start++) {
+    for (let length = 1; length <= 3 && start + length <= words.length; length++) {
+      // A lone word only counts as the whole utterance: "vision" wakes, "division of labour" does not
+      if (length === 1 && words.length > 1) continue;
+
+      const heard = words.slice(start, start + length).join(" ");
+      const threshold = length === 1 ? SINGLE_WORD_THRESHOLD : MULTI_WORD_THRESHOLD;
+
+      for (const candidate of start > 0 ? phrases : candidates) {
+        if (candidate.split(" ").length !== length) continue;
+        const score = similarity(heard, candidate);
+        if (score < threshold) continue;
+
+        // Prefer the highest score, then the longest phrase, then the earliest position
+        if (!best || score > best.score || (score === best.score && length > best.length)) {
+          best = {
+            phrase: variants[candidate] ?? candidate,
+            heard,
+            score,
+            remainder: words.slice(start + length).join(" "),
+            length,
+          };
+        }
+      }
+    }
+  }
+
+  if (!best) return null;
+  const { length, ...match } = best;
+  return match;
+}
@@ -0,0 +1,128 @@
+/**
+ * Browser Web Speech recognition (Chrome, Edge, Safari).
+ *
+ * Sessions end on their own after silence or network hiccups; the recognizer
+ * reports that through onEnd and leaves restarting to the caller.
+ */
+import type { RecognizerCallbacks, RecognizerOptions, SpeechRecognizer, RecognizerErrorCode } from "./speechRecognizer";
+
+interface WebSpeechAlternative {
+  transcript: string;
+  confidence: number;
+}
+
+interface WebSpeechResult {
+  isFinal: boolean;
+  0: WebSpeechAlternative;
+}
+
+interface WebSpeechResultEvent {
+  resultIndex: number;
+  results: ArrayLike<WebSpeechResult>;
+}
+
+interface WebSpeechErrorEvent {
+  error: string;
+  message?: string;
+}
+
+interface WebSpeechRecognition {
+  continuous: boolean;
+  interimResults: boolean;
+  lang: string;
+  maxAlternatives: number;
+  onstart: (() => void) | null;
+  onend: (() => void) | null;
+  onresult: ((event: WebSpeechResultEvent) => void) | null;
+  onerror: ((event: WebSpeechErrorEvent) => void) | null;
+  start: () => void;
+  stop: () => void;
+  abort: () => void;
+}
+
+type WebSpeechRecognitionConstructor = new () => WebSpeechRecognition;
+
+declare global {
+  interface Window {
+    webkitSpeechRecognition?: WebSpeechRecognitionConstructor;
+    SpeechRecognition?: WebSpeechRecognitionConstructor;
+  }
+}
+
+const KNOWN_ERRORS: RecognizerErrorCode[] = ["not-allowed", "network", "audio-capture", "no-speech", "aborted"];
+
+export function isWebSpeechSupported(): boolean {
+  return typeof window !== "undefined" && ("webkitSpeechRecognition" in window || "SpeechRecognition" in window);
+}
+
+export function createWebSpeechRecognizer(options: RecognizerOptions, callbacks: RecognizerCallbacks): SpeechRecognizer {
+  let lang = options.lang;
+  let recognition: WebSpeechRecognition | null = null;
+
+  const start = () => {
+    const SpeechRecognition = window.webkitSpeechRecognition || window.SpeechRecognition;
+    if (!SpeechRecognition) {
+      callbacks.onError({ code: "unsupported", message: "Web Speech recognition is not available in this browser" });
+      return;
+    }
+
+    recognition?.abort();
+    const session = new SpeechRecognition();
+    session.continuous = true;
+    session.interimResults = true;
+    session.lang = lang;
+    session.maxAlternatives = 1;
+
+    session.onstart = () => callbacks.onStart();
+    session.onend = () => {
+      if (recognition === session) recognition = null;
+      callbacks.onEnd();
+    };
+    session.onerror = event => {
+      const code = KNOWN_ERRORS.find(known => known === event.error);
+      // "service-not-allowed" is how Safari reports a blocked microphone
+      callbacks.onError({
+        code: code ?? (event.error === "service-not-allowed" ? "not-allowed" : "unknown"),
+        message: event.message || event.error,
+      });
+    };
+    session.onresult = event => {
+      let finalTranscript = "";
+      let interimTranscript = "";
+      let maxConfidence = 0;
+
+      for (let i = event.resultIndex; i < event.results.length; i++) {
+        const result = event.results[i];
+        const transcript = result[0].transcript.trim();
+        if (result.isFinal) {
+          finalTranscript += transcript;
+          maxConfidence = Math.max(maxConfidence, result[0].confidence || 0.8);
+        } else {
+          interimTranscript += transcript;
+        }
+      }
+
+      if (finalTranscript) {
+        callbacks.onResult({ transcript: finalTranscript, confidence: maxConfidence, isFinal: true });
+      } else if (interimTranscript) {
+        callbacks.onResult({ transcript: interimTranscript, confidence: 0, isFinal: false });
+      }
+    };
+
+    recognition = session;
+    session.start();
+  };
+
+  return {
+    backend: "webspeech",
+    start,
+    stop: () => recognition?.stop(),
+    abort: () => recognition?.abort(),
+    setLanguage(next: string) {
+      if (next === lang) return;
+      lang = next;
+      // A session's language is fixed once started; ending it lets the caller restart with the new one
+      recognition?.stop();
+    },
+  };
+}
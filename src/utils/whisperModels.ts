@@ -0,0 +1,44 @@
+/**
+ * Whisper checkpoints available for offline recognition.
+ *
+ * English-only checkpoints are smaller and more accurate for English; any other
+ * speech language needs a multilingual checkpoint, which is told the language
+ * up front so it does not have to guess from a short command.
+ */
+
+export interface WhisperModelOption {
+  id: string;
+  label: string;
+  multilingual: boolean;
+  sizeMb: number;
+}
+
+export const WHISPER_MODELS: WhisperModelOption[] = [
+  { id: "onnx-community/whisper-tiny.en", label: "Tiny (English)", multilingual: false, sizeMb: 40 },
+  { id: "onnx-community/whisper-base.en", label: "Base (English)", multilingual: false, sizeMb: 80 },
+  { id: "onnx-community/whisper-tiny", label: "Tiny (multilingual)", multilingual: true, sizeMb: 40 },
+  { id: "onnx-community/whisper-base", label: "Base (multilingual)", multilingual: true, sizeMb: 80 },
+  { id: "onnx-community/whisper-small", label: "Small (multilingual)", multilingual: true, sizeMb: 250 },
+];
+
+export const WHISPER_SAMPLE_RATE = 16000;
+
+function isEnglish(lang: string): boolean {
+  return lang.toLowerCase().split("-")[0] === "en";
+}
+
+// Models that can transcribe the given speech language
+export function getWhisperModelsFor(lang: string): WhisperModelOption[] {
+  return isEnglish(lang) ? WHISPER_MODELS : WHISPER_MODELS.filter(model => model.multilingual);
+}
+
+// Keeps the preferred model when it can handle the language, otherwise the smallest one that can
+export function resolveWhisperModel(lang: string, preferredId?: string): WhisperModelOption {
+  const candidates = getWhisperModelsFor(lang);
+  return candidates.find(model => model.id === preferredId) ?? candidates[0];
+}
+
+// Whisper takes ISO 639-1 codes; English-only checkpoints reject a language hint altogether
+export function getWhisperLanguage(lang: string, model: WhisperModelOption): string | undefined {
+  return model.multilingual ? lang.toLowerCase().split("-")[0] : undefined;
+}
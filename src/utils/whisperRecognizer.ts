@@ -0,0 +1,193 @@
+/**
+ * On-device Whisper recognition: the microphone is cut into utterances by the
+ * voice activity detector and each one is transcribed in a Web Worker.
+ *
+ * The worker is shared by every recognizer so a loaded model survives restarts
+ * and language changes that keep the same checkpoint.
+ */
+import type { RecognizerCallbacks, RecognizerOptions, SpeechRecognizer } from "./speechRecognizer";
+import { createVoiceActivityDetector, SpeechSegment, VoiceActivityDetector } from "./voiceActivity";
+import { resolveWhisperModel, getWhisperLanguage, WHISPER_SAMPLE_RATE } from "./whisperModels";
+import type { WhisperWorkerRequest, WhisperWorkerResponse } from "@/workers/whisper.worker";
+
+// Whisper reports no per-utterance confidence; treat its text like a typical Web Speech result
+const WHISPER_CONFIDENCE = 0.8;
+
+// Segments waiting for the worker; beyond this, speech is dropped rather than answered late
+const MAX_PENDING_SEGMENTS = 2;
+
+let worker: Worker | null = null;
+let nextSegmentId = 0;
+const listeners = new Set<(message: WhisperWorkerResponse) => void>();
+
+function getWorker(): Worker {
+  if (!worker) {
+    worker = new Worker(new URL("../workers/whisper.worker.ts", import.meta.url), { type: "module" });
+    worker.onmessage = (event: MessageEvent<WhisperWorkerResponse>) => {
+      listeners.forEach(listener => listener(event.data));
+    };
+    worker.onerror = event => {
+      listeners.forEach(listener => listener({ type: "error", message: event.message || "Whisper worker failed" }));
+    };
+  }
+  return worker;
+}
+
+function postToWorker(request: WhisperWorkerRequest, transfer: Transferable[] = []) {
+  getWorker().postMessage(request, transfer);
+}
+
+export function createWhisperRecognizer(options: RecognizerOptions, callbacks: RecognizerCallbacks): SpeechRecognizer {
+  let lang = options.lang;
+  let model = resolveWhisperModel(lang, options.whisperModel);
+  let stream: MediaStream | null = null;
+  let context: AudioContext | null = null;
+  let processor: ScriptProcessorNode | null = null;
+  let vad: VoiceActivityDetector | null = null;
+  let active = false;
+  let ending = false;
+  let speaking = false;
+  const pending = new Set<number>();
+
+  const releaseAudio = () => {
+    processor?.disconnect();
+    processor = null;
+    context?.close().catch(() => {
+      // Already closed
+    });
+    context = null;
+    stream?.getTracks().forEach(track => track.stop());
+    stream = null;
+    vad = null;
+    if (speaking) {
+      speaking = false;
+      callbacks.onStatus?.({ isSpeaking: false });
+    }
+  };
+
+  const end = () => {
+    releaseAudio();
+    listeners.delete(handleMessage);
+    pending.clear();
+    active = false;
+    ending = false;
+    callbacks.onEnd();
+  };
+
+  function handleMessage(message: WhisperWorkerResponse) {
+    switch (message.type) {
+      case "loading":
+        if (message.model === model.id) callbacks.onStatus?.({ loadProgress: message.progress });
+        break;
+      case "ready":
+        if (message.model === model.id) callbacks.onStatus?.({ loadProgress: 100 });
+        break;
+      case "result":
+        if (!pending.delete(message.id)) return;
+        if (message.text.length > 1) {
+          callbacks.onResult({ transcript: message.text, confidence: WHISPER_CONFIDENCE, isFinal: true });
+        }
+        if (ending && pending.size === 0) end();
+        break;
+      case "error":
+        if (message.id === undefined) {
+          // Without a model there is nothing to listen with
+          callbacks.onError({ code: "model-load", message: message.message });
+          end();
+        } else if (pending.delete(message.id)) {
+          callbacks.onError({ code: "unknown", message: message.message });
+          if (ending && pending.size === 0) end();
+        }
+        break;
+    }
+  }
+
+  const handleSegment = (segment: SpeechSegment) => {
+    if (pending.size >= MAX_PENDING_SEGMENTS) {
+      console.warn(`Whisper busy, dropped ${Math.round(segment.durationMs)}ms of speech`);
+      return;
+    }
+    const id = nextSegmentId++;
+    pending.add(id);
+    postToWorker(
+      { type: "transcribe", id, audio: segment.audio, model: model.id, language: getWhisperLanguage(lang, model) },
+      [segment.audio.buffer]
+    );
+  };
+
+  const start = async () => {
+    if (active) return;
+    active = true;
+    listeners.add(handleMessage);
+
+    // Start downloading the model while the microphone is being opened
+    postToWorker({ type: "load", model: model.id });
+
+    try {
+      stream = await navigator.mediaDevices.getUserMedia({
+        audio: { channelCount: 1, echoCancellation: true, noiseSuppression: true },
+      });
+    } catch (error) {
+      const denied = error instanceof DOMException && error.name === "NotAllowedError";
+      callbacks.onError({ code: denied ? "not-allowed" : "audio-capture", message: String(error) });
+      end();
+      return;
+    }
+    if (!active) {
+      // Aborted while the permission prompt was open
+      releaseAudio();
+      return;
+    }
+
+    // A dedicated context so the browser resamples the microphone to Whisper's 16 kHz
+    context = new AudioContext({ sampleRate: WHISPER_SAMPLE_RATE });
+    const source = context.createMediaStreamSource(stream);
+    processor = context.createScriptProcessor(4096, 1, 1);
+    const detector = createVoiceActivityDetector({ sampleRate: context.sampleRate }, handleSegment);
+    vad = detector;
+
+    processor.onaudioprocess = event => {
+      // The input buffer is reused by the browser, so the detector gets a copy
+      detector.push(new Float32Array(event.inputBuffer.getChannelData(0)));
+      if (detector.isSpeaking() !== speaking) {
+        speaking = detector.isSpeaking();
+        callbacks.onStatus?.({ isSpeaking: speaking });
+      }
+    };
+
+    // The processor only runs while connected; a muted gain keeps the microphone out of the speakers
+    const mute = context.createGain();
+    mute.gain.value = 0;
+    source.connect(processor);
+    processor.connect(mute);
+    mute.connect(context.destination);
+
+    callbacks.onStart();
+  };
+
+  return {
+    backend: "whisper",
+    start: () => {
+      start();
+    },
+    stop() {
+      if (!active || ending) return;
+      // Like Web Speech, the utterance in progress is still transcribed before the session ends
+      vad?.flush();
+      ending = true;
+      releaseAudio();
+      if (pending.size === 0) end();
+    },
+    abort() {
+      if (active) end();
+    },
+    setLanguage(next: string) {
+      lang = next;
+      const resolved = resolveWhisperModel(lang, options.whisperModel);
+      if (resolved.id !== model.id) {
+        model = resolved;
+        if (active) postToWorker({ type: "load", model: model.id });
+      }
+    },
+  };
+}
@@ -0,0 +1,148 @@
+import { describe, expect, it } from "vitest";
+import { YOLOOutputFormat, decodeYOLOOutput, detectYOLOOutputFormat, getYOLOOutputAdapter } from "@/utils/yoloAdapters";
+import { COCO_CLASSES, YOLODetection } from "@/utils/yoloPipeline";
+
+const NUM_CLASSES = COCO_CLASSES.length;
+const PERSON = COCO_CLASSES.indexOf("person");
+const CAR = COCO_CLASSES.indexOf("car");
+const DOG = COCO_CLASSES.indexOf("dog");
+
+// One anchor's worth of model output, before it is laid out in a tensor
+interface Anchor {
+  box: [number, number, number, number]; // cx, cy, w, h in model input pixels
+  objectness?: number;                   // v5 only
+  classIndex: number;
+  score: number;
+}
+
+// Three anchors: a person and a car worth reporting, and a dog below the confidence threshold
+const ANCHORS: Anchor[] = [
+  { box: [100, 200, 50, 100], objectness: 0.9, classIndex: PERSON, score: 0.8 },
+  { box: [400, 300, 200, 100], objectness: 0.8, classIndex: CAR, score: 0.9 },
+  { box: [300, 300, 40, 40], objectness: 0.9, classIndex: DOG, score: 0.1 },
+];
+
+// What every layout of ANCHORS should decode to, most confident first
+const EXPECTED_V8: YOLODetection[] = [
+  { label: "car", confidence: 0.9, bbox: [300, 250, 200, 100] },
+  { label: "person", confidence: 0.8, bbox: [75, 150, 50, 100] },
+];
+// v5 scores are objectness × class probability
+const EXPECTED_V5: YOLODetection[] = [
+  { label: "person", confidence: 0.72, bbox: [75, 150, 50, 100] },
+  { label: "car", confidence: 0.72, bbox: [300, 250, 200, 100] },
+];
+
+// Anchor grids at a 320 input (v5) and 640 input (v8); anchors past the listed ones are all zero
+const V5_ANCHORS = 6300;
+const V8_ANCHORS = 8400;
+
+// [1, anchors, 5 + classes]
+function v5Fixture(anchors: Anchor[]) {
+  const stride = 5 + NUM_CLASSES;
+  const data = new Float32Array(V5_ANCHORS * stride);
+  anchors.forEach((anchor, i) => {
+    data.set([...anchor.box, anchor.objectness ?? 1], i * stride);
+    data[i * stride + 5 + anchor.classIndex] = anchor.score;
+  });
+  return { data, dims: [1, V5_ANCHORS, stride] };
+}
+
+// [1, 4 + classes, anchors]
+function v8Fixture(anchors: Anchor[]) {
+  const channels = 4 + NUM_CLASSES;
+  const data = new Float32Array(channels * V8_ANCHORS);
+  anchors.forEach((anchor, i) => {
+    anchor.box.forEach((value, c) => (data[c * V8_ANCHORS + i] = value));
+    data[(4 + anchor.classIndex) * V8_ANCHORS + i] = anchor.score;
+  });
+  return { data, dims: [1, channels, V8_ANCHORS] };
+}
+
+// [1, anchors, 4 + classes]
+function v8TransposedFixture(anchors: Anchor[]) {
+  const channels = 4 + NUM_CLASSES;
+  const data = new Float32Array(V8_ANCHORS * channels);
+  anchors.forEach((anchor, i) => {
+    data.set(anchor.box, i * channels);
+    data[i * channels + 4 + anchor.classIndex] = anchor.score;
+  });
+  return { data, dims: [1, V8_ANCHORS, channels] };
+}
+
+// [1, 300, 6] rows of x1, y1, x2, y2, score, class; unused rows are zero
+function v10Fixture(anchors: Anchor[]) {
+  const rows = 300;
+  const data = new Float32Array(rows * 6);
+  anchors.forEach((anchor, i) => {
+    const [cx, cy, w, h] = anchor.box;
+    data.set([cx - w / 2, cy - h / 2, cx + w / 2, cy + h / 2, anchor.score, anchor.classIndex], i * 6);
+  });
+  return { data, dims: [1, rows, 6] };
+}
+
+const sortByLabel = (detections: YOLODetection[]) => [...detections].sort((a, b) => a.label.localeCompare(b.label));
+
+function expectDetections(actual: YOLODetection[], expected: YOLODetection[]) {
+  expect(actual).toHaveLength(expected.length);
+  sortByLabel(actual).forEach((detection, i) => {
+    const want = sortByLabel(expected)[i];
+    expect(detection.label).toBe(want.label);
+    expect(detection.confidence).toBeCloseTo(want.confidence, 5);
+    detection.bbox.forEach((value, j) => expect(value).toBeCloseTo(want.bbox[j], 3));
+  });
+}
+
+describe("YOLO output adapters", () => {
+  const fixtures: [YOLOOutputFormat, { data: Float32Array; dims: number[] }, YOLODetection[]][] = [
+    ["v5", v5Fixture(ANCHORS), EXPECTED_V5],
+    ["v8", v8Fixture(ANCHORS), EXPECTED_V8],
+    ["v8-transposed", v8TransposedFixture(ANCHORS), EXPECTED_V8],
+    ["v10", v10Fixture(ANCHORS), EXPECTED_V8],
+  ];
+
+  it.each(fixtures)("decodes the %s fixture", (format, { data, dims }, expected) => {
+    const adapter = getYOLOOutputAdapter(dims);
+    expect(adapter.format).toBe(format);
+    expectDetections(decodeYOLOOutput(adapter, data, dims), expected);
+  });
+
+  it("drops v5 rows whose objectness is too low, whatever their class score", () => {
+    const { data, dims } = v5Fixture([{ box: [100, 100, 20, 20], objectness: 0.2, classIndex: PERSON, score: 1 }]);
+    expect(decodeYOLOOutput(getYOLOOutputAdapter(dims), data, dims)).toEqual([]);
+  });
+
+  it("suppresses overlapping boxes for v8 but keeps v10's own output as is", () => {
+    const duplicate: Anchor = { box: [102, 202, 50, 100], classIndex: PERSON, score: 0.7 };
+    const v8 = v8Fixture([...ANCHORS, duplicate]);
+    expect(decodeYOLOOutput(getYOLOOutputAdapter(v8.dims), v8.data, v8.dims)).toHaveLength(2);
+    const v10 = v10Fixture([...ANCHORS, duplicate]);
+    expect(decodeYOLOOutput(getYOLOOutputAdapter(v10.dims), v10.data, v10.dims)).toHaveLength(3);
+  });
+});
+
+describe("detectYOLOOutputFormat", () => {
+  it.each([
+    [[1, 25200, 85], "v5"],           // v5s at 640
+    [[1, 84, 8400], "v8"],            // v8n at 640
+    [[1, 8400, 84], "v8-transposed"], // v8 exported row per anchor
+    [[1, 300, 6], "v10"],             // v10 with the default max_det
+    [[1, 1000, 6], "v10"],            // largest output still taken as end-to-end
+    // Unclear shapes, and how they are read
+    [[1, 1001, 6], "v5"],             // too many rows for end-to-end: v5 with one class
+    [[1, 6, 300], "v8"],              // channels first with two classes, not a transposed v10
+    [[1, 5, 8400], "v8"],             // channels first with one class
+    [[1, 8400, 14], "v5"],            // row per anchor with a custom class count is taken as v5
+  ])("reads %j as %s", (dims, format) => {
+    expect(detectYOLOOutputFormat(dims)).toBe(format);
+  });
+
+  it.each([
+    [[84, 8400]],    // no batch dimension
+    [[2, 84, 8400]], // batch of two
+    [[1, 4, 8400]],  // boxes with no scores
+    [[1, 8400, 5]],  // too few columns for any layout
+  ])("rejects %j", dims => {
+    expect(() => detectYOLOOutputFormat(dims)).toThrow("Unsupported YOLO output shape");
+  });
+});
@@ -0,0 +1,182 @@
+/**
+ * Decoders for the output layouts of the YOLO generations the app can load.
+ *
+ * Exporters lay out `output0` differently per generation, and decoding one with
+ * another's reader silently produces nonsense boxes, so the layout is read from
+ * the output tensor's shape rather than assumed:
+ *
+ *   v5:  [1, anchors, 5 + classes]  rows of cx, cy, w, h, objectness, class scores
+ *   v8:  [1, 4 + classes, anchors]  channels first; cx, cy, w, h, class scores, no objectness
+ *   v8-transposed: [1, anchors, 4 + classes]  the same values a row per anchor, as some exports write them
+ *   v10: [1, maxDetections, 6]      end-to-end, already suppressed; x1, y1, x2, y2, score, class
+ *
+ * v5 and transposed v8 rows differ only by the objectness column, so they are
+ * told apart by the class count: 84 columns is v8 with the 80 COCO classes.
+ * Models with other class counts in that layout are read as v5.
+ *
+ * All boxes come out in model input pixels as the shared `YOLODetection` type.
+ */
+import { COCO_CLASSES, YOLODetection, applyNMS } from "@/utils/yoloPipeline";
+
+export type YOLOOutputFormat = "v5" | "v8" | "v8-transposed" | "v10";
+
+export interface YOLOOutputAdapter {
+  format: YOLOOutputFormat;
+  // Candidates above the confidence threshold, before suppression
+  decode: (data: Float32Array, dims: readonly number[]) => YOLODetection[];
+  // v10 models suppress duplicates themselves
+  needsNMS: boolean;
+}
+
+// Final score (objectness × class probability where there is one) below which boxes are dropped
+const CONFIDENCE_THRESHOLD = 0.2;
+// YOLOv5's objectness alone must clear this before class scores are looked at
+const OBJECTNESS_THRESHOLD = 0.3;
+// End-to-end exports cap their output at max_det (300 by default); anchor grids are far larger
+const MAX_END_TO_END_ROWS = 1000;
+// More than this is noise when spoken aloud
+const MAX_DETECTIONS = 15;
+
+const classLabel = (index: number) => COCO_CLASSES[index] ?? `object ${index}`;
+
+const v5Adapter: YOLOOutputAdapter = {
+  format: "v5",
+  needsNMS: true,
+  decode(data, dims) {
+    const [, rows, stride] = dims;
+    const numClasses = stride - 5;
+    const detections: YOLODetection[] = [];
+
+    for (let i = 0; i < rows; i++) {
+      const offset = i * stride;
+      const objectness = data[offset + 4];
+      if (objectness <= OBJECTNESS_THRESHOLD) continue;
+
+      let maxClassProb = 0;
+      let classIndex = 0;
+      for (let j = 0; j < numClasses; j++) {
+        const classProb = data[offset + 5 + j];
+        if (classProb > maxClassProb) {
+          maxClassProb = classProb;
+          classIndex = j;
+        }
+      }
+
+      const confidence = objectness * maxClassProb;
+      if (confidence <= CONFIDENCE_THRESHOLD) continue;
+
+      const width = data[offset + 2];
+      const height = data[offset + 3];
+      detections.push({
+        label: classLabel(classIndex),
+        confidence,
+        bbox: [data[offset] - width / 2, data[offset + 1] - height / 2, width, height],
+      });
+    }
+    return detections;
+  },
+};
+
+// v8 values for anchor i, channel c are read through `at`, so both layouts share one decoder
+function decodeV8(anchors: number, channels: number, at: (i: number, c: number) => number): YOLODetection[] {
+  const numClasses = channels - 4;
+  const detections: YOLODetection[] = [];
+
+  for (let i = 0; i < anchors; i++) {
+    let confidence = 0;
+    let classIndex = 0;
+    for (let j = 0; j < numClasses; j++) {
+      const classProb = at(i, 4 + j);
+      if (classProb > confidence) {
+        confidence = classProb;
+        classIndex = j;
+      }
+    }
+    if (confidence <= CONFIDENCE_THRESHOLD) continue;
+
+    const width = at(i, 2);
+    const height = at(i, 3);
+    detections.push({
+      label: classLabel(classIndex),
+      confidence,
+      bbox: [at(i, 0) - width / 2, at(i, 1) - height / 2, width, height],
+    });
+  }
+  return detections;
+}
+
+const v8Adapter: YOLOOutputAdapter = {
+  format: "v8",
+  needsNMS: true,
+  decode(data, dims) {
+    const [, channels, anchors] = dims;
+    // Channel c of anchor i lives at c * anchors + i
+    return decodeV8(anchors, channels, (i, c) => data[c * anchors + i]);
+  },
+};
+
+const v8TransposedAdapter: YOLOOutputAdapter = {
+  format: "v8-transposed",
+  needsNMS: true,
+  decode(data, dims) {
+    const [, anchors, channels] = dims;
+    return decodeV8(anchors, channels, (i, c) => data[i * channels + c]);
+  },
+};
+
+const v10Adapter: YOLOOutputAdapter = {
+  format: "v10",
+  needsNMS: false,
+  decode(data, dims) {
+    const [, rows, stride] = dims;
+    const detections: YOLODetection[] = [];
+
+    for (let i = 0; i < rows; i++) {
+      const offset = i * stride;
+      const confidence = data[offset + 4];
+      if (confidence <= CONFIDENCE_THRESHOLD) continue;
+
+      const x1 = data[offset];
+      const y1 = data[offset + 1];
+      detections.push({
+        label: classLabel(Math.round(data[offset + 5])),
+        confidence,
+        bbox: [x1, y1, data[offset + 2] - x1, data[offset + 3] - y1],
+      });
+    }
+    return detections;
+  },
+};
+
+export const YOLO_OUTPUT_ADAPTERS: Record<YOLOOutputFormat, YOLOOutputAdapter> = {
+  v5: v5Adapter,
+  v8: v8Adapter,
+  "v8-transposed": v8TransposedAdapter,
+  v10: v10Adapter,
+};
+
+// Picks the layout from the output shape; throws for shapes none of the adapters can read
+export function detectYOLOOutputFormat(dims: readonly number[]): YOLOOutputFormat {
+  if (dims.length !== 3 || dims[0] !== 1) {
+    throw new Error(`Unsupported YOLO output shape [${dims.join(", ")}]`);
+  }
+  const [, rows, columns] = dims;
+  if (columns === 6 && rows <= MAX_END_TO_END_ROWS) return "v10";
+  // Channels first: a few dozen channels against thousands of anchors
+  if (rows < columns && rows > 4) return "v8";
+  // Row per anchor: thousands of anchors against a few dozen columns
+  if (rows > columns && columns === 4 + COCO_CLASSES.length) return "v8-transposed";
+  if (rows > columns && columns > 5) return "v5";
+  throw new Error(`Unsupported YOLO output shape [${dims.join(", ")}]`);
+}
+
+export function getYOLOOutputAdapter(dims: readonly number[]): YOLOOutputAdapter {
+  return YOLO_OUTPUT_ADAPTERS[detectYOLOOutputFormat(dims)];
+}
+
+// Decodes, suppresses duplicates where the model has not, and keeps the most confident boxes
+export function decodeYOLOOutput(adapter: YOLOOutputAdapter, data: Float32Array, dims: readonly number[]): YOLODetection[] {
+  const candidates = adapter.decode(data, dims);
+  const detections = adapter.needsNMS ? applyNMS(candidates) : candidates.sort((a, b) => b.confidence - a.confidence);
+  return detections.slice(0, MAX_DETECTIONS);
+}
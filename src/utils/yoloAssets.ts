@@ -0,0 +1,24 @@
+/**
+ * Where the object detector's model and ONNX Runtime WebAssembly come from.
+ *
+ * Both are served from the app's own origin and cached on first use, so object
+ * detection needs no third-party CDN and keeps working offline afterwards.
+ * The model is not in the repository; README.md explains where to put it.
+ */
+import ortWasmUrl from "onnxruntime-web-dist/ort-wasm-simd-threaded.jsep.wasm?url";
+import type { PinnedAsset } from "./assetCache";
+
+export const YOLO_MODEL_ASSET: PinnedAsset = {
+  url: `${import.meta.env.BASE_URL}models/yolov8n.onnx`,
+  // Pinned per deployment, since the model file is supplied by whoever hosts the app;
+  // a production build without VITE_YOLO_MODEL_SHA256 will not load the model
+  sha256: import.meta.env.VITE_YOLO_MODEL_SHA256,
+  label: "YOLOv8n detection model",
+};
+
+// Must change together with the onnxruntime-web version in package-lock.json
+export const ORT_WASM_ASSET: PinnedAsset = {
+  url: ortWasmUrl,
+  sha256: "b45970d0632383a057c27ca5b660b216f8e00c17cf8db9f6207b5e4abc839368", // onnxruntime-web 1.22.0
+  label: "ONNX Runtime WebAssembly",
+};
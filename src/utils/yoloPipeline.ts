@@ -0,0 +1,151 @@
+/**
+ * The YOLO detection pipeline without any threading: frame pixels to an input
+ * tensor via letterboxing, boxes back to frame pixels, and duplicate
+ * suppression. Decoding the raw model output depends on the YOLO generation and
+ * lives in yoloAdapters.ts; following objects across frames is objectTracker.ts.
+ *
+ * Runs in the detection worker (src/workers/yolo.worker.ts); nothing here
+ * touches the DOM, so it works the same on any thread.
+ */
+
+// COCO dataset classes (80 classes) - what YOLO models typically detect
+export const COCO_CLASSES = [
+  "person", "bicycle", "car", "motorcycle", "airplane", "bus", "train", "truck", "boat",
+  "traffic light", "fire hydrant", "stop sign", "parking meter", "bench", "bird", "cat",
+  "dog", "horse", "sheep", "cow", "elephant", "bear", "zebra", "giraffe", "backpack",
+  "umbrella", "handbag", "tie", "suitcase", "frisbee", "skis", "snowboard", "sports ball",
+  "kite", "baseball bat", "baseball glove", "skateboard", "surfboard", "tennis racket",
+  "bottle", "wine glass", "cup", "fork", "knife", "spoon", "bowl", "banana", "apple",
+  "sandwich", "orange", "broccoli", "carrot", "hot dog", "pizza", "donut", "cake",
+  "chair", "couch", "potted plant", "bed", "dining table", "toilet", "tv", "laptop",
+  "mouse", "remote", "keyboard", "cell phone", "microwave", "oven", "toaster", "sink",
+  "refrigerator", "book", "clock", "vase", "scissors", "teddy bear", "hair drier", "toothbrush"
+];
+
+// Frames are scaled to this square before inference, so boxes are in these units
+export const YOLO_INPUT_SIZE = 640;
+
+export type YOLODetection = {
+  label: string;
+  confidence: number;
+  bbox: [number, number, number, number]; // [x, y, width, height] in camera frame pixels once out of the worker
+};
+
+// Pixel size of a camera frame; detections are always reported in these coordinates
+export type FrameSize = { width: number; height: number };
+
+/**
+ * How a frame was fitted into the square model input: scaled to fit without
+ * distortion, then centred with padding on the short side. Boxes from the model
+ * are mapped back through it so the overlay, earcons and any spatial reasoning
+ * all work in the camera frame's own pixels.
+ */
+export interface Letterbox {
+  scale: number;      // model pixels per frame pixel
+  padX: number;       // model pixels of padding left of the frame
+  padY: number;       // model pixels of padding above the frame
+  contentWidth: number;
+  contentHeight: number;
+  source: FrameSize;
+}
+
+// The grey Ultralytics pads with during training, so padding reads as "nothing here"
+export const LETTERBOX_FILL = "rgb(114, 114, 114)";
+
+export function computeLetterbox(source: FrameSize, size = YOLO_INPUT_SIZE): Letterbox {
+  const scale = Math.min(size / source.width, size / source.height);
+  const contentWidth = Math.round(source.width * scale);
+  const contentHeight = Math.round(source.height * scale);
+  return {
+    scale,
+    padX: Math.floor((size - contentWidth) / 2),
+    padY: Math.floor((size - contentHeight) / 2),
+    contentWidth,
+    contentHeight,
+    source,
+  };
+}
+
+// Model-input box to frame pixels, clipped to the frame (boxes can spill into the padding)
+export function letterboxToSource(bbox: [number, number, number, number], letterbox: Letterbox): [number, number, number, number] {
+  const { scale, padX, padY, source } = letterbox;
+  const x1 = Math.max(0, Math.min(source.width, (bbox[0] - padX) / scale));
+  const y1 = Math.max(0, Math.min(source.height, (bbox[1] - padY) / scale));
+  const x2 = Math.max(0, Math.min(source.width, (bbox[0] + bbox[2] - padX) / scale));
+  const y2 = Math.max(0, Math.min(source.height, (bbox[1] + bbox[3] - padY) / scale));
+  return [x1, y1, x2 - x1, y2 - y1];
+}
+
+/**
+ * Optional preprocessing on top of the standard 0–1 scaling.
+ *
+ * gamma: applied to every channel before inference; values below 1 lift
+ * shadows, which can help in dim rooms but shifts colours away from what the
+ * model was trained on. Off unless set.
+ */
+export interface YOLOPreprocessOptions {
+  gamma?: number;
+}
+
+// Byte value to model input for each channel; a lookup table avoids 1.2 million Math.pow calls per frame
+export function createChannelTable({ gamma }: YOLOPreprocessOptions = {}): Float32Array {
+  return Float32Array.from({ length: 256 }, (_, value) => (gamma ? Math.pow(value / 255, gamma) : value / 255));
+}
+
+// RGBA pixels to the planar RGB float tensor YOLO expects (channels first)
+export function pixelsToTensorData(pixels: Uint8ClampedArray, size: number, table: Float32Array): Float32Array {
+  const area = size * size;
+  const input = new Float32Array(3 * area);
+  for (let pixelIndex = 0, i = 0; pixelIndex < area; pixelIndex++, i += 4) {
+    input[pixelIndex] = table[pixels[i]];
+    input[pixelIndex + area] = table[pixels[i + 1]];
+    input[pixelIndex + 2 * area] = table[pixels[i + 2]];
+  }
+  return input;
+}
+
+// Calculate Intersection over Union
+export function calculateIOU(box1: [number, number, number, number], box2: [number, number, number, number]): number {
+  const [x1, y1, w1, h1] = box1;
+  const [x2, y2, w2, h2] = box2;
+
+  const xA = Math.max(x1, x2);
+  const yA = Math.max(y1, y2);
+  const xB = Math.min(x1 + w1, x2 + w2);
+  const yB = Math.min(y1 + h1, y2 + h2);
+
+  const interArea = Math.max(0, xB - xA) * Math.max(0, yB - yA);
+  const box1Area = w1 * h1;
+  const box2Area = w2 * h2;
+  const unionArea = box1Area + box2Area - interArea;
+
+  return unionArea === 0 ? 0 : interArea / unionArea;
+}
+
+// Apply Non-Maximum Suppression to remove duplicate detections
+export function applyNMS(detections: YOLODetection[], iouThreshold = 0.5): YOLODetection[] {
+  if (detections.length === 0) return [];
+
+  // Sort by confidence
+  detections.sort((a, b) => b.confidence - a.confidence);
+
+  const keep: YOLODetection[] = [];
+  const suppressed = new Set<number>();
+
+  for (let i = 0; i < detections.length; i++) {
+    if (suppressed.has(i)) continue;
+
+    keep.push(detections[i]);
+
+    for (let j = i + 1; j < detections.length; j++) {
+      if (suppressed.has(j)) continue;
+
+      const iou = calculateIOU(detections[i].bbox, detections[j].bbox);
+      if (iou > iouThreshold && detections[i].label === detections[j].label) {
+        suppressed.add(j);
+      }
+    }
+  }
+
+  return keep;
+}
@@ -1 +1,6 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  // SHA-256 (hex) of public/models/yolov8n.onnx, checked before the model is used; required in production builds
+  readonly VITE_YOLO_MODEL_SHA256?: string;
+}
@@ -0,0 +1,114 @@
+/**
+ * Web Worker running neural text-to-speech off the main thread.
+ *
+ * The page posts text to say; the worker loads the requested MMS-TTS checkpoint
+ * on first use, synthesizes messages one at a time in arrival order, and posts
+ * back the waveform for the page to play through Web Audio.
+ */
+import { pipeline } from "@huggingface/transformers";
+
+export type TtsWorkerRequest =
+  | { type: "load"; model: string }
+  | { type: "synthesize"; id: number; text: string; model: string }
+  | { type: "cancel"; id: number };
+
+export type TtsWorkerResponse =
+  | { type: "loading"; model: string; progress: number }
+  | { type: "ready"; model: string }
+  | { type: "audio"; id: number; audio: Float32Array; samplingRate: number; inferenceMs: number }
+  | { type: "error"; id?: number; model?: string; message: string };
+
+type Synthesizer = Awaited<ReturnType<typeof pipeline<"text-to-speech">>>;
+
+let synthesizer: Synthesizer | null = null;
+let loadedModel: string | null = null;
+// The model asked for last; a load that finishes after another was requested is not kept
+let wantedModel: string | null = null;
+// Loads in flight by model id, so requests for the same model share one download
+const loading = new Map<string, Promise<Synthesizer>>();
+let queue: Promise<void> = Promise.resolve();
+const cancelled = new Set<number>();
+
+class SupersededLoadError extends Error {
+  constructor(model: string) {
+    super(`Loading ${model} was superseded by ${wantedModel}`);
+    this.name = "SupersededLoadError";
+  }
+}
+
+const post = (message: TtsWorkerResponse, transfer: Transferable[] = []) => self.postMessage(message, { transfer });
+
+function loadModel(model: string): Promise<Synthesizer> {
+  wantedModel = model;
+  if (synthesizer && loadedModel === model) return Promise.resolve(synthesizer);
+  const inFlight = loading.get(model);
+  if (inFlight) return inFlight;
+
+  const previous = synthesizer;
+  synthesizer = null;
+  loadedModel = null;
+  post({ type: "loading", model, progress: 0 });
+
+  const load = (async () => {
+    await previous?.dispose();
+    const loaded = await pipeline("text-to-speech", model, {
+      progress_callback: info => {
+        if (info.status === "progress") {
+          post({ type: "loading", model, progress: Math.round(info.progress) });
+        }
+      },
+    });
+    // Downloaded and cached either way, so the page can count on it next time
+    post({ type: "ready", model });
+    if (wantedModel !== model) {
+      await loaded.dispose();
+      throw new SupersededLoadError(model);
+    }
+    synthesizer = loaded;
+    loadedModel = model;
+    return loaded;
+  })();
+
+  loading.set(model, load);
+  load.catch(() => {
+    // Reported to whoever asked for the load
+  }).finally(() => {
+    if (loading.get(model) === load) loading.delete(model);
+  });
+  return load;
+}
+
+async function synthesize(id: number, text: string, model: string) {
+  // Superseded while waiting behind a longer message
+  if (cancelled.delete(id)) return;
+  try {
+    const run = await loadModel(model);
+    const startedAt = performance.now();
+    const output = await run(text, {});
+    if (cancelled.delete(id)) return;
+    post(
+      { type: "audio", id, audio: output.audio, samplingRate: output.sampling_rate, inferenceMs: Math.round(performance.now() - startedAt) },
+      [output.audio.buffer]
+    );
+  } catch (error) {
+    post({ type: "error", id, message: error instanceof Error ? error.message : String(error) });
+  }
+}
+
+self.onmessage = (event: MessageEvent<TtsWorkerRequest>) => {
+  const request = event.data;
+  if (request.type === "load") {
+    loadModel(request.model).catch(error => {
+      // Its "ready" was already sent; only the newer model is kept in memory
+      if (error instanceof SupersededLoadError) return;
+      post({ type: "error", model: request.model, message: error instanceof Error ? error.message : String(error) });
+    });
+    return;
+  }
+  if (request.type === "cancel") {
+    cancelled.add(request.id);
+    return;
+  }
+
+  queue = queue.then(() => synthesize(request.id, request.text, request.model));
+};
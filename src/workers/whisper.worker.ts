@@ -0,0 +1,108 @@
+/**
+ * Web Worker running Whisper speech recognition off the main thread.
+ *
+ * The page posts 16 kHz mono speech segments cut by the voice activity detector;
+ * the worker loads the requested checkpoint on first use, transcribes segments
+ * one at a time in arrival order, and posts back the text.
+ */
+import { pipeline } from "@huggingface/transformers";
+
+export type WhisperWorkerRequest =
+  | { type: "load"; model: string }
+  | { type: "transcribe"; id: number; audio: Float32Array; model: string; language?: string };
+
+export type WhisperWorkerResponse =
+  | { type: "loading"; model: string; progress: number }
+  | { type: "ready"; model: string }
+  | { type: "result"; id: number; text: string; inferenceMs: number }
+  | { type: "error"; id?: number; message: string };
+
+type Transcriber = Awaited<ReturnType<typeof pipeline<"automatic-speech-recognition">>>;
+
+let transcriber: Transcriber | null = null;
+let loadedModel: string | null = null;
+// The model asked for last; a load that finishes after another was requested is not kept
+let wantedModel: string | null = null;
+// Loads in flight by model id, so requests for the same model share one download
+const loading = new Map<string, Promise<Transcriber>>();
+let queue: Promise<void> = Promise.resolve();
+
+class SupersededLoadError extends Error {
+  constructor(model: string) {
+    super(`Loading ${model} was superseded by ${wantedModel}`);
+    this.name = "SupersededLoadError";
+  }
+}
+
+const post = (message: WhisperWorkerResponse) => self.postMessage(message);
+
+function loadModel(model: string): Promise<Transcriber> {
+  wantedModel = model;
+  if (transcriber && loadedModel === model) return Promise.resolve(transcriber);
+  const inFlight = loading.get(model);
+  if (inFlight) return inFlight;
+
+  const previous = transcriber;
+  transcriber = null;
+  loadedModel = null;
+  post({ type: "loading", model, progress: 0 });
+
+  const load = (async () => {
+    await previous?.dispose();
+    const loaded = await pipeline("automatic-speech-recognition", model, {
+      device: "auto",
+      progress_callback: info => {
+        if (info.status === "progress") {
+          post({ type: "loading", model, progress: Math.round(info.progress) });
+        }
+      },
+    });
+    post({ type: "ready", model });
+    if (wantedModel !== model) {
+      await loaded.dispose();
+      throw new SupersededLoadError(model);
+    }
+    transcriber = loaded;
+    loadedModel = model;
+    return loaded;
+  })();
+
+  loading.set(model, load);
+  load.catch(() => {
+    // Reported to whoever asked for the load
+  }).finally(() => {
+    if (loading.get(model) === load) loading.delete(model);
+  });
+  return load;
+}
+
+// Whisper annotates silence and noise as "[BLANK_AUDIO]", "(music)" and the like
+function cleanTranscript(text: string): string {
+  return text.replace(/\[[^\]]*\]|\([^)]*\)|\*[^*]*\*/g, " ").replace(/\s+/g, " ").trim();
+}
+
+async function transcribe(id: number, audio: Float32Array, model: string, language?: string) {
+  try {
+    const run = await loadModel(model);
+    const startedAt = performance.now();
+    const output = await run(audio, language ? { language, task: "transcribe" } : {});
+    const text = Array.isArray(output) ? output.map(part => part.text).join(" ") : output.text;
+    post({ type: "result", id, text: cleanTranscript(text), inferenceMs: Math.round(performance.now() - startedAt) });
+  } catch (error) {
+    post({ type: "error", id, message: error instanceof Error ? error.message : String(error) });
+  }
+}
+
+self.onmessage = (event: MessageEvent<WhisperWorkerRequest>) => {
+  const request = event.data;
+  if (request.type === "load") {
+    loadModel(request.model).catch(error => {
+      // The page has moved on to another model, so this is no reason to stop listening
+      if (error instanceof SupersededLoadError) return;
+      post({ type: "error", message: error instanceof Error ? error.message : String(error) });
+    });
+    return;
+  }
+
+  queue = queue.then(() => transcribe(request.id, request.audio, request.model, request.language));
+};
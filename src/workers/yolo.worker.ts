@@ -0,0 +1,141 @@
+/**
+ * Web Worker running the whole YOLO pipeline off the main thread.
+ *
+ * The page transfers camera frames as ImageBitmaps already scaled to fit the
+ * model's input; the worker letterboxes each one on an OffscreenCanvas, builds
+ * the input tensor, runs inference, decodes the boxes and maps them back to the
+ * camera frame's pixels, and posts back the detections with how long each
+ * stage took. Tracking across frames happens on the page. The page sends at most one frame at
+ * a time, so frames are dropped while the worker is busy instead of piling up.
+ */
+import * as ort from "onnxruntime-web";
+import {
+  FrameSize,
+  LETTERBOX_FILL,
+  YOLO_INPUT_SIZE,
+  YOLODetection,
+  YOLOPreprocessOptions,
+  computeLetterbox,
+  createChannelTable,
+  letterboxToSource,
+  pixelsToTensorData,
+} from "@/utils/yoloPipeline";
+import { YOLOOutputAdapter, decodeYOLOOutput, getYOLOOutputAdapter } from "@/utils/yoloAdapters";
+
+export interface YOLOStageTimings {
+  preprocessMs: number;
+  inferenceMs: number;
+  postprocessMs: number;
+}
+
+export type YOLOWorkerRequest =
+  | { type: "load"; wasmBinary: ArrayBuffer; model: ArrayBuffer; numThreads: number; preprocess: YOLOPreprocessOptions }
+  // frame is the source scaled to its letterbox content size; source is the camera frame's own size
+  | { type: "detect"; id: number; frame: ImageBitmap; source: FrameSize };
+
+export type YOLOWorkerResponse =
+  | { type: "ready" }
+  | { type: "detections"; id: number; detections: YOLODetection[]; timings: YOLOStageTimings }
+  | { type: "error"; id?: number; message: string };
+
+// A stuck inference would hold up every later frame
+const INFERENCE_TIMEOUT_MS = 5000;
+
+let session: ort.InferenceSession | null = null;
+let context: OffscreenCanvasRenderingContext2D | null = null;
+// Chosen from the first output's shape, which is fixed for a given model
+let adapter: YOLOOutputAdapter | null = null;
+let channelTable = createChannelTable();
+// Set until the session's run really settles; a timed-out run keeps going, and the session takes one run at a time
+let running = false;
+
+const post = (message: YOLOWorkerResponse) => self.postMessage(message);
+
+async function load(wasmBinary: ArrayBuffer, model: ArrayBuffer, numThreads: number, preprocess: YOLOPreprocessOptions) {
+  try {
+    channelTable = createChannelTable(preprocess);
+    ort.env.wasm.wasmBinary = wasmBinary;
+    ort.env.wasm.numThreads = numThreads;
+    // WebGL needs the page's document, so the worker runs on WebAssembly
+    session = await ort.InferenceSession.create(new Uint8Array(model), {
+      executionProviders: ["wasm"],
+      graphOptimizationLevel: "all",
+    });
+    adapter = null;
+    const canvas = new OffscreenCanvas(YOLO_INPUT_SIZE, YOLO_INPUT_SIZE);
+    context = canvas.getContext("2d", { willReadFrequently: true });
+    post({ type: "ready" });
+  } catch (error) {
+    post({ type: "error", message: error instanceof Error ? error.message : String(error) });
+  }
+}
+
+async function detect(id: number, frame: ImageBitmap, source: FrameSize) {
+  try {
+    if (!session || !context) throw new Error("Detection model is not loaded");
+    if (running) throw new Error("Still finishing a timed-out inference, frame dropped");
+
+    const preprocessStart = performance.now();
+    const letterbox = computeLetterbox(source);
+    context.fillStyle = LETTERBOX_FILL;
+    context.fillRect(0, 0, YOLO_INPUT_SIZE, YOLO_INPUT_SIZE);
+    context.drawImage(frame, letterbox.padX, letterbox.padY, letterbox.contentWidth, letterbox.contentHeight);
+    frame.close();
+    const { data } = context.getImageData(0, 0, YOLO_INPUT_SIZE, YOLO_INPUT_SIZE);
+    const tensor = new ort.Tensor("float32", pixelsToTensorData(data, YOLO_INPUT_SIZE, channelTable), [1, 3, YOLO_INPUT_SIZE, YOLO_INPUT_SIZE]);
+
+    const inferenceStart = performance.now();
+    running = true;
+    const run = session.run({ [session.inputNames[0]]: tensor }).finally(() => {
+      running = false;
+    });
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    let results: Awaited<typeof run>;
+    try {
+      results = await Promise.race([
+        run,
+        new Promise<never>((_, reject) => {
+          timer = setTimeout(() => reject(new Error("Inference timeout")), INFERENCE_TIMEOUT_MS);
+        }),
+      ]);
+    } finally {
+      clearTimeout(timer);
+    }
+
+    const postprocessStart = performance.now();
+    const output = results[session.outputNames[0]] as ort.Tensor;
+    if (!adapter) {
+      adapter = getYOLOOutputAdapter(output.dims);
+      console.log(`YOLO output [${output.dims.join(", ")}] decoded as ${adapter.format}`);
+    }
+    const detections = decodeYOLOOutput(adapter, output.data as Float32Array, output.dims)
+      .map(detection => ({ ...detection, bbox: letterboxToSource(detection.bbox, letterbox) }));
+    const end = performance.now();
+
+    post({
+      type: "detections",
+      id,
+      detections,
+      timings: {
+        preprocessMs: Math.round(inferenceStart - preprocessStart),
+        inferenceMs: Math.round(postprocessStart - inferenceStart),
+        postprocessMs: Math.round(end - postprocessStart),
+      },
+    });
+  } catch (error) {
+    frame.close();
+    post({ type: "error", id, message: error instanceof Error ? error.message : String(error) });
+  }
+}
+
+self.onmessage = (event: MessageEvent<YOLOWorkerRequest>) => {
+  const request = event.data;
+  switch (request.type) {
+    case "load":
+      load(request.wasmBinary, request.model, request.numThreads, request.preprocess);
+      break;
+    case "detect":
+      detect(request.id, request.frame, request.source);
+      break;
+  }
+};
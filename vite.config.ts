@@ -17,6 +17,8 @@ export default defineConfig(({ mode }) => ({
   resolve: {
     alias: {
       "@": path.resolve(__dirname, "./src"),
+      // The package's exports hide its WebAssembly files, which are served from this origin (see src/utils/yoloAssets.ts)
+      "onnxruntime-web-dist": path.resolve(__dirname, "./node_modules/onnxruntime-web/dist"),
     },
   },
 }));